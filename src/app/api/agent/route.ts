@@ -1,495 +1,482 @@
 import { NextRequest } from "next/server";
-
-type AnalyzeRequest = {
-  mode: "analyze";
-  content: string;
-  threadHistory?: string;
-  persona?: string;
-};
-
-type ComposeRequest = {
-  mode: "compose";
-  audience: string;
-  objective: string;
-  tone: Tone;
-  keyPoints: string[];
-  callToAction?: string;
-  signature?: string;
-};
-
-type Tone = "professional" | "friendly" | "concise" | "assertive" | "warm";
-
-type AnalyzePayload = {
-  summary: string;
-  sentiment: "positive" | "neutral" | "negative";
-  priority: "low" | "medium" | "high";
-  tags: string[];
-  subjectSuggestion: string;
-  tasks: {
-    description: string;
-    due?: string;
-    owner?: string;
-  }[];
-  followUpRecommendation: string;
-  recommendedReply: {
-    subject: string;
-    body: string;
-  };
-};
-
-type ComposePayload = {
-  subject: string;
-  preview: string;
-  body: string;
-  cadenceTip: string;
-};
-
-const POSITIVE_WORDS = [
-  "thank",
-  "appreciate",
-  "great",
-  "glad",
-  "pleased",
-  "happy",
-  "excited",
-];
-
-const NEGATIVE_WORDS = [
-  "concern",
-  "issue",
-  "problem",
-  "delayed",
-  "delay",
-  "blocked",
-  "urgent",
-  "frustrated",
-  "disappointed",
-];
-
-const URGENCY_WORDS = ["urgent", "asap", "immediately", "priority", "important"];
-
-const FOLLOW_UP_TEMPLATES: Record<
-  Tone,
-  { subject: string; opening: string; closing: string }
-> = {
-  professional: {
-    subject: "Quick follow-up on your message",
-    opening: "Thank you for reaching out. I wanted to follow up on your note.",
-    closing:
-      "Let me know if you need anything else in the meantime and I'll happily assist.",
-  },
-  friendly: {
-    subject: "Thanks for the update!",
-    opening: "Thanks a bunch for the message. I wanted to keep the momentum going.",
-    closing: "Looking forward to hearing back when you have a moment.",
-  },
-  concise: {
-    subject: "Following up",
-    opening: "Appreciate the note. Here's what we'll do next:",
-    closing: "Ping me if priorities change.",
-  },
-  assertive: {
-    subject: "Action needed",
-    opening:
-      "Thanks for the details. To keep us on schedule we need to tackle the following:",
-    closing:
-      "Please confirm the action items so we can close the loop without delay.",
-  },
-  warm: {
-    subject: "Appreciate the note",
-    opening:
-      "Thank you so much for your thoughtful message. Here's how I'll move things forward:",
-    closing:
-      "Let me know how it all lands—always glad to support where I can.",
-  },
+import { loadAvailability } from "@/lib/availability";
+import { countTags, rankBatch } from "@/lib/batch";
+import { parseInvite } from "@/lib/calendar";
+import { getContactRepository, matchContact } from "@/lib/contacts";
+import { isValidTimeZone } from "@/lib/dates";
+import { diffWords } from "@/lib/diff";
+import { AnalysisEngine, AnalyzeInput, getAnalysisEngine, ToneTemplate } from "@/lib/engine";
+import { remapEvidence } from "@/lib/evidence";
+import { ExportFile, exportInviteResponse, exportTasks } from "@/lib/export";
+import { errorResponse, jsonResponse, ndjsonResponse, readJsonBody } from "@/lib/http";
+import { lintDraft } from "@/lib/lint";
+import { getMailConnector, getMailCursorStore, getSenderAddress, MailSourceError } from "@/lib/mailbox";
+import { formatAddress, ParsedEmail, parseRawEmail, splitMbox } from "@/lib/mime";
+import {
+  AgentProgress,
+  AgentRequest,
+  AgentStreamEvent,
+  AnalyzeResponse,
+  ApiError,
+  BatchResponse,
+  LIMITS,
+  LintResponse,
+  parseAgentRequest,
+  PullRequest,
+  PullResponse,
+  ReviseResponse,
+  STREAM_CONTENT_TYPE,
+  ThreadMessage,
+  ThreadRollup,
+} from "@/lib/schema";
+import { segmentMessage, toSourceOffset } from "@/lib/segment";
+import { planSequence } from "@/lib/sequence";
+import { buildThreadRollup, sortThread } from "@/lib/thread";
+import { loadToneLibrary } from "@/lib/tones";
+
+// Raw .eml uploads are the largest legitimate bodies; leave headroom for JSON escaping.
+const MAX_BODY_BYTES = LIMITS.raw * 2;
+
+// Batch, pull, revise, lint, export, and invite responses answer in one piece; batches are ranked only once every message is in.
+const STREAMED_MODES: AgentRequest["mode"][] = ["analyze", "analyze-eml", "compose", "sequence"];
+
+// Messages analyzed at once in a batch, pull, or thread; more would only queue up at the LLM provider's rate limit.
+const BATCH_CONCURRENCY = 4;
+
+const UNREADABLE_MESSAGE = "This message is malformed and could not be read.";
+
+const AGENT_FAILURE: ApiError = {
+  code: "internal_error",
+  message: "The agent could not complete this request.",
 };
 
 export async function POST(request: NextRequest) {
-  const payload = (await request.json()) as AnalyzeRequest | ComposeRequest;
-
-  if (payload.mode === "analyze") {
-    const content = payload.content?.trim();
-    if (!content) {
-      return new Response(
-        JSON.stringify({ error: "Email content is required." }),
-        { status: 400 },
-      );
-    }
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
 
-    const analysis = analyzeEmail(content, payload.threadHistory, payload.persona);
-    return new Response(JSON.stringify(analysis), { status: 200 });
+  const parsed = parseAgentRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
   }
 
-  if (payload.mode === "compose") {
-    const result = composeEmail({
-      audience: payload.audience.trim(),
-      objective: payload.objective.trim(),
-      tone: payload.tone,
-      keyPoints: payload.keyPoints,
-      callToAction: payload.callToAction?.trim(),
-      signature: payload.signature?.trim(),
+  const payload = parsed.value;
+  if (request.headers.get("accept")?.includes(STREAM_CONTENT_TYPE) && STREAMED_MODES.includes(payload.mode)) {
+    return ndjsonResponse<AgentStreamEvent<unknown>>(async (send) => {
+      try {
+        const response = await handleRequest(payload, getAnalysisEngine(), (progress) =>
+          send({ type: "progress", progress }),
+        );
+        const body = await response.json();
+        send(response.ok ? { type: "result", result: body } : { type: "error", error: body.error });
+      } catch (error) {
+        console.error("Agent request failed", error);
+        send({ type: "error", error: AGENT_FAILURE });
+      }
     });
-    return new Response(JSON.stringify(result), { status: 200 });
   }
 
-  return new Response(JSON.stringify({ error: "Unsupported mode." }), {
-    status: 400,
-  });
+  try {
+    return await handleRequest(payload, getAnalysisEngine());
+  } catch (error) {
+    console.error("Agent request failed", error);
+    return errorResponse(AGENT_FAILURE);
+  }
 }
 
-function analyzeEmail(
-  content: string,
-  threadHistory?: string,
-  persona?: string,
-): AnalyzePayload {
-  const sentiment = detectSentiment(content);
-  const priority = determinePriority(content);
-  const tasks = extractTasks(content);
-  const subjectSuggestion = buildSubject(tasks, priority, sentiment);
-  const summary = summarize(content, threadHistory);
-  const tags = buildTags({ priority, sentiment, tasks });
-  const followUpRecommendation = buildFollowUpRecommendation({
-    priority,
-    tasks,
-    content,
-  });
-
-  const tone: Tone = priority === "high" ? "assertive" : "professional";
-  const recommendedReply = generateReply({
-    tone,
-    tasks,
-    summary,
-    persona,
-  });
+async function handleRequest(
+  payload: AgentRequest,
+  engine: AnalysisEngine,
+  report: (progress: AgentProgress) => void = () => {},
+): Promise<Response> {
+  if (payload.mode === "export") {
+    return fileResponse(
+      exportTasks(payload, new Date(), resolveTimeZone(payload.timeZone)),
+    );
+  }
 
-  return {
-    summary,
-    sentiment,
-    priority,
-    subjectSuggestion,
-    tags,
-    tasks,
-    followUpRecommendation,
-    recommendedReply,
-  };
-}
+  if (payload.mode === "lint") {
+    return jsonResponse(lintDraft(payload) satisfies LintResponse);
+  }
 
-function composeEmail({
-  audience,
-  objective,
-  tone,
-  keyPoints,
-  callToAction,
-  signature,
-}: Omit<ComposeRequest, "mode">): ComposePayload {
-  const cleanPoints = keyPoints
-    .map((point) => point.trim())
-    .filter(Boolean)
-    .map((point) => (point.startsWith("-") ? point.slice(1).trim() : point));
-
-  const toneTemplate = FOLLOW_UP_TEMPLATES[tone];
-  const subject = craftSubjectFromObjective(objective, toneTemplate.subject);
-  const opening = craftOpening(toneTemplate.opening, audience, tone);
-  const bodyPoints =
-    cleanPoints.length > 0
-      ? cleanPoints.map((point) => `• ${capitalize(point)}`).join("\n")
-      : "• Key details are included in the attachments.";
-  const callout = callToAction
-    ? `\n\nNext up: ${capitalize(callToAction)}.`
-    : "";
-  const closing = toneTemplate.closing;
-  const signoff =
-    signature ??
-    (tone === "friendly" || tone === "warm" ? "All the best,\nYour Email Agent" : "Best regards,\nYour Email Agent");
-
-  const body = `${opening}
-
-${objective ? `Objective: ${capitalize(objective)}\n\n` : ""}${bodyPoints}${callout}
-
-${closing}
-
-${signoff}`;
-
-  const preview = buildPreview(body);
-  const cadenceTip = buildCadenceTip({ tone, cleanPoints });
+  if (payload.mode === "invite-response") {
+    const attendee = payload.attendee ?? getSenderAddress();
+    if (!attendee) {
+      return errorResponse({
+        code: "invalid_request",
+        message: "Say who is answering the invite, or set AGENT_MAIL_FROM on the server.",
+        path: "attendee",
+      });
+    }
+    return fileResponse(exportInviteResponse({ ...payload, attendee }, new Date()));
+  }
 
-  return {
-    subject,
-    preview,
-    body,
-    cadenceTip,
-  };
-}
+  const tones = await loadToneLibrary();
 
-function detectSentiment(content: string): "positive" | "neutral" | "negative" {
-  const normalized = content.toLowerCase();
-  const positiveHits = POSITIVE_WORDS.filter((word) =>
-    normalized.includes(word),
-  ).length;
-  const negativeHits = NEGATIVE_WORDS.filter((word) =>
-    normalized.includes(word),
-  ).length;
-
-  if (positiveHits === negativeHits) {
-    return "neutral";
+  if (payload.mode === "analyze") {
+    const timeZone = resolveTimeZone(payload.timeZone);
+    // A pasted email has no From header; the persona may be a name or an address.
+    const contact = await matchContact(
+      payload.persona?.includes("@") ? { email: payload.persona } : { name: payload.persona },
+    );
+    report({ stage: "context", contact });
+    const analysis = await analyzeEmail(engine, payload.content, {
+      threadHistory: threadContext(payload.threadHistory, payload.thread),
+      persona: contact?.name ?? payload.persona,
+      sender: senderName(),
+      contact,
+      sentAt: payload.sentAt,
+      timeZone,
+      availability: await loadAvailability(timeZone),
+      tones,
+      replyLanguage: payload.replyLanguage,
+      summaryLength: payload.summaryLength,
+      onProgress: report,
+    });
+    const thread = payload.thread?.length
+      ? await analyzeThread(engine, timeZone, payload.thread, {
+          sender: contact?.name || payload.persona || "Sender",
+          timestamp: payload.sentAt,
+          body: payload.content,
+          fromSelf: payload.fromSelf,
+        })
+      : undefined;
+    if (thread) report({ stage: "thread", messages: thread.messages.length });
+    return jsonResponse({ ...analysis, thread, contact });
   }
 
-  return positiveHits > negativeHits ? "positive" : "negative";
-}
-
-function determinePriority(content: string): "low" | "medium" | "high" {
-  const normalized = content.toLowerCase();
+  if (payload.mode === "analyze-eml") {
+    const message = readRawEmail(payload.raw);
+    if (!message?.text.trim()) {
+      return errorResponse({
+        code: "unprocessable_message",
+        message: message ? "No readable text part found in this message." : UNREADABLE_MESSAGE,
+        path: "raw",
+      });
+    }
 
-  if (URGENCY_WORDS.some((word) => normalized.includes(word))) {
-    return "high";
+    const contact = await matchContact({
+      email: message.headers.from?.address,
+      name: payload.persona || message.headers.from?.name,
+    });
+    report({ stage: "context", contact });
+    const sender = payload.persona || contact?.name || message.headers.from?.name;
+    const timeZone = resolveTimeZone(payload.timeZone);
+    const analysis = await analyzeEmail(engine, message.text, {
+      threadHistory: threadContext(payload.threadHistory, payload.thread),
+      persona: sender,
+      sender: senderName(),
+      contact,
+      sentAt: message.headers.date,
+      timeZone,
+      invite: message.calendar ? parseInvite(message.calendar, timeZone) : undefined,
+      availability: await loadAvailability(timeZone),
+      tones,
+      replyLanguage: payload.replyLanguage,
+      summaryLength: payload.summaryLength,
+      onProgress: report,
+    });
+    const thread = payload.thread?.length
+      ? await analyzeThread(engine, timeZone, payload.thread, {
+          sender: sender || message.headers.from?.address || "Sender",
+          timestamp: message.headers.date,
+          body: message.text,
+          fromSelf: payload.fromSelf ?? isOwnAddress(message.headers.from?.address),
+        })
+      : undefined;
+    if (thread) report({ stage: "thread", messages: thread.messages.length });
+    return jsonResponse({ ...analysis, headers: message.headers, thread, contact });
   }
 
-  if (/\b\d{1,2}\/\d{1,2}\b/.test(normalized)) {
-    return "medium";
+  if (payload.mode === "batch") {
+    const sources = [
+      ...(payload.messages ?? []).map((message, index) => ({
+        ...message,
+        id: message.id ?? `message-${index + 1}`,
+      })),
+      ...splitMbox(payload.mbox ?? "").map((raw, index) => ({
+        id: `mbox-${index + 1}`,
+        raw,
+        content: undefined,
+      })),
+    ];
+    if (sources.length > LIMITS.batchMessages) {
+      return errorResponse({
+        code: "payload_too_large",
+        message: `A batch can include at most ${LIMITS.batchMessages} messages.`,
+        path: payload.mbox ? "mbox" : "messages",
+      });
+    }
+    const timeZone = resolveTimeZone(payload.timeZone);
+    return jsonResponse(
+      await analyzeBatch(engine, sources, {
+        persona: payload.persona,
+        sender: senderName(),
+        timeZone,
+        tones,
+        availability: await loadAvailability(timeZone),
+        replyLanguage: payload.replyLanguage,
+        summaryLength: payload.summaryLength,
+      }),
+    );
   }
 
-  if (/\b(next week|soon|follow up)\b/.test(normalized)) {
-    return "medium";
+  if (payload.mode === "pull") {
+    return pullMail(engine, payload, tones);
   }
 
-  return "low";
-}
-
-function extractTasks(content: string): AnalyzePayload["tasks"] {
-  const lines = content.split(/\r?\n/);
-  const taskLines = lines.filter(
-    (line) =>
-      /^(\*|-|\d+\.)/.test(line.trim()) ||
-      /(please|can you|could you|action)/i.test(line),
-  );
-
-  return taskLines
-    .map((line) => {
-      const description = line.replace(/^(\*|-|\d+\.)\s*/, "").trim();
-      const dueMatch =
-        description.match(
-          /\bby\s+((?:next\s+week|tomorrow|today|\d{1,2}\/\d{1,2}|\w+\s+\d{1,2}))/i,
-        ) ?? line.match(/\b(?:due|deadline)\s+(\w+\s+\d{1,2})/i);
-      const ownerMatch = description.match(/\bfor\s+([A-Z][a-z]+)/);
-
-      return {
-        description: capitalize(description),
-        due: dueMatch?.[1] ? titleCase(dueMatch[1]) : undefined,
-        owner: ownerMatch?.[1],
-      };
-    })
-    .filter((task) => Boolean(task.description));
-}
-
-function buildSubject(
-  tasks: AnalyzePayload["tasks"],
-  priority: AnalyzePayload["priority"],
-  sentiment: AnalyzePayload["sentiment"],
-): string {
-  const leadTask = tasks[0]?.description ?? "";
-  const tag =
-    priority === "high"
-      ? "Urgent"
-      : sentiment === "positive"
-      ? "Update"
-      : "Follow-up";
-
-  if (leadTask) {
-    return `[${tag}] ${leadTask}`;
+  if (payload.mode === "revise") {
+    const tone = payload.tone ? tones.find((template) => template.id === payload.tone) : undefined;
+    if (payload.tone && !tone) {
+      return errorResponse(unknownTone("tone"));
+    }
+    const revision = await engine.revise({ ...payload, tone, tones, sender: senderName() });
+    return jsonResponse({ ...revision, diff: diffWords(payload.body, revision.body) } satisfies ReviseResponse);
   }
 
-  switch (priority) {
-    case "high":
-      return "[Urgent] Action required on latest request";
-    case "medium":
-      return "Next steps for your email";
-    default:
-      return "Thanks for the update — here's the plan";
+  const tone = tones.find((template) => template.id === payload.tone);
+  if (!tone) {
+    return errorResponse(unknownTone("tone"));
   }
-}
-
-function summarize(content: string, threadHistory?: string): string {
-  const sentences = content
-    .replace(/\n+/g, " ")
-    .split(/(?<=[.?!])\s+/)
-    .filter(Boolean);
-  const summary = sentences.slice(0, 3).join(" ");
-  const historyNote = threadHistory
-    ? ` Thread context considered (${threadHistory.split(/\s+/).length} words).`
-    : "";
-  return summary || "No summary available." + historyNote;
-}
-
-function buildTags({
-  priority,
-  sentiment,
-  tasks,
-}: {
-  priority: AnalyzePayload["priority"];
-  sentiment: AnalyzePayload["sentiment"];
-  tasks: AnalyzePayload["tasks"];
-}): string[] {
-  const tags = new Set<string>();
-  tags.add(priority === "high" ? "Hot" : priority === "medium" ? "Follow-up" : "Backlog");
-  tags.add(sentiment === "positive" ? "Relationship" : sentiment === "negative" ? "Risk" : "Neutral");
-
-  if (tasks.length > 0) {
-    tags.add("Action items");
+  const recipient = payload.contactId ? await getContactRepository().get(payload.contactId) : undefined;
+  if (payload.contactId && !recipient) {
+    return errorResponse({
+      code: "invalid_request",
+      message: "Unknown contact. Pick one from the contacts directory or add it there first.",
+      path: "contactId",
+    });
   }
+  report({ stage: "context", contact: recipient });
+  const brief = {
+    audience: payload.audience || recipient?.name || "",
+    objective: payload.objective,
+    tone,
+    keyPoints: payload.keyPoints,
+    callToAction: payload.callToAction,
+    signature: payload.signature,
+    sender: senderName(payload.signature),
+    recipient,
+    recipientTone: tones.find((template) => template.id === recipient?.tone),
+  };
 
-  if (tasks.some((task) => task.owner)) {
-    tags.add("Delegation");
+  if (payload.mode === "sequence") {
+    const plan = planSequence(payload);
+    const followUpTones: ToneTemplate[] = [];
+    for (const [index, id] of plan.followUpTones.entries()) {
+      const template = tones.find((candidate) => candidate.id === id);
+      if (!template) {
+        return errorResponse(unknownTone(`followUpTones[${index}]`));
+      }
+      followUpTones.push(template);
+    }
+    return jsonResponse(
+      await engine.sequence({ ...brief, dayOffsets: plan.dayOffsets, followUpTones }),
+    );
   }
 
-  return Array.from(tags);
+  return jsonResponse(await engine.compose(brief));
 }
 
-function buildFollowUpRecommendation({
-  priority,
-  tasks,
-  content,
-}: {
-  priority: AnalyzePayload["priority"];
-  tasks: AnalyzePayload["tasks"];
-  content: string;
-}): string {
-  const waitingForResponse = /\b(wait|await|response|hear back)\b/i.test(content);
-  const hasTasks = tasks.length > 0;
-
-  if (priority === "high") {
-    return "Follow up within 4 business hours and confirm ownership of each task.";
-  }
+async function analyzeBatch(
+  engine: AnalysisEngine,
+  sources: { id: string; content?: string; raw?: string }[],
+  {
+    persona,
+    ...options
+  }: Pick<
+    AnalyzeInput,
+    "persona" | "sender" | "timeZone" | "tones" | "replyLanguage" | "summaryLength" | "availability"
+  >,
+): Promise<BatchResponse> {
+  const skipped: BatchResponse["skipped"] = [];
+  const entries = await mapConcurrent(sources, BATCH_CONCURRENCY, async (source) => {
+    if (!source.raw) {
+      const analysis = await analyzeEmail(engine, source.content ?? "", { ...options, persona });
+      return { id: source.id, subject: analysis.subjectSuggestion, analysis };
+    }
 
-  if (waitingForResponse) {
-    return "Schedule a reminder in 2 days to check for updates.";
-  }
+    const message = readRawEmail(source.raw);
+    if (!message?.text.trim()) {
+      skipped.push({
+        id: source.id,
+        message: message ? "No readable text part found in this message." : UNREADABLE_MESSAGE,
+      });
+      return null;
+    }
+    const contact = await matchContact({
+      email: message.headers.from?.address,
+      name: persona || message.headers.from?.name,
+    });
+    const analysis = await analyzeEmail(engine, message.text, {
+      ...options,
+      persona: persona || contact?.name || message.headers.from?.name,
+      contact,
+      sentAt: message.headers.date,
+      invite: message.calendar ? parseInvite(message.calendar, options.timeZone ?? "UTC") : undefined,
+    });
+    return {
+      id: source.id,
+      subject: message.headers.subject || analysis.subjectSuggestion,
+      from: message.headers.from ? formatAddress(message.headers.from) : undefined,
+      receivedAt: message.headers.date,
+      analysis: { ...analysis, headers: message.headers, contact },
+    };
+  });
 
-  if (hasTasks) {
-    return "Log tasks in your system and share a progress update within 24 hours.";
-  }
+  const analyzed = entries.filter((entry) => entry !== null);
+  return {
+    items: rankBatch(analyzed),
+    tagCounts: countTags(analyzed),
+    skipped,
+  };
+}
 
-  return "Archive for now, revisit over the weekend for any broader updates.";
+function isOwnAddress(address: string | undefined): boolean {
+  const own = getSenderAddress()?.address;
+  return Boolean(address && own && address.toLowerCase() === own.toLowerCase());
 }
 
-function generateReply({
-  tone,
-  tasks,
-  summary,
-  persona,
-}: {
-  tone: Tone;
-  tasks: AnalyzePayload["tasks"];
-  summary: string;
-  persona?: string;
-}): AnalyzePayload["recommendedReply"] {
-  const template = FOLLOW_UP_TEMPLATES[tone];
-  const intro = persona
-    ? `${template.opening.replace(
-        /^(Thank you|Thanks)/,
-        (match) =>
-          match === "Thanks"
-            ? `Hi ${persona}, thanks`
-            : `Hi ${persona}, thank you`,
-      )}`
-    : template.opening;
-  const bulletSection =
-    tasks.length > 0
-      ? `\n\nHere's what I'm tracking:\n${tasks
-          .map((task) => {
-            const due = task.due ? ` (due ${task.due})` : "";
-            const owner = task.owner ? ` — owner: ${task.owner}` : "";
-            return `• ${task.description}${due}${owner}`;
-          })
-          .join("\n")}`
-      : "";
-
-  const body = `${intro}
-
-${summary}${bulletSection}
-
-${template.closing}
-
-Best,
-Your Email Agent`;
+// One malformed message must not fail the request it came in with, or a mailbox pull would stall on it.
+function readRawEmail(raw: string): ParsedEmail | undefined {
+  try {
+    return parseRawEmail(raw);
+  } catch (error) {
+    console.warn("Could not parse a raw message", error);
+    return undefined;
+  }
+}
 
-  return {
-    subject: template.subject,
-    body,
+// Like Promise.all over `items.map(run)`, but with at most `limit` runs in flight. Results keep the input order.
+async function mapConcurrent<T, R>(items: T[], limit: number, run: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await run(items[index]);
+    }
   };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
-function craftSubjectFromObjective(objective: string, fallback: string): string {
-  if (!objective) {
-    return fallback;
+/**
+ * Triages the unread mail that arrived since the last pull. The folder's
+ * cursor only moves once the batch is analyzed, so a failed pull is retried
+ * from the same spot.
+ */
+async function pullMail(engine: AnalysisEngine, payload: PullRequest, tones: ToneTemplate[]): Promise<Response> {
+  const mailbox = getMailConnector(payload.source);
+  if (!mailbox) {
+    return errorResponse({
+      code: "invalid_request",
+      message: `No ${payload.source.toUpperCase()} mailbox is configured on the server.`,
+      path: "source",
+    });
   }
 
-  const normalized = objective.toLowerCase();
-  if (normalized.includes("update")) {
-    return "Quick project update";
-  }
-  if (normalized.includes("intro")) {
-    return "Introduction and next steps";
+  const folder = payload.folder ?? "INBOX";
+  const cursors = getMailCursorStore();
+  try {
+    const cursor = payload.reset ? undefined : await cursors.get(mailbox.source, folder);
+    const fetched = await mailbox.connector.fetchUnread(folder, cursor, payload.limit ?? 10);
+    const timeZone = resolveTimeZone(payload.timeZone);
+    const batch = await analyzeBatch(
+      engine,
+      fetched.messages.map((message) => ({ id: message.id, raw: message.raw })),
+      {
+        persona: payload.persona,
+        sender: senderName(),
+        timeZone,
+        tones,
+        availability: await loadAvailability(timeZone),
+        replyLanguage: payload.replyLanguage,
+        summaryLength: payload.summaryLength,
+      },
+    );
+    await cursors.set(mailbox.source, folder, fetched.cursor);
+    return jsonResponse({ ...batch, source: mailbox.source, folder, more: fetched.more } satisfies PullResponse);
+  } catch (error) {
+    if (!(error instanceof MailSourceError)) throw error;
+    console.warn(`Pulling from ${mailbox.source.account} failed`, error);
+    return errorResponse({ code: "upstream_error", message: error.message, path: "source" });
   }
-  if (normalized.includes("meeting")) {
-    return "Proposed agenda for our meeting";
-  }
-  if (normalized.includes("feedback")) {
-    return "Feedback and proposed improvements";
-  }
-  return capitalize(objective);
 }
 
-function craftOpening(
-  templateOpening: string,
-  audience: string,
-  tone: Tone,
-): string {
-  const recipient = audience.trim();
-  if (!recipient) {
-    return templateOpening;
-  }
+function fileResponse(file: ExportFile): Response {
+  return new Response(file.body, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+    },
+  });
+}
 
-  const greeting =
-    tone === "friendly" || tone === "warm" ? "Hi" : "Hello";
-  const softenedOpening = templateOpening.replace(/^Thank you/, "thank you").replace(/^Thanks/, "thanks");
-  return `${greeting} ${recipient}, ${softenedOpening}`;
+async function analyzeEmail(
+  engine: AnalysisEngine,
+  content: string,
+  options: Omit<AnalyzeInput, "content">,
+): Promise<AnalyzeResponse> {
+  const { segments, latest, quoted } = segmentMessage(content);
+  const history = [options.threadHistory?.trim(), quoted].filter(Boolean).join("\n\n");
+  const analysis = await engine.analyze({
+    ...options,
+    content: latest || content,
+    threadHistory: history || undefined,
+  });
+  // Evidence offsets point into the triaged reply; clients highlight them in the full message.
+  const located = latest ? remapEvidence(analysis, (offset) => toSourceOffset(segments, offset)) : analysis;
+  return { ...located, segments };
 }
 
-function buildPreview(body: string): string {
-  const condensed = body.replace(/\s+/g, " ").trim();
-  return condensed.slice(0, 140) + (condensed.length > 140 ? "..." : "");
+async function analyzeThread(
+  engine: AnalysisEngine,
+  timeZone: string,
+  earlier: ThreadMessage[],
+  latest: ThreadMessage,
+): Promise<ThreadRollup> {
+  const messages = [...sortThread(earlier), latest];
+  const analyzed = await mapConcurrent(messages, BATCH_CONCURRENCY, async (message) => {
+    const segmented = segmentMessage(message.body);
+    const analysis = await engine.analyze({
+      content: segmented.latest || message.body,
+      sentAt: message.timestamp,
+      timeZone,
+    });
+    return { message, ...analysis, sentimentScore: analysis.explanation.sentiment.score };
+  });
+  return buildThreadRollup(analyzed);
 }
 
-function buildCadenceTip({
-  tone,
-  cleanPoints,
-}: {
-  tone: Tone;
-  cleanPoints: string[];
-}): string {
-  const base =
-    tone === "assertive"
-      ? "Set a reminder to nudge the recipient within 1 business day."
-      : tone === "concise"
-      ? "Share a short recap if you do not hear back within 2 days."
-      : "Send a friendly check-in if there's no response within 3 days.";
-
-  if (cleanPoints.length > 2) {
-    return `${base} Consider bolding the key decisions to make scanning easier.`;
-  }
+function unknownTone(path: string): ApiError {
+  return {
+    code: "invalid_request",
+    message: "Unknown tone. Pick one from the tone library or add it there first.",
+    path,
+  };
+}
 
-  return base;
+/**
+ * The user's own name for `{{sender}}`: the first line of their signature, or
+ * else the display name they send mail as. Never the person being written to.
+ */
+function senderName(signature?: string): string | undefined {
+  return signature?.split("\n").find((line) => line.trim())?.trim() || getSenderAddress()?.name || undefined;
 }
 
-function capitalize(value: string): string {
-  if (!value) return value;
-  return value.charAt(0).toUpperCase() + value.slice(1);
+function resolveTimeZone(requested?: string): string {
+  const configured = process.env.AGENT_TIMEZONE;
+  return requested ?? (configured && isValidTimeZone(configured) ? configured : "UTC");
 }
 
-function titleCase(value: string): string {
-  return value
-    .toLowerCase()
-    .split(/\s+/)
-    .map((part) => capitalize(part))
-    .join(" ");
+function threadContext(
+  threadHistory?: string,
+  thread?: ThreadMessage[],
+): string | undefined {
+  const structured = sortThread(thread ?? [])
+    .map((message) => `${message.sender}: ${message.body.trim()}`)
+    .join("\n\n");
+  return [threadHistory?.trim(), structured].filter(Boolean).join("\n\n") || undefined;
 }
+
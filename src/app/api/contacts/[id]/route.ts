@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { getContactRepository } from "@/lib/contacts";
+import { errorResponse, jsonResponse, readJsonBody } from "@/lib/http";
+import { parseContactRequest } from "@/lib/schema";
+
+const MAX_BODY_BYTES = 64_000;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const contact = await getContactRepository().get(id);
+    return contact ? jsonResponse(contact) : notFound();
+  } catch (error) {
+    console.error("Contact lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "The contacts directory is unavailable right now.",
+    });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
+
+  const parsed = parseContactRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+
+  try {
+    const contacts = getContactRepository();
+    const owner = parsed.value.email ? await contacts.match({ email: parsed.value.email }) : undefined;
+    if (owner && owner.id !== id) {
+      return errorResponse({
+        code: "conflict",
+        message: `${owner.name} already has the email ${parsed.value.email}.`,
+        path: "email",
+      });
+    }
+    const contact = await contacts.update(id, parsed.value);
+    return contact ? jsonResponse(contact) : notFound();
+  } catch (error) {
+    console.error("Updating contact failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This contact could not be saved.",
+    });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    if (!(await getContactRepository().remove(id))) {
+      return notFound();
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Deleting contact failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This contact could not be deleted.",
+    });
+  }
+}
+
+function notFound(): Response {
+  return errorResponse({
+    code: "not_found",
+    message: "No contact with this id.",
+  });
+}
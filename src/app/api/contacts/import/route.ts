@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { getContactRepository, parseContactFile } from "@/lib/contacts";
+import { errorResponse, jsonResponse, readJsonBody } from "@/lib/http";
+import { ContactImportResponse, LIMITS, parseContactImportRequest, parseContactRequest } from "@/lib/schema";
+
+// The file travels as a JSON string; leave headroom for escaping.
+const MAX_BODY_BYTES = LIMITS.contactImport * 2;
+
+/**
+ * Imports a vCard or CSV address book. Each record is validated like a
+ * contact sent to POST /api/contacts; invalid ones are skipped and reported,
+ * and a record whose email is already on file updates that contact.
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
+
+  const parsed = parseContactImportRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+
+  const records = parseContactFile(parsed.value.format, parsed.value.data);
+  if (records.length === 0) {
+    return errorResponse({
+      code: "unprocessable_message",
+      message:
+        parsed.value.format === "vcard"
+          ? "No vCards found in this file."
+          : "No contacts found. The first row must name the columns, such as Name and Email.",
+      path: "data",
+    });
+  }
+  if (records.length > LIMITS.contactImportRecords) {
+    return errorResponse({
+      code: "payload_too_large",
+      message: `An import can include at most ${LIMITS.contactImportRecords} contacts.`,
+      path: "data",
+    });
+  }
+
+  try {
+    const contacts = getContactRepository();
+    const response: ContactImportResponse = { contacts: [], skipped: [] };
+    for (const [index, record] of records.entries()) {
+      const fields = parseContactRequest(record);
+      if (!fields.ok) {
+        const { path, message } = fields.error;
+        response.skipped.push({ index, message: path ? `${path}: ${message}` : message });
+        continue;
+      }
+      const existing = fields.value.email ? await contacts.match({ email: fields.value.email }) : undefined;
+      if (!existing) {
+        response.contacts.push(await contacts.create(fields.value));
+        continue;
+      }
+      // Exports rarely carry tone or notes; keep what the directory already knows.
+      const { id, ...known } = existing;
+      const provided = Object.fromEntries(Object.entries(fields.value).filter(([, value]) => value !== undefined));
+      response.contacts.push((await contacts.update(id, { ...known, ...provided }))!);
+    }
+    return jsonResponse(response);
+  } catch (error) {
+    console.error("Importing contacts failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "These contacts could not be imported.",
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { getContactRepository } from "@/lib/contacts";
+import { errorResponse, jsonResponse, readJsonBody } from "@/lib/http";
+import { ContactListResponse, parseContactQuery, parseContactRequest } from "@/lib/schema";
+
+const MAX_BODY_BYTES = 64_000;
+
+export async function GET(request: NextRequest) {
+  const search = parseContactQuery(request.nextUrl.searchParams);
+  if (!search.ok) {
+    return errorResponse(search.error);
+  }
+
+  try {
+    const contacts = await getContactRepository().list(search.value);
+    return jsonResponse({ contacts } satisfies ContactListResponse);
+  } catch (error) {
+    console.error("Contact lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "The contacts directory is unavailable right now.",
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
+
+  const parsed = parseContactRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+
+  try {
+    const contacts = getContactRepository();
+    if (parsed.value.email && (await contacts.match({ email: parsed.value.email }))) {
+      return errorResponse({
+        code: "conflict",
+        message: `A contact with the email ${parsed.value.email} already exists.`,
+        path: "email",
+      });
+    }
+    return jsonResponse(await contacts.create(parsed.value), 201);
+  } catch (error) {
+    console.error("Creating contact failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This contact could not be saved.",
+    });
+  }
+}
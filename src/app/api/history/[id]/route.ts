@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { getHistoryRepository } from "@/lib/history";
+import { errorResponse, jsonResponse } from "@/lib/http";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const entry = await getHistoryRepository().get(id);
+    return entry ? jsonResponse(entry) : notFound();
+  } catch (error) {
+    console.error("History lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "History is unavailable right now.",
+    });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    return (await getHistoryRepository().remove(id))
+      ? new Response(null, { status: 204 })
+      : notFound();
+  } catch (error) {
+    console.error("Deleting history failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This entry could not be deleted.",
+    });
+  }
+}
+
+function notFound(): Response {
+  return errorResponse({
+    code: "not_found",
+    message: "No saved result with this id.",
+  });
+}
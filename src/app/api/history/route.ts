@@ -0,0 +1,53 @@
+import { NextRequest } from "next/server";
+import { describeHistoryEntry, getHistoryRepository } from "@/lib/history";
+import { errorResponse, jsonResponse, readJsonBody } from "@/lib/http";
+import {
+  HistoryListResponse,
+  LIMITS,
+  parseHistoryQuery,
+  parseHistorySaveRequest,
+} from "@/lib/schema";
+
+// A saved analysis carries its raw .eml input as well as the result.
+const MAX_BODY_BYTES = LIMITS.raw * 3;
+
+export async function GET(request: NextRequest) {
+  const query = parseHistoryQuery(request.nextUrl.searchParams);
+  if (!query.ok) {
+    return errorResponse(query.error);
+  }
+
+  try {
+    const entries = await getHistoryRepository().list(query.value);
+    return jsonResponse({ entries } satisfies HistoryListResponse);
+  } catch (error) {
+    console.error("History lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "History is unavailable right now.",
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
+
+  const parsed = parseHistorySaveRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+
+  try {
+    const saved = await getHistoryRepository().save(describeHistoryEntry(parsed.value));
+    return jsonResponse(saved, 201);
+  } catch (error) {
+    console.error("Saving history failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This result could not be saved.",
+    });
+  }
+}
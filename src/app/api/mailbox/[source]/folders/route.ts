@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { errorResponse, jsonResponse } from "@/lib/http";
+import { getMailConnector, MailSourceError } from "@/lib/mailbox";
+import { MAIL_SOURCE_KINDS, MailFolderListResponse, MailSourceKind } from "@/lib/schema";
+
+type RouteContext = { params: Promise<{ source: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { source } = await params;
+  const mailbox = MAIL_SOURCE_KINDS.includes(source as MailSourceKind)
+    ? getMailConnector(source as MailSourceKind)
+    : undefined;
+  if (!mailbox) {
+    return errorResponse({ code: "not_found", message: "No mailbox with this id is configured." });
+  }
+
+  try {
+    const folders = await mailbox.connector.listFolders();
+    return jsonResponse({ folders } satisfies MailFolderListResponse);
+  } catch (error) {
+    if (error instanceof MailSourceError) {
+      console.warn(`Listing folders of ${mailbox.source.account} failed`, error);
+      return errorResponse({ code: "upstream_error", message: error.message });
+    }
+    console.error("Listing folders failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "The folders could not be listed.",
+    });
+  }
+}
@@ -0,0 +1,15 @@
+import { jsonResponse } from "@/lib/http";
+import { getMailTransport, getSenderAddress, listMailSources } from "@/lib/mailbox";
+import { formatAddress } from "@/lib/mime";
+import { isReviewRequired } from "@/lib/reviews";
+import { MailSourceListResponse } from "@/lib/schema";
+
+export async function GET() {
+  const from = getSenderAddress();
+  return jsonResponse({
+    sources: listMailSources(),
+    smtp: getMailTransport()?.account,
+    from: from && formatAddress(from),
+    requireReview: isReviewRequired(),
+  } satisfies MailSourceListResponse);
+}
@@ -0,0 +1,245 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { NextRequest } from "next/server";
+import { errorResponse, jsonResponse, readJsonBody } from "@/lib/http";
+import {
+  getMailConnector,
+  getMailTransport,
+  getSenderAddress,
+  getSentLog,
+  listMailSources,
+  MailSourceError,
+} from "@/lib/mailbox";
+import { buildRawEmail, EmailAddress, formatAddress, parseAddressList } from "@/lib/mime";
+import { checkDeliverable, getReviewRepository, isReviewRequired, recordDelivery } from "@/lib/reviews";
+import {
+  LIMITS,
+  parseSendRequest,
+  ReviewDraftDetail,
+  SendRequest,
+  SendResponse,
+} from "@/lib/schema";
+
+const MAX_BODY_BYTES = LIMITS.content * 2;
+
+// Long enough to read a preview and click send; after that, preview again.
+const CONFIRMATION_TTL_MS = 15 * 60 * 1000;
+
+// Without AGENT_SEND_SECRET, previews only confirm against the process that issued them.
+const CONFIRMATION_SECRET = process.env.AGENT_SEND_SECRET || randomBytes(32).toString("hex");
+
+/** Where a confirmed message goes; `deliver` resolves with the log's `detail`. */
+type Destination = {
+  account: string;
+  deliver(raw: string, envelope: { from: string; recipients: string[] }): Promise<string>;
+};
+
+/**
+ * Sends a reply over SMTP or saves it to a Drafts folder, in two steps: the
+ * first call only previews, and the message is delivered when the preview's
+ * `confirmation` comes back with the same message within 15 minutes. Each
+ * preview signs a fresh nonce, and each confirmation is reserved in the sent
+ * log before delivery, so a double click cannot send twice while the same
+ * message can still go out again after a new preview. A review draft is
+ * delivered only as approved, and the delivery goes into its audit log.
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
+
+  const parsed = parseSendRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+  const payload = parsed.value;
+
+  const from = getSenderAddress();
+  if (!from) {
+    return errorResponse({
+      code: "invalid_request",
+      message: "No sender address is configured on the server. Set AGENT_MAIL_FROM.",
+    });
+  }
+
+  if (!payload.draftId && isReviewRequired()) {
+    return errorResponse({
+      code: "forbidden",
+      message: "Messages need an approved review before they go out.",
+      path: "draftId",
+    });
+  }
+
+  const destination = findDestination(payload);
+  if (!destination) {
+    return errorResponse({
+      code: "invalid_request",
+      message:
+        payload.method === "smtp"
+          ? "No SMTP server is configured on the server."
+          : "No mailbox is configured on the server to save drafts to.",
+      path: payload.method === "drafts" && payload.source ? "source" : "method",
+    });
+  }
+
+  const shown = {
+    method: payload.method,
+    account: destination.account,
+    from: formatAddress(from),
+    to: payload.to,
+    cc: payload.cc ?? [],
+    subject: payload.subject,
+    body: payload.body,
+    inReplyTo: payload.inReplyTo,
+  };
+  // Covers everything the preview shows plus the References it doesn't, so nothing can change unseen.
+  const digest = createHash("sha256")
+    .update(JSON.stringify({ ...shown, references: payload.references ?? [] }))
+    .digest("hex");
+
+  let draft: ReviewDraftDetail | undefined;
+  try {
+    draft = payload.draftId ? await getReviewRepository().get(payload.draftId) : undefined;
+  } catch (error) {
+    console.error("Review lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "Reviews are unavailable right now.",
+    });
+  }
+  if (payload.draftId && !draft) {
+    return errorResponse({ code: "not_found", message: "No review draft with this id.", path: "draftId" });
+  }
+  const unapproved = draft && checkDeliverable(draft, payload);
+  if (unapproved) {
+    return errorResponse(unapproved);
+  }
+
+  if (!payload.confirmation) {
+    const confirmation = signConfirmation(digest, Date.now(), randomBytes(16).toString("hex"));
+    return jsonResponse({ status: "preview", confirmation, ...shown } satisfies SendResponse);
+  }
+  const checked = checkConfirmation(payload.confirmation, digest);
+  if (checked !== "valid") {
+    return errorResponse({
+      code: "conflict",
+      message:
+        checked === "expired"
+          ? "This preview has expired. Preview it again before sending."
+          : "The message changed after it was previewed. Preview it again before sending.",
+      path: "confirmation",
+    });
+  }
+
+  try {
+    const email = {
+      from,
+      to: payload.to.map(toAddress),
+      cc: shown.cc.map(toAddress),
+      subject: payload.subject,
+      body: payload.body,
+      messageId: `${crypto.randomUUID()}@${from.address.split("@")[1]}`,
+      date: new Date(),
+      inReplyTo: payload.inReplyTo,
+      references: payload.references,
+    };
+    // The confirmation is claimed before anything goes out, so a second confirm stops here.
+    const log = getSentLog();
+    const reserved = await log.reserve({
+      method: payload.method,
+      account: shown.account,
+      from: shown.from,
+      to: shown.to,
+      cc: shown.cc,
+      subject: payload.subject,
+      messageId: email.messageId,
+      inReplyTo: payload.inReplyTo,
+      confirmation: payload.confirmation,
+    });
+    if (!reserved.ok) {
+      const { earlier } = reserved;
+      return errorResponse({
+        code: "conflict",
+        message:
+          earlier.status === "pending"
+            ? "This message is already on its way."
+            : `This message was already ${earlier.method === "smtp" ? "sent" : "saved"} at ${earlier.createdAt}.`,
+        path: "confirmation",
+      });
+    }
+
+    let detail: string;
+    try {
+      detail = await destination.deliver(buildRawEmail(email), {
+        from: from.address,
+        recipients: [...email.to, ...email.cc].map((address) => address.address),
+      });
+    } catch (error) {
+      // A failed delivery frees the confirmation for a retry.
+      await log.complete(reserved.value.id, {
+        status: "failed",
+        detail: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    const sent = await log.complete(reserved.value.id, { status: "sent", detail });
+    if (draft) {
+      const { change, event } = recordDelivery(draft, {
+        actor: payload.actor ?? draft.reviewer ?? draft.author,
+        method: payload.method,
+        messageId: email.messageId,
+        detail,
+      });
+      // The message is out either way; a draft reviewed again meanwhile just misses the entry.
+      if (!(await getReviewRepository().update(draft.id, change, event))) {
+        console.warn(`Review draft ${draft.id} changed while it was being delivered`);
+      }
+    }
+    return jsonResponse({ ...sent, status: "sent" } satisfies SendResponse, 201);
+  } catch (error) {
+    if (error instanceof MailSourceError) {
+      console.warn(`Delivering through ${shown.account} failed`, error);
+      return errorResponse({ code: "upstream_error", message: error.message, path: "method" });
+    }
+    console.error("Sending failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This message could not be sent.",
+    });
+  }
+}
+
+/** `<issued at>.<nonce>.<HMAC of both and the message digest>`; the nonce keeps identical messages apart. */
+function signConfirmation(digest: string, issuedAt: number, nonce: string): string {
+  const stamp = issuedAt.toString(36);
+  const signature = createHmac("sha256", CONFIRMATION_SECRET).update(`${stamp}.${nonce}.${digest}`).digest("hex");
+  return `${stamp}.${nonce}.${signature}`;
+}
+
+function checkConfirmation(confirmation: string, digest: string): "valid" | "expired" | "mismatch" {
+  const [stamp, nonce] = confirmation.split(".");
+  const issuedAt = parseInt(stamp, 36);
+  if (!nonce || !Number.isFinite(issuedAt)) return "mismatch";
+  const expected = Buffer.from(signConfirmation(digest, issuedAt, nonce));
+  const given = Buffer.from(confirmation);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return "mismatch";
+  const age = Date.now() - issuedAt;
+  return age < 0 || age > CONFIRMATION_TTL_MS ? "expired" : "valid";
+}
+
+function findDestination(payload: SendRequest): Destination | undefined {
+  if (payload.method === "smtp") {
+    const transport = getMailTransport();
+    return transport && { account: transport.account, deliver: (raw, envelope) => transport.send(envelope, raw) };
+  }
+  const id = payload.source ?? listMailSources()[0]?.id;
+  const mailbox = id && getMailConnector(id);
+  return mailbox
+    ? { account: mailbox.source.account, deliver: async (raw) => (await mailbox.connector.saveDraft(raw)).folder }
+    : undefined;
+}
+
+function toAddress(value: string): EmailAddress {
+  return parseAddressList(value)[0];
+}
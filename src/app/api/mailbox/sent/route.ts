@@ -0,0 +1,22 @@
+import { NextRequest } from "next/server";
+import { errorResponse, jsonResponse } from "@/lib/http";
+import { getSentLog } from "@/lib/mailbox";
+import { parseSentQuery, SentListResponse } from "@/lib/schema";
+
+export async function GET(request: NextRequest) {
+  const limit = parseSentQuery(request.nextUrl.searchParams);
+  if (!limit.ok) {
+    return errorResponse(limit.error);
+  }
+
+  try {
+    const messages = await getSentLog().list(limit.value);
+    return jsonResponse({ messages } satisfies SentListResponse);
+  } catch (error) {
+    console.error("Sent log lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "The sent log is unavailable right now.",
+    });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { errorResponse, jsonResponse, readJsonBody } from "@/lib/http";
+import { applyReviewAction, getReviewRepository } from "@/lib/reviews";
+import { LIMITS, parseReviewActionRequest, ReviewResponse } from "@/lib/schema";
+
+const MAX_BODY_BYTES = LIMITS.content * 2;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Takes one step in a draft's review, such as an edit, a comment, or the
+ * reviewer's decision, and appends it to the draft's audit log.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
+
+  const parsed = parseReviewActionRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+
+  try {
+    const reviews = getReviewRepository();
+    const draft = await reviews.get(id);
+    if (!draft) {
+      return errorResponse({ code: "not_found", message: "No review draft with this id." });
+    }
+
+    const transition = applyReviewAction(draft, parsed.value);
+    if (!transition.ok) {
+      return errorResponse(transition.error);
+    }
+    const updated = await reviews.update(id, transition.value.change, transition.value.event);
+    if (!updated) {
+      return errorResponse({
+        code: "conflict",
+        message: "Someone else changed this draft meanwhile. Reload it and try again.",
+      });
+    }
+    return jsonResponse(updated satisfies ReviewResponse);
+  } catch (error) {
+    console.error("Updating a review draft failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This review step could not be saved.",
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from "next/server";
+import { errorResponse, jsonResponse } from "@/lib/http";
+import { getReviewRepository } from "@/lib/reviews";
+import { ReviewResponse } from "@/lib/schema";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const draft = await getReviewRepository().get(id);
+    return draft
+      ? jsonResponse(draft satisfies ReviewResponse)
+      : errorResponse({ code: "not_found", message: "No review draft with this id." });
+  } catch (error) {
+    console.error("Review lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "Reviews are unavailable right now.",
+    });
+  }
+}
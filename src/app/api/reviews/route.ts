@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+import { errorResponse, jsonResponse, readJsonBody } from "@/lib/http";
+import { getReviewRepository, startReview } from "@/lib/reviews";
+import {
+  LIMITS,
+  parseReviewCreateRequest,
+  parseReviewQuery,
+  ReviewListResponse,
+  ReviewResponse,
+} from "@/lib/schema";
+
+// Like a saved history entry, a review draft keeps its raw .eml input.
+const MAX_BODY_BYTES = LIMITS.raw * 3;
+
+export async function GET(request: NextRequest) {
+  const query = parseReviewQuery(request.nextUrl.searchParams);
+  if (!query.ok) {
+    return errorResponse(query.error);
+  }
+
+  try {
+    const drafts = await getReviewRepository().list(query.value);
+    return jsonResponse({ drafts } satisfies ReviewListResponse);
+  } catch (error) {
+    console.error("Review lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "Reviews are unavailable right now.",
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
+
+  const parsed = parseReviewCreateRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+  const started = startReview(parsed.value);
+  if (!started.ok) {
+    return errorResponse(started.error);
+  }
+
+  try {
+    const { draft, events } = started.value;
+    const created = await getReviewRepository().create(draft, events);
+    return jsonResponse(created satisfies ReviewResponse, 201);
+  } catch (error) {
+    console.error("Creating a review draft failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This draft could not be put under review.",
+    });
+  }
+}
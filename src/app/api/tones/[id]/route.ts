@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { errorResponse, jsonResponse, readJsonBody } from "@/lib/http";
+import { parseToneUpdateRequest } from "@/lib/schema";
+import { getToneRepository } from "@/lib/tones";
+
+const MAX_BODY_BYTES = 64_000;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const tone = await getToneRepository().get(id);
+    return tone ? jsonResponse(tone) : notFound();
+  } catch (error) {
+    console.error("Tone lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "The tone library is unavailable right now.",
+    });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
+
+  const parsed = parseToneUpdateRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+
+  try {
+    const tone = await getToneRepository().update(id, parsed.value);
+    return tone ? jsonResponse(tone) : notFound();
+  } catch (error) {
+    console.error("Updating tone failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This tone could not be saved.",
+    });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const tones = getToneRepository();
+    const tone = await tones.get(id);
+    if (!tone) {
+      return notFound();
+    }
+    if (tone.builtIn) {
+      return errorResponse({
+        code: "conflict",
+        message: "Built-in tones can be edited but not deleted.",
+      });
+    }
+    await tones.remove(id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Deleting tone failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This tone could not be deleted.",
+    });
+  }
+}
+
+function notFound(): Response {
+  return errorResponse({
+    code: "not_found",
+    message: "No tone with this id.",
+  });
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from "next/server";
+import { errorResponse, jsonResponse, readJsonBody } from "@/lib/http";
+import { parseToneCreateRequest, ToneListResponse } from "@/lib/schema";
+import { getToneRepository } from "@/lib/tones";
+
+const MAX_BODY_BYTES = 64_000;
+
+export async function GET() {
+  try {
+    const tones = await getToneRepository().list();
+    return jsonResponse({ tones } satisfies ToneListResponse);
+  } catch (error) {
+    console.error("Tone lookup failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "The tone library is unavailable right now.",
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request, MAX_BODY_BYTES);
+  if (!body.ok) {
+    return errorResponse(body.error);
+  }
+
+  const parsed = parseToneCreateRequest(body.value);
+  if (!parsed.ok) {
+    return errorResponse(parsed.error);
+  }
+
+  try {
+    const tones = getToneRepository();
+    if (await tones.get(parsed.value.id)) {
+      return errorResponse({
+        code: "conflict",
+        message: `A tone with the id "${parsed.value.id}" already exists.`,
+        path: "id",
+      });
+    }
+    return jsonResponse(await tones.create(parsed.value), 201);
+  } catch (error) {
+    console.error("Creating tone failed", error);
+    return errorResponse({
+      code: "internal_error",
+      message: "This tone could not be saved.",
+    });
+  }
+}
@@ -1,49 +1,98 @@
 /* eslint-disable @next/next/no-img-element */
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
-
-type AnalysisResponse = {
-  summary: string;
-  sentiment: "positive" | "neutral" | "negative";
-  priority: "low" | "medium" | "high";
-  tags: string[];
-  subjectSuggestion: string;
-  tasks: {
-    description: string;
-    due?: string;
-    owner?: string;
-  }[];
-  followUpRecommendation: string;
-  recommendedReply: {
-    subject: string;
-    body: string;
-  };
-};
-
-type ComposeResponse = {
-  subject: string;
-  preview: string;
-  body: string;
-  cadenceTip: string;
-};
-
-type Tone = "professional" | "friendly" | "concise" | "assertive" | "warm";
-
-const toneOptions: { label: string; value: Tone; caption: string }[] = [
-  { label: "Professional", value: "professional", caption: "Balanced, polite, structured" },
-  { label: "Friendly", value: "friendly", caption: "Warm, personable, relationship-first" },
-  { label: "Concise", value: "concise", caption: "Quick bullet summary, direct asks" },
-  { label: "Assertive", value: "assertive", caption: "Clear deadlines, crisp accountability" },
-  { label: "Warm", value: "warm", caption: "Empathetic, supportive, high-touch" },
-];
-
-const personaPresets = [
-  "Alex (Customer Success)",
-  "Jordan (Engineering Lead)",
-  "Taylor (Executive Stakeholder)",
-  "Morgan (Prospect)",
-];
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { formatDueLabel } from "@/lib/dates";
+import { diffWords } from "@/lib/diff";
+import { LANGUAGE_NAMES, LANGUAGES } from "@/lib/language";
+import { formatSlot } from "@/lib/engine/meeting";
+import { lintDraft } from "@/lib/lint";
+import { formatAddress, parseAddressList } from "@/lib/mime";
+import { formatSequenceMarkdown } from "@/lib/sequence";
+import { DEFAULT_TONES, TEMPLATE_PLACEHOLDERS } from "@/lib/tones/templates";
+import {
+  DELIVERY_METHODS,
+  EXPORT_FORMATS,
+  LIMITS,
+  REVIEW_STATUSES,
+  STREAM_CONTENT_TYPE,
+  SUMMARY_LENGTHS,
+  type AgentProgress,
+  type AgentRequest,
+  type AgentStreamEvent,
+  type AnalyzeEmlRequest,
+  type AnalyzeRequest,
+  type AnalyzeResponse,
+  type BatchRequest,
+  type BatchResponse,
+  type ComposeRequest,
+  type ComposeResponse,
+  type Contact,
+  type ContactFields,
+  type ContactImportFormat,
+  type ContactImportResponse,
+  type ContactListResponse,
+  type DeliveryMethod,
+  type DiffChunk,
+  type DraftLint,
+  type EmailHeaders,
+  type Emotion,
+  type Entities,
+  type ErrorResponse,
+  type Evidence,
+  type ExportFormat,
+  type ExportRequest,
+  type HistoryEntry,
+  type HistoryListResponse,
+  type HistoryRecord,
+  type HistorySaveRequest,
+  type HistorySummary,
+  type InviteResponseAction,
+  type InviteResponseRequest,
+  type Language,
+  type LintIssue,
+  type LintSeverity,
+  type MailFolder,
+  type MailFolderListResponse,
+  type MailSource,
+  type MailSourceKind,
+  type MailSourceListResponse,
+  type MeetingRequest,
+  type MessageSegment,
+  type PullRequest,
+  type PullResponse,
+  type Question,
+  type QuestionKind,
+  type SlotFit,
+  type ReviewActionRequest,
+  type ReviewCreateRequest,
+  type ReviewDraft,
+  type ReviewEvent,
+  type ReviewField,
+  type ReviewListResponse,
+  type ReviewResponse,
+  type ReviewStatus,
+  type ReviewStep,
+  type ReviseRequest,
+  type ReviseResponse,
+  type SendPreview,
+  type SendRequest,
+  type SendResponse,
+  type SentMessage,
+  type RevisionOperation,
+  type SequenceRequest,
+  type SequenceResponse,
+  type SequenceStep,
+  type TimeSlot,
+  type SummaryLength,
+  type ThreadMessage,
+  type ThreadRollup,
+  type Tone,
+  type ToneCreateRequest,
+  type ToneListResponse,
+  type ToneTemplate,
+  type ToneUpdateRequest,
+} from "@/lib/schema";
 
 const demoEmail = `Hey team,
 
@@ -68,28 +117,158 @@ const demoHistory = `Thread summary:
 export function EmailAgent() {
   const [incomingEmail, setIncomingEmail] = useState("");
   const [threadHistory, setThreadHistory] = useState("");
+  const [threadMessages, setThreadMessages] = useState<ThreadMessage[]>([]);
+  const [latestFromSelf, setLatestFromSelf] = useState(false);
   const [persona, setPersona] = useState("");
-  const [analysis, setAnalysis] = useState<AnalysisResponse | null>(null);
+  const [replyLanguage, setReplyLanguage] = useState<Language | "">("");
+  const [summaryLength, setSummaryLength] = useState<SummaryLength>("short");
+  const [emlFile, setEmlFile] = useState<{ name: string; raw: string } | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [analysis, setAnalysis] = useState<AnalyzeResponse | null>(null);
+  const [analysisRequest, setAnalysisRequest] = useState<AnalyzeRequest | AnalyzeEmlRequest | null>(null);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
 
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [managingContacts, setManagingContacts] = useState(false);
+  const [contactId, setContactId] = useState("");
   const [audience, setAudience] = useState("Alex");
   const [objective, setObjective] = useState("Share next steps after receiving an update");
   const [tone, setTone] = useState<Tone>("professional");
+  const [tones, setTones] = useState<ToneTemplate[]>(DEFAULT_TONES);
+  const [managingTones, setManagingTones] = useState(false);
   const [keyPoints, setKeyPoints] = useState(
     ["Confirm ownership of onboarding docs", "Align on release checklist", "Verify promo codes with finance"].join("\n"),
   );
   const [callToAction, setCallToAction] = useState("Confirm timelines by Thursday EOD");
   const [signature, setSignature] = useState("Jordan\nEngineering Lead");
   const [composeResult, setComposeResult] = useState<ComposeResponse | null>(null);
+  const [composeRequest, setComposeRequest] = useState<ComposeRequest | null>(null);
   const [composeError, setComposeError] = useState<string | null>(null);
   const [composing, setComposing] = useState(false);
+  const [dayOffsets, setDayOffsets] = useState("3, 7");
+  const [sequence, setSequence] = useState<SequenceResponse | null>(null);
+  const [sequencing, setSequencing] = useState(false);
+
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus | null>(null);
+  const [actor, setActor] = useState("");
+  const [reviewVersion, setReviewVersion] = useState(0);
+
+  const trackProgress = useCallback((progress: AgentProgress) => {
+    setLiveStatus((status) =>
+      status && { ...status, details: { ...status.details, [progress.stage]: describeProgress(progress) } },
+    );
+  }, []);
+
+  const settleStatus = useCallback((state: LiveStatus["state"], details: LiveStatus["details"] = {}) => {
+    setLiveStatus((status) => status && { ...status, state, details: { ...status.details, ...details } });
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/tones", { signal: controller.signal })
+      .then((response) => (response.ok ? (response.json() as Promise<ToneListResponse>) : null))
+      .then((payload) => {
+        if (payload) setTones(payload.tones);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error("Loading tones failed", error);
+      });
+    fetch("/api/contacts", { signal: controller.signal })
+      .then((response) => (response.ok ? (response.json() as Promise<ContactListResponse>) : null))
+      .then((payload) => {
+        if (payload) setContacts(payload.contacts);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error("Loading contacts failed", error);
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Picking a contact fills in who the email is for and defaults the tone to the one they prefer.
+  const pickContact = useCallback(
+    (id: string) => {
+      setContactId(id);
+      const contact = contacts.find((candidate) => candidate.id === id);
+      if (!contact) return;
+      setAudience(contact.name);
+      if (contact.tone && tones.some((template) => template.id === contact.tone)) setTone(contact.tone);
+    },
+    [contacts, tones],
+  );
 
-  const hasAnalysis = Boolean(analysis);
   const hasComposeResult = Boolean(composeResult);
 
+  const reviewFor = useCallback(
+    (request: ReviewCreateRequest["request"], response: ReviewCreateRequest["response"]): DraftReview => ({
+      request,
+      response,
+      actor,
+      onActorChange: setActor,
+      onSubmitted: () => setReviewVersion((version) => version + 1),
+    }),
+    [actor],
+  );
+
+  const saveToHistory = useCallback(async (record: HistorySaveRequest) => {
+    try {
+      const response = await fetch("/api/history", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(record),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+        throw new Error(payload?.error.message ?? "Unable to save this result.");
+      }
+      setHistoryVersion((version) => version + 1);
+    } catch (error) {
+      console.error("Saving history failed", error);
+    }
+  }, []);
+
+  const reopenEntry = useCallback((entry: HistoryEntry) => {
+    if (entry.kind === "analysis") {
+      const { request } = entry;
+      if (request.mode === "analyze-eml") {
+        setEmlFile({ name: entry.response.headers?.subject || "Saved message", raw: request.raw });
+        setIncomingEmail("");
+      } else {
+        setEmlFile(null);
+        setIncomingEmail(request.content);
+      }
+      setThreadHistory(request.threadHistory ?? "");
+      setThreadMessages(request.thread ?? []);
+      setPersona(request.persona ?? "");
+      setReplyLanguage(request.replyLanguage ?? "");
+      setSummaryLength(request.summaryLength ?? "short");
+      setAnalysis(entry.response);
+      setAnalysisRequest(request);
+      setAnalysisError(null);
+      return;
+    }
+
+    const { request } = entry;
+    setContactId(request.contactId ?? "");
+    setAudience(request.audience);
+    setObjective(request.objective);
+    setTone(request.tone);
+    setKeyPoints(request.keyPoints.join("\n"));
+    setCallToAction(request.callToAction ?? "");
+    setSignature(request.signature ?? "");
+    setComposeError(null);
+    if (entry.kind === "compose") {
+      setComposeResult(entry.response);
+      setComposeRequest(entry.request);
+    } else {
+      setDayOffsets(entry.response.steps.slice(1).map((step) => step.dayOffset).join(", "));
+      setSequence(entry.response);
+    }
+  }, []);
+
   const handleAnalyze = useCallback(async () => {
-    if (!incomingEmail.trim()) {
+    if (!emlFile && !incomingEmail.trim()) {
       setAnalysisError("Drop in the email you want the agent to triage first.");
       return;
     }
@@ -98,32 +277,81 @@ export function EmailAgent() {
     setAnalysisError(null);
     setAnalysis(null);
     try {
-      const response = await fetch("/api/agent", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          mode: "analyze",
-          content: incomingEmail,
-          threadHistory,
-          persona,
-        }),
+      const thread = threadMessages
+        .filter((message) => message.body.trim())
+        .map((message) => ({
+          ...message,
+          sender: message.sender.trim() || (message.fromSelf ? "Me" : "Sender"),
+          timestamp: message.timestamp ? new Date(message.timestamp).toISOString() : undefined,
+        }));
+      const options = {
+        threadHistory,
+        thread,
+        // Left unset, the server compares an uploaded email's From address with yours.
+        fromSelf: (thread.length > 0 && latestFromSelf) || undefined,
+        persona,
+        timeZone: browserTimeZone(),
+        replyLanguage: replyLanguage || undefined,
+        summaryLength,
+      };
+      const request: AnalyzeRequest | AnalyzeEmlRequest = emlFile
+        ? { mode: "analyze-eml", raw: emlFile.raw, ...options }
+        : { mode: "analyze", content: incomingEmail, ...options };
+      setLiveStatus({
+        label: "Triage",
+        stages: [
+          "context",
+          "summary",
+          "sentiment",
+          "tasks",
+          "questions",
+          "reply",
+          ...(thread.length ? ["thread" as const] : []),
+        ],
+        details: {},
+        state: "running",
       });
-
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload?.error ?? "Unable to analyze this email.");
-      }
-
-      const payload = (await response.json()) as AnalysisResponse;
+      const payload = await streamAgent<AnalyzeResponse>(request, trackProgress, "Unable to analyze this email.");
+      settleStatus("done");
       setAnalysis(payload);
+      setAnalysisRequest(request);
+      void saveToHistory({ request, response: payload });
     } catch (error) {
+      settleStatus("failed");
       setAnalysisError(
         error instanceof Error ? error.message : "Something went wrong. Try again.",
       );
     } finally {
       setAnalyzing(false);
     }
-  }, [incomingEmail, threadHistory, persona]);
+  }, [
+    emlFile,
+    incomingEmail,
+    threadHistory,
+    threadMessages,
+    latestFromSelf,
+    persona,
+    replyLanguage,
+    summaryLength,
+    saveToHistory,
+    trackProgress,
+    settleStatus,
+  ]);
+
+  const loadEmlFile = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    if (!/\.(eml|txt)$/i.test(file.name) && file.type !== "message/rfc822") {
+      setAnalysisError("Only .eml message files can be dropped here.");
+      return;
+    }
+    if (file.size > LIMITS.raw) {
+      setAnalysisError("That message is too large to analyze.");
+      return;
+    }
+    setEmlFile({ name: file.name, raw: await file.text() });
+    setAnalysis(null);
+    setAnalysisError(null);
+  }, []);
 
   const handleCompose = useCallback(async () => {
     setComposeError(null);
@@ -135,39 +363,100 @@ export function EmailAgent() {
 
     setComposing(true);
     try {
-      const response = await fetch("/api/agent", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          mode: "compose",
-          audience,
-          objective,
-          tone,
-          keyPoints: keyPoints.split(/\r?\n/),
-          callToAction,
-          signature,
-        }),
-      });
-
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload?.error ?? "Unable to generate the draft.");
-      }
-
-      const payload = (await response.json()) as ComposeResponse;
+      const request: ComposeRequest = {
+        mode: "compose",
+        audience,
+        objective,
+        tone,
+        keyPoints: keyPoints.split(/\r?\n/),
+        callToAction,
+        signature,
+        contactId: contactId || undefined,
+      };
+      setLiveStatus({ label: "Draft", stages: ["context", "draft"], details: {}, state: "running" });
+      const payload = await streamAgent<ComposeResponse>(request, trackProgress, "Unable to generate the draft.");
+      settleStatus("done", { draft: payload.subject });
       setComposeResult(payload);
+      setComposeRequest(request);
+      void saveToHistory({ request, response: payload });
     } catch (error) {
+      settleStatus("failed");
       setComposeError(
         error instanceof Error ? error.message : "Something went wrong. Try again.",
       );
     } finally {
       setComposing(false);
     }
-  }, [audience, objective, tone, keyPoints, callToAction, signature]);
+  }, [
+    contactId,
+    audience,
+    objective,
+    tone,
+    keyPoints,
+    callToAction,
+    signature,
+    saveToHistory,
+    trackProgress,
+    settleStatus,
+  ]);
+
+  const handleSequence = useCallback(async () => {
+    setComposeError(null);
+    setSequence(null);
+    if (!objective.trim()) {
+      setComposeError("Give the agent a clear objective to aim for.");
+      return;
+    }
+
+    setSequencing(true);
+    try {
+      const offsets = dayOffsets
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(Number);
+      const request: SequenceRequest = {
+        mode: "sequence",
+        audience,
+        objective,
+        tone,
+        keyPoints: keyPoints.split(/\r?\n/),
+        callToAction,
+        signature,
+        contactId: contactId || undefined,
+        dayOffsets: offsets.length ? offsets : undefined,
+      };
+      setLiveStatus({ label: "Sequence", stages: ["context", "draft"], details: {}, state: "running" });
+      const payload = await streamAgent<SequenceResponse>(request, trackProgress, "Unable to build the sequence.");
+      settleStatus("done", { draft: `${payload.steps.length} emails` });
+      setSequence(payload);
+      void saveToHistory({ request, response: payload });
+    } catch (error) {
+      settleStatus("failed");
+      setComposeError(
+        error instanceof Error ? error.message : "Something went wrong. Try again.",
+      );
+    } finally {
+      setSequencing(false);
+    }
+  }, [
+    contactId,
+    audience,
+    objective,
+    tone,
+    keyPoints,
+    callToAction,
+    signature,
+    dayOffsets,
+    saveToHistory,
+    trackProgress,
+    settleStatus,
+  ]);
 
   const resetDemo = useCallback(() => {
     setIncomingEmail(demoEmail);
+    setEmlFile(null);
     setThreadHistory(demoHistory);
+    setThreadMessages([]);
     setPersona("Alex");
     setAnalysis(null);
     setAnalysisError(null);
@@ -194,7 +483,8 @@ export function EmailAgent() {
 
   return (
     <div className="space-y-10">
-      <HeroSection onLoadDemo={resetDemo} />
+      <HistorySidebar version={historyVersion} onReopen={reopenEntry} />
+      <HeroSection onLoadDemo={resetDemo} status={liveStatus} />
       <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)] xl:grid-cols-[minmax(0,2fr)_minmax(0,1.4fr)]">
         <section className="rounded-3xl border border-zinc-100 bg-white/80 p-6 shadow-sm shadow-zinc-100 backdrop-blur">
           <div className="flex items-start justify-between gap-4">
@@ -213,15 +503,60 @@ export function EmailAgent() {
             </button>
           </div>
           <div className="mt-6 space-y-4">
-            <label className="block text-xs font-semibold uppercase tracking-wide text-zinc-400">
-              Incoming email
-            </label>
-            <textarea
-              value={incomingEmail}
-              onChange={(event) => setIncomingEmail(event.target.value)}
-              placeholder="Paste the message you need help with..."
-              className="h-56 w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
-            />
+            <div className="flex items-center justify-between">
+              <label className="block text-xs font-semibold uppercase tracking-wide text-zinc-400">
+                Incoming email
+              </label>
+              <label className="cursor-pointer text-xs font-medium text-blue-600 hover:text-blue-500">
+                Open .eml file
+                <input
+                  type="file"
+                  accept=".eml,message/rfc822"
+                  className="hidden"
+                  onChange={(event) => {
+                    void loadEmlFile(event.target.files?.[0]);
+                    event.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+            <div
+              onDragOver={(event) => {
+                event.preventDefault();
+                setDragActive(true);
+              }}
+              onDragLeave={() => setDragActive(false)}
+              onDrop={(event) => {
+                event.preventDefault();
+                setDragActive(false);
+                void loadEmlFile(event.dataTransfer.files[0]);
+              }}
+              className={`rounded-2xl transition ${dragActive ? "ring-2 ring-blue-300" : ""}`}
+            >
+              {emlFile ? (
+                <div className="flex h-56 flex-col items-center justify-center gap-2 rounded-2xl border border-dashed border-blue-200 bg-blue-50/60 px-4 text-center text-sm text-blue-700">
+                  <span className="font-semibold">{emlFile.name}</span>
+                  <span className="text-xs text-blue-500">
+                    Raw message loaded. Headers and MIME parts are parsed on the server.
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setEmlFile(null)}
+                    className="text-xs font-medium text-blue-600 hover:text-blue-500"
+                  >
+                    Switch back to pasted text
+                  </button>
+                </div>
+              ) : (
+                <textarea
+                  value={incomingEmail}
+                  maxLength={LIMITS.content}
+                  onChange={(event) => setIncomingEmail(event.target.value)}
+                  placeholder="Paste the message you need help with, or drop an .eml file..."
+                  className="h-56 w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+                />
+              )}
+            </div>
             <div className="grid gap-4 sm:grid-cols-2">
               <div>
                 <label className="block text-xs font-semibold uppercase tracking-wide text-zinc-400">
@@ -241,17 +576,58 @@ export function EmailAgent() {
                 <input
                   value={persona}
                   onChange={(event) => setPersona(event.target.value)}
-                  list="persona-presets"
-                  placeholder="e.g. Alex from Sales"
+                  list="persona-contacts"
+                  placeholder="A name or address from your contacts"
                   className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
                 />
-                <datalist id="persona-presets">
-                  {personaPresets.map((name) => (
-                    <option key={name} value={name} />
+                <datalist id="persona-contacts">
+                  {contacts.map((contact) => (
+                    <option key={contact.id} value={contact.name}>
+                      {[contact.role, contact.company].filter(Boolean).join(", ")}
+                    </option>
                   ))}
                 </datalist>
               </div>
+              <div>
+                <label className="block text-xs font-semibold uppercase tracking-wide text-zinc-400">
+                  Reply language
+                </label>
+                <select
+                  value={replyLanguage}
+                  onChange={(event) => setReplyLanguage(event.target.value as Language | "")}
+                  className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+                >
+                  <option value="">Same as the sender</option>
+                  {LANGUAGES.map((language) => (
+                    <option key={language} value={language}>
+                      {LANGUAGE_NAMES[language]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold uppercase tracking-wide text-zinc-400">
+                  Summary length
+                </label>
+                <select
+                  value={summaryLength}
+                  onChange={(event) => setSummaryLength(event.target.value as SummaryLength)}
+                  className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+                >
+                  {SUMMARY_LENGTHS.map((length) => (
+                    <option key={length} value={length}>
+                      {SUMMARY_LENGTH_LABELS[length]}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
+            <ThreadEditor
+              messages={threadMessages}
+              onChange={setThreadMessages}
+              latestFromSelf={latestFromSelf}
+              onLatestFromSelfChange={setLatestFromSelf}
+            />
             {analysisError && (
               <p className="text-sm font-medium text-rose-600">{analysisError}</p>
             )}
@@ -284,88 +660,32 @@ export function EmailAgent() {
               <p className="mt-1 text-sm text-zinc-500">
                 Synthesized summary, action items, and a ready-to-send reply draft.
               </p>
+              {analysis && (
+                <p className="mt-1 text-[11px] uppercase tracking-wide text-zinc-400">
+                  Engine: {analysis.engine}
+                  {/* Results saved before language detection have no language. */}
+                  {analysis.language && ` · Written in ${LANGUAGE_NAMES[analysis.language]}`}
+                </p>
+              )}
             </div>
             {sentimentBadge}
           </div>
-          {hasAnalysis ? (
-            <div className="mt-6 space-y-6">
-              <div>
-                <h3 className="text-sm font-semibold text-zinc-500">Summary</h3>
-                <p className="mt-2 rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm leading-relaxed text-zinc-800 shadow-inner">
-                  {analysis?.summary}
-                </p>
-              </div>
-              <div className="flex flex-wrap gap-2">
-                <PriorityChip priority={analysis!.priority} />
-                {analysis?.tags.map((tag) => (
-                  <span
-                    key={tag}
-                    className="rounded-full border border-blue-100 bg-blue-50 px-3 py-1 text-xs font-medium text-blue-700"
-                  >
-                    {tag}
-                  </span>
-                ))}
-              </div>
-              <div>
-                <h3 className="text-sm font-semibold text-zinc-500">Recommended subject</h3>
-                <CopyableCard value={analysis?.subjectSuggestion ?? ""} />
-              </div>
-              <div>
-                <h3 className="text-sm font-semibold text-zinc-500">Action items</h3>
-                <div className="mt-2 space-y-2">
-                  {analysis?.tasks.length ? (
-                    analysis?.tasks.map((task, index) => (
-                      <div
-                        key={`${task.description}-${index}`}
-                        className="rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm text-zinc-700 shadow-sm"
-                      >
-                        <div className="font-medium text-zinc-900">{task.description}</div>
-                        <div className="mt-1 text-xs text-zinc-500">
-                          {task.owner ? `Owner: ${task.owner}` : "Owner: You"}
-                          {task.due ? ` • Due ${task.due}` : ""}
-                        </div>
-                      </div>
-                    ))
-                  ) : (
-                    <p className="rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm text-zinc-500 shadow-inner">
-                      No explicit tasks detected. Archive or send a short acknowledgement.
-                    </p>
-                  )}
-                </div>
-              </div>
-              <div>
-                <h3 className="text-sm font-semibold text-zinc-500">Follow-up plan</h3>
-                <p className="mt-2 rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm leading-relaxed text-zinc-800 shadow-inner">
-                  {analysis?.followUpRecommendation}
-                </p>
-              </div>
-              <div>
-                <div className="flex items-center justify-between">
-                  <h3 className="text-sm font-semibold text-zinc-500">Reply draft</h3>
-                  <CopyButton text={analysis?.recommendedReply.body ?? ""} />
-                </div>
-                <div className="mt-2 space-y-2 rounded-2xl border border-zinc-100 bg-white p-4 text-sm text-zinc-800 shadow-sm">
-                  <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">
-                    Subject
-                  </div>
-                  <div className="rounded-xl bg-zinc-50 px-3 py-2 text-sm text-zinc-700">
-                    {analysis?.recommendedReply.subject}
-                  </div>
-                  <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">
-                    Body
-                  </div>
-                  <pre className="whitespace-pre-wrap rounded-xl bg-zinc-50 px-3 py-2 text-sm text-zinc-700">
-                    {analysis?.recommendedReply.body}
-                  </pre>
-                </div>
-              </div>
-            </div>
+          {analysis ? (
+            <AnalysisDetails
+              analysis={analysis}
+              tones={tones}
+              review={analysisRequest ? reviewFor(analysisRequest, analysis) : undefined}
+            />
           ) : (
             <EmptyState />
           )}
         </section>
       </div>
 
+      <InboxQueue replyLanguage={replyLanguage || undefined} />
+
+      <ReviewQueue actor={actor} onActorChange={setActor} version={reviewVersion} />
+
       <section id="compose" className="rounded-3xl border border-zinc-100 bg-white/80 p-6 shadow-sm shadow-zinc-100 backdrop-blur">
         <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
           <div>
@@ -375,13 +695,14 @@ export function EmailAgent() {
             </p>
           </div>
           <div className="flex flex-wrap gap-2">
-            {toneOptions.map((option) => (
+            {tones.map((option) => (
               <button
-                key={option.value}
+                key={option.id}
                 type="button"
-                onClick={() => setTone(option.value)}
+                title={option.description}
+                onClick={() => setTone(option.id)}
                 className={`rounded-full border px-4 py-1 text-xs font-semibold transition ${
-                  tone === option.value
+                  tone === option.id
                     ? "border-blue-500 bg-blue-50 text-blue-600"
                     : "border-zinc-200 text-zinc-500 hover:border-blue-200 hover:text-blue-500"
                 }`}
@@ -389,18 +710,67 @@ export function EmailAgent() {
                 {option.label}
               </button>
             ))}
+            <button
+              type="button"
+              onClick={() => setManagingTones((open) => !open)}
+              className="rounded-full px-3 py-1 text-xs font-semibold text-blue-600 transition hover:text-blue-500"
+            >
+              {managingTones ? "Done" : "Manage tones"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setManagingContacts((open) => !open)}
+              className="rounded-full px-3 py-1 text-xs font-semibold text-blue-600 transition hover:text-blue-500"
+            >
+              {managingContacts ? "Done" : "Manage contacts"}
+            </button>
           </div>
         </div>
+        {managingTones && (
+          <ToneLibrary
+            tones={tones}
+            onChange={(next) => {
+              setTones(next);
+              if (!next.some((template) => template.id === tone)) setTone("professional");
+            }}
+          />
+        )}
+        {managingContacts && (
+          <ContactBook
+            contacts={contacts}
+            tones={tones}
+            onChange={(next) => {
+              setContacts(next);
+              if (!next.some((contact) => contact.id === contactId)) setContactId("");
+            }}
+          />
+        )}
         <div className="mt-6 grid gap-6 lg:grid-cols-2">
           <div className="space-y-4">
-            <Field label="Recipient or audience">
-              <input
-                value={audience}
-                onChange={(event) => setAudience(event.target.value)}
-                placeholder="Taylor (VP of Product)"
-                className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
-              />
-            </Field>
+            <div className="grid gap-4 md:grid-cols-2">
+              <Field label="Contact">
+                <select
+                  value={contactId}
+                  onChange={(event) => pickContact(event.target.value)}
+                  className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+                >
+                  <option value="">Not in contacts</option>
+                  {contacts.map((contact) => (
+                    <option key={contact.id} value={contact.id}>
+                      {contact.company ? `${contact.name} (${contact.company})` : contact.name}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+              <Field label="Recipient or audience">
+                <input
+                  value={audience}
+                  onChange={(event) => setAudience(event.target.value)}
+                  placeholder="Taylor (VP of Product)"
+                  className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+                />
+              </Field>
+            </div>
             <Field label="Objective">
               <input
                 value={objective}
@@ -433,39 +803,54 @@ export function EmailAgent() {
                 />
               </Field>
             </div>
+            <div id="sequence">
+              <Field label="Follow-up days (after the first email)">
+                <input
+                  value={dayOffsets}
+                  onChange={(event) => setDayOffsets(event.target.value)}
+                  placeholder="3, 7, 14"
+                  className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+                />
+              </Field>
+            </div>
             {composeError && (
               <p className="text-sm font-medium text-rose-600">{composeError}</p>
             )}
-            <div className="flex items-center justify-between">
+            <div className="flex items-center justify-between gap-3">
               <p className="text-xs text-zinc-400">
                 Pro tip: Add bullets for faster, more accurate drafts.
               </p>
-              <button
-                type="button"
-                onClick={handleCompose}
-                disabled={composing}
-                className="inline-flex items-center gap-2 rounded-full bg-zinc-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:cursor-not-allowed disabled:bg-zinc-500"
-              >
-                {composing ? (
-                  <>
-                    <Spinner light />
-                    Draft email
-                  </>
-                ) : (
-                  "Draft email"
-                )}
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={handleSequence}
+                  disabled={sequencing}
+                  className="inline-flex items-center gap-2 rounded-full border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 transition hover:border-zinc-400 disabled:cursor-not-allowed disabled:text-zinc-400"
+                >
+                  {sequencing && <Spinner />}
+                  Build sequence
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCompose}
+                  disabled={composing}
+                  className="inline-flex items-center gap-2 rounded-full bg-zinc-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:cursor-not-allowed disabled:bg-zinc-500"
+                >
+                  {composing ? (
+                    <>
+                      <Spinner light />
+                      Draft email
+                    </>
+                  ) : (
+                    "Draft email"
+                  )}
+                </button>
+              </div>
             </div>
           </div>
           <div className="rounded-3xl border border-zinc-100 bg-zinc-50 p-6 shadow-inner">
             {hasComposeResult ? (
               <div className="space-y-4 text-sm text-zinc-800">
-                <div>
-                  <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">
-                    Subject
-                  </div>
-                  <CopyableCard value={composeResult?.subject ?? ""} />
-                </div>
                 <div>
                   <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">
                     Preview
@@ -474,20 +859,22 @@ export function EmailAgent() {
                     {composeResult?.preview}
                   </p>
                 </div>
-                <div>
-                  <div className="flex items-center justify-between">
-                    <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">
-                      Full draft
-                    </div>
-                    <CopyButton text={composeResult?.body ?? ""} />
-                  </div>
-                  <pre className="mt-2 h-[340px] whitespace-pre-wrap rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm leading-relaxed text-zinc-700 shadow-sm">
-                    {composeResult?.body}
-                  </pre>
-                </div>
+                {composeResult && (
+                  <DraftEditor
+                    key={`${composeResult.subject}\n${composeResult.body}`}
+                    subject={composeResult.subject}
+                    body={composeResult.body}
+                    tones={tones}
+                    delivery={{ to: contacts.find((contact) => contact.id === contactId)?.email }}
+                    review={composeRequest ? reviewFor(composeRequest, composeResult) : undefined}
+                  />
+                )}
                 <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs font-medium text-amber-700">
                   {composeResult?.cadenceTip}
                 </div>
+                <p className="text-[11px] uppercase tracking-wide text-zinc-400">
+                  Engine: {composeResult?.engine}
+                </p>
               </div>
             ) : (
               <div className="flex h-full flex-col items-center justify-center text-center text-sm text-zinc-500">
@@ -501,83 +888,2676 @@ export function EmailAgent() {
             )}
           </div>
         </div>
+        {sequence && (
+          <SequenceTimeline
+            key={sequence.steps.map((step) => step.subject).join("|")}
+            sequence={sequence}
+          />
+        )}
       </section>
     </div>
   );
 }
 
-function HeroSection({ onLoadDemo }: { onLoadDemo: () => void }) {
+type DraftRevision = {
+  label: string;
+  subject: string;
+  body: string;
+  /** Word diff from the previous revision; hand edits have none. */
+  diff?: DiffChunk[];
+};
+
+const REVISION_LABELS: Record<RevisionOperation, string> = {
+  shorten: "Shorter",
+  expand: "Longer",
+  formal: "More formal",
+  tone: "Tone",
+  "remove-bullets": "Remove bullets",
+  "add-ps": "Add P.S.",
+  rewrite: "Rewrite selection",
+};
+
+/**
+ * An editable draft with one-click revisions. Every revision is kept, so undo
+ * and redo step through them; hand edits count as a revision of their own once
+ * another revision or an undo follows them. Checks rerun as the draft changes.
+ */
+function DraftEditor({
+  subject,
+  body,
+  tones,
+  original,
+  delivery = {},
+  review,
+  bodyClassName = "h-[340px]",
+}: {
+  subject: string;
+  body: string;
+  tones: ToneTemplate[];
+  /** The email this draft replies to, so the checks can find its unanswered questions. */
+  original?: string;
+  delivery?: DraftDelivery;
+  /** Lets the draft be put under review; drafts without one can only be sent directly. */
+  review?: DraftReview;
+  bodyClassName?: string;
+}) {
+  const [revisions, setRevisions] = useState<DraftRevision[]>([{ label: "Original", subject, body }]);
+  const [position, setPosition] = useState(0);
+  const [draft, setDraft] = useState({ subject, body });
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [postscript, setPostscript] = useState("");
+  const [guidance, setGuidance] = useState("");
+  const [pending, setPending] = useState<RevisionOperation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const lint = useMemo(() => lintDraft({ body: draft.body, original }), [draft.body, original]);
+
+  const current = revisions[position];
+  const edited = draft.subject !== current.subject || draft.body !== current.body;
+
+  // Drops any redo branch and keeps unsaved hand edits before what comes next.
+  const settledHistory = useCallback(() => {
+    const kept = revisions.slice(0, position + 1);
+    return edited ? [...kept, { label: "Edited by hand", ...draft }] : kept;
+  }, [draft, edited, position, revisions]);
+
+  const revise = useCallback(
+    async (operation: RevisionOperation, options: Pick<ReviseRequest, "tone" | "text" | "range"> = {}) => {
+      setPending(operation);
+      setError(null);
+      setNotice(null);
+      try {
+        const response = await fetch("/api/agent", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ mode: "revise", ...draft, operation, ...options } satisfies ReviseRequest),
+        });
+        const payload = (await response.json()) as ReviseResponse | ErrorResponse;
+        if (!response.ok || "error" in payload) {
+          throw new Error("error" in payload ? payload.error.message : "Revision failed");
+        }
+        setNotice(payload.notice ?? null);
+        // A revision that changed nothing isn't worth a step in the undo history.
+        if (payload.subject === draft.subject && payload.body === draft.body) return;
+
+        const history = settledHistory();
+        const label = operation === "tone"
+          ? `Tone: ${tones.find((tone) => tone.id === options.tone)?.label ?? options.tone}`
+          : REVISION_LABELS[operation];
+        setRevisions([...history, { label, subject: payload.subject, body: payload.body, diff: payload.diff }]);
+        setPosition(history.length);
+        setDraft({ subject: payload.subject, body: payload.body });
+        setSelection({ start: 0, end: 0 });
+        if (operation === "add-ps") setPostscript("");
+        if (operation === "rewrite") setGuidance("");
+      } catch (reviseError) {
+        console.error(reviseError);
+        setError(reviseError instanceof Error ? reviseError.message : "Revision failed");
+      } finally {
+        setPending(null);
+      }
+    },
+    [draft, settledHistory, tones],
+  );
+
+  const goTo = useCallback(
+    (history: DraftRevision[], index: number) => {
+      setRevisions(history);
+      setPosition(index);
+      setDraft({ subject: history[index].subject, body: history[index].body });
+      setError(null);
+    },
+    [],
+  );
+
+  const handleUndo = useCallback(() => {
+    const history = settledHistory();
+    // Undoing a hand edit returns to the revision it started from.
+    goTo(history, edited ? position : position - 1);
+  }, [edited, goTo, position, settledHistory]);
+
+  const handleRedo = useCallback(() => goTo(revisions, position + 1), [goTo, position, revisions]);
+
+  const handlePickIssue = useCallback((issue: LintIssue) => {
+    const textarea = bodyRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(issue.start, issue.end);
+    setSelection({ start: issue.start, end: issue.end });
+  }, []);
+
+  const hasSelection = selection.end > selection.start;
+  const buttonClass =
+    "rounded-full border border-zinc-200 bg-white px-3 py-1 font-semibold text-zinc-700 transition hover:border-zinc-300 disabled:cursor-not-allowed disabled:text-zinc-400";
+
   return (
-    <section className="relative overflow-hidden rounded-3xl border border-blue-100 bg-gradient-to-br from-blue-50 via-white to-slate-50 p-10 shadow-sm shadow-blue-100">
-      <div className="absolute -left-24 -top-20 h-64 w-64 rounded-full bg-blue-200/40 blur-3xl" />
-      <div className="absolute -right-10 bottom-0 h-48 w-48 rounded-full bg-sky-200/40 blur-3xl" />
-      <div className="relative flex flex-col gap-10 md:flex-row md:items-center md:justify-between">
-        <div className="max-w-xl space-y-4">
-          <div className="inline-flex items-center gap-2 rounded-full border border-blue-200 bg-white/80 px-3 py-1 text-xs font-semibold text-blue-700 shadow-sm">
-            <span className="inline-block h-2 w-2 rounded-full bg-blue-400" />
-            Reclaim your inbox
-          </div>
-          <h1 className="text-3xl font-semibold tracking-tight text-zinc-900 sm:text-4xl">
-            Email agent that triages, drafts, and keeps you on top of every thread.
-          </h1>
-          <p className="text-sm leading-relaxed text-zinc-600 sm:text-base">
-            Paste any message and the agent summarizes the intent, extracts action items, and drafts a tailored reply.
-            Plan proactive outbound emails by handing it your objectives and talking points.
-          </p>
-          <div className="flex flex-wrap gap-3">
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between">
+          <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">Subject</div>
+          <CopyButton text={draft.subject} />
+        </div>
+        <input
+          value={draft.subject}
+          onChange={(event) => setDraft((previous) => ({ ...previous, subject: event.target.value }))}
+          aria-label="Draft subject"
+          className="mt-2 w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm font-medium text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+        />
+      </div>
+      <div>
+        <div className="flex items-center justify-between">
+          <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">Full draft</div>
+          <div className="flex items-center gap-3 text-xs">
             <button
               type="button"
-              onClick={onLoadDemo}
-              className="rounded-full bg-blue-600 px-5 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blue-500"
+              onClick={handleUndo}
+              disabled={pending !== null || (position === 0 && !edited)}
+              className="font-semibold text-blue-600 transition hover:text-blue-500 disabled:text-zinc-400"
             >
-              Try it with sample data
+              Undo
             </button>
-            <a
-              href="#compose"
-              className="rounded-full border border-blue-200 px-5 py-2 text-sm font-semibold text-blue-600 transition hover:border-blue-400"
+            <button
+              type="button"
+              onClick={handleRedo}
+              disabled={pending !== null || edited || position === revisions.length - 1}
+              className="font-semibold text-blue-600 transition hover:text-blue-500 disabled:text-zinc-400"
             >
-              Build outbound sequences
-            </a>
+              Redo
+            </button>
+            <CopyButton text={draft.body} />
           </div>
         </div>
-        <div className="relative hidden h-full w-full max-w-sm rounded-3xl border border-blue-100 bg-white/80 p-6 shadow-lg shadow-blue-100 md:block">
-          <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">
-            Live status
-          </div>
-          <div className="mt-4 space-y-3 text-sm">
-            <StatusRow label="Summarizing thread" status="Done" tone="positive" />
-            <StatusRow label="Extracting tasks" status="In progress" tone="neutral" />
-            <StatusRow label="Drafting reply" status="Queued" tone="neutral" />
-            <StatusRow label="Scheduling reminder" status="Optional" tone="info" />
-          </div>
-          <div className="mt-6 rounded-2xl border border-blue-100 bg-blue-50 px-4 py-3 text-xs text-blue-700">
-            Every draft remains in your control. Hit send only when you&apos;re ready.
+        <textarea
+          ref={bodyRef}
+          value={draft.body}
+          onChange={(event) => setDraft((previous) => ({ ...previous, body: event.target.value }))}
+          onSelect={(event) =>
+            setSelection({ start: event.currentTarget.selectionStart, end: event.currentTarget.selectionEnd })
+          }
+          aria-label="Draft body"
+          className={`mt-2 w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm leading-relaxed text-zinc-700 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100 ${bodyClassName}`}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {(["shorten", "expand", "formal", "remove-bullets"] as const).map((operation) => (
+          <button
+            key={operation}
+            type="button"
+            onClick={() => revise(operation)}
+            disabled={pending !== null}
+            className={buttonClass}
+          >
+            {pending === operation ? "Revising…" : REVISION_LABELS[operation]}
+          </button>
+        ))}
+        <select
+          value=""
+          onChange={(event) => event.target.value && revise("tone", { tone: event.target.value })}
+          disabled={pending !== null}
+          aria-label="Switch tone"
+          className={buttonClass}
+        >
+          <option value="">{pending === "tone" ? "Revising…" : "Switch tone…"}</option>
+          {tones.map((tone) => (
+            <option key={tone.id} value={tone.id}>
+              {tone.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          value={postscript}
+          onChange={(event) => setPostscript(event.target.value)}
+          placeholder="P.S. text"
+          maxLength={LIMITS.templateText}
+          className="min-w-0 flex-1 rounded-full border border-zinc-200 bg-white px-3 py-1 text-zinc-700 outline-none transition focus:border-blue-400"
+        />
+        <button
+          type="button"
+          onClick={() => revise("add-ps", { text: postscript })}
+          disabled={pending !== null || !postscript.trim()}
+          className={buttonClass}
+        >
+          {pending === "add-ps" ? "Revising…" : REVISION_LABELS["add-ps"]}
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          value={guidance}
+          onChange={(event) => setGuidance(event.target.value)}
+          placeholder={hasSelection ? "Optional guidance, e.g. more formal" : "Select text in the draft to rewrite it"}
+          maxLength={LIMITS.templateText}
+          className="min-w-0 flex-1 rounded-full border border-zinc-200 bg-white px-3 py-1 text-zinc-700 outline-none transition focus:border-blue-400"
+        />
+        <button
+          type="button"
+          onClick={() => revise("rewrite", { range: selection, text: guidance.trim() || undefined })}
+          disabled={pending !== null || !hasSelection}
+          className={buttonClass}
+        >
+          {pending === "rewrite" ? "Revising…" : REVISION_LABELS.rewrite}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {notice && <p className="text-xs text-amber-700">{notice}</p>}
+      <DraftChecks body={draft.body} lint={lint} onPick={handlePickIssue} />
+      {review && <ReviewSubmitPanel subject={draft.subject} body={draft.body} delivery={delivery} review={review} />}
+      <SendPanel subject={draft.subject} body={draft.body} delivery={delivery} lint={lint} />
+      {current.diff && !edited && (
+        <div className="rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-xs text-zinc-500 shadow-inner">
+          <div className="font-semibold uppercase tracking-wide text-zinc-400">
+            {current.label} · revision {position} of {revisions.length - 1}
           </div>
+          <p className="mt-2 max-h-40 overflow-y-auto whitespace-pre-wrap text-sm leading-relaxed text-zinc-700">
+            <WordDiff chunks={current.diff} />
+          </p>
         </div>
-      </div>
-    </section>
+      )}
+    </div>
+  );
+}
+
+function WordDiff({ chunks }: { chunks: DiffChunk[] }) {
+  return chunks.map((chunk, index) =>
+    chunk.type === "equal" ? (
+      <span key={index}>{chunk.text}</span>
+    ) : chunk.type === "insert" ? (
+      <ins key={index} className="bg-emerald-100 text-emerald-800 no-underline">
+        {chunk.text}
+      </ins>
+    ) : (
+      <del key={index} className="bg-red-50 text-red-600">
+        {chunk.text}
+      </del>
+    ),
+  );
+}
+
+// Most severe first.
+const LINT_SEVERITIES: LintSeverity[] = ["error", "warning", "info"];
+
+const LINT_STYLES: Record<LintSeverity, string> = {
+  error: "bg-rose-100 text-rose-900",
+  warning: "bg-amber-100 text-amber-900",
+  info: "bg-blue-50 text-blue-900",
+};
+
+const LINT_DOTS: Record<LintSeverity, string> = {
+  error: "bg-rose-500",
+  warning: "bg-amber-400",
+  info: "bg-blue-400",
+};
+
+/** Lint results for a draft, marked inline; picking an issue selects its text in the editor. */
+function DraftChecks({
+  body,
+  lint,
+  onPick,
+}: {
+  body: string;
+  lint: DraftLint;
+  onPick: (issue: LintIssue) => void;
+}) {
+  const counts = LINT_SEVERITIES.map((severity) => ({
+    severity,
+    count: lint.issues.filter((issue) => issue.severity === severity).length,
+  }));
+  const { stats } = lint;
+
+  return (
+    <div className="rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-xs text-zinc-500 shadow-inner">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold uppercase tracking-wide text-zinc-400">Checks</div>
+        <div className="flex flex-wrap items-center gap-3">
+          {stats.grade !== undefined && <span>Grade {Math.round(stats.grade)}</span>}
+          <span>
+            {stats.words} words · {stats.readingMinutes} min read
+          </span>
+          {counts.map(({ severity, count }) => (
+            <span key={severity} className="inline-flex items-center gap-1 capitalize">
+              <span className={`h-2 w-2 rounded-full ${LINT_DOTS[severity]}`} />
+              {count} {severity === "info" ? "suggestions" : `${severity}s`}
+            </span>
+          ))}
+        </div>
+      </div>
+      {lint.issues.length ? (
+        <>
+          <p className="mt-2 max-h-40 overflow-y-auto whitespace-pre-wrap text-sm leading-relaxed text-zinc-700">
+            {highlightIssues(body, lint.issues)}
+          </p>
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+            {lint.issues.map((issue, index) => (
+              <li key={`${issue.rule}-${issue.start}-${index}`}>
+                <button
+                  type="button"
+                  onClick={() => onPick(issue)}
+                  className="flex w-full items-start gap-2 rounded-lg px-2 py-1 text-left transition hover:bg-zinc-50"
+                >
+                  <span className={`mt-1 h-2 w-2 shrink-0 rounded-full ${LINT_DOTS[issue.severity]}`} />
+                  <span className="text-zinc-700">{issue.message}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p className="mt-2 text-zinc-500">No problems found.</p>
+      )}
+    </div>
+  );
+}
+
+// Like highlightEvidence, plus a caret where something missing belongs.
+function highlightIssues(text: string, issues: LintIssue[]): React.ReactNode[] {
+  const cuts = Array.from(new Set([0, text.length, ...issues.flatMap((issue) => [issue.start, issue.end])])).sort(
+    (a, b) => a - b,
+  );
+
+  return cuts.flatMap((start, index) => {
+    const end = cuts[index + 1];
+    const missing = issues.filter((issue) => issue.start === start && issue.end === start);
+    const caret = missing.length ? (
+      <span
+        key={`caret-${start}`}
+        title={missing.map((issue) => issue.message).join("\n")}
+        className={`mx-0.5 inline-block h-3 w-1 rounded-sm align-middle ${LINT_DOTS[missing[0].severity]}`}
+      />
+    ) : null;
+    if (end === undefined) return caret ? [caret] : [];
+
+    const piece = text.slice(start, end);
+    const covering = issues
+      .filter((issue) => issue.start <= start && issue.end >= end && issue.end > issue.start)
+      .sort((a, b) => LINT_SEVERITIES.indexOf(a.severity) - LINT_SEVERITIES.indexOf(b.severity));
+    const node = covering.length ? (
+      <mark
+        key={start}
+        title={covering.map((issue) => issue.message).join("\n")}
+        className={`rounded px-0.5 ${LINT_STYLES[covering[0].severity]}`}
+      >
+        {piece}
+      </mark>
+    ) : (
+      <span key={start}>{piece}</span>
+    );
+    return caret ? [caret, node] : [node];
+  });
+}
+
+/** Who a draft goes to and, for replies, which message it answers. */
+type DraftDelivery = {
+  to?: string;
+  inReplyTo?: string;
+  references?: string[];
+};
+
+const DELIVERY_LABELS: Record<DeliveryMethod, { action: string; confirm: string }> = {
+  smtp: { action: "Send", confirm: "Confirm and send" },
+  drafts: { action: "Save to Drafts", confirm: "Confirm and save" },
+};
+
+/**
+ * Sends the draft or saves it to a Drafts folder. Nothing leaves until the
+ * server's preview is confirmed, and a preview only counts for the exact draft
+ * it was made from. When the server requires reviews, only approved review
+ * drafts can be delivered.
+ */
+function SendPanel({
+  subject,
+  body,
+  delivery,
+  lint,
+  review,
+  onDelivered,
+}: {
+  subject: string;
+  body: string;
+  delivery: DraftDelivery;
+  lint: DraftLint;
+  /** The approved review draft being delivered, and who is delivering it. */
+  review?: { draftId: string; actor: string };
+  onDelivered?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [mailbox, setMailbox] = useState<MailSourceListResponse | null>(null);
+  const [to, setTo] = useState(delivery.to ?? "");
+  const [cc, setCc] = useState("");
+  const [preview, setPreview] = useState<SendPreview | null>(null);
+  const [sent, setSent] = useState<SentMessage | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useMemo(
+    (): Omit<SendRequest, "method"> => ({
+      to: splitRecipients(to),
+      cc: splitRecipients(cc),
+      subject,
+      body,
+      inReplyTo: delivery.inReplyTo,
+      references: delivery.references,
+      draftId: review?.draftId,
+      actor: review?.actor.trim() || undefined,
+    }),
+    [body, cc, delivery.inReplyTo, delivery.references, review?.actor, review?.draftId, subject, to],
+  );
+  // Any change to the draft or recipients after the preview needs a fresh one.
+  const confirmable =
+    preview &&
+    preview.subject === subject &&
+    preview.body === body &&
+    preview.to.join("\n") === request.to.join("\n") &&
+    preview.cc.join("\n") === (request.cc ?? []).join("\n")
+      ? preview
+      : null;
+  const errors = lint.issues.filter((issue) => issue.severity === "error").length;
+
+  const openPanel = useCallback(async () => {
+    setOpen(true);
+    if (mailbox) return;
+    try {
+      const response = await fetch("/api/mailbox");
+      if (!response.ok) throw new Error("Unable to load the mail settings.");
+      setMailbox((await response.json()) as MailSourceListResponse);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Unable to load the mail settings.");
+    }
+  }, [mailbox]);
+
+  const submit = useCallback(
+    async (method: DeliveryMethod, confirmation?: string) => {
+      setPending(true);
+      setError(null);
+      try {
+        const response = await fetch("/api/mailbox/send", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...request, method, confirmation } satisfies SendRequest),
+        });
+        const payload = (await response.json().catch(() => null)) as SendResponse | ErrorResponse | null;
+        if (!response.ok || !payload || "error" in payload) {
+          throw new Error(payload && "error" in payload ? payload.error.message : "Unable to deliver this draft.");
+        }
+        if (payload.status === "preview") {
+          setPreview(payload);
+          setSent(null);
+        } else {
+          setPreview(null);
+          setSent(payload);
+          onDelivered?.();
+        }
+      } catch (submitError) {
+        setError(submitError instanceof Error ? submitError.message : "Something went wrong. Try again.");
+      } finally {
+        setPending(false);
+      }
+    },
+    [onDelivered, request],
+  );
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={openPanel}
+        className="self-start rounded-full bg-blue-600 px-4 py-1.5 text-xs font-semibold text-white shadow-sm transition hover:bg-blue-500"
+      >
+        Send or save draft…
+      </button>
+    );
+  }
+
+  const methods = DELIVERY_METHODS.filter((method) =>
+    method === "smtp" ? Boolean(mailbox?.smtp) : Boolean(mailbox?.sources.length),
+  );
+  const inputClass =
+    "min-w-0 flex-1 rounded-full border border-zinc-200 bg-white px-3 py-1 text-sm text-zinc-700 outline-none transition focus:border-blue-400";
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-blue-100 bg-white px-4 py-3 text-xs text-zinc-600 shadow-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold uppercase tracking-wide text-zinc-400">Deliver</span>
+        <button type="button" onClick={() => setOpen(false)} className="font-medium text-zinc-400 hover:text-zinc-600">
+          Close
+        </button>
+      </div>
+      {mailbox && !mailbox.from ? (
+        <p>No sender address is configured on the server. Set AGENT_MAIL_FROM to send or save drafts.</p>
+      ) : mailbox && methods.length === 0 ? (
+        <p>Configure an SMTP server or a mailbox on the server to send or save drafts.</p>
+      ) : mailbox?.requireReview && !review ? (
+        <p>Drafts go out only once they are approved. Submit this one for review and deliver it from the review queue.</p>
+      ) : (
+        <>
+          <label className="flex items-center gap-2">
+            <span className="w-8 font-semibold text-zinc-500">To</span>
+            <input
+              value={to}
+              onChange={(event) => setTo(event.target.value)}
+              readOnly={Boolean(review)}
+              placeholder="name@example.com, another@example.com"
+              className={inputClass}
+            />
+          </label>
+          {/* An approval covers its recipients, and nobody was approved for Cc. */}
+          {!review && (
+            <label className="flex items-center gap-2">
+              <span className="w-8 font-semibold text-zinc-500">Cc</span>
+              <input value={cc} onChange={(event) => setCc(event.target.value)} className={inputClass} />
+            </label>
+          )}
+          {delivery.inReplyTo && <p className="text-zinc-400">Threaded as a reply to the original message.</p>}
+          {confirmable ? (
+            <div className="space-y-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-amber-900">
+              <p className="font-semibold">
+                {confirmable.method === "smtp"
+                  ? `Send now through ${confirmable.account}?`
+                  : `Save to the Drafts folder of ${confirmable.account}?`}
+              </p>
+              <p>
+                From {confirmable.from} to {[...confirmable.to, ...confirmable.cc].join(", ")}
+                <br />
+                Subject: {confirmable.subject}
+              </p>
+              {errors > 0 && (
+                <p className="font-medium text-rose-700">
+                  The checks found {errors} {errors === 1 ? "problem" : "problems"} that should be fixed first.
+                </p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => submit(confirmable.method, confirmable.confirmation)}
+                  disabled={pending}
+                  className="rounded-full bg-blue-600 px-3 py-1 font-semibold text-white transition hover:bg-blue-500 disabled:bg-blue-300"
+                >
+                  {pending ? "Delivering…" : DELIVERY_LABELS[confirmable.method].confirm}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPreview(null)}
+                  className="rounded-full border border-zinc-200 bg-white px-3 py-1 font-semibold text-zinc-600"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {methods.map((method) => (
+                <button
+                  key={method}
+                  type="button"
+                  onClick={() => submit(method)}
+                  disabled={pending || request.to.length === 0}
+                  className="rounded-full border border-blue-200 bg-white px-3 py-1 font-semibold text-blue-600 transition hover:border-blue-400 disabled:cursor-not-allowed disabled:text-zinc-400"
+                >
+                  {DELIVERY_LABELS[method].action}…
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+      {sent && (
+        <p className="font-medium text-emerald-700">
+          {sent.method === "smtp"
+            ? `Sent to ${sent.to.join(", ")} at ${new Date(sent.createdAt).toLocaleTimeString()} (${sent.detail}).`
+            : `Saved to ${sent.detail} in ${sent.account}.`}
+        </p>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+function splitRecipients(value: string): string[] {
+  return value
+    .split(/[,;\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/** Puts a generated draft under review, with the request and result that produced it. */
+type DraftReview = {
+  request: ReviewCreateRequest["request"];
+  response: ReviewCreateRequest["response"];
+  actor: string;
+  onActorChange: (actor: string) => void;
+  onSubmitted: (draft: ReviewResponse) => void;
+};
+
+/**
+ * Submits the draft as it stands for review. The engine's original text and
+ * the exact inputs go along, so the audit log shows what was generated and
+ * what was changed by hand.
+ */
+function ReviewSubmitPanel({
+  subject,
+  body,
+  delivery,
+  review,
+}: {
+  subject: string;
+  body: string;
+  delivery: DraftDelivery;
+  review: DraftReview;
+}) {
+  const [open, setOpen] = useState(false);
+  const [reviewer, setReviewer] = useState("");
+  const [pending, setPending] = useState(false);
+  const [submitted, setSubmitted] = useState<ReviewResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { onSubmitted } = review;
+  const submit = useCallback(
+    async (forReview: boolean) => {
+      setPending(true);
+      setError(null);
+      try {
+        const response = await fetch("/api/reviews", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            actor: review.actor,
+            request: review.request,
+            response: review.response,
+            subject,
+            body,
+            to: delivery.to,
+            inReplyTo: delivery.inReplyTo,
+            references: delivery.references,
+            reviewer: reviewer.trim() || undefined,
+            submit: forReview,
+          } satisfies ReviewCreateRequest),
+        });
+        const payload = (await response.json().catch(() => null)) as ReviewResponse | ErrorResponse | null;
+        if (!response.ok || !payload || "error" in payload) {
+          throw new Error(payload && "error" in payload ? payload.error.message : "Unable to submit this draft.");
+        }
+        setSubmitted(payload);
+        onSubmitted(payload);
+      } catch (submitError) {
+        setError(submitError instanceof Error ? submitError.message : "Something went wrong. Try again.");
+      } finally {
+        setPending(false);
+      }
+    },
+    [body, delivery, onSubmitted, review.actor, review.request, review.response, reviewer, subject],
+  );
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="self-start rounded-full border border-zinc-300 bg-white px-4 py-1.5 text-xs font-semibold text-zinc-700 shadow-sm transition hover:border-zinc-400"
+      >
+        Submit for review…
+      </button>
+    );
+  }
+
+  const inputClass =
+    "min-w-0 flex-1 rounded-full border border-zinc-200 bg-white px-3 py-1 text-sm text-zinc-700 outline-none transition focus:border-blue-400";
+  const named = Boolean(review.actor.trim());
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-xs text-zinc-600 shadow-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold uppercase tracking-wide text-zinc-400">Review</span>
+        <button type="button" onClick={() => setOpen(false)} className="font-medium text-zinc-400 hover:text-zinc-600">
+          Close
+        </button>
+      </div>
+      <label className="flex items-center gap-2">
+        <span className="w-16 font-semibold text-zinc-500">You</span>
+        <input
+          value={review.actor}
+          onChange={(event) => review.onActorChange(event.target.value)}
+          placeholder="Your name"
+          maxLength={LIMITS.shortText}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="w-16 font-semibold text-zinc-500">Reviewer</span>
+        <input
+          value={reviewer}
+          onChange={(event) => setReviewer(event.target.value)}
+          placeholder="Who approves it"
+          maxLength={LIMITS.shortText}
+          className={inputClass}
+        />
+      </label>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => submit(true)}
+          disabled={pending || !named || !reviewer.trim()}
+          className="rounded-full bg-zinc-900 px-3 py-1 font-semibold text-white transition hover:bg-zinc-800 disabled:bg-zinc-400"
+        >
+          {pending ? "Submitting…" : "Submit for review"}
+        </button>
+        <button
+          type="button"
+          onClick={() => submit(false)}
+          disabled={pending || !named}
+          className="rounded-full border border-zinc-200 bg-white px-3 py-1 font-semibold text-zinc-600 disabled:text-zinc-400"
+        >
+          Keep as a review draft
+        </button>
+      </div>
+      {submitted && (
+        <p className="font-medium text-emerald-700">
+          {submitted.status === "in_review"
+            ? `Sent to ${submitted.reviewer} for review. Follow it in the review queue.`
+            : "Saved as a review draft. Assign a reviewer from the review queue."}
+        </p>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+function SequenceTimeline({ sequence }: { sequence: SequenceResponse }) {
+  const [steps, setSteps] = useState<SequenceStep[]>(sequence.steps);
+  const markdown = useMemo(() => formatSequenceMarkdown(steps), [steps]);
+
+  const updateStep = (index: number, patch: Partial<SequenceStep>) =>
+    setSteps((current) =>
+      current.map((step, position) => (position === index ? { ...step, ...patch } : step)),
+    );
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([markdown], { type: "text/markdown" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "outbound-sequence.md";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-8 border-t border-zinc-100 pt-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-zinc-900">Outbound sequence</h3>
+          <p className="mt-1 text-xs text-zinc-500">
+            Edit any step before exporting. Engine: {sequence.engine}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <CopyButton text={markdown} />
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="text-xs font-semibold text-blue-600 transition hover:text-blue-500"
+          >
+            Download .md
+          </button>
+        </div>
+      </div>
+      <ol className="mt-4 space-y-4 border-l border-blue-100 pl-6">
+        {steps.map((step, index) => (
+          <li key={index} className="relative">
+            <span className="absolute -left-[31px] top-3 h-3 w-3 rounded-full border-2 border-white bg-blue-400" />
+            <div className="rounded-2xl border border-zinc-100 bg-white p-4 shadow-sm">
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="font-semibold text-zinc-900">
+                  {index === 0 ? "Initial email" : `Follow-up ${index}`}
+                </span>
+                <span className="text-zinc-400">Day {step.dayOffset}</span>
+                <span className="rounded-full border border-blue-100 bg-blue-50 px-2 py-0.5 font-medium capitalize text-blue-700">
+                  {step.tone}
+                </span>
+              </div>
+              <input
+                value={step.subject}
+                onChange={(event) => updateStep(index, { subject: event.target.value })}
+                aria-label={`Subject for step ${index + 1}`}
+                className="mt-3 w-full rounded-xl border border-zinc-200 bg-zinc-50 px-3 py-2 text-sm font-medium text-zinc-800 outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+              />
+              <textarea
+                value={step.body}
+                onChange={(event) => updateStep(index, { body: event.target.value })}
+                aria-label={`Body for step ${index + 1}`}
+                className="mt-2 h-48 w-full rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm leading-relaxed text-zinc-700 outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+              />
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+const EMPTY_TONE: ToneCreateRequest = {
+  label: "",
+  description: "",
+  greeting: "Hello",
+  subject: "",
+  opening: "",
+  closing: "",
+  signOff: "Best regards,\n{{sender}}",
+};
+
+function ToneLibrary({
+  tones,
+  onChange,
+}: {
+  tones: ToneTemplate[];
+  onChange: (tones: ToneTemplate[]) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(tones[0]?.id ?? null);
+  const editing = tones.find((template) => template.id === editingId);
+  const [draft, setDraft] = useState<ToneCreateRequest>(editing ?? EMPTY_TONE);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectTone = (template: ToneTemplate | null) => {
+    setEditingId(template?.id ?? null);
+    setDraft(template ?? EMPTY_TONE);
+    setError(null);
+  };
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const fields: ToneUpdateRequest = {
+        label: draft.label,
+        description: draft.description,
+        greeting: draft.greeting,
+        subject: draft.subject,
+        opening: draft.opening,
+        closing: draft.closing,
+        signOff: draft.signOff,
+      };
+      const response = await fetch(
+        editingId ? `/api/tones/${encodeURIComponent(editingId)}` : "/api/tones",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(fields),
+        },
+      );
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+        throw new Error(payload?.error.message ?? "Unable to save this tone.");
+      }
+
+      const saved = (await response.json()) as ToneTemplate;
+      onChange(
+        editingId
+          ? tones.map((template) => (template.id === saved.id ? saved : template))
+          : [...tones, saved],
+      );
+      setEditingId(saved.id);
+      setDraft(saved);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Unable to save this tone.");
+    } finally {
+      setSaving(false);
+    }
+  }, [draft, editingId, onChange, tones]);
+
+  const handleDelete = useCallback(async () => {
+    if (!editingId) return;
+    setError(null);
+    const response = await fetch(`/api/tones/${encodeURIComponent(editingId)}`, { method: "DELETE" });
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+      setError(payload?.error.message ?? "Unable to delete this tone.");
+      return;
+    }
+    const remaining = tones.filter((template) => template.id !== editingId);
+    onChange(remaining);
+    selectTone(remaining[0] ?? null);
+  }, [editingId, onChange, tones]);
+
+  const fieldClass =
+    "w-full rounded-2xl border border-zinc-200 bg-white px-4 py-2 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100";
+
+  return (
+    <div className="mt-6 grid gap-6 rounded-3xl border border-zinc-100 bg-zinc-50 p-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+      <div className="space-y-2">
+        <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">Tone library</div>
+        {tones.map((template) => (
+          <button
+            key={template.id}
+            type="button"
+            onClick={() => selectTone(template)}
+            className={`w-full rounded-2xl border px-4 py-2 text-left text-sm transition ${
+              template.id === editingId
+                ? "border-blue-300 bg-white text-blue-700"
+                : "border-transparent text-zinc-600 hover:border-zinc-200 hover:bg-white"
+            }`}
+          >
+            <div className="font-medium">{template.label}</div>
+            <div className="text-xs text-zinc-400">
+              {template.builtIn ? "Built-in" : template.id}
+              {template.description ? ` • ${template.description}` : ""}
+            </div>
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => selectTone(null)}
+          className="w-full rounded-2xl border border-dashed border-zinc-300 px-4 py-2 text-left text-sm font-medium text-zinc-500 transition hover:border-blue-300 hover:text-blue-600"
+        >
+          + New tone
+        </button>
+      </div>
+      <div className="space-y-3">
+        <div className="grid gap-3 md:grid-cols-2">
+          <Field label="Name">
+            <input
+              value={draft.label}
+              onChange={(event) => setDraft({ ...draft, label: event.target.value })}
+              placeholder="Legal careful"
+              className={fieldClass}
+            />
+          </Field>
+          <Field label="Greeting">
+            <input
+              value={draft.greeting}
+              onChange={(event) => setDraft({ ...draft, greeting: event.target.value })}
+              placeholder="Dear"
+              className={fieldClass}
+            />
+          </Field>
+        </div>
+        <Field label="Description">
+          <input
+            value={draft.description}
+            onChange={(event) => setDraft({ ...draft, description: event.target.value })}
+            placeholder="Measured, no commitments without review"
+            className={fieldClass}
+          />
+        </Field>
+        <Field label="Default subject">
+          <input
+            value={draft.subject}
+            onChange={(event) => setDraft({ ...draft, subject: event.target.value })}
+            className={fieldClass}
+          />
+        </Field>
+        <Field label="Opening">
+          <textarea
+            value={draft.opening}
+            onChange={(event) => setDraft({ ...draft, opening: event.target.value })}
+            className={`${fieldClass} h-20`}
+          />
+        </Field>
+        <Field label="Closing">
+          <textarea
+            value={draft.closing}
+            onChange={(event) => setDraft({ ...draft, closing: event.target.value })}
+            className={`${fieldClass} h-20`}
+          />
+        </Field>
+        <Field label="Sign-off">
+          <textarea
+            value={draft.signOff}
+            onChange={(event) => setDraft({ ...draft, signOff: event.target.value })}
+            className={`${fieldClass} h-16`}
+          />
+        </Field>
+        <p className="text-xs text-zinc-400">
+          Placeholders: {TEMPLATE_PLACEHOLDERS.map((name) => `{{${name}}}`).join(", ")}
+        </p>
+        {error && <p className="text-sm font-medium text-rose-600">{error}</p>}
+        <div className="flex items-center justify-end gap-3">
+          {editing && !editing.builtIn && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="text-xs font-semibold text-rose-600 transition hover:text-rose-500"
+            >
+              Delete tone
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="inline-flex items-center gap-2 rounded-full bg-zinc-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:cursor-not-allowed disabled:bg-zinc-500"
+          >
+            {saving && <Spinner light />}
+            {editingId ? "Save tone" : "Add tone"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const EMPTY_CONTACT: ContactFields = { name: "" };
+
+function ContactBook({
+  contacts,
+  tones,
+  onChange,
+}: {
+  contacts: Contact[];
+  tones: ToneTemplate[];
+  onChange: (contacts: Contact[]) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(contacts[0]?.id ?? null);
+  const editing = contacts.find((contact) => contact.id === editingId);
+  const [draft, setDraft] = useState<ContactFields>(editing ?? EMPTY_CONTACT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const selectContact = (contact: Contact | null) => {
+    setEditingId(contact?.id ?? null);
+    setDraft(contact ?? EMPTY_CONTACT);
+    setError(null);
+  };
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const fields: ContactFields = {
+        name: draft.name,
+        email: draft.email || undefined,
+        role: draft.role || undefined,
+        company: draft.company || undefined,
+        tone: draft.tone || undefined,
+        language: draft.language || undefined,
+        notes: draft.notes || undefined,
+      };
+      const response = await fetch(
+        editingId ? `/api/contacts/${encodeURIComponent(editingId)}` : "/api/contacts",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(fields),
+        },
+      );
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+        throw new Error(payload?.error.message ?? "Unable to save this contact.");
+      }
+
+      const saved = (await response.json()) as Contact;
+      onChange(
+        editingId
+          ? contacts.map((contact) => (contact.id === saved.id ? saved : contact))
+          : [...contacts, saved].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+      setEditingId(saved.id);
+      setDraft(saved);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Unable to save this contact.");
+    } finally {
+      setSaving(false);
+    }
+  }, [contacts, draft, editingId, onChange]);
+
+  const handleDelete = useCallback(async () => {
+    if (!editingId) return;
+    setError(null);
+    const response = await fetch(`/api/contacts/${encodeURIComponent(editingId)}`, { method: "DELETE" });
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+      setError(payload?.error.message ?? "Unable to delete this contact.");
+      return;
+    }
+    const remaining = contacts.filter((contact) => contact.id !== editingId);
+    onChange(remaining);
+    selectContact(remaining[0] ?? null);
+  }, [contacts, editingId, onChange]);
+
+  const handleImport = useCallback(
+    async (file: File | undefined) => {
+      if (!file) return;
+      setError(null);
+      setNotice(null);
+      const format: ContactImportFormat | null = /\.vcf$/i.test(file.name)
+        ? "vcard"
+        : /\.csv$/i.test(file.name)
+        ? "csv"
+        : null;
+      if (!format) {
+        setError("Import a .vcf (vCard) or .csv file.");
+        return;
+      }
+      if (file.size > LIMITS.contactImport) {
+        setError("That file is too large to import.");
+        return;
+      }
+
+      setSaving(true);
+      try {
+        const response = await fetch("/api/contacts/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ format, data: await file.text() }),
+        });
+        if (!response.ok) {
+          const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+          throw new Error(payload?.error.message ?? "Unable to import these contacts.");
+        }
+
+        const result = (await response.json()) as ContactImportResponse;
+        const imported = new Map(result.contacts.map((contact) => [contact.id, contact]));
+        onChange(
+          [
+            ...contacts.filter((contact) => !imported.has(contact.id)),
+            ...imported.values(),
+          ].sort((a, b) => a.name.localeCompare(b.name)),
+        );
+        setNotice(
+          `Imported ${result.contacts.length} contact${result.contacts.length === 1 ? "" : "s"}` +
+            (result.skipped.length
+              ? `; skipped ${result.skipped.length} (${result.skipped
+                  .slice(0, 3)
+                  .map((entry) => `#${entry.index + 1}: ${entry.message}`)
+                  .join("; ")}${result.skipped.length > 3 ? "; …" : ""})`
+              : "") +
+            ".",
+        );
+      } catch (importError) {
+        setError(importError instanceof Error ? importError.message : "Unable to import these contacts.");
+      } finally {
+        setSaving(false);
+      }
+    },
+    [contacts, onChange],
+  );
+
+  const fieldClass =
+    "w-full rounded-2xl border border-zinc-200 bg-white px-4 py-2 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100";
+
+  return (
+    <div className="mt-6 grid gap-6 rounded-3xl border border-zinc-100 bg-zinc-50 p-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+      <div className="space-y-2">
+        <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">Contacts</div>
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {contacts.map((contact) => (
+            <button
+              key={contact.id}
+              type="button"
+              onClick={() => selectContact(contact)}
+              className={`w-full rounded-2xl border px-4 py-2 text-left text-sm transition ${
+                contact.id === editingId
+                  ? "border-blue-300 bg-white text-blue-700"
+                  : "border-transparent text-zinc-600 hover:border-zinc-200 hover:bg-white"
+              }`}
+            >
+              <div className="font-medium">{contact.name}</div>
+              <div className="truncate text-xs text-zinc-400">
+                {[contact.email, contact.company].filter(Boolean).join(" • ") || "No details yet"}
+              </div>
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => selectContact(null)}
+          className="w-full rounded-2xl border border-dashed border-zinc-300 px-4 py-2 text-left text-sm font-medium text-zinc-500 transition hover:border-blue-300 hover:text-blue-600"
+        >
+          + New contact
+        </button>
+        <label className="block w-full cursor-pointer rounded-2xl border border-dashed border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-500 transition hover:border-blue-300 hover:text-blue-600">
+          Import .vcf or .csv
+          <input
+            type="file"
+            accept=".vcf,.csv,text/vcard,text/csv"
+            className="sr-only"
+            onChange={(event) => {
+              void handleImport(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      <div className="space-y-3">
+        <div className="grid gap-3 md:grid-cols-2">
+          <Field label="Name">
+            <input
+              value={draft.name}
+              onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+              placeholder="Priya Shah"
+              className={fieldClass}
+            />
+          </Field>
+          <Field label="Email">
+            <input
+              type="email"
+              value={draft.email ?? ""}
+              onChange={(event) => setDraft({ ...draft, email: event.target.value })}
+              placeholder="priya@example.com"
+              className={fieldClass}
+            />
+          </Field>
+          <Field label="Role">
+            <input
+              value={draft.role ?? ""}
+              onChange={(event) => setDraft({ ...draft, role: event.target.value })}
+              placeholder="VP of Product"
+              className={fieldClass}
+            />
+          </Field>
+          <Field label="Company">
+            <input
+              value={draft.company ?? ""}
+              onChange={(event) => setDraft({ ...draft, company: event.target.value })}
+              placeholder="Acme Corp"
+              className={fieldClass}
+            />
+          </Field>
+          <Field label="Preferred tone">
+            <select
+              value={draft.tone ?? ""}
+              onChange={(event) => setDraft({ ...draft, tone: event.target.value || undefined })}
+              className={fieldClass}
+            >
+              <option value="">No preference</option>
+              {tones.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.label}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Language">
+            <select
+              value={draft.language ?? ""}
+              onChange={(event) =>
+                setDraft({ ...draft, language: (event.target.value as Language) || undefined })
+              }
+              className={fieldClass}
+            >
+              <option value="">Same as their emails</option>
+              {LANGUAGES.map((language) => (
+                <option key={language} value={language}>
+                  {LANGUAGE_NAMES[language]}
+                </option>
+              ))}
+            </select>
+          </Field>
+        </div>
+        <Field label="Notes">
+          <textarea
+            value={draft.notes ?? ""}
+            onChange={(event) => setDraft({ ...draft, notes: event.target.value })}
+            placeholder="Prefers bullet points; renewal due in Q3"
+            className={`${fieldClass} h-20`}
+          />
+        </Field>
+        {error && <p className="text-sm font-medium text-rose-600">{error}</p>}
+        {notice && <p className="text-sm text-zinc-500">{notice}</p>}
+        <div className="flex items-center justify-end gap-3">
+          {editing && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="text-xs font-semibold text-rose-600 transition hover:text-rose-500"
+            >
+              Delete contact
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="inline-flex items-center gap-2 rounded-full bg-zinc-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:cursor-not-allowed disabled:bg-zinc-500"
+          >
+            {saving && <Spinner light />}
+            {editingId ? "Save contact" : "Add contact"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const HISTORY_KIND_LABELS: Record<HistorySummary["kind"], string> = {
+  analysis: "Triage",
+  compose: "Draft",
+  sequence: "Sequence",
+};
+
+function HistorySidebar({
+  version,
+  onReopen,
+}: {
+  version: number;
+  onReopen: (entry: HistoryEntry) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [entries, setEntries] = useState<HistorySummary[]>([]);
+  const [selected, setSelected] = useState<HistoryEntry | null>(null);
+  const [rerun, setRerun] = useState<HistoryRecord["response"] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams(search.trim() ? { q: search.trim() } : {});
+        const response = await fetch(`/api/history?${params}`, { signal: controller.signal });
+        if (!response.ok) {
+          const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+          throw new Error(payload?.error.message ?? "Unable to load history.");
+        }
+        const payload = (await response.json()) as HistoryListResponse;
+        setEntries(payload.entries);
+        setError(null);
+      } catch (loadError) {
+        if (controller.signal.aborted) return;
+        setError(loadError instanceof Error ? loadError.message : "Unable to load history.");
+      }
+    }, 250);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, search, version]);
+
+  const selectEntry = useCallback(async (id: string) => {
+    setBusy(true);
+    setRerun(null);
+    setError(null);
+    try {
+      const response = await fetch(`/api/history/${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+        throw new Error(payload?.error.message ?? "Unable to open this entry.");
+      }
+      setSelected((await response.json()) as HistoryEntry);
+    } catch (openError) {
+      setError(openError instanceof Error ? openError.message : "Unable to open this entry.");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const rerunEntry = useCallback(async (entry: HistoryEntry) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/agent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(entry.request),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+        throw new Error(payload?.error.message ?? "Unable to re-run this input.");
+      }
+      setRerun((await response.json()) as HistoryRecord["response"]);
+    } catch (rerunError) {
+      setError(rerunError instanceof Error ? rerunError.message : "Unable to re-run this input.");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const deleteEntry = useCallback(async (id: string) => {
+    const response = await fetch(`/api/history/${encodeURIComponent(id)}`, { method: "DELETE" });
+    if (!response.ok && response.status !== 404) {
+      setError("Unable to delete this entry.");
+      return;
+    }
+    setEntries((current) => current.filter((entry) => entry.id !== id));
+    setSelected(null);
+    setRerun(null);
+  }, []);
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="fixed right-6 top-6 z-30 rounded-full border border-zinc-200 bg-white px-4 py-2 text-xs font-semibold text-zinc-700 shadow-lg shadow-zinc-200 transition hover:border-blue-300 hover:text-blue-600"
+      >
+        History
+      </button>
+    );
+  }
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-30 flex w-full max-w-md flex-col border-l border-zinc-200 bg-white shadow-2xl shadow-zinc-300">
+      <div className="flex items-center justify-between border-b border-zinc-100 px-5 py-4">
+        <h2 className="text-sm font-semibold text-zinc-900">History</h2>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="text-xs font-medium text-zinc-500 hover:text-zinc-700"
+        >
+          Close
+        </button>
+      </div>
+      <div className="flex-1 space-y-4 overflow-y-auto px-5 py-4">
+        {selected ? (
+          <div className="space-y-4 text-sm">
+            <button
+              type="button"
+              onClick={() => {
+                setSelected(null);
+                setRerun(null);
+              }}
+              className="text-xs font-medium text-blue-600 hover:text-blue-500"
+            >
+              ← All entries
+            </button>
+            <div>
+              <div className="text-xs uppercase tracking-wide text-zinc-400">
+                {HISTORY_KIND_LABELS[selected.kind]} • {new Date(selected.createdAt).toLocaleString()}
+              </div>
+              <div className="mt-1 font-semibold text-zinc-900">{selected.title}</div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  onReopen(selected);
+                  setOpen(false);
+                }}
+                className="rounded-full bg-zinc-900 px-4 py-1.5 text-xs font-semibold text-white transition hover:bg-zinc-800"
+              >
+                Reopen
+              </button>
+              <button
+                type="button"
+                onClick={() => rerunEntry(selected)}
+                disabled={busy}
+                className="inline-flex items-center gap-2 rounded-full border border-zinc-300 px-4 py-1.5 text-xs font-semibold text-zinc-700 transition hover:border-zinc-400 disabled:text-zinc-400"
+              >
+                {busy && <Spinner />}
+                Re-run with current engine
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteEntry(selected.id)}
+                className="rounded-full px-3 py-1.5 text-xs font-semibold text-rose-600 transition hover:text-rose-500"
+              >
+                Delete
+              </button>
+            </div>
+            <HistoryComparison entry={selected} rerun={rerun} />
+          </div>
+        ) : (
+          <>
+            <input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search summaries, subjects, and tasks"
+              className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-2 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+            />
+            {entries.length ? (
+              <ul className="space-y-2">
+                {entries.map((entry) => (
+                  <li key={entry.id}>
+                    <button
+                      type="button"
+                      onClick={() => selectEntry(entry.id)}
+                      className="w-full rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-left text-sm shadow-sm transition hover:border-blue-200"
+                    >
+                      <div className="flex items-center justify-between text-[11px] uppercase tracking-wide text-zinc-400">
+                        <span>{HISTORY_KIND_LABELS[entry.kind]}</span>
+                        <span>{new Date(entry.createdAt).toLocaleDateString()}</span>
+                      </div>
+                      <div className="mt-1 truncate font-medium text-zinc-900">{entry.title}</div>
+                      <div className="mt-1 line-clamp-2 text-xs text-zinc-500">{entry.summary}</div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-center text-xs text-zinc-400">
+                {search.trim() ? "No saved results match this search." : "Results you generate are saved here."}
+              </p>
+            )}
+          </>
+        )}
+        {error && <p className="text-xs font-medium text-rose-600">{error}</p>}
+      </div>
+    </aside>
+  );
+}
+
+function HistoryComparison({
+  entry,
+  rerun,
+}: {
+  entry: HistoryEntry;
+  rerun: HistoryRecord["response"] | null;
+}) {
+  const saved = comparableFields(entry);
+  const current = rerun ? comparableFields({ ...entry, response: rerun } as HistoryRecord) : null;
+
+  return (
+    <dl className="space-y-3">
+      {saved.map((field, index) => {
+        const next = current?.[index]?.value;
+        const changed = next !== undefined && next !== field.value;
+        return (
+          <div key={field.label} className="rounded-2xl border border-zinc-100 bg-zinc-50 px-4 py-3">
+            <dt className="text-[11px] font-semibold uppercase tracking-wide text-zinc-400">
+              {field.label}
+            </dt>
+            <dd className="mt-1 whitespace-pre-wrap text-xs text-zinc-700">{field.value || "—"}</dd>
+            {current && (
+              <dd
+                className={`mt-2 whitespace-pre-wrap border-t border-zinc-200 pt-2 text-xs ${
+                  changed ? "text-blue-700" : "text-zinc-400"
+                }`}
+              >
+                {changed ? next || "—" : "Unchanged"}
+              </dd>
+            )}
+          </div>
+        );
+      })}
+    </dl>
+  );
+}
+
+function comparableFields(record: HistoryRecord): { label: string; value: string }[] {
+  switch (record.kind) {
+    case "analysis": {
+      const analysis = record.response;
+      return [
+        { label: "Summary", value: analysis.summary },
+        { label: "Priority", value: analysis.priority },
+        { label: "Sentiment", value: analysis.sentiment },
+        { label: "Tasks", value: analysis.tasks.map((task) => `• ${task.description}`).join("\n") },
+        { label: "Follow-up plan", value: analysis.followUpRecommendation },
+        { label: "Engine", value: analysis.engine },
+      ];
+    }
+    case "compose":
+      return [
+        { label: "Subject", value: record.response.subject },
+        { label: "Draft", value: record.response.body },
+        { label: "Engine", value: record.response.engine },
+      ];
+    case "sequence":
+      return [
+        {
+          label: "Steps",
+          value: record.response.steps
+            .map((step) => `Day ${step.dayOffset} (${step.tone}): ${step.subject}`)
+            .join("\n"),
+        },
+        { label: "Engine", value: record.response.engine },
+      ];
+  }
+}
+
+type QueueStatus = "open" | "done" | "snoozed";
+
+function InboxQueue({ replyLanguage }: { replyLanguage?: Language }) {
+  const [batch, setBatch] = useState<BatchResponse | PullResponse | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, QueueStatus>>({});
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [pasted, setPasted] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sources, setSources] = useState<MailSource[]>([]);
+  const [sourceId, setSourceId] = useState<MailSourceKind | "">("");
+  const [folders, setFolders] = useState<MailFolder[]>([]);
+  const [folder, setFolder] = useState("");
+
+  const source = sources.find((candidate) => candidate.id === sourceId) ?? sources[0];
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/mailbox", { signal: controller.signal })
+      .then((response) => (response.ok ? (response.json() as Promise<MailSourceListResponse>) : null))
+      .then((payload) => {
+        if (payload) setSources(payload.sources);
+      })
+      .catch((loadError) => {
+        if (!controller.signal.aborted) console.error("Loading mailboxes failed", loadError);
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Folder names are optional: a pull without one reads the inbox.
+  useEffect(() => {
+    if (!source) return;
+    const controller = new AbortController();
+    fetch(`/api/mailbox/${source.id}/folders`, { signal: controller.signal })
+      .then((response) => (response.ok ? (response.json() as Promise<MailFolderListResponse>) : null))
+      .then((payload) => setFolders(payload?.folders ?? []))
+      .catch((loadError) => {
+        if (!controller.signal.aborted) console.error("Loading folders failed", loadError);
+      });
+    return () => controller.abort();
+  }, [source]);
+
+  const runBatch = useCallback(async (request: BatchRequest | PullRequest) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/agent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          timeZone: browserTimeZone(),
+          replyLanguage,
+          ...request,
+        } satisfies BatchRequest | PullRequest),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+        throw new Error(payload?.error.message ?? "Unable to triage this batch.");
+      }
+
+      const payload = (await response.json()) as BatchResponse | PullResponse;
+      setBatch(payload);
+      setStatuses({});
+      setActiveId(payload.items[0]?.id ?? null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Something went wrong. Try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [replyLanguage]);
+
+  const handleFiles = useCallback(
+    async (files: FileList | null) => {
+      if (!files?.length) return;
+      const messages: NonNullable<BatchRequest["messages"]> = [];
+      const mboxes: string[] = [];
+      for (const file of Array.from(files)) {
+        const text = await file.text();
+        if (/\.mbox$/i.test(file.name)) {
+          mboxes.push(text);
+        } else {
+          messages.push({ id: file.name, raw: text });
+        }
+      }
+      await runBatch({ mode: "batch", messages, mbox: mboxes.join("\n") || undefined });
+    },
+    [runBatch],
+  );
+
+  const handlePasted = useCallback(async () => {
+    const messages = pasted
+      .split(/^\s*-{3,}\s*$/m)
+      .map((content) => content.trim())
+      .filter(Boolean)
+      .map((content) => ({ content }));
+    if (messages.length === 0) {
+      setError("Paste at least one message, separating messages with a line of ---.");
+      return;
+    }
+    await runBatch({ mode: "batch", messages });
+  }, [pasted, runBatch]);
+
+  const handlePull = useCallback(async () => {
+    if (!source) return;
+    await runBatch({ mode: "pull", source: source.id, folder: folder || undefined });
+  }, [folder, runBatch, source]);
+
+  const items = useMemo(() => {
+    const order: Record<QueueStatus, number> = { open: 0, snoozed: 1, done: 2 };
+    return [...(batch?.items ?? [])].sort(
+      (a, b) =>
+        order[statuses[a.id] ?? "open"] - order[statuses[b.id] ?? "open"] || a.rank - b.rank,
+    );
+  }, [batch, statuses]);
+
+  const activeIndex = items.findIndex((item) => item.id === activeId);
+  const active = items[activeIndex];
+  const openCount = items.filter((item) => (statuses[item.id] ?? "open") === "open").length;
+
+  const markActive = (status: QueueStatus) => {
+    if (!active) return;
+    setStatuses((current) => ({ ...current, [active.id]: status }));
+    const next = items.find(
+      (item) => item.id !== active.id && (statuses[item.id] ?? "open") === "open",
+    );
+    setActiveId(next?.id ?? active.id);
+  };
+
+  return (
+    <section className="rounded-3xl border border-zinc-100 bg-white/80 p-6 shadow-sm shadow-zinc-100 backdrop-blur">
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900">Inbox queue</h2>
+          <p className="mt-1 text-sm text-zinc-500">
+            Triage a whole morning of mail at once. Messages come back ranked by priority, sentiment, and deadlines.
+          </p>
+        </div>
+        <label className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-blue-200 px-4 py-2 text-sm font-semibold text-blue-600 transition hover:border-blue-400">
+          {loading ? <Spinner /> : null}
+          Upload .eml or .mbox files
+          <input
+            type="file"
+            multiple
+            accept=".eml,.mbox,message/rfc822,application/mbox"
+            className="hidden"
+            onChange={(event) => {
+              void handleFiles(event.target.files);
+              event.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {!batch && (
+        <div className="mt-6 space-y-3">
+          {source && (
+            <div className="flex flex-wrap items-center gap-2 rounded-2xl border border-zinc-100 bg-zinc-50/60 px-4 py-3 text-sm">
+              <select
+                value={source.id}
+                onChange={(event) => {
+                  setSourceId(event.target.value as MailSourceKind);
+                  setFolder("");
+                }}
+                aria-label="Mailbox"
+                className="rounded-full border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-700 outline-none focus:border-blue-400"
+              >
+                {sources.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.account} ({candidate.id.toUpperCase()})
+                  </option>
+                ))}
+              </select>
+              <select
+                value={folder}
+                onChange={(event) => setFolder(event.target.value)}
+                aria-label="Folder"
+                className="rounded-full border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-700 outline-none focus:border-blue-400"
+              >
+                <option value="">Inbox</option>
+                {folders
+                  .filter((candidate) => candidate.role !== "inbox")
+                  .map((candidate) => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidate.name}
+                      {candidate.unread ? ` (${candidate.unread})` : ""}
+                    </option>
+                  ))}
+              </select>
+              <button
+                type="button"
+                onClick={handlePull}
+                disabled={loading}
+                className="ml-auto inline-flex items-center gap-2 rounded-full border border-blue-200 px-4 py-1.5 text-sm font-semibold text-blue-600 transition hover:border-blue-400 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {loading ? <Spinner /> : null}
+                Pull from inbox
+              </button>
+            </div>
+          )}
+          <textarea
+            value={pasted}
+            onChange={(event) => setPasted(event.target.value)}
+            placeholder={"Or paste several emails here, separated by a line containing ---"}
+            className="h-32 w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+          />
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handlePasted}
+              disabled={loading}
+              className="inline-flex items-center gap-2 rounded-full bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blue-500 disabled:cursor-not-allowed disabled:bg-blue-300"
+            >
+              {loading ? (
+                <>
+                  <Spinner light />
+                  Ranking
+                </>
+              ) : (
+                "Rank messages"
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-4 text-sm font-medium text-rose-600">{error}</p>}
+
+      {batch && (
+        <div className="mt-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-semibold text-zinc-500">
+              {openCount} of {items.length} open
+            </span>
+            {Object.entries(batch.tagCounts).map(([tag, count]) => (
+              <span
+                key={tag}
+                className="rounded-full border border-blue-100 bg-blue-50 px-3 py-1 font-medium text-blue-700"
+              >
+                {tag} · {count}
+              </span>
+            ))}
+            {batch.skipped.length > 0 && (
+              <span className="text-zinc-400">{batch.skipped.length} skipped (no readable text)</span>
+            )}
+            {"source" in batch && (
+              <span className="text-zinc-400">
+                Pulled from {batch.source.account}
+                {batch.more ? " · more unread mail is waiting" : ""}
+              </span>
+            )}
+            {"source" in batch && batch.more && (
+              <button
+                type="button"
+                onClick={() => runBatch({ mode: "pull", source: batch.source.id, folder: batch.folder })}
+                disabled={loading}
+                className="font-medium text-blue-600 hover:text-blue-500 disabled:opacity-60"
+              >
+                Pull the next batch
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setBatch(null)}
+              className="ml-auto font-medium text-blue-600 hover:text-blue-500"
+            >
+              Start a new batch
+            </button>
+          </div>
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.6fr)]">
+            <ol className="max-h-[640px] space-y-2 overflow-y-auto pr-1">
+              {items.map((item) => {
+                const status = statuses[item.id] ?? "open";
+                return (
+                  <li key={item.id}>
+                    <button
+                      type="button"
+                      onClick={() => setActiveId(item.id)}
+                      className={`w-full rounded-2xl border px-4 py-3 text-left text-sm shadow-sm transition ${
+                        item.id === activeId
+                          ? "border-blue-300 bg-blue-50"
+                          : "border-zinc-100 bg-white hover:border-blue-200"
+                      } ${status === "open" ? "" : "opacity-60"}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs font-semibold text-zinc-400">#{item.rank}</span>
+                        <PriorityChip priority={item.analysis.priority} />
+                      </div>
+                      <div className={`mt-1 truncate font-medium text-zinc-900 ${status === "done" ? "line-through" : ""}`}>
+                        {item.subject}
+                      </div>
+                      <div className="mt-1 truncate text-xs text-zinc-500">
+                        {item.from ?? item.id}
+                        {item.analysis.requiresReply ? " • Reply needed" : ""}
+                        {status === "snoozed" ? " • Snoozed" : status === "done" ? " • Done" : ""}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+            {active ? (
+              <div className="rounded-3xl border border-blue-50 bg-gradient-to-br from-white via-white to-blue-50 p-5">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setActiveId(items[activeIndex - 1]?.id ?? active.id)}
+                      disabled={activeIndex <= 0}
+                      className="rounded-full border border-zinc-200 px-3 py-1 text-xs font-semibold text-zinc-500 transition hover:border-blue-200 disabled:opacity-40"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setActiveId(items[activeIndex + 1]?.id ?? active.id)}
+                      disabled={activeIndex >= items.length - 1}
+                      className="rounded-full border border-zinc-200 px-3 py-1 text-xs font-semibold text-zinc-500 transition hover:border-blue-200 disabled:opacity-40"
+                    >
+                      Next
+                    </button>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => markActive("snoozed")}
+                      className="rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-700 transition hover:border-amber-300"
+                    >
+                      Snooze
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => markActive("done")}
+                      className="rounded-full bg-emerald-600 px-3 py-1 text-xs font-semibold text-white transition hover:bg-emerald-500"
+                    >
+                      Mark done
+                    </button>
+                  </div>
+                </div>
+                <AnalysisDetails analysis={active.analysis} />
+              </div>
+            ) : (
+              <p className="text-sm text-zinc-500">
+                {"source" in batch && batch.items.length + batch.skipped.length === 0
+                  ? "No new unread mail since the last pull."
+                  : "Every message in this batch was skipped."}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+  sent: "Sent",
+  discarded: "Discarded",
+};
+
+const REVIEW_STATUS_STYLES: Record<ReviewStatus, string> = {
+  draft: "border-zinc-200 bg-zinc-50 text-zinc-600",
+  in_review: "border-amber-200 bg-amber-50 text-amber-700",
+  approved: "border-emerald-200 bg-emerald-50 text-emerald-700",
+  sent: "border-blue-200 bg-blue-50 text-blue-700",
+  discarded: "border-zinc-200 bg-white text-zinc-400",
+};
+
+const REVIEW_ACTION_LABELS: Record<ReviewEvent["action"], string> = {
+  create: "Created",
+  edit: "Edited",
+  assign: "Assigned a reviewer",
+  submit: "Submitted for review",
+  comment: "Commented",
+  approve: "Approved",
+  request_changes: "Requested changes",
+  reopen: "Reopened",
+  discard: "Discarded",
+  save: "Saved to Drafts",
+  send: "Sent",
+};
+
+const REVIEW_FIELD_LABELS: Record<ReviewField, string> = {
+  subject: "Subject",
+  body: "Body",
+  to: "To",
+  reviewer: "Reviewer",
+  messageId: "Message-ID",
+};
+
+/**
+ * Drafts waiting on someone: reviewers approve or send back what they are
+ * assigned, authors pick up requested changes, and approved drafts are
+ * delivered from here. Names are whatever people enter; there is no sign-in.
+ */
+function ReviewQueue({
+  actor,
+  onActorChange,
+  version,
+}: {
+  actor: string;
+  onActorChange: (actor: string) => void;
+  /** Bumped when a draft is submitted elsewhere on the page. */
+  version: number;
+}) {
+  const [status, setStatus] = useState<ReviewStatus | "">("in_review");
+  const [mine, setMine] = useState(false);
+  const [drafts, setDrafts] = useState<ReviewDraft[]>([]);
+  const [selected, setSelected] = useState<ReviewResponse | null>(null);
+  const [reloads, setReloads] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const reviewer = mine ? actor.trim() : "";
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams();
+    if (status) params.set("status", status);
+    if (reviewer) params.set("reviewer", reviewer);
+    fetch(`/api/reviews?${params}`, { signal: controller.signal })
+      .then((response) => (response.ok ? (response.json() as Promise<ReviewListResponse>) : null))
+      .then((payload) => {
+        if (payload) setDrafts(payload.drafts);
+      })
+      .catch((loadError) => {
+        if (!controller.signal.aborted) console.error("Loading reviews failed", loadError);
+      });
+    return () => controller.abort();
+  }, [status, reviewer, version, reloads]);
+
+  const openDraft = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/reviews/${id}`);
+      const payload = (await response.json().catch(() => null)) as ReviewResponse | ErrorResponse | null;
+      if (!response.ok || !payload || "error" in payload) {
+        throw new Error(payload && "error" in payload ? payload.error.message : "Unable to open this draft.");
+      }
+      setSelected(payload);
+    } catch (openError) {
+      setError(openError instanceof Error ? openError.message : "Something went wrong. Try again.");
+    }
+  }, []);
+
+  const handleChange = useCallback((draft: ReviewResponse) => {
+    setSelected(draft);
+    setReloads((count) => count + 1);
+  }, []);
+
+  const selectClass =
+    "rounded-full border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-700 outline-none focus:border-blue-400";
+
+  return (
+    <section id="reviews" className="rounded-3xl border border-zinc-100 bg-white/80 p-6 shadow-sm shadow-zinc-100 backdrop-blur">
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900">Review queue</h2>
+          <p className="mt-1 text-sm text-zinc-500">
+            Drafts go from review to approval before they are sent. Every step is kept in an audit log.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            value={actor}
+            onChange={(event) => onActorChange(event.target.value)}
+            placeholder="Your name"
+            aria-label="Your name"
+            maxLength={LIMITS.shortText}
+            className={selectClass}
+          />
+          <select
+            value={status}
+            onChange={(event) => setStatus(event.target.value as ReviewStatus | "")}
+            aria-label="Status"
+            className={selectClass}
+          >
+            <option value="">Any status</option>
+            {REVIEW_STATUSES.map((option) => (
+              <option key={option} value={option}>
+                {REVIEW_STATUS_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <label className="inline-flex items-center gap-2 text-zinc-600">
+            <input
+              type="checkbox"
+              checked={mine}
+              onChange={(event) => setMine(event.target.checked)}
+              disabled={!actor.trim()}
+            />
+            Assigned to me
+          </label>
+        </div>
+      </div>
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+        <ul className="space-y-2">
+          {drafts.length ? (
+            drafts.map((draft) => (
+              <li key={draft.id}>
+                <button
+                  type="button"
+                  onClick={() => openDraft(draft.id)}
+                  className={`w-full rounded-2xl border px-4 py-3 text-left text-sm transition ${
+                    selected?.id === draft.id
+                      ? "border-blue-300 bg-blue-50/60"
+                      : "border-zinc-100 bg-white hover:border-zinc-200"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate font-medium text-zinc-900">{draft.subject || "(no subject)"}</span>
+                    <ReviewStatusChip status={draft.status} />
+                  </div>
+                  <div className="mt-1 text-xs text-zinc-500">
+                    {draft.author}
+                    {draft.reviewer ? ` → ${draft.reviewer}` : ""} · {new Date(draft.updatedAt).toLocaleString()}
+                  </div>
+                </button>
+              </li>
+            ))
+          ) : (
+            <li className="rounded-2xl border border-dashed border-zinc-200 px-4 py-6 text-center text-sm text-zinc-500">
+              Nothing here. Submit a reply or composed draft for review to start.
+            </li>
+          )}
+        </ul>
+        <div>
+          {error && <p className="mb-3 text-sm font-medium text-rose-600">{error}</p>}
+          {selected ? (
+            <ReviewDetail
+              key={`${selected.id}:${selected.events.length}`}
+              draft={selected}
+              actor={actor}
+              onChange={handleChange}
+              onDelivered={() => openDraft(selected.id)}
+            />
+          ) : (
+            <p className="rounded-2xl border border-zinc-100 bg-zinc-50 px-4 py-6 text-center text-sm text-zinc-500">
+              Pick a draft to read it, review it, and see its history.
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function ReviewStatusChip({ status }: { status: ReviewStatus }) {
+  return (
+    <span className={`shrink-0 rounded-full border px-2 py-0.5 text-[11px] font-semibold ${REVIEW_STATUS_STYLES[status]}`}>
+      {REVIEW_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+/**
+ * One review draft: its text, editable until it is submitted, the steps open
+ * to the current person, and the full audit log.
+ */
+function ReviewDetail({
+  draft,
+  actor,
+  onChange,
+  onDelivered,
+}: {
+  draft: ReviewResponse;
+  actor: string;
+  onChange: (draft: ReviewResponse) => void;
+  onDelivered: () => void;
+}) {
+  const [text, setText] = useState({ subject: draft.subject, body: draft.body, to: draft.to ?? "" });
+  const [reviewer, setReviewer] = useState(draft.reviewer ?? "");
+  const [comment, setComment] = useState("");
+  const [pending, setPending] = useState<ReviewStep | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const lint = useMemo(() => lintDraft({ body: draft.body }), [draft.body]);
+  const editable = draft.status === "draft";
+  const closed = draft.status === "sent" || draft.status === "discarded";
+  const edited = text.subject !== draft.subject || text.body !== draft.body || text.to !== (draft.to ?? "");
+  const named = Boolean(actor.trim());
+
+  const act = useCallback(
+    async (action: ReviewStep, fields: Partial<ReviewActionRequest> = {}) => {
+      setPending(action);
+      setError(null);
+      try {
+        const response = await fetch(`/api/reviews/${draft.id}/events`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            actor,
+            action,
+            comment: comment.trim() || undefined,
+            ...fields,
+          } satisfies ReviewActionRequest),
+        });
+        const payload = (await response.json().catch(() => null)) as ReviewResponse | ErrorResponse | null;
+        if (!response.ok || !payload || "error" in payload) {
+          throw new Error(payload && "error" in payload ? payload.error.message : "Unable to save this step.");
+        }
+        onChange(payload);
+      } catch (actionError) {
+        setError(actionError instanceof Error ? actionError.message : "Something went wrong. Try again.");
+      } finally {
+        setPending(null);
+      }
+    },
+    [actor, comment, draft.id, onChange],
+  );
+
+  const buttonClass =
+    "rounded-full border border-zinc-200 bg-white px-3 py-1 font-semibold text-zinc-700 transition hover:border-zinc-300 disabled:cursor-not-allowed disabled:text-zinc-400";
+  const inputClass =
+    "w-full rounded-2xl border border-zinc-200 bg-white px-4 py-2 text-sm text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100 read-only:bg-zinc-50";
+  const step = (action: ReviewStep, label: string, fields?: Partial<ReviewActionRequest>, disabled = false) => (
+    <button
+      type="button"
+      onClick={() => act(action, fields)}
+      disabled={!named || pending !== null || disabled}
+      className={buttonClass}
+    >
+      {pending === action ? "Saving…" : label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-4 text-sm text-zinc-800">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+        <ReviewStatusChip status={draft.status} />
+        <span>
+          {draft.kind === "reply" ? "Reply" : "Composed email"} by {draft.author}
+          {draft.reviewer ? `, reviewed by ${draft.reviewer}` : ", no reviewer yet"}
+        </span>
+      </div>
+      <Field label="Subject">
+        <input
+          value={text.subject}
+          readOnly={!editable}
+          onChange={(event) => setText((previous) => ({ ...previous, subject: event.target.value }))}
+          className={inputClass}
+        />
+      </Field>
+      <Field label="To">
+        <input
+          value={text.to}
+          readOnly={!editable}
+          onChange={(event) => setText((previous) => ({ ...previous, to: event.target.value }))}
+          className={inputClass}
+        />
+      </Field>
+      <Field label="Body">
+        <textarea
+          value={text.body}
+          readOnly={!editable}
+          onChange={(event) => setText((previous) => ({ ...previous, body: event.target.value }))}
+          className={`${inputClass} h-56 leading-relaxed`}
+        />
+      </Field>
+
+      {!named && <p className="text-xs text-amber-700">Enter your name above to take part in this review.</p>}
+      <textarea
+        value={comment}
+        onChange={(event) => setComment(event.target.value)}
+        placeholder="Comment, or what should change"
+        maxLength={LIMITS.templateText}
+        className={`${inputClass} h-20`}
+      />
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {editable && step("edit", "Save edits", text, !edited)}
+        {step("comment", "Comment", undefined, !comment.trim())}
+        {draft.status === "draft" && step("submit", "Submit for review", { reviewer: reviewer.trim() || undefined })}
+        {draft.status === "in_review" &&
+          step("approve", "Approve", { subject: draft.subject, body: draft.body, to: draft.to ?? "" })}
+        {draft.status === "in_review" && step("request_changes", "Request changes", undefined, !comment.trim())}
+        {draft.status === "approved" && step("reopen", "Reopen")}
+        {!closed && step("discard", "Discard")}
+      </div>
+      {!closed && draft.status !== "approved" && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <input
+            value={reviewer}
+            onChange={(event) => setReviewer(event.target.value)}
+            placeholder="Reviewer"
+            aria-label="Reviewer"
+            maxLength={LIMITS.shortText}
+            className="min-w-0 flex-1 rounded-full border border-zinc-200 bg-white px-3 py-1 text-zinc-700 outline-none transition focus:border-blue-400"
+          />
+          {step("assign", "Assign reviewer", { reviewer: reviewer.trim() }, !reviewer.trim())}
+        </div>
+      )}
+      {draft.status === "in_review" && (
+        <p className="text-xs text-zinc-500">The text is locked while in review; the reviewer can request changes to open it.</p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {draft.status === "approved" && (
+        <SendPanel
+          subject={draft.subject}
+          body={draft.body}
+          delivery={{ to: draft.to, inReplyTo: draft.inReplyTo, references: draft.references }}
+          lint={lint}
+          review={{ draftId: draft.id, actor }}
+          onDelivered={onDelivered}
+        />
+      )}
+
+      <ReviewTimeline events={draft.events} />
+      <details className="rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-xs text-zinc-500">
+        <summary className="cursor-pointer font-semibold uppercase tracking-wide text-zinc-400">
+          Written by the {draft.engine} engine from these inputs
+        </summary>
+        <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap break-words text-[11px] text-zinc-600">
+          {JSON.stringify(draft.input, null, 2)}
+        </pre>
+      </details>
+    </div>
+  );
+}
+
+function ReviewTimeline({ events }: { events: ReviewEvent[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-zinc-500">History</h3>
+      <ol className="mt-2 space-y-2 border-l border-zinc-200 pl-4">
+        {events.map((event) => (
+          <li key={event.id} className="text-xs text-zinc-600">
+            <div>
+              <span className="font-semibold text-zinc-800">{REVIEW_ACTION_LABELS[event.action]}</span> by{" "}
+              {event.actor} · {new Date(event.at).toLocaleString()}
+              {event.from && event.from !== event.to && (
+                <span className="text-zinc-400">
+                  {" "}
+                  · {REVIEW_STATUS_LABELS[event.from]} → {REVIEW_STATUS_LABELS[event.to]}
+                </span>
+              )}
+            </div>
+            {event.comment && <p className="mt-1 whitespace-pre-wrap text-zinc-700">“{event.comment}”</p>}
+            {event.changes &&
+              (Object.entries(event.changes) as [ReviewField, { before?: string; after?: string }][]).map(
+                ([field, change]) => (
+                  <div key={field} className="mt-1">
+                    <span className="font-medium text-zinc-500">{REVIEW_FIELD_LABELS[field]}: </span>
+                    {field === "body" ? (
+                      <p className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap rounded-xl bg-zinc-50 px-3 py-2 text-zinc-700">
+                        {change.before === undefined ? (
+                          change.after
+                        ) : (
+                          <WordDiff chunks={diffWords(change.before, change.after ?? "")} />
+                        )}
+                      </p>
+                    ) : (
+                      <span>
+                        {change.before !== undefined && <del className="text-red-600">{change.before || "(none)"}</del>}
+                        {change.before !== undefined && " → "}
+                        {change.after}
+                      </span>
+                    )}
+                  </div>
+                ),
+              )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function AnalysisDetails({
+  analysis,
+  tones = DEFAULT_TONES,
+  review,
+}: {
+  analysis: AnalyzeResponse;
+  tones?: ToneTemplate[];
+  review?: DraftReview;
+}) {
+  return (
+    <div className="mt-6 space-y-6">
+      {analysis.headers && <HeaderCard headers={analysis.headers} />}
+      {analysis.contact && <ContactCard contact={analysis.contact} />}
+      {analysis.thread ? (
+        <ThreadTimeline thread={analysis.thread} />
+      ) : (
+        <div>
+          <h3 className="text-sm font-semibold text-zinc-500">Summary</h3>
+          <p className="mt-2 whitespace-pre-line rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm leading-relaxed text-zinc-800 shadow-inner">
+            {analysis.summary}
+          </p>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <PriorityChip priority={analysis.priority} />
+        {analysis.tags.map((tag, index) => (
+          <span
+            key={tag}
+            title={analysis.explanation?.tags[index]?.reason}
+            className="rounded-full border border-blue-100 bg-blue-50 px-3 py-1 text-xs font-medium text-blue-700"
+          >
+            {tag}
+          </span>
+        ))}
+      </div>
+      {/* Results saved before evidence was recorded have no explanation. */}
+      {analysis.explanation && <EvidencePanel analysis={analysis} />}
+      {analysis.segments.length > 1 && (
+        <SegmentView segments={analysis.segments} />
+      )}
+      <div>
+        <h3 className="text-sm font-semibold text-zinc-500">Recommended subject</h3>
+        <CopyableCard value={analysis.subjectSuggestion} />
+      </div>
+      <div>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-zinc-500">Action items</h3>
+          <ExportButtons analysis={analysis} />
+        </div>
+        <div className="mt-2 space-y-2">
+          {analysis.tasks.length ? (
+            analysis.tasks.map((task, index) => (
+              <div
+                key={`${task.description}-${index}`}
+                className="rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm text-zinc-700 shadow-sm"
+              >
+                <div className="font-medium text-zinc-900">{task.description}</div>
+                <div className="mt-1 text-xs text-zinc-500">
+                  {task.owner ? `Owner: ${task.owner}` : "Owner: You"}
+                  {task.due ? ` • Due ${task.due}` : ""}
+                  {task.dueDate ? ` (${formatDueLabel(task.dueDate, browserTimeZone())})` : ""}
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className="rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm text-zinc-500 shadow-inner">
+              No explicit tasks detected. Archive or send a short acknowledgement.
+            </p>
+          )}
+        </div>
+      </div>
+      {/* Results saved before question extraction have no questions. */}
+      {analysis.questions && <QuestionPanel questions={analysis.questions} requiresReply={analysis.requiresReply} />}
+      {analysis.meeting && (
+        <MeetingPanel meeting={analysis.meeting} language={analysis.language} headers={analysis.headers} />
+      )}
+      {/* Results saved before entity extraction have no entities. */}
+      {analysis.entities && <EntityPanel entities={analysis.entities} />}
+      <div>
+        <h3 className="text-sm font-semibold text-zinc-500">Follow-up plan</h3>
+        <p className="mt-2 rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm leading-relaxed text-zinc-800 shadow-inner">
+          {analysis.followUpRecommendation}
+        </p>
+      </div>
+      <div>
+        <h3 className="text-sm font-semibold text-zinc-500">Reply draft</h3>
+        <div className="mt-2 rounded-2xl border border-zinc-100 bg-zinc-50 p-4 text-sm text-zinc-800 shadow-sm">
+          <DraftEditor
+            key={`${analysis.recommendedReply.subject}\n${analysis.recommendedReply.body}`}
+            subject={analysis.recommendedReply.subject}
+            body={analysis.recommendedReply.body}
+            tones={tones}
+            delivery={{
+              to: analysis.headers?.from ? formatAddress(analysis.headers.from) : analysis.contact?.email,
+              inReplyTo: analysis.headers?.messageId,
+              references: analysis.headers?.references,
+            }}
+            review={review}
+            original={analysis.segments
+              .filter((segment) => segment.kind === "reply")
+              .map((segment) => segment.text)
+              .join("\n\n")}
+            bodyClassName="h-64"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type LiveStage = AgentProgress["stage"] | "draft";
+
+/** The request the hero card is following, with a line of detail per finished stage. */
+type LiveStatus = {
+  label: string;
+  stages: LiveStage[];
+  details: Partial<Record<LiveStage, string>>;
+  state: "running" | "done" | "failed";
+};
+
+const LIVE_STAGE_LABELS: Record<LiveStage, string> = {
+  context: "Loading tones and contacts",
+  summary: "Summarizing",
+  sentiment: "Reading sentiment",
+  tasks: "Extracting tasks",
+  questions: "Finding questions",
+  reply: "Drafting reply",
+  thread: "Rolling up the thread",
+  draft: "Writing the draft",
+};
+
+function describeProgress(progress: AgentProgress): string {
+  switch (progress.stage) {
+    case "context":
+      return progress.contact ? progress.contact.name : "No saved contact";
+    case "summary":
+      return progress.summary.length > 80 ? `${progress.summary.slice(0, 80)}…` : progress.summary;
+    case "sentiment":
+      return progress.sentiment.charAt(0).toUpperCase() + progress.sentiment.slice(1);
+    case "tasks":
+      return `${progress.tasks.length} task${progress.tasks.length === 1 ? "" : "s"} • ${progress.priority} priority`;
+    case "questions":
+      return `${progress.questions.length} question${progress.questions.length === 1 ? "" : "s"} • ${
+        progress.requiresReply ? "reply needed" : "no reply needed"
+      }`;
+    case "reply":
+      return progress.recommendedReply.subject;
+    case "thread":
+      return `${progress.messages} messages`;
+  }
+}
+
+/** Posts a request with streaming on, reporting each progress event, and resolves with the final result. */
+async function streamAgent<T>(
+  request: AgentRequest,
+  onProgress: (progress: AgentProgress) => void,
+  failure: string,
+): Promise<T> {
+  const response = await fetch("/api/agent", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: STREAM_CONTENT_TYPE },
+    body: JSON.stringify(request),
+  });
+  // Requests rejected before work starts (validation, size) still answer with a plain JSON error.
+  if (!response.ok || !response.body) {
+    const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+    throw new Error(payload?.error.message ?? failure);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    const lines = (buffered + (value ?? "")).split("\n");
+    buffered = done ? "" : lines.pop() ?? "";
+    for (const line of lines.filter((entry) => entry.trim())) {
+      const event = JSON.parse(line) as AgentStreamEvent<T>;
+      if (event.type === "progress") {
+        onProgress(event.progress);
+      } else if (event.type === "result") {
+        await reader.cancel();
+        return event.result;
+      } else {
+        await reader.cancel();
+        throw new Error(event.error.message);
+      }
+    }
+    if (done) throw new Error(failure);
+  }
+}
+
+function HeroSection({ onLoadDemo, status }: { onLoadDemo: () => void; status: LiveStatus | null }) {
+  const running = status?.state === "running" ? status.stages.find((stage) => !(stage in status.details)) : undefined;
+  const stageStatus = (stage: LiveStage): { status: string; tone: "positive" | "neutral" | "info" | "negative" } => {
+    if (!status) return { status: "Idle", tone: "info" };
+    if (status.state === "done" || stage in status.details) return { status: "Done", tone: "positive" };
+    if (status.state === "failed") return { status: "Stopped", tone: "negative" };
+    return stage === running ? { status: "In progress", tone: "neutral" } : { status: "Queued", tone: "neutral" };
+  };
+
+  return (
+    <section className="relative overflow-hidden rounded-3xl border border-blue-100 bg-gradient-to-br from-blue-50 via-white to-slate-50 p-10 shadow-sm shadow-blue-100">
+      <div className="absolute -left-24 -top-20 h-64 w-64 rounded-full bg-blue-200/40 blur-3xl" />
+      <div className="absolute -right-10 bottom-0 h-48 w-48 rounded-full bg-sky-200/40 blur-3xl" />
+      <div className="relative flex flex-col gap-10 md:flex-row md:items-center md:justify-between">
+        <div className="max-w-xl space-y-4">
+          <div className="inline-flex items-center gap-2 rounded-full border border-blue-200 bg-white/80 px-3 py-1 text-xs font-semibold text-blue-700 shadow-sm">
+            <span className="inline-block h-2 w-2 rounded-full bg-blue-400" />
+            Reclaim your inbox
+          </div>
+          <h1 className="text-3xl font-semibold tracking-tight text-zinc-900 sm:text-4xl">
+            Email agent that triages, drafts, and keeps you on top of every thread.
+          </h1>
+          <p className="text-sm leading-relaxed text-zinc-600 sm:text-base">
+            Paste any message and the agent summarizes the intent, extracts action items, and drafts a tailored reply.
+            Plan proactive outbound emails by handing it your objectives and talking points.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={onLoadDemo}
+              className="rounded-full bg-blue-600 px-5 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blue-500"
+            >
+              Try it with sample data
+            </button>
+            <a
+              href="#sequence"
+              className="rounded-full border border-blue-200 px-5 py-2 text-sm font-semibold text-blue-600 transition hover:border-blue-400"
+            >
+              Build outbound sequences
+            </a>
+          </div>
+        </div>
+        <div className="relative hidden h-full w-full max-w-sm rounded-3xl border border-blue-100 bg-white/80 p-6 shadow-lg shadow-blue-100 md:block">
+          <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-zinc-400">
+            <span>Live status</span>
+            {status && (
+              <span className={status.state === "failed" ? "text-rose-500" : undefined}>
+                {status.label}
+                {status.state === "failed" ? " failed" : status.state === "done" ? " finished" : " running"}
+              </span>
+            )}
+          </div>
+          <div className="mt-4 space-y-3 text-sm">
+            {(status?.stages ?? (["summary", "sentiment", "tasks", "questions", "reply"] as LiveStage[])).map((stage) => (
+              <StatusRow
+                key={stage}
+                label={LIVE_STAGE_LABELS[stage]}
+                detail={status?.details[stage]}
+                {...stageStatus(stage)}
+              />
+            ))}
+          </div>
+          <div className="mt-6 rounded-2xl border border-blue-100 bg-blue-50 px-4 py-3 text-xs text-blue-700">
+            Every draft remains in your control. Hit send only when you&apos;re ready.
+          </div>
+        </div>
+      </div>
+    </section>
   );
 }
 
 function StatusRow({
   label,
+  detail,
   status,
   tone,
 }: {
   label: string;
+  detail?: string;
   status: string;
-  tone: "positive" | "neutral" | "info";
+  tone: "positive" | "neutral" | "info" | "negative";
 }) {
   const badge =
     tone === "positive"
       ? "bg-emerald-100 text-emerald-700"
       : tone === "info"
       ? "bg-blue-100 text-blue-700"
+      : tone === "negative"
+      ? "bg-rose-100 text-rose-700"
       : "bg-slate-100 text-slate-600";
   return (
-    <div className="flex items-center justify-between rounded-2xl border border-zinc-100 bg-white px-4 py-3 shadow-sm">
-      <span className="text-zinc-700">{label}</span>
-      <span className={`rounded-full px-3 py-1 text-xs font-semibold ${badge}`}>{status}</span>
+    <div className="flex items-center justify-between gap-3 rounded-2xl border border-zinc-100 bg-white px-4 py-3 shadow-sm">
+      <div className="min-w-0">
+        <div className="text-zinc-700">{label}</div>
+        {detail && <div className="truncate text-xs text-zinc-400">{detail}</div>}
+      </div>
+      <span className={`shrink-0 rounded-full px-3 py-1 text-xs font-semibold ${badge}`}>{status}</span>
     </div>
   );
 }
@@ -607,7 +3587,7 @@ function Spinner({ light }: { light?: boolean }) {
   );
 }
 
-function PriorityChip({ priority }: { priority: AnalysisResponse["priority"] }) {
+function PriorityChip({ priority }: { priority: AnalyzeResponse["priority"] }) {
   const mapping = {
     high: "border-rose-200 bg-rose-100 text-rose-700",
     medium: "border-amber-200 bg-amber-100 text-amber-700",
@@ -625,6 +3605,198 @@ function PriorityChip({ priority }: { priority: AnalysisResponse["priority"] })
   );
 }
 
+const EVIDENCE_STYLES: Record<string, string> = {
+  urgency: "bg-amber-100 text-amber-900",
+  timing: "bg-amber-100 text-amber-900",
+  deadline: "bg-amber-100 text-amber-900",
+  priority: "bg-amber-100 text-amber-900",
+  negative: "bg-rose-100 text-rose-900",
+  positive: "bg-emerald-100 text-emerald-900",
+  task: "bg-blue-100 text-blue-900",
+  owner: "bg-blue-100 text-blue-900",
+};
+
+const EVIDENCE_LEGEND = [
+  { label: "Urgency & deadlines", className: EVIDENCE_STYLES.urgency },
+  { label: "Negative", className: EVIDENCE_STYLES.negative },
+  { label: "Positive", className: EVIDENCE_STYLES.positive },
+  { label: "Asks & owners", className: EVIDENCE_STYLES.task },
+];
+
+const EMOTION_LABELS: { emotion: Emotion; label: string }[] = [
+  { emotion: "frustration", label: "Frustration" },
+  { emotion: "gratitude", label: "Gratitude" },
+  { emotion: "confusion", label: "Confusion" },
+];
+
+function EvidencePanel({ analysis }: { analysis: AnalyzeResponse }) {
+  const { sentiment, priority, tags } = analysis.explanation;
+  // Segments cover the whole analyzed message, and evidence offsets index into it.
+  const source = analysis.segments.map((segment) => segment.text).join("");
+  const spans = [
+    ...priority.evidence,
+    ...sentiment.evidence,
+    ...analysis.tasks.flatMap((task) => task.evidence ?? []),
+  ];
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-zinc-500">Why this triage</h3>
+      <div className="mt-2 grid gap-2 sm:grid-cols-2">
+        <div className="rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-xs text-zinc-500 shadow-sm">
+          <span className="font-semibold text-zinc-800">Priority {priority.score}/100</span>
+          {` • ${Math.round(priority.confidence * 100)}% confidence`}
+        </div>
+        <div className="rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-xs text-zinc-500 shadow-sm">
+          <span className="font-semibold text-zinc-800">
+            Sentiment {sentiment.score > 0 ? "+" : ""}
+            {sentiment.score.toFixed(2)}
+          </span>
+          {` • ${Math.round(sentiment.confidence * 100)}% confidence`}
+          {EMOTION_LABELS.some((entry) => sentiment.emotions[entry.emotion] > 0) && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {EMOTION_LABELS.filter((entry) => sentiment.emotions[entry.emotion] > 0).map((entry) => (
+                <span key={entry.emotion} className="rounded-full bg-zinc-100 px-2 py-0.5 text-[11px] text-zinc-600">
+                  {entry.label} {Math.round(sentiment.emotions[entry.emotion] * 100)}%
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      <pre className="mt-2 max-h-64 overflow-y-auto whitespace-pre-wrap rounded-2xl border border-zinc-100 bg-white px-4 py-3 font-sans text-sm leading-relaxed text-zinc-700 shadow-inner">
+        {highlightEvidence(source, spans)}
+      </pre>
+      <div className="mt-2 flex flex-wrap gap-3 text-[11px] text-zinc-500">
+        {EVIDENCE_LEGEND.map((entry) => (
+          <span key={entry.label} className="inline-flex items-center gap-1">
+            <span className={`inline-block h-2.5 w-2.5 rounded-sm ${entry.className}`} />
+            {entry.label}
+          </span>
+        ))}
+      </div>
+      <ul className="mt-3 space-y-1 text-xs text-zinc-500">
+        {tags.map((entry) => (
+          <li key={entry.tag}>
+            <span className="font-semibold text-zinc-700">{entry.tag}:</span> {entry.reason}
+            {entry.evidence.length > 0 &&
+              ` (${Array.from(new Set(entry.evidence.map((span) => `“${span.text}”`))).join(", ")})`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Overlapping spans (an ask that also reads as negative) are cut at every boundary;
+// each piece takes the style of the narrowest span covering it and lists every signal on hover.
+function highlightEvidence(text: string, spans: Evidence[]): React.ReactNode[] {
+  const valid = spans.filter((span) => span.start >= 0 && span.end <= text.length && span.end > span.start);
+  const cuts = Array.from(new Set([0, text.length, ...valid.flatMap((span) => [span.start, span.end])])).sort(
+    (a, b) => a - b,
+  );
+
+  return cuts.slice(0, -1).map((start, index) => {
+    const end = cuts[index + 1];
+    const piece = text.slice(start, end);
+    const covering = valid
+      .filter((span) => span.start <= start && span.end >= end)
+      .sort((a, b) => a.end - a.start - (b.end - b.start));
+    if (!covering.length) return piece;
+
+    const signals = Array.from(new Set(covering.map((span) => span.signal)));
+    return (
+      <mark
+        key={start}
+        title={signals.join(", ")}
+        className={`rounded px-0.5 ${EVIDENCE_STYLES[covering[0].signal] ?? "bg-zinc-100 text-zinc-900"}`}
+      >
+        {piece}
+      </mark>
+    );
+  });
+}
+
+const SUMMARY_LENGTH_LABELS: Record<SummaryLength, string> = {
+  "one-line": "One line",
+  short: "Short",
+  detailed: "Detailed bullets",
+};
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  ics: ".ics",
+  csv: "CSV",
+  markdown: "Markdown",
+};
+
+function ExportButtons({ analysis }: { analysis: AnalyzeResponse }) {
+  const [pending, setPending] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = useCallback(
+    async (format: ExportFormat) => {
+      setPending(format);
+      setError(null);
+      try {
+        const response = await fetch("/api/agent", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            mode: "export",
+            format,
+            tasks: analysis.tasks,
+            followUpRecommendation: analysis.followUpRecommendation,
+            subject: analysis.headers?.subject ?? analysis.subjectSuggestion,
+            timeZone: browserTimeZone(),
+          } satisfies ExportRequest),
+        });
+
+        if (!response.ok) {
+          const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+          throw new Error(payload?.error.message ?? "Export failed");
+        }
+
+        await downloadResponse(response, `action-items.${format === "markdown" ? "md" : format}`);
+      } catch (exportError) {
+        console.error(exportError);
+        setError(exportError instanceof Error ? exportError.message : "Export failed");
+      } finally {
+        setPending(null);
+      }
+    },
+    [analysis],
+  );
+
+  return (
+    <div className="flex items-center gap-3 text-xs">
+      {error && <span className="text-red-600">{error}</span>}
+      <span className="text-zinc-400">Export</span>
+      {EXPORT_FORMATS.map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={pending !== null}
+          className="font-semibold text-blue-600 transition hover:text-blue-500 disabled:text-zinc-400"
+        >
+          {pending === format ? "Exporting…" : EXPORT_LABELS[format]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** Saves a file response under the name the server gave it. */
+async function downloadResponse(response: Response, fallbackName: string) {
+  const filename = response.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 function CopyButton({ text }: { text: string }) {
   const [copied, setCopied] = useState(false);
 
@@ -658,6 +3830,508 @@ function CopyableCard({ value }: { value: string }) {
   );
 }
 
+function HeaderCard({ headers }: { headers: EmailHeaders }) {
+  const rows = [
+    { label: "From", value: headers.from ? formatAddress(headers.from) : undefined },
+    { label: "To", value: headers.to.map(formatAddress).join(", ") },
+    { label: "Cc", value: headers.cc.map(formatAddress).join(", ") },
+    {
+      label: "Date",
+      value: headers.date
+        ? new Date(headers.date).toLocaleString(undefined, {
+            dateStyle: "medium",
+            timeStyle: "short",
+          })
+        : undefined,
+    },
+    { label: "Subject", value: headers.subject },
+  ].filter((row) => row.value);
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-zinc-500">Message headers</h3>
+      <dl className="mt-2 grid grid-cols-[auto_minmax(0,1fr)] gap-x-4 gap-y-1 rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm shadow-inner">
+        {rows.map((row) => (
+          <div key={row.label} className="contents">
+            <dt className="text-xs font-semibold uppercase tracking-wide text-zinc-400">
+              {row.label}
+            </dt>
+            <dd className="truncate text-zinc-700">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+function ContactCard({ contact }: { contact: Contact }) {
+  const details = [
+    [contact.role, contact.company].filter(Boolean).join(" at "),
+    contact.email,
+    contact.language && `Prefers ${LANGUAGE_NAMES[contact.language]}`,
+  ].filter(Boolean);
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-zinc-500">From your contacts</h3>
+      <div className="mt-2 rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm shadow-inner">
+        <div className="font-medium text-zinc-900">{contact.name}</div>
+        {details.length > 0 && <div className="mt-1 text-xs text-zinc-500">{details.join(" • ")}</div>}
+        {contact.notes && <p className="mt-2 whitespace-pre-line text-xs text-zinc-600">{contact.notes}</p>}
+      </div>
+    </div>
+  );
+}
+
+const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+  "yes-no": "Yes or no",
+  scheduling: "Scheduling",
+  request: "Asks you to act",
+  information: "Needs an answer",
+};
+
+function QuestionPanel({ questions, requiresReply }: { questions: Question[]; requiresReply: boolean }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-500">Questions to answer</h3>
+        <span
+          className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+            requiresReply
+              ? "border-amber-200 bg-amber-100 text-amber-700"
+              : "border-emerald-200 bg-emerald-100 text-emerald-700"
+          }`}
+        >
+          {requiresReply ? "Reply needed" : "No reply needed"}
+        </span>
+      </div>
+      {questions.length ? (
+        <ul className="mt-2 space-y-2">
+          {questions.map((question) => (
+            <li
+              key={question.start}
+              className="flex items-start justify-between gap-3 rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm text-zinc-700 shadow-sm"
+            >
+              <span>{question.text}</span>
+              <span className="shrink-0 rounded-full bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600">
+                {QUESTION_KIND_LABELS[question.kind]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm text-zinc-500 shadow-inner">
+          The sender didn&apos;t ask anything directly.
+        </p>
+      )}
+    </div>
+  );
+}
+
+const SLOT_FIT_LABELS: Record<SlotFit, { label: string; className: string }> = {
+  free: { label: "You're free", className: "border-emerald-200 bg-emerald-100 text-emerald-700" },
+  busy: { label: "Clashes with your calendar", className: "border-red-200 bg-red-100 text-red-700" },
+  "outside-hours": { label: "Outside working hours", className: "border-amber-200 bg-amber-100 text-amber-700" },
+};
+
+function MeetingPanel({
+  meeting,
+  language,
+  headers,
+}: {
+  meeting: MeetingRequest;
+  language: Language;
+  headers?: EmailHeaders;
+}) {
+  const { invite } = meeting;
+  const timeZone = browserTimeZone();
+  // The attendee the message was addressed to is most likely the one answering.
+  const [attendee, setAttendee] = useState(() => {
+    const recipients = new Set([...(headers?.to ?? []), ...(headers?.cc ?? [])].map((to) => to.address.toLowerCase()));
+    return invite?.attendees.find((entry) => recipients.has(entry.address.toLowerCase()))?.address ?? "";
+  });
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const respond = useCallback(
+    async (action: InviteResponseAction, slot?: TimeSlot) => {
+      if (!invite) return;
+      setPending(slot ? slot.start : action);
+      setError(null);
+      try {
+        const [typed] = parseAddressList(attendee);
+        const response = await fetch("/api/agent", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            mode: "invite-response",
+            invite,
+            action,
+            attendee: typed
+              ? invite.attendees.find((entry) => entry.address.toLowerCase() === typed.address.toLowerCase()) ?? typed
+              : undefined,
+            slot,
+          } satisfies InviteResponseRequest),
+        });
+
+        if (!response.ok) {
+          const payload = (await response.json().catch(() => null)) as ErrorResponse | null;
+          throw new Error(payload?.error.message ?? "Invite reply failed");
+        }
+
+        await downloadResponse(response, `invite-${action}.ics`);
+      } catch (respondError) {
+        console.error(respondError);
+        setError(respondError instanceof Error ? respondError.message : "Invite reply failed");
+      } finally {
+        setPending(null);
+      }
+    },
+    [attendee, invite],
+  );
+
+  const fit = meeting.inviteFit && SLOT_FIT_LABELS[meeting.inviteFit];
+  const answerable = invite && invite.method !== "CANCEL";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-500">{invite ? "Meeting invite" : "Meeting request"}</h3>
+        {fit && <span className={`rounded-full border px-3 py-1 text-xs font-semibold ${fit.className}`}>{fit.label}</span>}
+      </div>
+      <div className="mt-2 space-y-3 rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm text-zinc-700 shadow-inner">
+        {invite && (
+          <div>
+            <div className="font-medium text-zinc-900">
+              {invite.summary ?? "Untitled event"}
+              {invite.method === "CANCEL" && <span className="ml-2 text-xs font-semibold text-red-600">Cancelled</span>}
+            </div>
+            <div className="mt-1 text-xs text-zinc-500">
+              {[
+                formatSlot(invite, language, timeZone),
+                invite.location,
+                invite.organizer && `Organized by ${formatAddress(invite.organizer)}`,
+              ]
+                .filter(Boolean)
+                .join(" • ")}
+            </div>
+            {invite.attendees.length > 0 && (
+              <div className="mt-1 text-xs text-zinc-500">
+                With {invite.attendees.map((entry) => entry.name ?? entry.address).join(", ")}
+              </div>
+            )}
+          </div>
+        )}
+        {!invite && (
+          <p className="text-xs text-zinc-500">
+            The sender wants to meet for about {meeting.durationMinutes} minutes.
+          </p>
+        )}
+        {meeting.proposedSlots.length > 0 ? (
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-zinc-400">Free times to offer</div>
+            <ul className="mt-1 space-y-1">
+              {meeting.proposedSlots.map((slot) => (
+                <li key={slot.start} className="flex items-center justify-between gap-3">
+                  <span>{formatSlot(slot, language, timeZone)}</span>
+                  {answerable && (
+                    <button
+                      type="button"
+                      onClick={() => respond("counter", slot)}
+                      disabled={pending !== null}
+                      className="shrink-0 text-xs font-semibold text-blue-600 transition hover:text-blue-500 disabled:text-zinc-400"
+                    >
+                      {pending === slot.start ? "Preparing…" : "Propose this time"}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          !meeting.inviteFit && (
+            <p className="text-xs text-zinc-500">
+              Set AGENT_AVAILABILITY_PATH on the server to have free times proposed from your calendar.
+            </p>
+          )
+        )}
+        {answerable && (
+          <div className="flex flex-wrap items-center gap-3 border-t border-zinc-100 pt-3">
+            <input
+              value={attendee}
+              onChange={(event) => setAttendee(event.target.value)}
+              placeholder="Reply as (defaults to the sending address)"
+              className="min-w-0 flex-1 rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-xs text-zinc-800 shadow-sm outline-none transition focus:border-blue-400 focus:ring-2 focus:ring-blue-100"
+            />
+            {(["accept", "decline"] as const).map((action) => (
+              <button
+                key={action}
+                type="button"
+                onClick={() => respond(action)}
+                disabled={pending !== null}
+                className="text-xs font-semibold text-blue-600 transition hover:text-blue-500 disabled:text-zinc-400"
+              >
+                {pending === action ? "Preparing…" : action === "accept" ? "Accept (.ics)" : "Decline (.ics)"}
+              </button>
+            ))}
+          </div>
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+const ENTITY_LABELS: Record<keyof Entities, string> = {
+  people: "People",
+  organizations: "Organizations",
+  emails: "Email addresses",
+  phones: "Phone numbers",
+  amounts: "Amounts",
+  dates: "Dates",
+  urls: "Links",
+  attachments: "Attachments",
+};
+
+function EntityPanel({ entities }: { entities: Entities }) {
+  const groups = (Object.keys(ENTITY_LABELS) as (keyof Entities)[]).filter((kind) => entities[kind].length);
+  if (!groups.length) return null;
+
+  const label = (kind: keyof Entities, index: number) => {
+    if (kind === "amounts") {
+      const { text, value, currency } = entities.amounts[index];
+      return currency
+        ? new Intl.NumberFormat(undefined, { style: "currency", currency, maximumFractionDigits: 2 }).format(value)
+        : text;
+    }
+    if (kind === "dates") {
+      const { text, iso } = entities.dates[index];
+      return iso ? `${text} (${formatDueLabel(iso, browserTimeZone())})` : text;
+    }
+    return entities[kind][index].text;
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-zinc-500">Mentioned in this email</h3>
+      <dl className="mt-2 grid grid-cols-[auto_minmax(0,1fr)] gap-x-4 gap-y-2 rounded-2xl border border-zinc-100 bg-white px-4 py-3 text-sm shadow-inner">
+        {groups.map((kind) => (
+          <div key={kind} className="contents">
+            <dt className="pt-1 text-xs font-semibold uppercase tracking-wide text-zinc-400">
+              {ENTITY_LABELS[kind]}
+            </dt>
+            <dd className="flex flex-wrap gap-1">
+              {entities[kind].map((entity, index) =>
+                kind === "urls" ? (
+                  <a
+                    key={entity.start}
+                    href={entity.text.startsWith("www.") ? `https://${entity.text}` : entity.text}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="truncate rounded-full bg-zinc-100 px-2 py-0.5 text-xs text-blue-700 hover:underline"
+                  >
+                    {entity.text}
+                  </a>
+                ) : (
+                  <span key={entity.start} className="rounded-full bg-zinc-100 px-2 py-0.5 text-xs text-zinc-700">
+                    {label(kind, index)}
+                  </span>
+                ),
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+function ThreadEditor({
+  messages,
+  onChange,
+  latestFromSelf,
+  onLatestFromSelfChange,
+}: {
+  messages: ThreadMessage[];
+  onChange: (messages: ThreadMessage[]) => void;
+  latestFromSelf: boolean;
+  onLatestFromSelfChange: (fromSelf: boolean) => void;
+}) {
+  const update = (index: number, patch: Partial<ThreadMessage>) =>
+    onChange(messages.map((message, position) => (position === index ? { ...message, ...patch } : message)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-xs font-semibold uppercase tracking-wide text-zinc-400">
+          Earlier messages (optional)
+        </label>
+        <button
+          type="button"
+          onClick={() => onChange([...messages, { sender: "", body: "" }])}
+          className="text-xs font-medium text-blue-600 hover:text-blue-500"
+        >
+          Add message
+        </button>
+      </div>
+      {messages.map((message, index) => (
+        <div key={index} className="space-y-2 rounded-2xl border border-zinc-200 bg-white p-3 shadow-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={message.sender}
+              onChange={(event) => update(index, { sender: event.target.value })}
+              placeholder="Sender"
+              className="min-w-0 flex-1 rounded-xl border border-zinc-200 px-3 py-1.5 text-sm text-zinc-800 outline-none focus:border-blue-400"
+            />
+            <input
+              type="datetime-local"
+              value={message.timestamp ?? ""}
+              onChange={(event) => update(index, { timestamp: event.target.value || undefined })}
+              className="rounded-xl border border-zinc-200 px-3 py-1.5 text-xs text-zinc-600 outline-none focus:border-blue-400"
+            />
+            <label className="flex items-center gap-1 text-xs text-zinc-500">
+              <input
+                type="checkbox"
+                checked={Boolean(message.fromSelf)}
+                onChange={(event) => update(index, { fromSelf: event.target.checked })}
+              />
+              From me
+            </label>
+            <button
+              type="button"
+              onClick={() => onChange(messages.filter((_, position) => position !== index))}
+              className="text-xs font-medium text-rose-500 hover:text-rose-400"
+            >
+              Remove
+            </button>
+          </div>
+          <textarea
+            value={message.body}
+            onChange={(event) => update(index, { body: event.target.value })}
+            placeholder="Message body"
+            className="h-20 w-full rounded-xl border border-zinc-200 px-3 py-2 text-sm text-zinc-800 outline-none focus:border-blue-400"
+          />
+        </div>
+      ))}
+      {messages.length > 0 && (
+        <label className="flex items-center gap-1 text-xs text-zinc-500">
+          <input
+            type="checkbox"
+            checked={latestFromSelf}
+            onChange={(event) => onLatestFromSelfChange(event.target.checked)}
+          />
+          The email being analyzed is from me
+        </label>
+      )}
+    </div>
+  );
+}
+
+function ThreadTimeline({ thread }: { thread: ThreadRollup }) {
+  const statusStyles: Record<ThreadRollup["status"], { label: string; className: string }> = {
+    "waiting-on-us": { label: "Waiting on us", className: "border-rose-200 bg-rose-50 text-rose-700" },
+    "waiting-on-them": { label: "Waiting on them", className: "border-amber-200 bg-amber-50 text-amber-700" },
+    resolved: { label: "Resolved", className: "border-emerald-200 bg-emerald-50 text-emerald-700" },
+  };
+  const sentimentDot = {
+    positive: "bg-emerald-400",
+    neutral: "bg-slate-300",
+    negative: "bg-rose-400",
+  };
+  const status = statusStyles[thread.status];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-zinc-500">Thread timeline</h3>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-zinc-400">Sentiment {thread.sentimentTrajectory.trend}</span>
+          <span className={`rounded-full border px-3 py-1 font-semibold ${status.className}`}>
+            {status.label}
+          </span>
+        </div>
+      </div>
+      <ol className="mt-3 space-y-4 border-l border-zinc-200 pl-4">
+        {thread.messages.map((message, index) => {
+          const asks = thread.asks.filter((ask) => ask.messageIndex === index);
+          return (
+            <li key={index} className="relative">
+              <span
+                className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ring-2 ring-white ${sentimentDot[message.sentiment]}`}
+              />
+              <div className="flex items-baseline justify-between gap-2 text-xs">
+                <span className="font-semibold text-zinc-700">
+                  {message.sender}
+                  {message.fromSelf ? " (you)" : ""}
+                </span>
+                {message.timestamp && (
+                  <span className="text-zinc-400">
+                    {new Date(message.timestamp).toLocaleString(undefined, {
+                      dateStyle: "medium",
+                      timeStyle: "short",
+                    })}
+                  </span>
+                )}
+              </div>
+              <p className="mt-1 rounded-2xl border border-zinc-100 bg-white px-3 py-2 text-sm leading-relaxed text-zinc-800 shadow-inner">
+                {message.summary}
+              </p>
+              {asks.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {asks.map((ask) => (
+                    <li key={ask.description} className={ask.resolved ? "text-zinc-400" : "text-zinc-600"}>
+                      <span className={ask.resolved ? "line-through" : ""}>{ask.description}</span>
+                      {ask.resolvedBy && (
+                        <span className="ml-1 text-emerald-600">
+                          Resolved by {ask.resolvedBy.sender}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+function SegmentView({ segments }: { segments: MessageSegment[] }) {
+  const styles: Record<MessageSegment["kind"], string> = {
+    reply: "text-zinc-800",
+    quoted: "border-l-2 border-zinc-200 bg-zinc-50 pl-3 text-zinc-400",
+    signature: "italic text-zinc-500",
+    disclaimer: "text-[11px] leading-snug text-zinc-400",
+  };
+  const labels: Record<MessageSegment["kind"], string> = {
+    reply: "New reply",
+    quoted: "Quoted history",
+    signature: "Signature",
+    disclaimer: "Disclaimer",
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-zinc-500">Message breakdown</h3>
+      <p className="mt-1 text-xs text-zinc-400">
+        Only the new reply is triaged. Quoted history feeds the thread context.
+      </p>
+      <div className="mt-2 max-h-64 space-y-2 overflow-y-auto rounded-2xl border border-zinc-100 bg-white px-4 py-3 shadow-inner">
+        {segments.map((segment) => (
+          <div key={segment.start} title={labels[segment.kind]} className={styles[segment.kind]}>
+            <div className="text-[10px] font-semibold uppercase tracking-wide text-zinc-300">
+              {labels[segment.kind]}
+            </div>
+            <pre className="whitespace-pre-wrap font-sans text-sm">{segment.text.trim()}</pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function Field({ label, children }: { label: string; children: React.ReactNode }) {
   return (
     <label className="block">
@@ -681,3 +4355,7 @@ function EmptyState() {
     </div>
   );
 }
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
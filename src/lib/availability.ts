@@ -0,0 +1,26 @@
+import { readFile } from "node:fs/promises";
+import { CalendarAvailability, parseAvailability } from "@/lib/calendar";
+
+// Proposals look two weeks ahead, so busy time beyond a month never matters.
+const HORIZON_DAYS = 31;
+
+/**
+ * Reads the availability calendar at `AGENT_AVAILABILITY_PATH`: an .ics file
+ * with busy events or free/busy blocks and, optionally, working hours as
+ * VAVAILABILITY. Triage should keep working without it, so a missing or
+ * unreadable file only means no slots get proposed.
+ */
+export async function loadAvailability(
+  timeZone: string,
+  now = new Date(),
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<CalendarAvailability | undefined> {
+  const path = env.AGENT_AVAILABILITY_PATH;
+  if (!path) return undefined;
+  try {
+    return parseAvailability(await readFile(path, "utf8"), timeZone, now, HORIZON_DAYS);
+  } catch (error) {
+    console.warn(`Availability calendar at ${path} unavailable, proposing no slots`, error);
+    return undefined;
+  }
+}
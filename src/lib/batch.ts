@@ -0,0 +1,48 @@
+import type { AnalyzeResponse, BatchItem } from "@/lib/schema";
+
+type BatchEntry = Omit<BatchItem, "rank" | "score">;
+
+const PRIORITY_WEIGHT: Record<AnalyzeResponse["priority"], number> = {
+  high: 100,
+  medium: 50,
+  low: 0,
+};
+
+const SENTIMENT_WEIGHT: Record<AnalyzeResponse["sentiment"], number> = {
+  negative: 20,
+  neutral: 0,
+  positive: -5,
+};
+
+export function rankBatch(entries: BatchEntry[]): BatchItem[] {
+  return entries
+    .map((entry) => ({ ...entry, score: scoreAnalysis(entry.analysis) }))
+    .sort((a, b) => b.score - a.score)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+export function countTags(items: { analysis: AnalyzeResponse }[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const { analysis } of items) {
+    for (const tag of analysis.tags) {
+      counts[tag] = (counts[tag] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+function scoreAnalysis(analysis: AnalyzeResponse): number {
+  const now = Date.now();
+  const deadlineScore = analysis.tasks.reduce((total, task) => {
+    if (!task.dueDate) return total + (task.due ? 5 : 0);
+    const hoursLeft = (Date.parse(task.dueDate) - now) / 3_600_000;
+    return total + (hoursLeft <= 24 ? 30 : hoursLeft <= 72 ? 15 : 5);
+  }, 0);
+  return (
+    PRIORITY_WEIGHT[analysis.priority] +
+    SENTIMENT_WEIGHT[analysis.sentiment] +
+    deadlineScore +
+    Math.min(analysis.tasks.length, 5) * 3 +
+    (analysis.requiresReply ? 10 : 0)
+  );
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { buildInviteResponse, parseInvite } from "@/lib/calendar";
+
+const INVITE = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "METHOD:REQUEST",
+  "BEGIN:VEVENT",
+  "UID:abc-123@example.com",
+  "SEQUENCE:2",
+  "SUMMARY:Quarterly review\\, Q1",
+  "LOCATION:Room 4",
+  "DTSTART;TZID=Europe/Berlin:20260310T140000",
+  "DTEND;TZID=Europe/Berlin:20260310T150000",
+  "ORGANIZER;CN=Priya Shah:mailto:priya@example.com",
+  "ATTENDEE;CN=Sam Lee;PARTSTAT=NEEDS-ACTION:mailto:sam@example.com",
+  'ATTENDEE;CN="Very long name of a participant that goes on";PARTSTAT=ACCEPTED:mai',
+  " lto:long@example.com",
+  "END:VEVENT",
+  // An override of one occurrence, which is not the invite itself.
+  "BEGIN:VEVENT",
+  "UID:abc-123@example.com",
+  "RECURRENCE-ID:20260317T140000",
+  "DTSTART:20260317T150000Z",
+  "DTEND:20260317T160000Z",
+  "END:VEVENT",
+  "END:VCALENDAR",
+  "",
+].join("\r\n");
+
+const NOW = new Date("2026-03-02T15:00:00Z");
+
+describe("parseInvite", () => {
+  it("reads the series event with its zone, people and unfolded lines", () => {
+    expect(parseInvite(INVITE, "UTC")).toEqual({
+      uid: "abc-123@example.com",
+      sequence: 2,
+      method: "REQUEST",
+      summary: "Quarterly review, Q1",
+      location: "Room 4",
+      organizer: { name: "Priya Shah", address: "priya@example.com", status: undefined },
+      attendees: [
+        { name: "Sam Lee", address: "sam@example.com", status: "NEEDS-ACTION" },
+        { name: "Very long name of a participant that goes on", address: "long@example.com", status: "ACCEPTED" },
+      ],
+      start: "2026-03-10T14:00:00+01:00",
+      end: "2026-03-10T15:00:00+01:00",
+      allDay: false,
+    });
+  });
+
+  it("reads all-day events in the fallback zone", () => {
+    const text = "BEGIN:VCALENDAR\nBEGIN:VEVENT\nUID:x\nDTSTART;VALUE=DATE:20260401\nEND:VEVENT\nEND:VCALENDAR";
+    expect(parseInvite(text, "Europe/Berlin")).toMatchObject({
+      method: "PUBLISH",
+      start: "2026-04-01T00:00:00+02:00",
+      end: "2026-04-02T00:00:00+02:00",
+      allDay: true,
+    });
+  });
+
+  it("ignores text that is not a calendar", () => {
+    expect(parseInvite("not a calendar", "UTC")).toBeUndefined();
+  });
+});
+
+describe("buildInviteResponse", () => {
+  const invite = parseInvite(INVITE, "UTC")!;
+
+  it("accepts with the invite's UID, sequence and times", () => {
+    const reply = buildInviteResponse(
+      invite,
+      { action: "accept", attendee: { name: "Sam Lee", address: "sam@example.com" }, comment: "See you there; thanks!" },
+      NOW,
+    );
+    expect(reply.split("\r\n")).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Email Agent//Invite Reply//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:REPLY",
+      "BEGIN:VEVENT",
+      "UID:abc-123@example.com",
+      "SEQUENCE:2",
+      "DTSTAMP:20260302T150000Z",
+      "DTSTART:20260310T130000Z",
+      "DTEND:20260310T140000Z",
+      "SUMMARY:Quarterly review\\, Q1",
+      "LOCATION:Room 4",
+      'ORGANIZER;CN="Priya Shah":mailto:priya@example.com',
+      'ATTENDEE;PARTSTAT=ACCEPTED;CN="Sam Lee":mailto:sam@example.com',
+      "COMMENT:See you there\\; thanks!",
+      "END:VEVENT",
+      "END:VCALENDAR",
+      "",
+    ]);
+  });
+
+  it("proposes another time in a counter that reads back as the same event", () => {
+    const slot = { start: "2026-03-11T09:00:00Z", end: "2026-03-11T10:00:00Z" };
+    const counter = buildInviteResponse(invite, { action: "counter", attendee: { address: "sam@example.com" }, slot }, NOW);
+    expect(counter).toContain("METHOD:COUNTER\r\n");
+    expect(counter).toContain("ATTENDEE;PARTSTAT=TENTATIVE:mailto:sam@example.com\r\n");
+    expect(parseInvite(counter, "UTC")).toMatchObject({
+      uid: invite.uid,
+      sequence: 2,
+      method: "COUNTER",
+      start: "2026-03-11T09:00:00+00:00",
+      end: "2026-03-11T10:00:00+00:00",
+    });
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const comment = "Leider passt mir der Termin nicht, können wir ihn auf nächste Woche verschieben? Grüße";
+    const reply = buildInviteResponse(invite, { action: "decline", attendee: { address: "sam@example.com" }, comment }, NOW);
+    for (const line of reply.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(parseInvite(reply, "UTC")?.summary).toBe("Quarterly review, Q1");
+    expect(reply.replace(/\r\n /g, "")).toContain(`COMMENT:${comment.replace(",", "\\,")}`);
+  });
+});
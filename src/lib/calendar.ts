@@ -0,0 +1,452 @@
+import { addDays, atTime, CalendarDay, calendarDayIn, dayOfWeek, isValidTimeZone } from "@/lib/dates";
+import type { EmailAddress } from "@/lib/mime";
+
+export type CalendarAttendee = EmailAddress & {
+  /** Participation status such as "NEEDS-ACTION", "ACCEPTED", or "DECLINED". */
+  status?: string;
+};
+
+/** The event of a calendar part that came with an email, such as a meeting invite. */
+export type CalendarInvite = {
+  uid: string;
+  /** Revision number; a reply must carry the one it answers. */
+  sequence: number;
+  /** "REQUEST" for an invite or an update, "CANCEL" when the organizer called the meeting off. */
+  method: string;
+  summary?: string;
+  location?: string;
+  organizer?: CalendarAttendee;
+  attendees: CalendarAttendee[];
+  start: string;
+  end: string;
+  allDay: boolean;
+};
+
+export type TimeSlot = { start: string; end: string };
+
+export type InviteResponseAction = "accept" | "decline" | "counter";
+
+/** Busy time and weekly working hours, read from the user's availability calendar. */
+export type CalendarAvailability = {
+  timeZone: string;
+  /** `weekday` 0 is Sunday; `start` and `end` are minutes after midnight in `timeZone`. */
+  workingHours: { weekday: number; start: number; end: number }[];
+  busy: TimeSlot[];
+};
+
+/** Whether a time fits the calendar: free, taken by something else, or outside working hours. */
+export type SlotFit = "free" | "busy" | "outside-hours";
+
+type Property = { name: string; params: Record<string, string>; value: string };
+
+type Component = { name: string; properties: Property[]; components: Component[] };
+
+type DateValue = { iso: string; allDay: boolean; day: CalendarDay; hour: number; minute: number; timeZone: string };
+
+type Recurrence = { weekly: boolean; interval: number; weekdays?: number[]; count?: number; until?: number };
+
+const PRODUCT_ID = "-//Email Agent//Invite Reply//EN";
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Monday to Friday, 9:00 to 17:00, for calendars that don't say otherwise.
+const DEFAULT_WORKING_HOURS = [1, 2, 3, 4, 5].map((weekday) => ({ weekday, start: 9 * 60, end: 17 * 60 }));
+
+// Recurring events are expanded day by day; ten years of days is plenty.
+const MAX_RECURRENCE_DAYS = 3_660;
+
+const SLOT_STEP_MINUTES = 30;
+
+const PARTICIPATION: Record<InviteResponseAction, string> = {
+  accept: "ACCEPTED",
+  decline: "DECLINED",
+  counter: "TENTATIVE",
+};
+
+/**
+ * Reads the first event of an iTIP calendar part (RFC 5546). Times without a
+ * zone, or in a zone that isn't an IANA name, are read in `timeZone`.
+ */
+export function parseInvite(text: string, timeZone: string): CalendarInvite | undefined {
+  const calendar = parseComponents(text).find((component) => component.name === "VCALENDAR");
+  // Overrides of single occurrences carry a RECURRENCE-ID; the invite itself is the series.
+  const event = calendar?.components.find(
+    (component) => component.name === "VEVENT" && !property(component, "RECURRENCE-ID"),
+  );
+  const uid = event && property(event, "UID")?.value.trim();
+  const times = event && readEventTimes(event, timeZone);
+  if (!calendar || !event || !uid || !times) return undefined;
+
+  return {
+    uid,
+    sequence: Number(property(event, "SEQUENCE")?.value) || 0,
+    method: property(calendar, "METHOD")?.value.trim().toUpperCase() || "PUBLISH",
+    summary: readText(event, "SUMMARY"),
+    location: readText(event, "LOCATION"),
+    organizer: readAttendee(property(event, "ORGANIZER")),
+    attendees: event.properties.flatMap((entry) => (entry.name === "ATTENDEE" ? readAttendee(entry) ?? [] : [])),
+    start: times.start.iso,
+    end: times.end,
+    allDay: times.start.allDay,
+  };
+}
+
+/**
+ * Reads busy time from the events and free/busy blocks of a calendar, and
+ * working hours from its VAVAILABILITY components (RFC 7953); without those,
+ * working hours are Monday to Friday, 9:00 to 17:00 in `timeZone`. Recurring
+ * events repeat daily or weekly only, and are expanded for `days` days from `from`.
+ */
+export function parseAvailability(text: string, timeZone: string, from: Date, days: number): CalendarAvailability {
+  const window = { start: from.getTime() - 86_400_000, end: from.getTime() + days * 86_400_000 };
+  const components = parseComponents(text).flatMap((component) =>
+    component.name === "VCALENDAR" ? component.components : [component],
+  );
+
+  const busy: TimeSlot[] = [];
+  const workingHours: CalendarAvailability["workingHours"] = [];
+  let workingTimeZone: string | undefined;
+  for (const component of components) {
+    if (component.name === "VEVENT") {
+      const status = property(component, "STATUS")?.value.trim().toUpperCase();
+      const transparency = property(component, "TRANSP")?.value.trim().toUpperCase();
+      if (status !== "CANCELLED" && transparency !== "TRANSPARENT") {
+        busy.push(...occurrences(component, timeZone, window));
+      }
+    } else if (component.name === "VFREEBUSY") {
+      busy.push(...readFreeBusy(component, timeZone));
+    } else if (component.name === "VAVAILABILITY") {
+      for (const available of component.components.filter((child) => child.name === "AVAILABLE")) {
+        const start = readDate(property(available, "DTSTART"), timeZone);
+        const end = readDate(property(available, "DTEND"), timeZone);
+        if (!start || !end) continue;
+        workingTimeZone ??= start.timeZone;
+        const rule = readRecurrence(property(available, "RRULE")?.value, timeZone);
+        const weekdays = rule?.weekdays ?? (rule && !rule.weekly ? [0, 1, 2, 3, 4, 5, 6] : [dayOfWeek(start.day)]);
+        // A window that ends on a later day runs to midnight.
+        const endMinute = sameDay(start.day, end.day) ? end.hour * 60 + end.minute : 24 * 60;
+        for (const weekday of weekdays) {
+          workingHours.push({ weekday, start: start.hour * 60 + start.minute, end: endMinute });
+        }
+      }
+    }
+  }
+
+  return {
+    timeZone: workingTimeZone ?? timeZone,
+    workingHours: workingHours.length ? workingHours : DEFAULT_WORKING_HOURS,
+    busy: busy
+      .filter((slot) => Date.parse(slot.end) > window.start && Date.parse(slot.start) < window.end)
+      .sort((a, b) => Date.parse(a.start) - Date.parse(b.start)),
+  };
+}
+
+/**
+ * Free times of `minutes` within working hours between `from` and `until`,
+ * on the half hour from the start of each working window. The first free
+ * time of each day comes before a second time on any day, so proposals
+ * spread across the days on offer.
+ */
+export function findFreeSlots(
+  availability: CalendarAvailability,
+  { from, until, minutes, count }: { from: Date; until: Date; minutes: number; count: number },
+): TimeSlot[] {
+  const { timeZone } = availability;
+  const perDay: TimeSlot[][] = [];
+  for (
+    let day = calendarDayIn(from, timeZone);
+    Date.parse(atTime(day, 0, 0, timeZone)) < until.getTime();
+    day = addDays(day, 1)
+  ) {
+    const free: TimeSlot[] = [];
+    for (const hours of availability.workingHours.filter((entry) => entry.weekday === dayOfWeek(day))) {
+      for (let minute = hours.start; minute + minutes <= hours.end; minute += SLOT_STEP_MINUTES) {
+        const slot = {
+          start: atTime(day, Math.floor(minute / 60), minute % 60, timeZone),
+          end: atTime(day, Math.floor((minute + minutes) / 60), (minute + minutes) % 60, timeZone),
+        };
+        if (Date.parse(slot.start) < from.getTime() || Date.parse(slot.end) > until.getTime()) continue;
+        if (!overlapsBusy(availability, slot)) free.push(slot);
+      }
+    }
+    perDay.push(free);
+  }
+
+  const picked: TimeSlot[] = [];
+  for (let round = 0; picked.length < count && perDay.some((free) => free.length > round); round += 1) {
+    for (const free of perDay) {
+      if (free[round] && picked.length < count) picked.push(free[round]);
+    }
+  }
+  return picked.sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+}
+
+export function checkSlot(availability: CalendarAvailability, slot: TimeSlot): SlotFit {
+  if (overlapsBusy(availability, slot)) return "busy";
+  const day = calendarDayIn(new Date(slot.start), availability.timeZone);
+  const midnight = Date.parse(atTime(day, 0, 0, availability.timeZone));
+  const start = (Date.parse(slot.start) - midnight) / 60_000;
+  const end = (Date.parse(slot.end) - midnight) / 60_000;
+  const inHours = availability.workingHours.some(
+    (hours) => hours.weekday === dayOfWeek(day) && hours.start <= start && end <= hours.end,
+  );
+  return inHours ? "free" : "outside-hours";
+}
+
+/**
+ * Builds the iTIP answer to an invite: a REPLY that accepts or declines it,
+ * or a COUNTER that proposes `slot` instead. The organizer's calendar matches
+ * it to the invite by UID and sequence.
+ */
+export function buildInviteResponse(
+  invite: CalendarInvite,
+  {
+    action,
+    attendee,
+    slot,
+    comment,
+  }: { action: InviteResponseAction; attendee: EmailAddress; slot?: TimeSlot; comment?: string },
+  now: Date,
+): string {
+  const times = action === "counter" && slot ? { ...slot, allDay: false } : invite;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${action === "counter" ? "COUNTER" : "REPLY"}`,
+    "BEGIN:VEVENT",
+    `UID:${invite.uid}`,
+    `SEQUENCE:${invite.sequence}`,
+    `DTSTAMP:${formatUtc(now.toISOString())}`,
+    times.allDay ? `DTSTART;VALUE=DATE:${formatDay(times.start)}` : `DTSTART:${formatUtc(times.start)}`,
+    times.allDay ? `DTEND;VALUE=DATE:${formatDay(times.end)}` : `DTEND:${formatUtc(times.end)}`,
+    ...(invite.summary ? [`SUMMARY:${escapeText(invite.summary)}`] : []),
+    ...(invite.location ? [`LOCATION:${escapeText(invite.location)}`] : []),
+    ...(invite.organizer ? [formatCalendarAddress("ORGANIZER", invite.organizer)] : []),
+    formatCalendarAddress(`ATTENDEE;PARTSTAT=${PARTICIPATION[action]}`, attendee),
+    ...(comment ? [`COMMENT:${escapeText(comment)}`] : []),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function formatUtc(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+export function quoteParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+// RFC 5545 caps content lines at 75 octets; continuation lines start with a space.
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function parseComponents(text: string): Component[] {
+  const root: Component = { name: "", properties: [], components: [] };
+  const open = [root];
+  for (const line of text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n")) {
+    const entry = parseProperty(line);
+    if (!entry) continue;
+    const current = open[open.length - 1];
+    if (entry.name === "BEGIN") {
+      const component: Component = { name: entry.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      open.push(component);
+    } else if (entry.name === "END") {
+      if (open.length > 1) open.pop();
+    } else {
+      current.properties.push(entry);
+    }
+  }
+  return root.components;
+}
+
+// Parameter values may be quoted and hold ":" or ";", as in CN="Doe; Jane".
+function parseProperty(line: string): Property | undefined {
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:])*)*):(.*)$/);
+  if (!match) return undefined;
+  const params: Record<string, string> = {};
+  for (const param of match[2].matchAll(/;([A-Za-z0-9-]+)=((?:"[^"]*"|[^";:])*)/g)) {
+    params[param[1].toUpperCase()] = param[2].replace(/"/g, "");
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+}
+
+function property(component: Component, name: string): Property | undefined {
+  return component.properties.find((entry) => entry.name === name);
+}
+
+function readText(component: Component, name: string): string | undefined {
+  const value = property(component, name)?.value;
+  const text = value?.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char)).trim();
+  return text || undefined;
+}
+
+function readAttendee(entry: Property | undefined): CalendarAttendee | undefined {
+  const address = entry?.value.trim().replace(/^mailto:/i, "");
+  if (!entry || !address?.includes("@")) return undefined;
+  return { name: entry.params.CN?.trim() || undefined, address, status: entry.params.PARTSTAT?.toUpperCase() };
+}
+
+function readDate(entry: Property | undefined, timeZone: string): DateValue | undefined {
+  const match = entry?.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!entry || !match) return undefined;
+  const day = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  const zone = match[7]
+    ? "UTC"
+    : entry.params.TZID && isValidTimeZone(entry.params.TZID.replace(/^\//, ""))
+    ? entry.params.TZID.replace(/^\//, "")
+    : timeZone;
+  const hour = Number(match[4] ?? 0);
+  const minute = Number(match[5] ?? 0);
+  return { iso: atTime(day, hour, minute, zone), allDay: match[4] === undefined, day, hour, minute, timeZone: zone };
+}
+
+function readEventTimes(event: Component, timeZone: string): { start: DateValue; end: string } | undefined {
+  const start = readDate(property(event, "DTSTART"), timeZone);
+  if (!start) return undefined;
+  const end = readDate(property(event, "DTEND"), timeZone);
+  const duration = readDuration(property(event, "DURATION")?.value);
+  if (end) return { start, end: end.iso };
+  if (duration !== undefined && start.allDay) {
+    return { start, end: atTime(addDays(start.day, Math.round(duration / 86_400_000)), 0, 0, start.timeZone) };
+  }
+  if (duration !== undefined) return { start, end: new Date(Date.parse(start.iso) + duration).toISOString() };
+  // Without an end, an all-day event lasts the day and a timed one is a moment.
+  return { start, end: start.allDay ? atTime(addDays(start.day, 1), 0, 0, start.timeZone) : start.iso };
+}
+
+function readDuration(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+function readRecurrence(value: string | undefined, timeZone: string): Recurrence | undefined {
+  if (!value) return undefined;
+  const parts = Object.fromEntries(
+    value.split(";").map((part) => {
+      const [key, ...rest] = part.split("=");
+      return [key.trim().toUpperCase(), rest.join("=").trim().toUpperCase()];
+    }),
+  );
+  if (parts.FREQ !== "DAILY" && parts.FREQ !== "WEEKLY") return undefined;
+  // "BYDAY=MO,WE"; ordinals such as "1MO" only mean something for monthly rules.
+  const weekdays = parts.BYDAY?.split(",")
+    .map((code: string) => WEEKDAY_CODES.indexOf(code.replace(/^[+-]?\d+/, "")))
+    .filter((weekday: number) => weekday !== -1);
+  const until = parts.UNTIL ? readDate({ name: "UNTIL", params: {}, value: parts.UNTIL }, timeZone) : undefined;
+  return {
+    weekly: parts.FREQ === "WEEKLY",
+    interval: Math.max(Number(parts.INTERVAL) || 1, 1),
+    weekdays: weekdays?.length ? weekdays : undefined,
+    count: Number(parts.COUNT) || undefined,
+    until: until && Date.parse(until.allDay ? atTime(addDays(until.day, 1), 0, 0, until.timeZone) : until.iso),
+  };
+}
+
+function occurrences(event: Component, timeZone: string, window: { start: number; end: number }): TimeSlot[] {
+  const times = readEventTimes(event, timeZone);
+  if (!times) return [];
+  const { start } = times;
+  const rule = readRecurrence(property(event, "RRULE")?.value, timeZone);
+  if (!rule) return [{ start: start.iso, end: times.end }];
+
+  const length = Date.parse(times.end) - Date.parse(start.iso);
+  const excluded = new Set(
+    event.properties
+      .filter((entry) => entry.name === "EXDATE")
+      .flatMap((entry) => entry.value.split(","))
+      .map((value) => readDate({ name: "EXDATE", params: {}, value }, start.timeZone)?.iso)
+      .flatMap((iso) => (iso ? [Date.parse(iso)] : [])),
+  );
+  const weekdays = rule.weekdays ?? (rule.weekly ? [dayOfWeek(start.day)] : undefined);
+  // Weeks start on Monday, as RFC 5545 assumes without a WKST.
+  const startWeekday = (dayOfWeek(start.day) + 6) % 7;
+  // Without a COUNT, earlier occurrences don't matter, so whole periods before the window are skipped.
+  const step = rule.weekly ? 7 * rule.interval : rule.interval;
+  const skipped = rule.count === undefined ? Math.max(Math.floor((window.start - Date.parse(start.iso)) / 86_400_000) - 1, 0) : 0;
+  const first = skipped - (skipped % step);
+
+  const slots: TimeSlot[] = [];
+  let produced = 0;
+  for (let offset = first; offset < first + MAX_RECURRENCE_DAYS; offset += 1) {
+    const day = addDays(start.day, offset);
+    const period = rule.weekly ? Math.floor((offset + startWeekday) / 7) : offset;
+    if (period % rule.interval !== 0 || (weekdays && !weekdays.includes(dayOfWeek(day)))) continue;
+
+    const instant = Date.parse(atTime(day, start.hour, start.minute, start.timeZone));
+    if (instant < Date.parse(start.iso)) continue;
+    if ((rule.until !== undefined && instant > rule.until) || instant >= window.end) break;
+    produced += 1;
+    if (rule.count !== undefined && produced > rule.count) break;
+    if (excluded.has(instant) || instant + length <= window.start) continue;
+    slots.push({ start: new Date(instant).toISOString(), end: new Date(instant + length).toISOString() });
+  }
+  return slots;
+}
+
+function readFreeBusy(component: Component, timeZone: string): TimeSlot[] {
+  return component.properties
+    .filter((entry) => entry.name === "FREEBUSY" && (entry.params.FBTYPE ?? "BUSY").toUpperCase() !== "FREE")
+    .flatMap((entry) => entry.value.split(","))
+    .flatMap((period) => {
+      const [from, to] = period.trim().split("/");
+      const start = readDate({ name: "FREEBUSY", params: {}, value: from ?? "" }, timeZone);
+      // Periods end at a time ("…/20261020T100000Z") or after a duration ("…/PT1H").
+      const duration = readDuration(to);
+      const end =
+        duration !== undefined
+          ? start && new Date(Date.parse(start.iso) + duration).toISOString()
+          : readDate({ name: "FREEBUSY", params: {}, value: to ?? "" }, timeZone)?.iso;
+      return start && end ? [{ start: start.iso, end }] : [];
+    });
+}
+
+function overlapsBusy(availability: CalendarAvailability, slot: TimeSlot): boolean {
+  const start = Date.parse(slot.start);
+  const end = Date.parse(slot.end);
+  return availability.busy.some((busy) => Date.parse(busy.start) < end && Date.parse(busy.end) > start);
+}
+
+function sameDay(left: CalendarDay, right: CalendarDay): boolean {
+  return left.year === right.year && left.month === right.month && left.day === right.day;
+}
+
+function formatDay(iso: string): string {
+  // Zoned ISO timestamps carry their own calendar day in the first ten characters.
+  return iso.slice(0, 10).replace(/-/g, "");
+}
+
+function formatCalendarAddress(name: string, address: EmailAddress): string {
+  return `${name}${address.name ? `;CN=${quoteParam(address.name)}` : ""}:mailto:${address.address}`;
+}
@@ -0,0 +1,168 @@
+export const CONTACT_IMPORT_FORMATS = ["vcard", "csv"] as const;
+
+export type ContactImportFormat = (typeof CONTACT_IMPORT_FORMATS)[number];
+
+/** One contact as found in the file, keyed by contact field; values are not validated yet. */
+export type ImportedContact = Partial<
+  Record<"name" | "email" | "role" | "company" | "tone" | "language" | "notes", string>
+>;
+
+// Header spellings used by the common address book exports (Google, Outlook, Apple).
+const CSV_COLUMNS: Record<string, keyof ImportedContact | "firstName" | "lastName"> = {
+  name: "name",
+  "full name": "name",
+  "display name": "name",
+  "first name": "firstName",
+  "given name": "firstName",
+  "last name": "lastName",
+  "family name": "lastName",
+  email: "email",
+  "e-mail": "email",
+  "email address": "email",
+  "e-mail address": "email",
+  "e-mail 1 - value": "email",
+  role: "role",
+  title: "role",
+  "job title": "role",
+  "organization title": "role",
+  "organization 1 - title": "role",
+  company: "company",
+  organization: "company",
+  "organization name": "company",
+  "organization 1 - name": "company",
+  tone: "tone",
+  language: "language",
+  notes: "notes",
+  note: "notes",
+};
+
+export function parseContactFile(format: ContactImportFormat, data: string): ImportedContact[] {
+  return format === "vcard" ? parseVCards(data) : parseContactCsv(data);
+}
+
+/**
+ * Reads vCard 3.0/4.0 cards. FN (or N) gives the name, the first EMAIL the
+ * address, TITLE or ROLE the role, ORG the company, LANG the language and NOTE
+ * the notes; X-TONE carries a tone id in cards this app exported.
+ */
+function parseVCards(data: string): ImportedContact[] {
+  // Folded lines continue with a leading space or tab.
+  const lines = data.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const cards: ImportedContact[] = [];
+  let card: (ImportedContact & { structuredName?: string }) | undefined;
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === "BEGIN:VCARD") {
+      card = {};
+      continue;
+    }
+    if (upper === "END:VCARD") {
+      if (card) {
+        const { structuredName, ...contact } = card;
+        cards.push({ ...contact, name: contact.name || structuredName });
+      }
+      card = undefined;
+      continue;
+    }
+    const separator = line.indexOf(":");
+    if (!card || separator === -1) continue;
+
+    // "item1.EMAIL;TYPE=work" → "EMAIL"
+    const property = line.slice(0, separator).split(";")[0].split(".").pop()!.toUpperCase();
+    const value = unescapeVCard(line.slice(separator + 1)).trim();
+    if (!value) continue;
+
+    switch (property) {
+      case "FN":
+        card.name ??= value;
+        break;
+      case "N": {
+        const [family, given] = value.split(";");
+        card.structuredName ??= [given, family].filter(Boolean).join(" ");
+        break;
+      }
+      case "EMAIL":
+        card.email ??= value;
+        break;
+      case "TITLE":
+      case "ROLE":
+        card.role ??= value;
+        break;
+      case "ORG":
+        card.company ??= value.split(";")[0];
+        break;
+      case "LANG":
+        card.language ??= value.split(/[-_]/)[0].toLowerCase();
+        break;
+      case "NOTE":
+        card.notes ??= value;
+        break;
+      case "X-TONE":
+        card.tone ??= value;
+        break;
+    }
+  }
+  return cards;
+}
+
+function unescapeVCard(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, escaped: string) => (escaped.toLowerCase() === "n" ? "\n" : escaped));
+}
+
+/** Reads a CSV export with a header row; unknown columns are ignored. */
+function parseContactCsv(data: string): ImportedContact[] {
+  const [header, ...rows] = parseCsvRows(data);
+  if (!header) return [];
+  const columns = header.map((title) => CSV_COLUMNS[title.trim().toLowerCase()]);
+
+  return rows
+    .filter((row) => row.some((cell) => cell.trim()))
+    .map((row) => {
+      const fields: Partial<Record<keyof ImportedContact | "firstName" | "lastName", string>> = {};
+      row.forEach((cell, index) => {
+        const column = columns[index];
+        if (column && cell.trim()) fields[column] ??= cell.trim();
+      });
+      const { firstName, lastName, ...contact } = fields;
+      return { ...contact, name: contact.name || [firstName, lastName].filter(Boolean).join(" ") || undefined };
+    });
+}
+
+// RFC 4180: quoted cells may hold commas, doubled quotes, and line breaks.
+function parseCsvRows(data: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < data.length; index += 1) {
+    const char = data[index];
+    if (quoted) {
+      if (char === '"' && data[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && data[index + 1] === "\n") index += 1;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  // Spreadsheet exports often start with a byte order mark.
+  if (rows[0]?.[0]) rows[0][0] = rows[0][0].replace(/^\uFEFF/, "");
+  return rows;
+}
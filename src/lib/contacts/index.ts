@@ -0,0 +1,30 @@
+import { getDatabase } from "@/lib/db";
+import type { Contact } from "@/lib/engine/types";
+import { createSqliteContactRepository } from "./sqlite";
+import type { ContactRepository } from "./types";
+
+export type * from "./types";
+export { CONTACT_IMPORT_FORMATS, parseContactFile } from "./import";
+export type { ContactImportFormat, ImportedContact } from "./import";
+export { createSqliteContactRepository } from "./sqlite";
+
+let repository: ContactRepository | undefined;
+
+export function getContactRepository(): ContactRepository {
+  repository ??= createSqliteContactRepository(getDatabase());
+  return repository;
+}
+
+/**
+ * Looks up the sender in the contacts directory. Like the tone library, a
+ * store failure must not stop analysis, so it is logged and treated as no match.
+ */
+export async function matchContact(sender: { email?: string; name?: string }): Promise<Contact | undefined> {
+  if (!sender.email?.trim() && !sender.name?.trim()) return undefined;
+  try {
+    return await getContactRepository().match(sender);
+  } catch (error) {
+    console.warn("Contacts directory unavailable, skipping sender match", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,114 @@
+import type Database from "better-sqlite3";
+import type { Contact } from "@/lib/engine/types";
+import type { Language } from "@/lib/language";
+import type { ContactRepository } from "./types";
+
+type ContactRow = {
+  id: string;
+  name: string;
+  email: string | null;
+  role: string | null;
+  company: string | null;
+  tone: string | null;
+  language: string | null;
+  notes: string | null;
+};
+
+const MIGRATION = `
+CREATE TABLE IF NOT EXISTS contacts (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  email TEXT COLLATE NOCASE,
+  role TEXT,
+  company TEXT,
+  tone TEXT,
+  language TEXT,
+  notes TEXT
+);
+CREATE UNIQUE INDEX IF NOT EXISTS contacts_email ON contacts (email) WHERE email IS NOT NULL;
+`;
+
+export function createSqliteContactRepository(db: Database.Database): ContactRepository {
+  db.exec(MIGRATION);
+
+  const selectAll = db.prepare<[], ContactRow>("SELECT * FROM contacts ORDER BY name COLLATE NOCASE");
+  const selectMatches = db.prepare<[{ pattern: string }], ContactRow>(
+    `SELECT * FROM contacts
+     WHERE name LIKE @pattern ESCAPE '\\' OR email LIKE @pattern ESCAPE '\\'
+       OR company LIKE @pattern ESCAPE '\\' OR role LIKE @pattern ESCAPE '\\'
+     ORDER BY name COLLATE NOCASE`,
+  );
+  const selectOne = db.prepare<[string], ContactRow>("SELECT * FROM contacts WHERE id = ?");
+  const selectByEmail = db.prepare<[string], ContactRow>("SELECT * FROM contacts WHERE email = ?");
+  const selectByName = db.prepare<[string], ContactRow>(
+    "SELECT * FROM contacts WHERE name = ? COLLATE NOCASE LIMIT 2",
+  );
+  const insert = db.prepare(
+    `INSERT INTO contacts (id, name, email, role, company, tone, language, notes)
+     VALUES (@id, @name, @email, @role, @company, @tone, @language, @notes)`,
+  );
+  const updateOne = db.prepare(
+    `UPDATE contacts SET name = @name, email = @email, role = @role, company = @company,
+       tone = @tone, language = @language, notes = @notes
+     WHERE id = @id`,
+  );
+  const deleteOne = db.prepare("DELETE FROM contacts WHERE id = ?");
+
+  return {
+    async list(search) {
+      const rows = search?.trim()
+        ? selectMatches.all({ pattern: `%${search.trim().replace(/[\\%_]/g, "\\$&")}%` })
+        : selectAll.all();
+      return rows.map(toContact);
+    },
+    async get(id) {
+      const row = selectOne.get(id);
+      return row ? toContact(row) : undefined;
+    },
+    async match({ email, name }) {
+      const byEmail = email ? selectByEmail.get(email.trim()) : undefined;
+      if (byEmail) return toContact(byEmail);
+      // Two contacts sharing a name is ambiguous; better no match than the wrong person.
+      const byName = name?.trim() ? selectByName.all(name.trim()) : [];
+      return byName.length === 1 ? toContact(byName[0]) : undefined;
+    },
+    async create(fields) {
+      const contact = { ...fields, id: crypto.randomUUID() };
+      insert.run(toParams(contact));
+      return contact;
+    },
+    async update(id, fields) {
+      if (updateOne.run(toParams({ ...fields, id })).changes === 0) return undefined;
+      return toContact(selectOne.get(id)!);
+    },
+    async remove(id) {
+      return deleteOne.run(id).changes > 0;
+    },
+  };
+}
+
+function toParams(contact: Contact) {
+  return {
+    id: contact.id,
+    name: contact.name,
+    email: contact.email ?? null,
+    role: contact.role ?? null,
+    company: contact.company ?? null,
+    tone: contact.tone ?? null,
+    language: contact.language ?? null,
+    notes: contact.notes ?? null,
+  };
+}
+
+function toContact(row: ContactRow): Contact {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email ?? undefined,
+    role: row.role ?? undefined,
+    company: row.company ?? undefined,
+    tone: row.tone ?? undefined,
+    language: (row.language as Language | null) ?? undefined,
+    notes: row.notes ?? undefined,
+  };
+}
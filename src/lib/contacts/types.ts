@@ -0,0 +1,13 @@
+import type { Contact } from "@/lib/engine/types";
+
+export type ContactFields = Omit<Contact, "id">;
+
+export type ContactRepository = {
+  list(search?: string): Promise<Contact[]>;
+  get(id: string): Promise<Contact | undefined>;
+  /** The contact with this address, or else the only contact with this exact name. */
+  match(sender: { email?: string; name?: string }): Promise<Contact | undefined>;
+  create(fields: ContactFields): Promise<Contact>;
+  update(id: string, fields: ContactFields): Promise<Contact | undefined>;
+  remove(id: string): Promise<boolean>;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { findDates, findDueDate, resolveDate } from "@/lib/dates";
+
+// Monday, March 2, 2026, 10:00 in New York.
+const MONDAY = new Date("2026-03-02T15:00:00Z");
+const NEW_YORK = "America/New_York";
+
+describe("resolveDate", () => {
+  it.each([
+    ["Friday", "2026-03-06T17:00:00-05:00"],
+    ["tomorrow at 3", "2026-03-03T15:00:00-05:00"],
+    ["eod Thursday", "2026-03-05T17:00:00-05:00"],
+    ["in 2 business days", "2026-03-04T17:00:00-05:00"],
+    ["in 3 hours", "2026-03-02T13:00:00-05:00"],
+    ["March 14", "2026-03-14T17:00:00-04:00"],
+    ["2026-04-01", "2026-04-01T17:00:00-04:00"],
+    ["end of month", "2026-03-31T17:00:00-04:00"],
+    ["end of Q2", "2026-06-30T17:00:00-04:00"],
+  ])("resolves %s", (expression, iso) => {
+    expect(resolveDate(expression, MONDAY, NEW_YORK)).toBe(iso);
+  });
+
+  it("rolls a weekday named on that same day forward a week", () => {
+    expect(resolveDate("Monday", MONDAY, NEW_YORK)).toBe("2026-03-09T17:00:00-04:00");
+  });
+
+  it("keeps the wall-clock time across a daylight saving change", () => {
+    const saturday = new Date("2026-03-28T12:00:00Z");
+    expect(resolveDate("Monday", saturday, "Europe/Berlin")).toBe("2026-03-30T17:00:00+02:00");
+  });
+
+  it("leaves phrases it cannot read unresolved", () => {
+    expect(resolveDate("someday soon", MONDAY, NEW_YORK)).toBeUndefined();
+  });
+});
+
+describe("findDueDate", () => {
+  it("finds the deadline phrase and where it starts", () => {
+    const text = "Please send the deck by Monday.";
+    expect(findDueDate(text, MONDAY, "Europe/Berlin")).toEqual({
+      text: "Monday",
+      index: text.indexOf("Monday"),
+      iso: "2026-03-09T17:00:00+01:00",
+    });
+  });
+
+  it("skips weekday abbreviations used as ordinary words", () => {
+    const text = "Drinks on sun deck, then send it by Monday.";
+    expect(findDueDate(text, MONDAY, NEW_YORK)?.index).toBe(text.indexOf("Monday"));
+  });
+
+  it("finds nothing in text without a deadline", () => {
+    expect(findDueDate("Thanks for the update.", MONDAY, NEW_YORK)).toBeUndefined();
+  });
+});
+
+describe("findDates", () => {
+  it("returns every date phrase with its time", () => {
+    expect(findDates("Meet on Friday at 10am or March 14", MONDAY, "UTC")).toEqual([
+      { text: "Friday at 10am", index: 8, iso: "2026-03-06T10:00:00+00:00" },
+      { text: "March 14", index: 26, iso: "2026-03-14T17:00:00+00:00" },
+    ]);
+  });
+});
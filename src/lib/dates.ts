@@ -0,0 +1,372 @@
+export type ResolvedDate = {
+  text: string;
+  /** Offset of `text` in the searched string. */
+  index: number;
+  iso: string;
+};
+
+export type CalendarDay = { year: number; month: number; day: number };
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  couple: 2,
+  few: 3,
+};
+
+const END_OF_BUSINESS_HOUR = 17;
+
+const WEEKDAY = "(?:mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?|sun)(?:day)?";
+const MONTH = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const COUNT = "(?:\\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten|a couple of|a few)";
+
+// Ordered from most to least specific so "EOD Thursday" wins over "Thursday".
+const EXPRESSIONS = [
+  `(?:eod|cob|end of (?:the )?day)\\s+(?:on\\s+)?(?:this\\s+|next\\s+)?${WEEKDAY}`,
+  `end of (?:the )?(?:next )?(?:week|month|year|quarter|q[1-4])`,
+  `(?:in|within)\\s+${COUNT}\\s+(?:hours?|days?|business days?|weeks?|months?)`,
+  `(?:this|next)\\s+${WEEKDAY}`,
+  `(?:this|next)\\s+(?:week|month)`,
+  `${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?`,
+  `\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:\\s+\\d{4})?`,
+  `\\d{4}-\\d{2}-\\d{2}`,
+  `\\d{1,2}\\/\\d{1,2}(?:\\/\\d{2,4})?`,
+  `${WEEKDAY}`,
+  `today|tonight|tomorrow|eod|cob|end of (?:the )?day`,
+];
+
+const DUE_PATTERN = new RegExp(
+  `\\b(?:by|before|due|due on|on|until|no later than|deadline(?: is)?:?)\\s+((?:${EXPRESSIONS.join("|")})(?:\\s+at\\s+\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)?)?)\\b`,
+  "gi",
+);
+
+const BARE_PATTERN = new RegExp(`\\b(${EXPRESSIONS.slice(0, 3).join("|")})\\b`, "gi");
+
+const ANY_PATTERN = new RegExp(
+  `\\b(?:${EXPRESSIONS.join("|")})(?:\\s+at\\s+\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)?)?\\b`,
+  "gi",
+);
+
+// "sat", "sun", "wed" and friends are ordinary words far more often than dates.
+const AMBIGUOUS_WEEKDAYS = /^(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)$/;
+
+/**
+ * Finds the first deadline-like phrase in `text` ("by Thursday", "due May 12",
+ * "end of Q3") and resolves it to an ISO timestamp in `timeZone`, measured from
+ * `reference` (normally the email's sent date).
+ */
+export function findDueDate(
+  text: string,
+  reference: Date,
+  timeZone: string,
+): ResolvedDate | undefined {
+  // "On sun deck" is no deadline; look on for one that is.
+  const match = [...text.matchAll(DUE_PATTERN), ...text.matchAll(BARE_PATTERN)].find(
+    (candidate) => !AMBIGUOUS_WEEKDAYS.test(candidate[1]),
+  );
+  if (!match?.[1]) return undefined;
+  const iso = resolveDate(match[1], reference, timeZone);
+  // The deadline phrase is always the tail of the match ("by Friday" → "Friday").
+  const index = (match.index ?? 0) + match[0].length - match[1].length;
+  return iso ? { text: match[1], index, iso } : undefined;
+}
+
+/** Every date phrase in `text`, deadline or not, that resolves to a timestamp. */
+export function findDates(text: string, reference: Date, timeZone: string): ResolvedDate[] {
+  return Array.from(text.matchAll(ANY_PATTERN)).flatMap((match) => {
+    if (AMBIGUOUS_WEEKDAYS.test(match[0])) return [];
+    const iso = resolveDate(match[0], reference, timeZone);
+    return iso ? [{ text: match[0], index: match.index ?? 0, iso }] : [];
+  });
+}
+
+export function resolveDate(expression: string, reference: Date, timeZone: string): string | undefined {
+  const normalized = expression.toLowerCase().replace(/\s+/g, " ").trim();
+  const timeMatch = normalized.match(/\s+at\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  const phrase = timeMatch ? normalized.slice(0, timeMatch.index) : normalized;
+  const today = calendarDayIn(reference, timeZone);
+
+  let hour = END_OF_BUSINESS_HOUR;
+  let minute = 0;
+  if (timeMatch) {
+    const raw = Number(timeMatch[1]);
+    const meridiem = timeMatch[3];
+    // "at 3" without am/pm almost always means the afternoon in a work email.
+    hour = meridiem ? (raw % 12) + (meridiem === "pm" ? 12 : 0) : raw < 8 ? raw + 12 : raw;
+    minute = Number(timeMatch[2] ?? 0);
+  }
+
+  const relative = phrase.match(
+    new RegExp(`^(?:in|within) (${COUNT}) (hours?|days?|business days?|weeks?|months?)$`),
+  );
+  if (relative) {
+    const amount = parseCount(relative[1]);
+    const unit = relative[2];
+    if (unit.startsWith("hour")) {
+      return formatZoned(new Date(reference.getTime() + amount * 3_600_000), timeZone);
+    }
+    const day = unit.startsWith("business")
+      ? addBusinessDays(today, amount)
+      : unit.startsWith("week")
+      ? addDays(today, amount * 7)
+      : unit.startsWith("month")
+      ? addMonths(today, amount)
+      : addDays(today, amount);
+    return atTime(day, hour, minute, timeZone);
+  }
+
+  const day = resolveDay(phrase, today);
+  return day ? atTime(day, hour, minute, timeZone) : undefined;
+}
+
+export function hoursUntil(iso: string, reference: Date): number {
+  return (Date.parse(iso) - reference.getTime()) / 3_600_000;
+}
+
+export function formatDueLabel(iso: string, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(iso));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function resolveDay(phrase: string, today: CalendarDay): CalendarDay | undefined {
+  const stripped = phrase.replace(/^(?:eod|cob|end of (?:the )?day)\s+(?:on\s+)?/, "");
+
+  if (/^(today|tonight|eod|cob|end of (the )?day)$/.test(stripped)) return today;
+  if (stripped === "tomorrow") return addDays(today, 1);
+
+  const period = stripped.match(/^end of (?:the )?(next )?(week|month|year|quarter|q([1-4]))$/);
+  if (period) return endOfPeriod(today, period[2], Boolean(period[1]), period[3]);
+
+  const thisOrNext = stripped.match(/^(this|next) (week|month)$/);
+  if (thisOrNext) {
+    // "Next week" as a deadline means by the end of that week.
+    return endOfPeriod(today, thisOrNext[2], thisOrNext[1] === "next");
+  }
+
+  const weekday = stripped.match(/^(?:(this|next) )?([a-z]+)$/);
+  const weekdayIndex = weekday ? weekdayOf(weekday[2]) : -1;
+  if (weekday && weekdayIndex !== -1) {
+    const current = dayOfWeek(today);
+    let delta = (weekdayIndex - current + 7) % 7;
+    // "By Monday" written on a Monday means the next one; only "this Monday" is today.
+    if (delta === 0 && !weekday[1]) delta = 7;
+    if (weekday[1] === "next") {
+      // "Next Friday" skips the Friday of the current week.
+      delta += delta === 0 || weekdayIndex > current ? 7 : 0;
+    }
+    return addDays(today, delta);
+  }
+
+  const iso = stripped.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+
+  const numeric = stripped.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?$/);
+  if (numeric) {
+    return upcoming(today, Number(numeric[1]), Number(numeric[2]), numeric[3]);
+  }
+
+  const monthFirst = stripped.match(/^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/);
+  if (monthFirst && monthOf(monthFirst[1]) !== -1) {
+    return upcoming(today, monthOf(monthFirst[1]) + 1, Number(monthFirst[2]), monthFirst[3]);
+  }
+
+  const dayFirst = stripped.match(/^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)\.?(?: (\d{4}))?$/);
+  if (dayFirst && monthOf(dayFirst[2]) !== -1) {
+    return upcoming(today, monthOf(dayFirst[2]) + 1, Number(dayFirst[1]), dayFirst[3]);
+  }
+
+  return undefined;
+}
+
+function endOfPeriod(
+  today: CalendarDay,
+  period: string,
+  next: boolean,
+  quarter?: string,
+): CalendarDay {
+  if (period === "week") {
+    // Business weeks end on Friday.
+    const friday = addDays(today, (5 - dayOfWeek(today) + 7) % 7);
+    return next ? addDays(friday, 7) : friday;
+  }
+  if (period === "month") {
+    const month = today.month + (next ? 1 : 0);
+    return lastDayOfMonth(today.year + Math.floor((month - 1) / 12), ((month - 1) % 12) + 1);
+  }
+  if (period === "year") {
+    return { year: today.year + (next ? 1 : 0), month: 12, day: 31 };
+  }
+
+  const currentQuarter = Math.ceil(today.month / 3);
+  let target = quarter ? Number(quarter) : currentQuarter + (next ? 1 : 0);
+  let year = today.year;
+  if (quarter && target < currentQuarter) year += 1;
+  if (target > 4) {
+    target -= 4;
+    year += 1;
+  }
+  return lastDayOfMonth(year, target * 3);
+}
+
+function upcoming(today: CalendarDay, month: number, day: number, yearText?: string): CalendarDay | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  if (yearText) {
+    const year = Number(yearText.length === 2 ? `20${yearText}` : yearText);
+    return { year, month, day };
+  }
+  // Dates without a year refer to the next occurrence, allowing a week of slack for overdue items.
+  const candidate = { year: today.year, month, day };
+  return compareDays(candidate, addDays(today, -7)) < 0
+    ? { ...candidate, year: today.year + 1 }
+    : candidate;
+}
+
+function parseCount(value: string): number {
+  const cleaned = value.replace(/^a (couple|few)/, "$1").replace(/ of$/, "");
+  return Number(cleaned) || NUMBER_WORDS[cleaned] || 1;
+}
+
+function weekdayOf(value: string): number {
+  return WEEKDAYS.findIndex((name) => name.startsWith(value.slice(0, 3)));
+}
+
+function monthOf(value: string): number {
+  return MONTHS.findIndex((name) => name.startsWith(value.slice(0, 3)));
+}
+
+export function calendarDayIn(date: Date, timeZone: string): CalendarDay {
+  const parts = zonedParts(date, timeZone);
+  return { year: parts.year, month: parts.month, day: parts.day };
+}
+
+export function dayOfWeek({ year, month, day }: CalendarDay): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function addDays({ year, month, day }: CalendarDay, days: number): CalendarDay {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function addBusinessDays(start: CalendarDay, days: number): CalendarDay {
+  let current = start;
+  let remaining = days;
+  while (remaining > 0) {
+    current = addDays(current, 1);
+    const weekday = dayOfWeek(current);
+    if (weekday !== 0 && weekday !== 6) remaining -= 1;
+  }
+  return current;
+}
+
+function addMonths({ year, month, day }: CalendarDay, months: number): CalendarDay {
+  const target = lastDayOfMonth(year + Math.floor((month - 1 + months) / 12), ((month - 1 + months) % 12) + 1);
+  return { ...target, day: Math.min(day, target.day) };
+}
+
+function lastDayOfMonth(year: number, month: number): CalendarDay {
+  return { year, month, day: new Date(Date.UTC(year, month, 0)).getUTCDate() };
+}
+
+function compareDays(left: CalendarDay, right: CalendarDay): number {
+  return (
+    Date.UTC(left.year, left.month - 1, left.day) - Date.UTC(right.year, right.month - 1, right.day)
+  );
+}
+
+// Building a formatter costs far more than using one, and slot searches convert hundreds of times.
+const ZONED_FORMATTERS = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timeZone: string) {
+  let formatter = ZONED_FORMATTERS.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    ZONED_FORMATTERS.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: value("year"),
+    month: value("month"),
+    day: value("day"),
+    hour: value("hour"),
+    minute: value("minute"),
+    second: value("second"),
+  };
+}
+
+function offsetMinutes(date: Date, timeZone: string): number {
+  const parts = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+/** The moment `hour:minute` on `day` falls on in `timeZone`, as a timestamp with that zone's offset. */
+export function atTime(day: CalendarDay, hour: number, minute: number, timeZone: string): string {
+  const wallClock = Date.UTC(day.year, day.month - 1, day.day, hour, minute);
+  // Two passes settle the offset even when the guess lands across a DST transition.
+  let instant = wallClock - offsetMinutes(new Date(wallClock), timeZone) * 60_000;
+  instant = wallClock - offsetMinutes(new Date(instant), timeZone) * 60_000;
+  return formatZoned(new Date(instant), timeZone);
+}
+
+function formatZoned(date: Date, timeZone: string): string {
+  const parts = zonedParts(date, timeZone);
+  const offset = offsetMinutes(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const sign = offset < 0 ? "-" : "+";
+  const absolute = Math.abs(offset);
+  return (
+    `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:00` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+  );
+}
@@ -0,0 +1,24 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+let database: Database.Database | undefined;
+
+/**
+ * Returns the process-wide SQLite connection shared by the history and tone
+ * stores. The file lives at `AGENT_DB_PATH`, or `.data/agent.sqlite` under the
+ * working directory.
+ */
+export function getDatabase(env: NodeJS.ProcessEnv = process.env): Database.Database {
+  database ??= openDatabase(env.AGENT_DB_PATH || join(process.cwd(), ".data", "agent.sqlite"));
+  return database;
+}
+
+export function openDatabase(path: string): Database.Database {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  return db;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { diffWords } from "@/lib/diff";
+
+describe("diffWords", () => {
+  it("marks inserted and replaced words and merges neighbours of the same kind", () => {
+    expect(diffWords("send the deck by Friday", "send the final deck by Monday")).toEqual([
+      { type: "equal", text: "send the " },
+      { type: "insert", text: "final " },
+      { type: "equal", text: "deck by " },
+      { type: "delete", text: "Friday" },
+      { type: "insert", text: "Monday" },
+    ]);
+  });
+
+  it.each([
+    ["", "hello"],
+    ["same text", "same text"],
+    ["Hi Priya,\n\nThe numbers are in.\n\nBest,\nSam", "Hello Priya,\n\nThe final numbers are attached.\n\nKind regards,\nSam"],
+  ])("rebuilds both sides from its chunks: %j → %j", (before, after) => {
+    const chunks = diffWords(before, after);
+    const join = (type: "insert" | "delete") =>
+      chunks.filter((chunk) => chunk.type === "equal" || chunk.type === type).map((chunk) => chunk.text).join("");
+    expect(join("delete")).toBe(before);
+    expect(join("insert")).toBe(after);
+  });
+
+  it("falls back to a full replacement when the texts share too little", () => {
+    const before = Array.from({ length: 1_200 }, (_, index) => `a${index}`).join(" ");
+    const after = Array.from({ length: 1_200 }, (_, index) => `b${index}`).join(" ");
+    expect(diffWords(before, after)).toEqual([
+      { type: "delete", text: before },
+      { type: "insert", text: after },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+export type DiffChunk = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+// Beyond this many edits the texts share too little for a word diff to help; show a full replacement.
+const MAX_EDITS = 2_000;
+
+/**
+ * Word-level diff of two drafts (Myers' algorithm). Whitespace runs are tokens
+ * of their own, so joining the equal and inserted chunks gives back `after`,
+ * and joining the equal and deleted chunks gives back `before`.
+ */
+export function diffWords(before: string, after: string): DiffChunk[] {
+  const left = tokenize(before);
+  const right = tokenize(after);
+  const trace = shortestEdit(left, right);
+  if (!trace) {
+    return merge([
+      { type: "delete", text: before },
+      { type: "insert", text: after },
+    ]);
+  }
+  return merge(backtrack(trace, left, right));
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/** The furthest-reaching path for each edit count, as in Myers (1986); undefined past MAX_EDITS. */
+function shortestEdit(left: string[], right: string[]): Map<number, number>[] | undefined {
+  const max = left.length + right.length;
+  const frontier = new Map<number, number>([[1, 0]]);
+  const trace: Map<number, number>[] = [];
+
+  for (let edits = 0; edits <= Math.min(max, MAX_EDITS); edits += 1) {
+    trace.push(new Map(frontier));
+    for (let diagonal = -edits; diagonal <= edits; diagonal += 2) {
+      const down =
+        diagonal === -edits ||
+        (diagonal !== edits && (frontier.get(diagonal - 1) ?? -1) < (frontier.get(diagonal + 1) ?? -1));
+      let x = down ? frontier.get(diagonal + 1) ?? 0 : (frontier.get(diagonal - 1) ?? 0) + 1;
+      let y = x - diagonal;
+      while (x < left.length && y < right.length && left[x] === right[y]) {
+        x += 1;
+        y += 1;
+      }
+      frontier.set(diagonal, x);
+      if (x >= left.length && y >= right.length) return trace;
+    }
+  }
+  return undefined;
+}
+
+function backtrack(trace: Map<number, number>[], left: string[], right: string[]): DiffChunk[] {
+  const chunks: DiffChunk[] = [];
+  let x = left.length;
+  let y = right.length;
+
+  for (let edits = trace.length - 1; edits >= 0; edits -= 1) {
+    const frontier = trace[edits];
+    const diagonal = x - y;
+    const down =
+      diagonal === -edits ||
+      (diagonal !== edits && (frontier.get(diagonal - 1) ?? -1) < (frontier.get(diagonal + 1) ?? -1));
+    const previousDiagonal = down ? diagonal + 1 : diagonal - 1;
+    const previousX = frontier.get(previousDiagonal) ?? 0;
+    const previousY = previousX - previousDiagonal;
+
+    while (x > previousX && y > previousY) {
+      x -= 1;
+      y -= 1;
+      chunks.push({ type: "equal", text: left[x] });
+    }
+    if (edits > 0) {
+      if (down) {
+        y -= 1;
+        chunks.push({ type: "insert", text: right[y] });
+      } else {
+        x -= 1;
+        chunks.push({ type: "delete", text: left[x] });
+      }
+    }
+  }
+  return chunks.reverse();
+}
+
+// Adjacent chunks of the same type read as one change.
+function merge(chunks: DiffChunk[]): DiffChunk[] {
+  const merged: DiffChunk[] = [];
+  for (const chunk of chunks) {
+    const last = merged[merged.length - 1];
+    if (!chunk.text) continue;
+    if (last?.type === chunk.type) {
+      last.text += chunk.text;
+    } else {
+      merged.push({ ...chunk });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { extractEntities, findOwner } from "@/lib/engine/entities";
+import { LEXICONS } from "@/lib/engine/lexicons";
+
+const OPTIONS = {
+  language: "en",
+  lexicon: LEXICONS.en,
+  sentDate: new Date("2026-03-02T10:00:00Z"),
+  timeZone: "UTC",
+} as const;
+
+const EMAIL = `Hi Priya,
+
+I met with Jordan Lee from Acme Corp yesterday. Jordan will send the signed contract.pdf by Friday.
+The budget is $1,200.50 for phase one and 3 million euros overall; the invoice from 12.05.2026 says 1.200,50 €.
+Call me on +44 20 7946 0958 or see https://example.com/plan.
+Mail jordan@acme.com or sam@gmail.com.
+
+Best,
+Alex Morgan`;
+
+const texts = (entities: { text: string }[]) => entities.map((entity) => entity.text);
+
+describe("extractEntities", () => {
+  const entities = extractEntities(EMAIL, OPTIONS);
+
+  it("finds people after cue words, before assignments and under the sign-off, once each", () => {
+    expect(texts(entities.people)).toEqual(["Priya", "Jordan Lee", "Alex Morgan"]);
+  });
+
+  it("reads organizations from company suffixes and work addresses, not free mail", () => {
+    expect(texts(entities.organizations)).toEqual(["Acme Corp", "acme.com"]);
+    expect(texts(entities.emails)).toEqual(["jordan@acme.com", "sam@gmail.com"]);
+  });
+
+  it("parses amounts in either number format with their currency", () => {
+    expect(entities.amounts.map(({ text, value, currency }) => ({ text, value, currency }))).toEqual([
+      { text: "$1,200.50", value: 1200.5, currency: "USD" },
+      { text: "3 million euros", value: 3_000_000, currency: "EUR" },
+      { text: "1.200,50 €", value: 1200.5, currency: "EUR" },
+    ]);
+  });
+
+  it("claims dates before phone numbers and trims punctuation off links", () => {
+    expect(entities.dates).toEqual([
+      { text: "Friday", start: 103, end: 109, iso: "2026-03-06T17:00:00+00:00" },
+      { text: "12.05.2026", start: 195, end: 205 },
+    ]);
+    expect(texts(entities.phones)).toEqual(["+44 20 7946 0958"]);
+    expect(texts(entities.urls)).toEqual(["https://example.com/plan"]);
+  });
+
+  it("names the attached file without the words before it", () => {
+    expect(texts(entities.attachments)).toEqual(["contract.pdf"]);
+  });
+
+  it("finds nothing in small talk", () => {
+    expect(Object.values(extractEntities("Sounds good, thanks. Talk soon.", OPTIONS)).flat()).toEqual([]);
+  });
+});
+
+describe("findOwner", () => {
+  const { people } = extractEntities(EMAIL, OPTIONS);
+
+  it.each([
+    ["Ask Jordan to send the signed contract", { name: "Jordan Lee", index: 4, text: "Jordan" }],
+    ["Jordan will review the draft", { name: "Jordan Lee", index: 0, text: "Jordan" }],
+    ["@Priya please check the numbers", { name: "Priya", index: 1, text: "Priya" }],
+  ])("assigns %j to the person named with a cue", (description, owner) => {
+    expect(findOwner(description, people, LEXICONS.en)).toEqual(owner);
+  });
+
+  it("gives the sender's own commitments to the persona", () => {
+    expect(findOwner("I'll send the agenda", people, LEXICONS.en, "Sam")).toEqual({ name: "Sam", index: 0, text: "I'll" });
+    expect(findOwner("I'll send the agenda", people, LEXICONS.en)).toBeUndefined();
+  });
+});
@@ -0,0 +1,321 @@
+import { findDates } from "@/lib/dates";
+import { Language, STOPWORDS } from "@/lib/language";
+import type { Lexicon } from "./lexicons";
+import type { Entities, Entity } from "./types";
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+const URL = /\b(?:https?:\/\/|www\.)[^\s<>()"']+/gi;
+
+// Dotted and ISO dates that the English date phrases in `dates.ts` don't cover ("12.05.2025").
+const NUMERIC_DATE = /\b(?:\d{1,2}\.\d{1,2}\.\d{2,4}|\d{4}-\d{2}-\d{2})\b/g;
+
+const NUMBER = String.raw`\d{1,3}(?:[,. ]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?`;
+const SCALE = String.raw`k|m|bn|thousand|million|billion|mio|millones|millions?`;
+const CURRENCY = String.raw`[$€£¥]|\b(?:usd|eur|gbp|chf|jpy|cad|aud|dollars?|euros?|pounds?)\b`;
+
+// "$1,200", "USD 5k", "1.200,50 €", "3 million euros".
+const AMOUNT = new RegExp(
+  String.raw`(?:(${CURRENCY})\s?(${NUMBER})(?:\s?(${SCALE})\b)?|\b(${NUMBER})(?:\s?(${SCALE}))?\s?(${CURRENCY}))`,
+  "giu",
+);
+
+const CURRENCIES: Record<string, string> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  dollar: "USD",
+  euro: "EUR",
+  pound: "GBP",
+};
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mio: 1e6,
+  million: 1e6,
+  millones: 1e6,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+const PHONE = /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,4}){1,4}(?![\w])/g;
+
+// No spaces: "send the signed contract.pdf" names contract.pdf, not the whole clause.
+const FILE_NAME = /\b[\w-]+(?:[._-][\w-]+)*\.(?:pdf|docx?|xlsx?|pptx?|csv|zip|png|jpe?g|txt|key|numbers|pages|ics)\b/gi;
+
+const COMPANY =
+  /\b\p{Lu}[\p{L}&'-]*(?:\s+\p{Lu}[\p{L}&'-]*){0,3},?\s+(?:Inc|Ltd|LLC|GmbH|AG|SA|SAS|SARL|SL|Corp|Co|plc|BV|SE)\b\.?/gu;
+
+// Mail providers say nothing about where someone works.
+const FREE_MAIL = /^(?:gmail|googlemail|outlook|hotmail|live|yahoo|icloud|me|aol|proton|protonmail|gmx|web|mail)\./i;
+
+const NAME = /(?<![\p{L}\p{N}@.])\p{Lu}\p{Ll}+(?:[ -]\p{Lu}\p{Ll}+)?(?![\p{L}])/gu;
+
+// Capitalized after a cue word without being anyone's name.
+const NOT_NAMES = new Set(["team", "all", "everyone", "everybody", "folks", "guys", "there", "again", "please", "you"]);
+
+/**
+ * Finds people, organizations, addresses, phone numbers, amounts, dates,
+ * links and attachments in `content`. Each kind claims its spans in turn, so
+ * the digits of a date are never read as a phone number and the name in
+ * "jordan@acme.com" is never read as a person.
+ */
+export function extractEntities(
+  content: string,
+  {
+    language,
+    lexicon,
+    persona,
+    sentDate,
+    timeZone,
+  }: { language: Language; lexicon: Lexicon; persona?: string; sentDate: Date; timeZone: string },
+): Entities {
+  const claimed: Entity[] = [];
+  const claim = <T extends Entity>(found: T[]): T[] => {
+    const fresh = found.filter(
+      (entity) => !claimed.some((taken) => entity.start < taken.end && taken.start < entity.end),
+    );
+    claimed.push(...fresh);
+    return distinct(fresh);
+  };
+
+  const emails = claim(spans(content, EMAIL));
+  const urls = claim(spans(content, URL).map(trimTrailingPunctuation));
+  const attachments = claim([
+    ...spans(content, FILE_NAME),
+    ...matchGroup(content, lexicon.attachment).filter(
+      (entity) => !STOPWORDS[language].includes(entity.text.toLowerCase()),
+    ),
+  ]);
+  const dates = claim([
+    ...findDates(content, sentDate, timeZone).map((date) => ({
+      text: date.text,
+      start: date.index,
+      end: date.index + date.text.length,
+      iso: date.iso,
+    })),
+    ...spans(content, NUMERIC_DATE),
+    ...spans(content, lexicon.calendar),
+  ]);
+  const amounts = claim(
+    Array.from(content.matchAll(AMOUNT), (match) => {
+      const [text, prefix, prefixNumber, prefixScale, number, scale, suffix] = match;
+      const start = match.index ?? 0;
+      return {
+        text,
+        start,
+        end: start + text.length,
+        value: parseAmount(prefixNumber ?? number, prefixScale ?? scale),
+        currency: currencyCode(prefix ?? suffix),
+      };
+    }),
+  );
+  const phones = claim(
+    spans(content, PHONE).filter((entity) => {
+      const digits = entity.text.replace(/\D/g, "").length;
+      return digits >= 7 && digits <= 15;
+    }),
+  );
+  // An address's domain lies inside the address's own span, so it joins without claiming.
+  const organizations = distinct([
+    ...claim(spans(content, COMPANY).map(dropLeadingStopword)),
+    ...emails.flatMap((email) => {
+      const domain = email.text.slice(email.text.indexOf("@") + 1);
+      const start = email.start + email.text.indexOf("@") + 1;
+      return FREE_MAIL.test(domain) ? [] : [{ text: domain, start, end: start + domain.length }];
+    }),
+  ]);
+  const people = claim(findPeople(content, lexicon, persona));
+
+  const byPosition = (a: Entity, b: Entity) => a.start - b.start;
+  return {
+    people: people.sort(byPosition),
+    organizations: organizations.sort(byPosition),
+    emails,
+    phones,
+    amounts: amounts.sort(byPosition),
+    dates: dates.sort(byPosition),
+    urls,
+    attachments: attachments.sort(byPosition),
+  };
+}
+
+/**
+ * A capitalized word (or two) counts as a person after a cue word ("with
+ * Jordan", "Hi Priya"), before an assignment ("Jordan will"), in front of an
+ * address ("Jordan Lee <jordan@…>"), as an @mention, under a sign-off, or when
+ * it is the persona.
+ */
+function findPeople(content: string, lexicon: Lexicon, persona?: string): Entity[] {
+  const known = new Set<string>();
+  const lines = content.split("\n");
+  lines.forEach((line, index) => {
+    const previous = lines.slice(0, index).reverse().find((candidate) => candidate.trim());
+    const signed = previous && lexicon.courtesy.test(previous.trim());
+    if (signed && /^\p{Lu}\p{Ll}+(?:\s\p{Lu}\p{Ll}+)?$/u.test(line.trim())) {
+      known.add(line.trim());
+    }
+  });
+  for (const match of content.matchAll(/(\p{Lu}\p{Ll}+(?:\s\p{Lu}\p{Ll}+)?)\s*<[^>\s]+@/gu)) {
+    known.add(match[1]);
+  }
+  for (const match of content.matchAll(/(?:^|\s)@(\p{L}[\p{L}.-]*)/gu)) {
+    known.add(match[1]);
+  }
+
+  const candidates = Array.from(content.matchAll(NAME), (match) => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  })).flatMap((candidate) => {
+    // "Jordan Friday" is a name followed by a date and "Hi Priya" a greeting followed by a name.
+    const [first, second] = candidate.text.split(/[ -]/);
+    const firstValid = isPlausibleName(first, lexicon);
+    const secondValid = second !== undefined && isPlausibleName(second, lexicon);
+    if (firstValid && (secondValid || second === undefined)) return [candidate];
+    if (firstValid) return [{ text: first, start: candidate.start, end: candidate.start + first.length }];
+    if (secondValid) {
+      const start = candidate.end - second.length;
+      return [{ text: second, start, end: candidate.end }];
+    }
+    return [];
+  });
+
+  for (const candidate of candidates) {
+    const before = content.slice(Math.max(0, candidate.start - 30), candidate.start);
+    const after = content.slice(candidate.end, candidate.end + 30);
+    if (lexicon.personCue.test(before) || lexicon.ownerAfter.test(after) || /^['’]s\b/.test(after)) {
+      known.add(candidate.text);
+    }
+  }
+  if (persona?.trim()) {
+    known.add(persona.trim());
+  }
+
+  // Once someone is known, every mention of them counts; "Jordan" after "Jordan Lee" is the same person.
+  const fullNames = Array.from(known).filter((name) => name.includes(" "));
+  return [
+    ...candidates.filter(
+      (candidate) => known.has(candidate.text) && !fullNames.some((name) => name.startsWith(`${candidate.text} `)),
+    ),
+    ...Array.from(known).flatMap((name) =>
+      candidates.some((candidate) => candidate.text === name)
+        ? []
+        : spans(content, new RegExp(`(?<![\\p{L}])${escapeRegExp(name)}(?![\\p{L}])`, "gu")),
+    ),
+  ];
+}
+
+/**
+ * The person a task line assigns the work to: a known person named with an
+ * assignment cue ("ask Jordan", "Priya, can you", "@sam"), or the persona when
+ * the sender takes it on ("I'll send…"). `index` and `text` locate the cue in
+ * `description`.
+ */
+export function findOwner(
+  description: string,
+  people: Entity[],
+  lexicon: Lexicon,
+  persona?: string,
+): { name: string; index: number; text: string } | undefined {
+  const names = new Set(people.flatMap((person) => [person.text, person.text.split(" ")[0]]));
+  const mentions = Array.from(names)
+    .flatMap((name) =>
+      spans(description, new RegExp(`(?<![\\p{L}])${escapeRegExp(name)}(?![\\p{L}])`, "gu")),
+    )
+    .sort((a, b) => a.start - b.start);
+  const assigned = mentions.find(
+    (mention) =>
+      description[mention.start - 1] === "@" ||
+      lexicon.ownerBefore.test(description.slice(0, mention.start)) ||
+      lexicon.ownerAfter.test(description.slice(mention.end)),
+  );
+  if (assigned) {
+    // "Jordan" in a line about "Jordan Lee" is still Jordan Lee.
+    const name = people.find((person) => person.text.split(" ")[0] === assigned.text)?.text ?? assigned.text;
+    return { name, index: assigned.start, text: assigned.text };
+  }
+
+  const commitment = persona?.trim() ? description.match(lexicon.selfCommitment) : null;
+  return commitment && persona
+    ? { name: persona.trim(), index: commitment.index ?? 0, text: commitment[0] }
+    : undefined;
+}
+
+function isPlausibleName(word: string, lexicon: Lexicon): boolean {
+  const lower = word.toLowerCase();
+  return (
+    !NOT_NAMES.has(lower) &&
+    !Object.values(STOPWORDS).some((stopwords) => stopwords.includes(lower)) &&
+    !lexicon.personCue.test(`${word} `) &&
+    !lexicon.calendar.test(word) &&
+    !lexicon.courtesy.test(word) &&
+    !lexicon.taskTrigger.test(word)
+  );
+}
+
+function spans(content: string, pattern: RegExp): Entity[] {
+  const global = pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+  return Array.from(content.matchAll(global), (match) => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+// For patterns whose first group is the entity ("attached (deck)").
+function matchGroup(content: string, pattern: RegExp): Entity[] {
+  const global = new RegExp(pattern.source, `${pattern.flags.replace("g", "")}g`);
+  return Array.from(content.matchAll(global), (match) => {
+    const start = (match.index ?? 0) + match[0].length - match[1].length;
+    return { text: match[1], start, end: start + match[1].length };
+  });
+}
+
+// "The Acme Corp" is Acme Corp.
+function dropLeadingStopword(entity: Entity): Entity {
+  const [first] = entity.text.split(/\s+/);
+  if (!Object.values(STOPWORDS).some((stopwords) => stopwords.includes(first.toLowerCase()))) return entity;
+  const text = entity.text.slice(first.length).trimStart();
+  return { text, start: entity.end - text.length, end: entity.end };
+}
+
+function trimTrailingPunctuation(entity: Entity): Entity {
+  const text = entity.text.replace(/[.,;:!?]+$/, "");
+  return { ...entity, text, end: entity.start + text.length };
+}
+
+// One entry per entity, at its first mention.
+function distinct<T extends Entity>(entities: T[]): T[] {
+  const seen = new Set<string>();
+  return [...entities]
+    .sort((a, b) => a.start - b.start)
+    .filter((entity) => {
+      const key = entity.text.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** "1,200.50", "1.200,50" and "1 200" all parse; the last separator is decimal only when 1–2 digits follow it. */
+function parseAmount(number: string, scale?: string): number {
+  const compact = number.replace(/\s/g, "");
+  const decimal = compact.match(/[.,](\d{1,2})$/);
+  const whole = (decimal ? compact.slice(0, -decimal[0].length) : compact).replace(/[.,]/g, "");
+  const value = Number(`${whole}${decimal ? `.${decimal[1]}` : ""}`);
+  const lower = scale?.toLowerCase();
+  return value * (lower ? (SCALES[lower] ?? SCALES[lower.replace(/s$/, "")] ?? 1) : 1);
+}
+
+function currencyCode(currency: string): string | undefined {
+  const lower = currency.toLowerCase().replace(/s$/, "");
+  return CURRENCIES[lower] ?? (/^[a-z]{3}$/.test(lower) ? lower.toUpperCase() : undefined);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
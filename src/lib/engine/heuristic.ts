@@ -0,0 +1,778 @@
+import type {
+  AnalysisEngine,
+  AnalyzeInput,
+  AnalyzePayload,
+  ComposeInput,
+  ComposePayload,
+  Contact,
+  Entity,
+  Evidence,
+  Explanation,
+  MeetingRequest,
+  Priority,
+  Question,
+  QuestionKind,
+  SequenceInput,
+  SequencePayload,
+  SequenceStep,
+  SentimentExplanation,
+  TagExplanation,
+  Tone,
+  ToneTemplate,
+} from "./types";
+import { findDueDate, formatDueLabel, hoursUntil } from "@/lib/dates";
+import { detectLanguage, Language } from "@/lib/language";
+import { findPattern, findTerms, spanAt } from "@/lib/evidence";
+import { DEFAULT_TONES, renderTemplate, TemplateValues } from "@/lib/tones/templates";
+import { Lexicon, LEXICONS, REPLY_PHRASES, ReplyPhrases } from "./lexicons";
+import { extractEntities, findOwner } from "./entities";
+import { detectMeeting, formatSlot } from "./meeting";
+import { extractQuestions, requiresReply } from "./questions";
+import { reviseDraft } from "./revise";
+import { scoreSentiment } from "./sentiment";
+import { summarize } from "./summarizer";
+
+const FOLLOW_UP_NUDGES: Record<Tone, string> = {
+  friendly: "Just bumping",
+  concise: "Following up on",
+  assertive: "I still need an answer on",
+  warm: "Gently resurfacing",
+};
+
+const DEFAULT_NUDGE = "I wanted to follow up on";
+
+// The draft checks flag "[insert …]" as a leftover placeholder, so no question goes out unanswered.
+const ANSWER_PLACEHOLDERS: Record<QuestionKind, string> = {
+  "yes-no": "[insert yes or no]",
+  scheduling: "[insert a time that works]",
+  request: "[insert when you'll do it]",
+  information: "[insert the answer]",
+};
+
+export function createHeuristicEngine(): AnalysisEngine {
+  return {
+    name: "heuristic",
+    async analyze(input) {
+      return { ...analyzeEmail(input), engine: "heuristic" };
+    },
+    async compose(input) {
+      return { ...composeEmail(input), engine: "heuristic" };
+    },
+    async sequence(input) {
+      return { ...composeSequence(input), engine: "heuristic" };
+    },
+    async revise(input) {
+      return { ...reviseDraft(input), engine: "heuristic" };
+    },
+    async summarize(content, threadHistory, length) {
+      const language = detectLanguage(content);
+      return summarize(content, { threadHistory, length, language, lexicon: LEXICONS[language] });
+    },
+  };
+}
+
+function analyzeEmail({
+  content,
+  threadHistory,
+  persona,
+  sender,
+  sentAt,
+  timeZone = "UTC",
+  tones = DEFAULT_TONES,
+  replyLanguage,
+  summaryLength,
+  contact,
+  invite,
+  availability,
+  onProgress,
+}: AnalyzeInput): Omit<AnalyzePayload, "engine"> {
+  const language = detectLanguage(content);
+  const lexicon = LEXICONS[language];
+  const sentDate = sentAt ? new Date(sentAt) : new Date();
+
+  const summary = summarize(content, { threadHistory, length: summaryLength, language, lexicon });
+  onProgress?.({ stage: "summary", summary });
+
+  const { sentiment, explanation: sentimentExplanation } = scoreSentiment(content, lexicon);
+  onProgress?.({ stage: "sentiment", sentiment });
+
+  const entities = extractEntities(content, { language, lexicon, persona, sentDate, timeZone });
+  const tasks = extractTasks(content, lexicon, sentDate, timeZone, entities.people, persona);
+  const deadline = nearestDeadline(content, tasks, sentDate, timeZone);
+  const { priority, explanation: priorityExplanation } = determinePriority(content, lexicon, sentDate, deadline);
+  onProgress?.({
+    stage: "tasks",
+    tasks: tasks.map(({ description, due, dueDate, owner }) => ({ description, due, dueDate, owner })),
+    priority,
+  });
+
+  const questions = extractQuestions(content, lexicon);
+  const replyNeeded = requiresReply(content, lexicon, questions);
+  onProgress?.({ stage: "questions", questions, requiresReply: replyNeeded });
+  const meeting = detectMeeting(content, { lexicon, invite, availability, sentDate, timeZone });
+
+  const subjectSuggestion = buildSubject(tasks, priority, sentiment);
+  const tagExplanations = buildTags({
+    priority,
+    sentiment,
+    tasks,
+    sentimentExplanation,
+    priorityExplanation,
+  });
+  const followUpRecommendation = buildFollowUpRecommendation({
+    priority,
+    tasks,
+    content,
+    lexicon,
+    deadline: deadline?.iso,
+    timeZone,
+  });
+
+  const recommendedReply = generateReply({
+    // Urgency overrides the tone a contact prefers; a deadline calls for a firmer reply.
+    template: findTone(tones, priority === "high" ? "assertive" : contact?.tone ?? "professional"),
+    language: replyLanguage ?? contact?.language ?? language,
+    urgent: priority === "high",
+    tasks,
+    questions,
+    meeting,
+    timeZone,
+    // The draft restates the email itself, in prose, whatever summary length was asked for.
+    summary: summarize(content, { language, lexicon }),
+    persona: contact ? firstName(contact.name) : persona,
+    sender,
+  });
+  onProgress?.({ stage: "reply", recommendedReply });
+
+  return {
+    language,
+    summary,
+    sentiment,
+    priority,
+    subjectSuggestion,
+    tags: tagExplanations.map((entry) => entry.tag),
+    tasks,
+    entities,
+    requiresReply: replyNeeded,
+    questions,
+    meeting,
+    followUpRecommendation,
+    recommendedReply,
+    explanation: {
+      sentiment: sentimentExplanation,
+      priority: priorityExplanation,
+      tags: tagExplanations,
+    },
+  };
+}
+
+function composeEmail({
+  audience,
+  objective,
+  tone,
+  keyPoints,
+  callToAction,
+  signature,
+  sender,
+  recipient,
+  recipientTone = tone,
+}: ComposeInput): Omit<ComposePayload, "engine"> {
+  const cleanPoints = keyPoints
+    .map((point) => point.trim())
+    .filter(Boolean)
+    .map((point) => (point.startsWith("-") ? point.slice(1).trim() : point));
+
+  const values = { audience: addressee(audience, recipient), objective, sender };
+  const subject = craftSubjectFromObjective(objective, renderTemplate(tone.subject, values));
+  const opening = craftOpening(tone, values, recipientTone.greeting);
+  // The brief's fields become sentences, so the draft passes the same checks as one written by hand.
+  const purpose = objective.trim() ? `I'm writing to ${decapitalize(objective.trim().replace(/\.$/, ""))}.` : "";
+  const bodyPoints = cleanPoints.map((point) => `• ${capitalize(point)}`).join("\n");
+  const ask = callToAction?.trim() ? `Could you ${decapitalize(callToAction.trim().replace(/[.?!]$/, ""))}?` : "";
+  const closing = renderTemplate(tone.closing, values);
+  const signoff = signature ?? renderTemplate(recipientTone.signOff, values);
+
+  // An opening that ends in "the following:" introduces the points, so they come straight after it.
+  const middle = opening.trimEnd().endsWith(":") ? [bodyPoints, purpose] : [purpose, bodyPoints];
+  const body = [opening, ...middle, ask, closing, signoff].filter(Boolean).join("\n\n");
+
+  const preview = buildPreview(body);
+  const cadenceTip = buildCadenceTip({ tone: tone.id, cleanPoints });
+
+  return {
+    subject,
+    preview,
+    body,
+    cadenceTip,
+  };
+}
+
+function composeSequence(input: SequenceInput): Omit<SequencePayload, "engine"> {
+  const first = composeEmail(input);
+  const steps: SequenceStep[] = [
+    {
+      dayOffset: 0,
+      tone: input.tone.id,
+      subject: first.subject,
+      preview: first.preview,
+      body: first.body,
+    },
+  ];
+
+  input.followUpTones.forEach((tone, index) => {
+    const dayOffset = input.dayOffsets[index];
+    const isLast = index === input.followUpTones.length - 1;
+    const body = composeFollowUp(input, {
+      subject: first.subject,
+      tone,
+      touch: index + 1,
+      daysSinceLast: dayOffset - steps[steps.length - 1].dayOffset,
+      isLast,
+    });
+    steps.push({
+      dayOffset,
+      tone: tone.id,
+      subject: followUpSubject(first.subject, tone.id, index + 1, isLast),
+      preview: buildPreview(body),
+      body,
+    });
+  });
+
+  return { steps };
+}
+
+function composeFollowUp(
+  { audience, objective, keyPoints, callToAction, signature, sender, recipient, recipientTone }: SequenceInput,
+  {
+    subject,
+    tone,
+    touch,
+    daysSinceLast,
+    isLast,
+  }: { subject: string; tone: ToneTemplate; touch: number; daysSinceLast: number; isLast: boolean },
+): string {
+  const name = addressee(audience, recipient).trim();
+  const values = { audience: name, objective, sender };
+  const relationship = recipientTone ?? tone;
+  const greeting = `${relationship.greeting}${name ? ` ${name}` : ""},`;
+  const earlier =
+    touch === 1
+      ? `my note from ${describeDays(daysSinceLast)}`
+      : `the ${touch} notes I've sent so far (the latest ${describeDays(daysSinceLast)})`;
+  const points = keyPoints.map((point) => point.replace(/^-/, "").trim()).filter(Boolean);
+  const recap =
+    points.length === 0
+      ? ""
+      : tone.id === "concise" || tone.id === "assertive" || touch > 1
+      ? `\n\nThe short version: ${decapitalize(points[0])}${
+          points.length > 1 ? ` (plus ${points.length - 1} more item${points.length > 2 ? "s" : ""} in my first email)` : ""
+        }.`
+      : `\n\nAs a quick recap:\n${points.map((point) => `• ${capitalize(point)}`).join("\n")}`;
+  const ask = callToAction
+    ? `Could you ${decapitalize(callToAction.replace(/\.$/, ""))}?`
+    : "Could you let me know where this stands?";
+  const closing = isLast
+    ? "If now isn't the right time, just say so and I'll close this out on my side."
+    : renderTemplate(tone.closing, values);
+  const signoff = signature ?? renderTemplate(relationship.signOff, values);
+
+  return `${greeting}
+
+${FOLLOW_UP_NUDGES[tone.id] ?? DEFAULT_NUDGE} ${earlier} about "${subject}".${recap}
+
+${ask} ${closing}
+
+${signoff}`;
+}
+
+function followUpSubject(subject: string, tone: Tone, touch: number, isLast: boolean): string {
+  if (isLast && touch > 1) {
+    return `Closing the loop: ${subject}`;
+  }
+  if (tone === "assertive") {
+    return `Action needed: ${subject}`;
+  }
+  return touch === 1 ? `Re: ${subject}` : `Following up: ${subject}`;
+}
+
+function describeDays(days: number): string {
+  if (days <= 1) return "yesterday";
+  if (days % 7 === 0) return days === 7 ? "last week" : `${days / 7} weeks ago`;
+  return `${days} days ago`;
+}
+
+// Each signal scores on the same 0–100 scale as the bucket thresholds below, and the strongest one wins.
+const PRIORITY_WEIGHTS = { urgency: 70, deadlineToday: 65, deadlineThisWeek: 40, timing: 35, deadlineLater: 15 };
+
+const PRIORITY_FLOOR = 10;
+
+// Urgency is measured from when the email was sent, so triaging it again later gives the same priority.
+function determinePriority(
+  content: string,
+  lexicon: Lexicon,
+  sentDate: Date,
+  deadline?: { iso: string; evidence: Evidence },
+): { priority: Priority; explanation: Explanation } {
+  const evidence = [
+    ...findTerms(content, lexicon.urgency, "urgency", PRIORITY_WEIGHTS.urgency),
+    ...findPattern(content, lexicon.soon, "timing", PRIORITY_WEIGHTS.timing),
+  ];
+
+  if (deadline) {
+    const hoursLeft = hoursUntil(deadline.iso, sentDate);
+    evidence.push({
+      ...deadline.evidence,
+      weight:
+        hoursLeft <= 24
+          ? PRIORITY_WEIGHTS.deadlineToday
+          : hoursLeft <= 24 * 7
+          ? PRIORITY_WEIGHTS.deadlineThisWeek
+          : PRIORITY_WEIGHTS.deadlineLater,
+    });
+  }
+  evidence.sort((a, b) => a.start - b.start);
+
+  const score = Math.max(PRIORITY_FLOOR, ...evidence.map((span) => span.weight));
+  const priority = priorityBucket(score);
+  const agreeing = evidence.filter((span) => priorityBucket(span.weight) === priority).length;
+  return {
+    priority,
+    explanation: {
+      score,
+      confidence: evidence.length ? round(Math.min(1, 0.45 + 0.15 * agreeing)) : 0.5,
+      evidence,
+    },
+  };
+}
+
+function priorityBucket(score: number): Priority {
+  return score >= 60 ? "high" : score >= 30 ? "medium" : "low";
+}
+
+function extractTasks(
+  content: string,
+  lexicon: Lexicon,
+  sentDate: Date,
+  timeZone: string,
+  people: Entity[],
+  persona?: string,
+): AnalyzePayload["tasks"] {
+  let offset = 0;
+  const lines = content.split("\n").map((raw) => {
+    const line = { text: raw.replace(/\r$/, ""), start: offset };
+    offset += raw.length + 1;
+    return line;
+  });
+
+  return lines
+    .map((line) => {
+      const bullet = line.text.match(/^\s*(\*|-|\d+\.)/);
+      const trigger = line.text.match(lexicon.taskTrigger);
+      if (!bullet && !trigger) return undefined;
+
+      const description = line.text.replace(/^\s*(\*|-|\d+\.)\s*/, "").trim();
+      const descriptionStart = line.start + line.text.indexOf(description);
+      const due = findDueDate(description, sentDate, timeZone);
+      const owner = findOwner(description, people, lexicon, persona);
+      const marker = bullet
+        ? { index: bullet.index! + bullet[0].length - bullet[1].length, text: bullet[1] }
+        : { index: trigger!.index!, text: trigger![0] };
+
+      const evidence = [
+        spanAt(content, line.start + marker.index, marker.text, "task", 1),
+        ...(due ? [spanAt(content, descriptionStart + due.index, due.text, "deadline", 1)] : []),
+        ...(owner ? [spanAt(content, descriptionStart + owner.index, owner.text, "owner", 1)] : []),
+      ];
+
+      return {
+        description: capitalize(description),
+        due: due ? titleCase(due.text) : undefined,
+        dueDate: due?.iso,
+        owner: owner?.name,
+        evidence,
+      };
+    })
+    .filter((task): task is NonNullable<typeof task> => Boolean(task?.description));
+}
+
+function nearestDeadline(
+  content: string,
+  tasks: AnalyzePayload["tasks"],
+  sentDate: Date,
+  timeZone: string,
+): { iso: string; evidence: Evidence } | undefined {
+  // Deadlines mentioned outside a task line ("the launch is on 5/12") still count.
+  const inContent = findDueDate(content, sentDate, timeZone);
+  const candidates = [
+    ...tasks.flatMap((task) => {
+      const evidence = task.evidence?.find((span) => span.signal === "deadline");
+      return task.dueDate && evidence ? [{ iso: task.dueDate, evidence }] : [];
+    }),
+    ...(inContent
+      ? [{ iso: inContent.iso, evidence: spanAt(content, inContent.index, inContent.text, "deadline", 1) }]
+      : []),
+  ];
+  return candidates.sort((a, b) => Date.parse(a.iso) - Date.parse(b.iso))[0];
+}
+
+function buildSubject(
+  tasks: AnalyzePayload["tasks"],
+  priority: AnalyzePayload["priority"],
+  sentiment: AnalyzePayload["sentiment"],
+): string {
+  const leadTask = tasks[0]?.description ?? "";
+  const tag =
+    priority === "high"
+      ? "Urgent"
+      : sentiment === "positive"
+      ? "Update"
+      : "Follow-up";
+
+  if (leadTask) {
+    return `[${tag}] ${leadTask}`;
+  }
+
+  switch (priority) {
+    case "high":
+      return "[Urgent] Action required on latest request";
+    case "medium":
+      return "Next steps for your email";
+    default:
+      return "Thanks for the update — here's the plan";
+  }
+}
+
+function buildTags({
+  priority,
+  sentiment,
+  tasks,
+  sentimentExplanation,
+  priorityExplanation,
+}: {
+  priority: AnalyzePayload["priority"];
+  sentiment: AnalyzePayload["sentiment"];
+  tasks: AnalyzePayload["tasks"];
+  sentimentExplanation: SentimentExplanation;
+  priorityExplanation: Explanation;
+}): TagExplanation[] {
+  const tags: TagExplanation[] = [];
+  const { score: priorityScore } = priorityExplanation;
+  tags.push(
+    priority === "high"
+      ? { tag: "Hot", reason: `Priority scored ${priorityScore}/100, high enough to act on today.`, evidence: priorityExplanation.evidence }
+      : priority === "medium"
+      ? { tag: "Follow-up", reason: `Priority scored ${priorityScore}/100 from timing cues or a deadline this week.`, evidence: priorityExplanation.evidence }
+      : { tag: "Backlog", reason: `Priority scored ${priorityScore}/100; no urgency cues or near deadlines.`, evidence: priorityExplanation.evidence },
+  );
+
+  const cues = (signal: string) => sentimentExplanation.evidence.filter((span) => span.signal === signal);
+  const score = `${sentimentExplanation.score > 0 ? "+" : ""}${sentimentExplanation.score.toFixed(2)}`;
+  tags.push(
+    sentiment === "positive"
+      ? { tag: "Relationship", reason: `Sentiment scored ${score}; positive wording outweighs negative.`, evidence: cues("positive") }
+      : sentiment === "negative"
+      ? { tag: "Risk", reason: `Sentiment scored ${score}; negative wording outweighs positive.`, evidence: cues("negative") }
+      : {
+          tag: "Neutral",
+          reason: sentimentExplanation.evidence.length
+            ? `Sentiment scored ${score}; positive and negative wording balance out.`
+            : "No positive or negative wording found.",
+          evidence: sentimentExplanation.evidence,
+        },
+  );
+
+  if (tasks.length > 0) {
+    tags.push({
+      tag: "Action items",
+      reason: `${tasks.length} ask${tasks.length === 1 ? "" : "s"} found in bullets or request phrasing.`,
+      evidence: tasks.flatMap((task) => task.evidence?.filter((span) => span.signal === "task") ?? []),
+    });
+  }
+
+  const owned = tasks.filter((task) => task.owner);
+  if (owned.length > 0) {
+    tags.push({
+      tag: "Delegation",
+      reason: `Assigned to ${Array.from(new Set(owned.map((task) => task.owner))).join(", ")}.`,
+      evidence: owned.flatMap((task) => task.evidence?.filter((span) => span.signal === "owner") ?? []),
+    });
+  }
+
+  return tags;
+}
+
+function buildFollowUpRecommendation({
+  priority,
+  tasks,
+  content,
+  lexicon,
+  deadline,
+  timeZone,
+}: {
+  priority: AnalyzePayload["priority"];
+  tasks: AnalyzePayload["tasks"];
+  content: string;
+  lexicon: Lexicon;
+  deadline?: string;
+  timeZone: string;
+}): string {
+  const waitingForResponse = lexicon.waiting.test(content);
+  const hasTasks = tasks.length > 0;
+  const timing = deadline
+    ? {
+        label: formatDueLabel(deadline, timeZone),
+        hoursLeft: hoursUntil(deadline, new Date()),
+      }
+    : undefined;
+
+  if (priority === "high") {
+    const suffix = timing
+      ? ` The nearest deadline is ${timing.label} (${describeTimeLeft(timing.hoursLeft)}).`
+      : "";
+    return `Follow up within 4 business hours and confirm ownership of each task.${suffix}`;
+  }
+
+  if (timing && timing.hoursLeft <= 72) {
+    return `The deadline on ${timing.label} is ${describeTimeLeft(timing.hoursLeft)}. Confirm owners today and share a progress update before then.`;
+  }
+
+  if (waitingForResponse) {
+    return "Schedule a reminder in 2 days to check for updates.";
+  }
+
+  if (timing) {
+    return `Log tasks with their due dates (next up: ${timing.label}, ${describeTimeLeft(timing.hoursLeft)}) and check in two business days before.`;
+  }
+
+  if (hasTasks) {
+    return "Log tasks in your system and share a progress update within 24 hours.";
+  }
+
+  return "Archive for now, revisit over the weekend for any broader updates.";
+}
+
+function describeTimeLeft(hours: number): string {
+  if (hours < 0) return "already overdue";
+  if (hours < 24) return "due within a day";
+  const days = Math.round(hours / 24);
+  return days === 1 ? "1 day away" : `${days} days away`;
+}
+
+function generateReply({
+  template,
+  language,
+  urgent,
+  tasks,
+  questions,
+  meeting,
+  timeZone,
+  summary,
+  persona,
+  sender,
+}: {
+  template: ToneTemplate;
+  language: Language;
+  urgent: boolean;
+  tasks: AnalyzePayload["tasks"];
+  questions: Question[];
+  meeting?: MeetingRequest;
+  timeZone: string;
+  summary: string;
+  /** Who the reply goes to. */
+  persona?: string;
+  /** Who signs it. */
+  sender?: string;
+}): AnalyzePayload["recommendedReply"] {
+  // Tone templates are written in English; other languages use fixed phrases in the matching register.
+  const phrases = language === "en" ? undefined : REPLY_PHRASES[language];
+  const values = { audience: persona, sender };
+  const opening = renderTemplate(template.opening, values);
+  const localizedOpening = phrases && (urgent ? phrases.urgentOpening : phrases.opening);
+  const intro = localizedOpening
+    ? persona
+      ? `${phrases.greeting} ${persona}, ${localizedOpening}`
+      : capitalize(localizedOpening)
+    : persona && !template.opening.includes("{{")
+    ? opening.replace(
+        /^(Thank you|Thanks)/,
+        (match) =>
+          match === "Thanks"
+            ? `${template.greeting} ${persona}, thanks`
+            : `${template.greeting} ${persona}, thank you`,
+      )
+    : opening;
+  const bulletSection =
+    tasks.length > 0
+      ? `\n\n${phrases?.tracking ?? "Here's what I'm tracking:"}\n${tasks
+          .map((task) => {
+            const due = task.due ? ` (${phrases?.due ?? "due"} ${task.due})` : "";
+            const owner = task.owner ? ` — ${phrases?.owner ?? "owner"}: ${task.owner}` : "";
+            return `• ${task.description}${due}${owner}`;
+          })
+          .join("\n")}`
+      : "";
+  const meetingSection = buildMeetingSection(meeting, phrases, language, timeZone);
+  // One answer slot per question, so none of them gets lost in the reply; times on offer answer the scheduling
+  // ones and the question that asked to meet.
+  const unanswered = meetingSection
+    ? questions.filter(
+        (question) =>
+          question.kind !== "scheduling" &&
+          !meeting?.evidence.some((span) => span.start >= question.start && span.end <= question.end),
+      )
+    : questions;
+  const questionSection =
+    unanswered.length > 0
+      ? `\n\n${phrases?.questions ?? "On your questions:"}\n${unanswered
+          .map((question) => `• ${question.text} ${ANSWER_PLACEHOLDERS[question.kind]}`)
+          .join("\n")}`
+      : "";
+  const closing = phrases
+    ? urgent
+      ? phrases.urgentClosing
+      : phrases.closing
+    : renderTemplate(template.closing, values);
+
+  const body = `${intro}
+
+${summary}${bulletSection}${questionSection}${meetingSection}
+
+${closing}
+
+${phrases?.signOff ?? renderTemplate(template.signOff, values)}`;
+
+  return {
+    subject: phrases
+      ? urgent
+        ? phrases.urgentSubject
+        : phrases.subject
+      : renderTemplate(template.subject, values),
+    body,
+  };
+}
+
+function buildMeetingSection(
+  meeting: MeetingRequest | undefined,
+  phrases: ReplyPhrases | undefined,
+  language: Language,
+  timeZone: string,
+): string {
+  const slots = meeting?.proposedSlots.map((slot) => `• ${formatSlot(slot, language, timeZone)}`) ?? [];
+  const invited = meeting?.invite ? formatSlot(meeting.invite, language, timeZone) : "";
+  const answer = (phrase: string) => `\n\n${phrase.replace("{time}", invited)}`;
+  switch (meeting?.suggestedResponse) {
+    case "accept":
+      return answer(phrases?.inviteAccepted ?? "The time you proposed ({time}) works for me, so I'm accepting the invite.");
+    case "decline":
+      return answer(phrases?.inviteDeclined ?? "I can't make the time you proposed ({time}), so I'm declining the invite.");
+    case "counter":
+      return `${answer(
+        phrases?.inviteConflict ?? "I'm not free at the time you proposed ({time}). Would one of these work instead?",
+      )}\n${slots.join("\n") || `• ${ANSWER_PLACEHOLDERS.scheduling}`}`;
+    default:
+      return slots.length
+        ? `\n\n${phrases?.meetingSlots ?? "Here are a few times that work for me:"}\n${slots.join("\n")}`
+        : "";
+  }
+}
+
+function craftSubjectFromObjective(objective: string, fallback: string): string {
+  if (!objective) {
+    return fallback;
+  }
+
+  const normalized = objective.toLowerCase();
+  if (normalized.includes("update")) {
+    return "Quick project update";
+  }
+  if (normalized.includes("intro")) {
+    return "Introduction and next steps";
+  }
+  if (normalized.includes("meeting")) {
+    return "Proposed agenda for our meeting";
+  }
+  if (normalized.includes("feedback")) {
+    return "Feedback and proposed improvements";
+  }
+  return capitalize(objective);
+}
+
+// Templates that place {{audience}} themselves are used as written; others get "<greeting> <audience>," prepended.
+function craftOpening(template: ToneTemplate, values: TemplateValues, greeting = template.greeting): string {
+  const opening = renderTemplate(template.opening, values);
+  const recipient = values.audience?.trim();
+  if (!recipient || template.opening.includes("{{audience}}")) {
+    return opening;
+  }
+
+  const softenedOpening = opening.replace(/^Thank you/, "thank you").replace(/^Thanks/, "thanks");
+  return `${greeting} ${recipient}, ${softenedOpening}`;
+}
+
+// A contact is greeted by first name, unless the brief addresses someone else.
+function addressee(audience: string, recipient?: Contact): string {
+  if (recipient && (!audience.trim() || audience.trim() === recipient.name)) {
+    return firstName(recipient.name);
+  }
+  return audience;
+}
+
+function firstName(name: string): string {
+  return name.trim().split(/\s+/)[0];
+}
+
+function findTone(tones: ToneTemplate[], id: Tone): ToneTemplate {
+  return (
+    tones.find((tone) => tone.id === id) ??
+    DEFAULT_TONES.find((tone) => tone.id === id) ??
+    DEFAULT_TONES[0]
+  );
+}
+
+function buildPreview(body: string): string {
+  const condensed = body.replace(/\s+/g, " ").trim();
+  return condensed.slice(0, 140) + (condensed.length > 140 ? "..." : "");
+}
+
+function buildCadenceTip({
+  tone,
+  cleanPoints,
+}: {
+  tone: Tone;
+  cleanPoints: string[];
+}): string {
+  const base =
+    tone === "assertive"
+      ? "Set a reminder to nudge the recipient within 1 business day."
+      : tone === "concise"
+      ? "Share a short recap if you do not hear back within 2 days."
+      : "Send a friendly check-in if there's no response within 3 days.";
+
+  if (cleanPoints.length > 2) {
+    return `${base} Consider bolding the key decisions to make scanning easier.`;
+  }
+
+  return base;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function capitalize(value: string): string {
+  if (!value) return value;
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function decapitalize(value: string): string {
+  if (!value) return value;
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+function titleCase(value: string): string {
+  return value
+    .toLowerCase()
+    .split(/\s+/)
+    .map((part) => capitalize(part))
+    .join(" ");
+}
@@ -0,0 +1,93 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHeuristicEngine, createLlmEngine, withFallback } from "@/lib/engine";
+
+type Handler = (request: IncomingMessage, body: string, response: ServerResponse) => void;
+
+const EMAIL = `Hi Sam,
+
+Can you send the signed contract by Friday? Legal needs it before the board meeting.
+
+Thanks,
+Priya`;
+
+let server: Server;
+let handler: Handler;
+let received: { authorization?: string; body: Record<string, unknown> }[];
+
+function engine(timeoutMs = 2000) {
+  const { port } = server.address() as AddressInfo;
+  const llm = createLlmEngine({ baseUrl: `http://127.0.0.1:${port}/v1/`, apiKey: "test-key", model: "fake", timeoutMs });
+  return withFallback(llm, createHeuristicEngine());
+}
+
+function completion(content: string): Handler {
+  return (_request, _body, response) => {
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ choices: [{ message: { content } }] }));
+  };
+}
+
+beforeEach(async () => {
+  received = [];
+  server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({ authorization: request.headers.authorization, body: JSON.parse(body) });
+      handler(request, body, response);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("withFallback", () => {
+  it("uses the model's answer when the provider responds", async () => {
+    handler = completion('```json\n{ "summary": "Send the contract by Friday." }\n```');
+
+    await expect(engine().summarize(EMAIL)).resolves.toBe("Send the contract by Friday.");
+    expect(received).toHaveLength(1);
+    expect(received[0].authorization).toBe("Bearer test-key");
+    expect(received[0].body).toMatchObject({ model: "fake", response_format: { type: "json_object" } });
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the heuristics when the provider fails", async () => {
+    handler = (_request, _body, response) => {
+      response.writeHead(503);
+      response.end();
+    };
+
+    const summary = await engine().summarize(EMAIL);
+    expect(summary).toBe(await createHeuristicEngine().summarize(EMAIL));
+    expect(console.warn).toHaveBeenCalledWith(
+      "llm:fake summarize failed, using heuristic",
+      expect.objectContaining({ message: "Chat completion failed with status 503." }),
+    );
+  });
+
+  it("falls back when the model's answer does not match the schema", async () => {
+    handler = completion('{ "priority": "urgent" }');
+
+    const analysis = await engine().analyze({ content: EMAIL });
+    expect(analysis.engine).toBe("heuristic");
+    expect(analysis.tasks.length).toBeGreaterThan(0);
+    expect(console.warn).toHaveBeenCalledWith("llm:fake analyze failed, using heuristic", expect.any(Error));
+  });
+
+  it("falls back when the provider does not answer in time", async () => {
+    handler = () => undefined;
+
+    const summary = await engine(50).summarize(EMAIL);
+    expect(summary).toBe(await createHeuristicEngine().summarize(EMAIL));
+    expect(console.warn).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,59 @@
+import { createHeuristicEngine } from "./heuristic";
+import { createLlmEngine } from "./llm";
+import type { AnalysisEngine } from "./types";
+
+export type * from "./types";
+export { createHeuristicEngine } from "./heuristic";
+export { createLlmEngine } from "./llm";
+
+/**
+ * Resolves the engine for the current request from environment variables.
+ * `AGENT_ENGINE=llm` enables the chat-completions engine; anything else keeps
+ * the built-in heuristics. The LLM engine always falls back to heuristics.
+ */
+export function getAnalysisEngine(env: NodeJS.ProcessEnv = process.env): AnalysisEngine {
+  const heuristic = createHeuristicEngine();
+  if (env.AGENT_ENGINE !== "llm") {
+    return heuristic;
+  }
+
+  const llm = createLlmEngine({
+    baseUrl: env.AGENT_LLM_BASE_URL ?? "https://api.openai.com/v1",
+    apiKey: env.AGENT_LLM_API_KEY,
+    model: env.AGENT_LLM_MODEL ?? "gpt-4o-mini",
+    timeoutMs: Number(env.AGENT_LLM_TIMEOUT_MS) || 15000,
+  });
+  return withFallback(llm, heuristic);
+}
+
+export function withFallback(
+  primary: AnalysisEngine,
+  fallback: AnalysisEngine,
+): AnalysisEngine {
+  const attempt = async <T>(label: string, run: () => Promise<T>, recover: () => Promise<T>) => {
+    try {
+      return await run();
+    } catch (error) {
+      console.warn(`${primary.name} ${label} failed, using ${fallback.name}`, error);
+      return recover();
+    }
+  };
+
+  return {
+    name: primary.name,
+    analyze: (input) =>
+      attempt("analyze", () => primary.analyze(input), () => fallback.analyze(input)),
+    compose: (input) =>
+      attempt("compose", () => primary.compose(input), () => fallback.compose(input)),
+    sequence: (input) =>
+      attempt("sequence", () => primary.sequence(input), () => fallback.sequence(input)),
+    revise: (input) =>
+      attempt("revise", () => primary.revise(input), () => fallback.revise(input)),
+    summarize: (content, threadHistory, length) =>
+      attempt(
+        "summarize",
+        () => primary.summarize(content, threadHistory, length),
+        () => fallback.summarize(content, threadHistory, length),
+      ),
+  };
+}
@@ -0,0 +1,478 @@
+import type { Language } from "@/lib/language";
+import type { Emotion } from "./types";
+
+/**
+ * Word valences from -3 to 3. A trailing `*` matches any word starting with
+ * the stem ("frustrat*" covers frustrated and frustrating); other entries
+ * match whole words only, so "happy" never fires inside "unhappy".
+ */
+export type ValenceTable = Record<string, number>;
+
+export type Lexicon = {
+  sentiment: ValenceTable;
+  /** Words that flip the valence of the next few words ("not happy", "no issue"); `*n't` and `n'*` match by suffix and prefix. */
+  negators: string[];
+  /** Multipliers for the word that follows ("very", "slightly"). */
+  intensifiers: Record<string, number>;
+  /** Words like "but" after which the rest of the sentence carries more weight. */
+  contrast: string[];
+  /** Stems per emotion, in the same `*` notation as `sentiment`. */
+  emotions: Record<Emotion, string[]>;
+  urgency: string[];
+  /** Lines matching this are treated as asks even without a bullet. */
+  taskTrigger: RegExp;
+  /** Words that introduce a name ("with", "thanks", "Hi"); a capitalized word right after one is taken as a person. */
+  personCue: RegExp;
+  /** Tested against the text just before a known name; a match makes that person the task's owner ("ask Jordan"). */
+  ownerBefore: RegExp;
+  /** Tested against the text just after a known name ("Jordan will", "Priya, can you"). */
+  ownerAfter: RegExp;
+  /** The sender takes the task on themselves ("I'll send…"), so the owner is the persona. */
+  selfCommitment: RegExp;
+  /** Captures what the email says it attaches ("the attached deck"). */
+  attachment: RegExp;
+  /** Soft timing cues that make a message worth a medium priority. */
+  soon: RegExp;
+  /** The sender is waiting on a response. */
+  waiting: RegExp;
+  /** A salutation opening a line ("Hi team,"); the summarizer strips it. */
+  greeting: RegExp;
+  /** Sentences that are pure courtesy ("Thanks for the update.", "Hope you're well."); never summarized. */
+  courtesy: RegExp;
+  /** Weekday, month, and relative-day words that mark a sentence as carrying a date. */
+  calendar: RegExp;
+  /** Opens a question that wants a yes or no ("Can we…", "Is it…"). */
+  yesNoQuestion: RegExp;
+  /** Marks a question that asks for facts: question words, or asks to tell, send, or explain something. */
+  openQuestion: RegExp;
+  /** Asks the reader to do something ("Could you send…", "Can you review…") rather than to tell them something. */
+  requestQuestion: RegExp;
+  /** Marks a question about meeting times, calls, or availability. */
+  scheduling: RegExp;
+  /** Questions that are only courtesy ("How are you?") and need no answer. */
+  smallTalk: RegExp;
+  /** Words that answer a yes-or-no question ("yes", "sure", "unfortunately not"). */
+  yesNoAnswer: RegExp;
+  /** Asks to meet or talk ("find time next week", "set up a call", "are you free"). */
+  meetingRequest: RegExp;
+};
+
+/** Fixed phrases of the heuristic reply draft in languages other than English. */
+export type ReplyPhrases = {
+  greeting: string;
+  opening: string;
+  urgentOpening: string;
+  tracking: string;
+  /** Introduces the list of the sender's questions, each with a placeholder answer. */
+  questions: string;
+  /** Introduces the free times offered for a meeting. */
+  meetingSlots: string;
+  /** Answers to an invite; `{time}` stands for the invited time. */
+  inviteAccepted: string;
+  inviteConflict: string;
+  inviteDeclined: string;
+  due: string;
+  owner: string;
+  closing: string;
+  urgentClosing: string;
+  signOff: string;
+  subject: string;
+  urgentSubject: string;
+};
+
+export const LEXICONS: Record<Language, Lexicon> = {
+  en: {
+    sentiment: {
+      "thank*": 2,
+      "appreciat*": 2,
+      grateful: 2,
+      great: 2,
+      glad: 2,
+      pleased: 2,
+      happy: 2,
+      "excit*": 2,
+      love: 3,
+      excellent: 3,
+      awesome: 3,
+      perfect: 2.5,
+      good: 1.5,
+      nice: 1.5,
+      helpful: 1.5,
+      resolved: 1,
+      fixed: 1,
+      smooth: 1,
+      "concern*": -1.5,
+      "issue*": -1,
+      "problem*": -1.5,
+      "delay*": -1.5,
+      blocked: -1.5,
+      "blocker*": -1.5,
+      "frustrat*": -2.5,
+      "disappoint*": -2.5,
+      unhappy: -2,
+      angry: -3,
+      annoyed: -2,
+      unacceptable: -3,
+      "confus*": -1,
+      unclear: -1,
+      "fail*": -2,
+      broken: -2,
+      wrong: -1.5,
+      worried: -2,
+      "complain*": -2,
+    },
+    negators: ["not", "no", "never", "none", "nothing", "without", "hardly", "*n't"],
+    intensifiers: {
+      very: 1.5,
+      really: 1.4,
+      extremely: 1.8,
+      incredibly: 1.7,
+      so: 1.3,
+      super: 1.5,
+      totally: 1.4,
+      highly: 1.5,
+      deeply: 1.5,
+      quite: 1.2,
+      somewhat: 0.7,
+      slightly: 0.6,
+      barely: 0.5,
+    },
+    contrast: ["but", "however", "though"],
+    emotions: {
+      frustration: ["frustrat*", "annoy*", "irritat*", "unacceptable", "ridiculous", "angry", "disappoint*"],
+      gratitude: ["thank*", "grateful", "appreciat*", "gratitude", "kudos"],
+      confusion: ["confus*", "unclear", "unsure", "puzzl*", "clarif*", "lost"],
+    },
+    urgency: ["urgent", "asap", "immediately", "priority", "important"],
+    taskTrigger: /(please|can you|could you|action)/i,
+    personCue: /\b(?:hi|hey|hello|dear|thanks|thank you|with|for|from|to|cc|ask|ping|loop in)\s+$/i,
+    ownerBefore: /\b(?:for|with|ask|ping|assign(?:ed)? to|owner:?)\s+$/i,
+    ownerAfter:
+      /^(?:,\s*(?:please|can you|could you|would you)|\s+(?:will|to|can|should|needs to|is going to|owns|please))\b/i,
+    selfCommitment: /^(?:i['’]ll|i will|i can|i['’]m going to|i am going to|let me)\b/i,
+    attachment:
+      /\b(?:attached|enclosed)\s+(?:is\s+|are\s+)?(?:the\s+|our\s+|my\s+|a\s+|an\s+|updated\s+|latest\s+)*(\p{L}+)/iu,
+    soon: /\b(next week|soon|follow up)\b/,
+    waiting: /\b(wait(?:ing)?|await(?:ing)?|response|hear back)\b/i,
+    greeting: /^(?:hi|hey|hello|dear|good (?:morning|afternoon|evening))\b[^,!:\n]{0,40}[,!:]\s*/i,
+    courtesy:
+      /^(?:thanks|thank you|many thanks|hope (?:you|this|all|everyone)|i hope|best|regards|kind regards|cheers|looking forward|let me know if you have (?:any )?questions|have a (?:great|good|nice))\b/i,
+    calendar:
+      /\b(?:today|tonight|tomorrow|eod|cob|(?:mon|tues|wednes|thurs|fri|satur|sun)day|jan(?:uary)?|feb(?:ruary)?|march|april|june|july|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?|next week|end of (?:the )?(?:day|week|month|quarter))\b/i,
+    yesNoQuestion:
+      /^(?:(?:and|so|also|but|ok(?:ay)?),?\s+)?(?:can|could|would|will|shall|should|may|might|must|is|are|am|was|were|do|does|did|have|has|had|any chance)\b/i,
+    openQuestion:
+      /\b(?:what|when|where|who|whom|whose|which|why|how|eta|thoughts|any (?:update|news|idea|ideas|feedback))\b|\b(?:can|could|would) you (?:tell|share|send|explain|clarify|give|provide|walk|let (?:me|us) know)\b/i,
+    requestQuestion:
+      /^(?:(?:and|so|also|but|ok(?:ay)?),?\s+)?(?:would you mind \w+ing\b|(?:(?:can|could|would|will) you|(?:would|will) you be able to|any chance you (?:can|could))\s+(?:please\s+|kindly\s+|also\s+)?(?:send|resend|forward|share (?!your (?:thoughts|views?|opinion|feedback|take))|review|check|look (?:at|into|over)|update|sign|approve|prepare|draft|book|fix|handle|take care of|add|file|submit|upload|loop in|put together|finish|complete|get (?:me|us|the)|pull together|follow up)\b)/i,
+    scheduling:
+      /\b(?:meet(?:ing)?|call|sync|catch up|schedul\w*|reschedul\w*|calendar|availab\w*|free (?:on|at|this|next|for)|time ?slot|slots?|what time|good time|when (?:works|suits|would (?:work|suit)|is (?:good|best|convenient))|works (?:best )?for you|push (?:the|our|it)|move (?:the|our|it)|(?:mon|tues|wednes|thurs|fri|satur|sun)day (?:at|morning|afternoon))\b/i,
+    smallTalk:
+      /^(?:how are you|how(?:['’]s| is) it going|how have you been|how was (?:your|the) (?:weekend|trip|holiday|vacation|break|flight)|how are things)\b/i,
+    yesNoAnswer:
+      /\b(?:yes|yep|yeah|sure|absolutely|of course|definitely|certainly|no|nope|not yet|unfortunately|afraid not|happy to|sounds good|(?:that )?works for (?:me|us)|that works|fine by (?:me|us))\b/i,
+    meetingRequest:
+      /\b(?:find (?:a |some )?time|(?:set up|schedule|book|arrange) (?:a |an |some )?(?:quick |short |brief |\d{1,3}[- ]?min(?:ute)? )?(?:call|meeting|chat|time|sync)|(?:can|could|shall) we (?:meet|talk|chat|connect|catch up)|(?:hop|jump) on a (?:quick )?call|grab (?:a )?(?:coffee|lunch)|meet (?:up|next|this|on|to discuss)|catch up (?:next|this|on|over)|are you (?:free|available)|(?:your|any) availability|when (?:are|would) you be (?:free|available)|calendar invite)\b/i,
+  },
+  de: {
+    sentiment: {
+      "dank*": 2,
+      "freu*": 2,
+      froh: 2,
+      super: 2,
+      toll: 2,
+      "großartig*": 3,
+      prima: 2,
+      "zufrieden*": 2,
+      "schätze*": 1.5,
+      gut: 1.5,
+      perfekt: 2.5,
+      hilfreich: 1.5,
+      "gelöst*": 1,
+      behoben: 1,
+      "problem*": -1.5,
+      "verzög*": -1.5,
+      "blockiert*": -1.5,
+      "frustrier*": -2.5,
+      "enttäusch*": -2.5,
+      "unzufrieden*": -2,
+      "bedenken*": -1.5,
+      "fehler*": -1.5,
+      "beschwerde*": -2,
+      "ärger*": -2,
+      "verärgert*": -2.5,
+      inakzeptabel: -3,
+      "verwirr*": -1,
+      unklar: -1,
+      "falsch*": -1.5,
+      "kaputt*": -2,
+      "besorgt*": -2,
+    },
+    negators: ["nicht", "kein", "keine", "keinen", "keinem", "keiner", "nie", "niemals", "ohne", "kaum"],
+    intensifiers: {
+      sehr: 1.5,
+      wirklich: 1.4,
+      extrem: 1.8,
+      äußerst: 1.8,
+      total: 1.4,
+      so: 1.3,
+      echt: 1.3,
+      ziemlich: 1.2,
+      etwas: 0.7,
+      leicht: 0.6,
+    },
+    contrast: ["aber", "jedoch", "allerdings"],
+    emotions: {
+      frustration: ["frustrier*", "ärger*", "verärgert*", "genervt", "inakzeptabel", "enttäusch*", "unzufrieden*"],
+      gratitude: ["dank*", "schätze*"],
+      confusion: ["verwirr*", "unklar", "unsicher", "rätsel*", "klärung*"],
+    },
+    urgency: ["dringend", "sofort", "umgehend", "asap", "eilig", "wichtig", "priorität"],
+    taskTrigger: /\b(bitte|könnten sie|können sie|kannst du|könntest du|würden sie|würdest du)/i,
+    // German capitalizes every noun, so only greetings and titles introduce a name, never a bare preposition.
+    personCue: /(?:hallo|hi|liebe[rs]?|herrn?|frau|danke,?|cc:?)\s+$/i,
+    ownerBefore: /(?:zuständig:?|verantwortlich:?|herrn?|frau)\s+$/i,
+    ownerAfter: /^(?:,\s*(?:bitte|kannst|könntest|würdest|können sie)|\s+(?:wird|soll|kann|übernimmt|kümmert))/i,
+    selfCommitment: /^(?:ich werde|ich kümmere|ich kann|ich übernehme|ich schicke|ich sende)/i,
+    attachment:
+      /(?:anbei|im anhang(?: finden sie| findest du)?|angehängt)\s+(?:ist\s+|sind\s+)?(?:der|die|das|den|unser(?:e|en)?|mein(?:e|en)?)?\s*(\p{L}+)/iu,
+    soon: /(nächste woche|bald|zeitnah|nachfassen)/,
+    waiting: /(warte|rückmeldung|antwort)/i,
+    greeting: /^(?:hallo|hi|liebe[rs]?|sehr geehrte[rs]?|guten (?:morgen|tag|abend))\b[^,!:\n]{0,40}[,!:]\s*/i,
+    courtesy:
+      /^(?:danke|vielen dank|herzlichen dank|ich hoffe|viele grüße|beste grüße|mit freundlichen grüßen|liebe grüße|gruß|bei fragen|schönen tag)/i,
+    calendar:
+      /(?:heute|morgen|übermorgen|montag|dienstag|mittwoch|donnerstag|freitag|samstag|sonntag|januar|februar|märz|april|mai|juni|juli|august|september|oktober|november|dezember|nächste woche|ende der woche|monatsende)/i,
+    yesNoQuestion:
+      /^(?:(?:und|also|aber),?\s+)?(?:kannst|können|könnten|könntest|kann|ist|sind|war|waren|bist|seid|hast|haben|hat|hatten|wird|werden|würden|würdest|soll|sollen|sollten|darf|dürfen|gibt es|passt|geht|wollen|willst|möchten|möchtest)(?![\p{L}])/iu,
+    openQuestion:
+      /(?<![\p{L}])(?:was|wann|wo|wohin|woher|wer|wen|wem|wessen|welche[rsmn]?|warum|wieso|weshalb|wie viele?|wie lange|wie|sagen sie mir|sag mir|schicken sie|schick mir)(?![\p{L}])/iu,
+    // The verb comes last in German: "Könnten Sie mir bitte den Bericht schicken?"
+    requestQuestion:
+      /^(?:(?:und|also|aber),?\s+)?(?:könnten sie|können sie|kannst du|könntest du|würden sie|würdest du)(?![\p{L}]).*(?<![\p{L}])(?:schicken|senden|zusenden|weiterleiten|prüfen|überprüfen|ansehen|anschauen|aktualisieren|unterschreiben|freigeben|vorbereiten|erledigen|hochladen|übernehmen|buchen|korrigieren|beheben|nachreichen)(?![\p{L}])/iu,
+    scheduling:
+      /(?:termin|meeting|besprechung|telefonat|anruf|kalender|verschieben|zeit (?:hast|haben)|uhrzeit|verfügbar|treffen|wann passt|passt es (?:ihnen|dir|euch)|wann (?:geht|ginge) es|wann (?:haben|hätten|hast|hättest) (?:sie|du) zeit)/i,
+    smallTalk: /^(?:wie geht['’]?s|wie geht es (?:dir|ihnen|euch)|wie war (?:dein|ihr|euer) (?:wochenende|urlaub))/i,
+    yesNoAnswer:
+      /(?<![\p{L}])(?:ja|nein|gerne?|klar|natürlich|selbstverständlich|leider|sicher|passt|in ordnung|einverstanden|noch nicht)(?![\p{L}])/iu,
+    meetingRequest:
+      /(?<![\p{L}])(?:(?:einen )?termin (?:vereinbaren|finden|ausmachen)|treffen wir uns|(?:uns|sich) (?:treffen|zusammensetzen)|(?:haben sie|hast du) (?:kurz )?zeit|wann (?:haben|hast|hätten|hättest) (?:sie|du) zeit|zeit für ein (?:gespräch|telefonat|meeting)|(?:ein )?kurzes (?:telefonat|gespräch|meeting)|besprechung (?:vereinbaren|ansetzen))(?![\p{L}])/iu,
+  },
+  es: {
+    sentiment: {
+      gracias: 2,
+      "agradec*": 2,
+      genial: 2,
+      excelente: 3,
+      "content*": 2,
+      "encantad*": 2,
+      feliz: 2,
+      perfecto: 2.5,
+      bien: 1,
+      "buen*": 1.5,
+      "útil*": 1.5,
+      "resuelt*": 1,
+      "solucionad*": 1,
+      "problema*": -1.5,
+      "retras*": -1.5,
+      "bloquead*": -1.5,
+      "frustra*": -2.5,
+      "decepcion*": -2.5,
+      "preocupa*": -1.5,
+      "queja*": -2,
+      "error*": -1.5,
+      "molest*": -2,
+      "enfadad*": -2.5,
+      "enojad*": -2.5,
+      inaceptable: -3,
+      "confus*": -1,
+      "confundid*": -1,
+      "fall*": -1.5,
+      "roto*": -2,
+    },
+    negators: ["no", "nunca", "sin", "ningún", "ninguna", "ninguno", "ni", "jamás", "tampoco"],
+    intensifiers: {
+      muy: 1.5,
+      realmente: 1.4,
+      extremadamente: 1.8,
+      súper: 1.5,
+      super: 1.5,
+      tan: 1.3,
+      totalmente: 1.4,
+      bastante: 1.2,
+      algo: 0.7,
+      poco: 0.6,
+    },
+    contrast: ["pero", "sino"],
+    emotions: {
+      frustration: ["frustra*", "molest*", "enfadad*", "enojad*", "inaceptable", "harto", "harta", "decepcion*"],
+      gratitude: ["gracias", "agradec*"],
+      confusion: ["confus*", "confundid*", "aclar*", "duda*"],
+    },
+    urgency: ["urgente", "inmediatamente", "cuanto antes", "prioridad", "importante", "asap"],
+    taskTrigger: /(por favor|podr[ií]as?|puedes|puede usted|favor de|necesito que|te pido|le pido)/i,
+    personCue: /(?:hola|estimad[oa]|querid[oa]|gracias,?|con|para|cc:?)\s+$/i,
+    ownerBefore: /(?:para|con|responsable:?)\s+$/i,
+    ownerAfter: /^(?:,\s*(?:por favor|podr[ií]as|puedes)|\s+(?:se encarga|va a|puede|debe|enviará|revisará))/i,
+    selfCommitment: /^(?:yo me encargo|me encargo|voy a|enviaré|revisaré|puedo)/i,
+    attachment:
+      /(?:adjunto|adjunta|adjuntos|adjuntas|te adjunto|le adjunto)\s+(?:el|la|los|las|un|una|nuestro|nuestra|mi)?\s*(\p{L}+)/iu,
+    soon: /(próxima semana|pronto|seguimiento)/,
+    waiting: /(espero|esperamos|respuesta|noticias)/i,
+    greeting: /^(?:hola|estimad[oa]s?|querid[oa]s?|buen(?:os días|as tardes|as noches))\b[^,!:\n]{0,40}[,!:]\s*/i,
+    courtesy:
+      /^(?:gracias|muchas gracias|espero que (?:estés|esté|estén|todo)|saludos|un saludo|atentamente|un abrazo|quedo a (?:tu|su) disposición|cualquier duda)/i,
+    calendar:
+      /(?:hoy|mañana|pasado mañana|lunes|martes|miércoles|jueves|viernes|sábado|domingo|enero|febrero|marzo|abril|mayo|junio|julio|agosto|septiembre|octubre|noviembre|diciembre|próxima semana|fin de semana|fin de mes)/i,
+    yesNoQuestion:
+      /^(?:¿\s*)?(?:(?:y|entonces|pero),?\s+)?(?:puedes|puede|pueden|podemos|podrías|podría|es|está|están|son|hay|tienes|tiene|has|ha|hemos|vas|va|vamos|sería|quieres|quiere|te parece|le parece)(?![\p{L}])/iu,
+    openQuestion:
+      /(?<![\p{L}])(?:qué|cuándo|dónde|quién|quiénes|cuál|cuáles|por qué|cómo|cuánto|cuánta|cuántos|cuántas|dime|me dices|me puedes enviar|me envías)(?![\p{L}])/iu,
+    requestQuestion:
+      /^(?:¿\s*)?(?:(?:y|entonces|pero),?\s+)?(?:puedes|puede|pueden|podrías|podría|podrían)(?:\s+usted)?\s+(?:por favor\s+)?(?:me\s+|nos\s+)?(?:enviar|mandar|compartir|revisar|actualizar|firmar|aprobar|preparar|reenviar|subir|corregir|encargarte|encargarse)(?:me|nos|te|se|lo|la|los|las){0,2}(?![\p{L}])/iu,
+    scheduling:
+      /(?:reunión|reunirnos|llamada|cita|calendario|agenda|disponible|disponibilidad|horario|mover la|cambiar la|quedamos|cuándo (?:te|le|les) (?:viene|va) bien|qué hora)/i,
+    smallTalk: /^(?:¿\s*)?(?:qué tal|cómo (?:estás|está|están|te va|le va)|cómo (?:fue|te fue|le fue) (?:el|tu|su) (?:fin de semana|viaje))/i,
+    yesNoAnswer:
+      /(?<![\p{L}])(?:sí|no|claro|por supuesto|desde luego|lamentablemente|perfecto|de acuerdo|vale|todavía no|aún no)(?![\p{L}])/iu,
+    meetingRequest:
+      /(?<![\p{L}])(?:(?:agendar|programar|organizar|concertar) (?:una )?(?:reunión|llamada|cita)|reunirnos|vernos|(?:tienes|tiene|tendrías|tendría) (?:tiempo|un momento)|cuándo (?:estás|está|estarías|estaría) disponible|(?:su|tu) disponibilidad|una (?:breve |rápida )?(?:reunión|llamada))(?![\p{L}])/iu,
+  },
+  fr: {
+    sentiment: {
+      merci: 2,
+      "remerci*": 2,
+      super: 2,
+      "génial*": 2,
+      excellent: 3,
+      "ravi*": 2,
+      "content*": 2,
+      "heureu*": 2,
+      parfait: 2.5,
+      bien: 1,
+      bon: 1.5,
+      "utile*": 1.5,
+      "résolu*": 1,
+      "réglé*": 1,
+      "problème*": -1.5,
+      "retard*": -1.5,
+      "bloqué*": -1.5,
+      "frustr*": -2.5,
+      "déçu*": -2.5,
+      "déception*": -2.5,
+      "inquiét*": -2,
+      "souci*": -1,
+      "erreur*": -1.5,
+      "plainte*": -2,
+      "mécontent*": -2.5,
+      "agacé*": -2,
+      inacceptable: -3,
+      "confus*": -1,
+      "cassé*": -2,
+    },
+    negators: ["ne", "n'*", "pas", "jamais", "aucun", "aucune", "sans", "ni", "guère"],
+    intensifiers: {
+      très: 1.5,
+      vraiment: 1.4,
+      extrêmement: 1.8,
+      tellement: 1.4,
+      super: 1.5,
+      totalement: 1.4,
+      assez: 1.2,
+      plutôt: 1.2,
+      peu: 0.6,
+    },
+    contrast: ["mais", "cependant", "pourtant"],
+    emotions: {
+      frustration: ["frustr*", "agacé*", "énervé*", "inacceptable", "mécontent*", "déçu*", "marre"],
+      gratitude: ["merci", "remerci*", "reconnaissant*"],
+      confusion: ["confus*", "perdu*", "clarifi*", "précision*"],
+    },
+    urgency: ["urgent", "immédiatement", "dès que possible", "asap", "prioritaire", "important"],
+    // "Merci de votre aide" is thanks; "Merci de m'envoyer …" is an ask.
+    taskTrigger: /(merci de (?!votre|vos|ta|ton)|pourriez-vous|pouvez-vous|peux-tu|pourrais-tu|veuillez|s'il vous pla[iî]t|s'il te pla[iî]t)/i,
+    personCue: /(?:bonjour|bonsoir|salut|cher|chère|merci,?|avec|pour|cc:?)\s+$/i,
+    ownerBefore: /(?:pour|avec|responsable\s*:?)\s+$/i,
+    ownerAfter: /^(?:,\s*(?:peux-tu|pourrais-tu|pouvez-vous|merci de)|\s+(?:va|doit|peut|s'occupe|se charge))/i,
+    selfCommitment: /^(?:je vais|je m['’]occupe|je peux|je me charge|j['’]envoie|je t['’]envoie|je vous envoie)/i,
+    attachment:
+      /(?:ci-joint|ci-jointe|ci-joints|en pièce jointe|je joins)\s+(?:le\s+|la\s+|les\s+|l['’]|un\s+|une\s+|notre\s+|mon\s+|ma\s+)?(\p{L}+)/iu,
+    soon: /(semaine prochaine|bientôt|relance|suivi)/,
+    waiting: /(attends|attendons|réponse|retour)/i,
+    greeting: /^(?:bonjour|bonsoir|salut|cher|chère|chers|chères|madame|monsieur)\b[^,!:\n]{0,40}[,!:]\s*/i,
+    courtesy:
+      /^(?:merci(?! de)|j'espère que|cordialement|bien à (?:vous|toi)|bonne (?:journée|soirée)|salutations|amicalement|n'hésitez pas)/i,
+    calendar:
+      /(?:aujourd'hui|demain|après-demain|lundi|mardi|mercredi|jeudi|vendredi|samedi|dimanche|janvier|février|mars|avril|mai|juin|juillet|août|septembre|octobre|novembre|décembre|semaine prochaine|fin de (?:semaine|mois))/i,
+    yesNoQuestion:
+      /^(?:(?:et|alors|mais),?\s+)?(?:est-ce que|est-ce qu['’]|peux-tu|pouvez-vous|pourriez-vous|pourrais-tu|as-tu|avez-vous|es-tu|êtes-vous|y a-t-il|serait-il|faut-il|sommes-nous|on peut|c['’]est|ça te va|ça vous va)/i,
+    openQuestion:
+      /(?<![\p{L}])(?:qu['’]est-ce|quand|où|qui|quel|quelle|quels|quelles|pourquoi|comment|combien|dis-moi|dites-moi|pouvez-vous m['’]envoyer|peux-tu m['’]envoyer)(?![\p{L}])/iu,
+    requestQuestion:
+      /^(?:(?:et|alors|mais),?\s+)?(?:peux-tu|pouvez-vous|pourriez-vous|pourrais-tu|est-ce que (?:tu peux|vous pouvez|vous pourriez|tu pourrais))\s+(?:me\s+|nous\s+|m['’]|t['’]|vous\s+)?(?:envoyer|transmettre|partager|relire|vérifier|mettre à jour|signer|valider|approuver|préparer|renvoyer|corriger|réserver|occuper)(?![\p{L}])/iu,
+    scheduling:
+      /(?:réunion|rendez-vous|appel|créneau|calendrier|agenda|disponible|disponibilité|décaler|reporter|horaire|quand (?:est-ce que )?(?:ça|cela) (?:vous|te) (?:convient|arrange|va)|quelle heure)/i,
+    smallTalk: /^(?:comment (?:vas-tu|allez-vous|ça va)|ça va|tu vas bien|vous allez bien|(?:as-tu|avez-vous) passé un bon)/i,
+    yesNoAnswer:
+      /(?<![\p{L}])(?:oui|non|bien sûr|volontiers|malheureusement|d['’]accord|parfait|avec plaisir|pas encore|entendu)(?![\p{L}])/iu,
+    meetingRequest:
+      /(?<![\p{L}])(?:(?:fixer|caler|organiser|planifier|programmer) (?:un |une )?(?:rendez-vous|réunion|appel|point|créneau)|(?:nous|se) (?:voir|retrouver|réunir)|(?:êtes-vous|es-tu|seriez-vous|serais-tu) disponibles?|(?:vos|tes) disponibilités|un (?:petit |rapide )?(?:appel|point))(?![\p{L}])/iu,
+  },
+};
+
+export const REPLY_PHRASES: Record<Exclude<Language, "en">, ReplyPhrases> = {
+  de: {
+    greeting: "Hallo",
+    opening: "vielen Dank für Ihre Nachricht.",
+    urgentOpening: "danke für die Details. Damit wir im Zeitplan bleiben, kümmere ich mich umgehend um Folgendes:",
+    tracking: "Das habe ich notiert:",
+    questions: "Zu Ihren Fragen:",
+    meetingSlots: "Diese Termine würden mir passen:",
+    inviteAccepted: "Der vorgeschlagene Termin ({time}) passt mir, ich nehme die Einladung an.",
+    inviteConflict: "Zum vorgeschlagenen Termin ({time}) kann ich leider nicht. Würde einer dieser Termine passen?",
+    inviteDeclined: "Zum vorgeschlagenen Termin ({time}) kann ich leider nicht und sage daher ab.",
+    due: "fällig",
+    owner: "zuständig",
+    closing: "Melden Sie sich gern, falls Sie in der Zwischenzeit noch etwas brauchen.",
+    urgentClosing: "Bitte bestätigen Sie die Aufgaben, damit wir das ohne Verzögerung abschließen können.",
+    signOff: "Viele Grüße\nIhr E-Mail-Agent",
+    subject: "Kurze Rückmeldung zu Ihrer Nachricht",
+    urgentSubject: "Handlungsbedarf",
+  },
+  es: {
+    greeting: "Hola",
+    opening: "gracias por su mensaje.",
+    urgentOpening: "gracias por los detalles. Para cumplir con los plazos, me ocupo de inmediato de lo siguiente:",
+    tracking: "Esto es lo que tengo anotado:",
+    questions: "Sobre sus preguntas:",
+    meetingSlots: "Estos horarios me vendrían bien:",
+    inviteAccepted: "El horario propuesto ({time}) me viene bien, así que acepto la invitación.",
+    inviteConflict: "No estoy disponible en el horario propuesto ({time}). ¿Le vendría bien alguno de estos?",
+    inviteDeclined: "No puedo en el horario propuesto ({time}), así que rechazo la invitación.",
+    due: "vence",
+    owner: "responsable",
+    closing: "Quedo atento a cualquier otra cosa que necesite mientras tanto.",
+    urgentClosing: "Por favor, confirme las tareas para cerrarlas sin demora.",
+    signOff: "Saludos cordiales,\nSu agente de correo",
+    subject: "Seguimiento de su mensaje",
+    urgentSubject: "Acción necesaria",
+  },
+  fr: {
+    greeting: "Bonjour",
+    opening: "merci pour votre message.",
+    urgentOpening: "merci pour ces précisions. Pour tenir les délais, je m'occupe dès maintenant de ce qui suit :",
+    tracking: "Voici ce que je note :",
+    questions: "Concernant vos questions :",
+    meetingSlots: "Voici quelques créneaux qui me conviennent :",
+    inviteAccepted: "Le créneau proposé ({time}) me convient, j'accepte donc l'invitation.",
+    inviteConflict: "Je ne suis pas disponible au créneau proposé ({time}). L'un de ceux-ci vous conviendrait-il ?",
+    inviteDeclined: "Je ne peux pas au créneau proposé ({time}), je décline donc l'invitation.",
+    due: "échéance",
+    owner: "responsable",
+    closing: "N'hésitez pas à revenir vers moi si vous avez besoin d'autre chose d'ici là.",
+    urgentClosing: "Merci de confirmer les actions afin que nous puissions conclure sans délai.",
+    signOff: "Cordialement,\nVotre agent e-mail",
+    subject: "Suite à votre message",
+    urgentSubject: "Action requise",
+  },
+};
@@ -0,0 +1,476 @@
+import { locateQuotes } from "@/lib/evidence";
+import { detectLanguage, LANGUAGE_NAMES } from "@/lib/language";
+import type { Language } from "@/lib/language";
+import type {
+  AnalysisEngine,
+  AnalyzePayload,
+  ComposePayload,
+  Contact,
+  Emotion,
+  Explanation,
+  MeetingRequest,
+  SentimentExplanation,
+  SequenceStep,
+  SummaryLength,
+} from "./types";
+import { extractEntities } from "./entities";
+import { LEXICONS } from "./lexicons";
+import { detectMeeting, formatSlot } from "./meeting";
+import { extractQuestions, requiresReply } from "./questions";
+
+export type LlmEngineConfig = {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+};
+
+type ChatMessage = { role: "system" | "user"; content: string };
+
+const EMOTIONS: Emotion[] = ["frustration", "gratitude", "confusion"];
+
+type QuotedExplanation = Omit<Explanation, "evidence"> & { quotes: string[] };
+
+type QuotedSentiment = QuotedExplanation & Pick<SentimentExplanation, "emotions">;
+
+/** The analysis as the model returns it: evidence comes back as quotes, not offsets. */
+type ModelAnalysis = Omit<
+  AnalyzePayload,
+  "language" | "engine" | "tasks" | "entities" | "requiresReply" | "questions" | "meeting" | "explanation"
+> & {
+  tasks: (Omit<AnalyzePayload["tasks"][number], "evidence"> & { quote?: string })[];
+  explanation: {
+    sentiment: QuotedSentiment;
+    priority: QuotedExplanation;
+    tags: { tag: string; reason: string; quotes: string[] }[];
+  };
+};
+
+const ANALYZE_INSTRUCTIONS = `You triage incoming email for a busy professional.
+Respond with a single JSON object with exactly these keys:
+- "summary": string, in the summary length you are given
+- "sentiment": "positive" | "neutral" | "negative"
+- "priority": "low" | "medium" | "high"
+- "tags": string[], short labels such as "Hot", "Risk", "Action items"
+- "subjectSuggestion": string
+- "tasks": array of { "description": string, "due"?: string, "dueDate"?: string, "owner"?: string, "quote"?: string }
+  where "due" is the deadline as written, "dueDate" is that deadline as an ISO 8601 timestamp,
+  and "quote" is the ask exactly as it appears in the email
+- "followUpRecommendation": string, one sentence
+- "recommendedReply": { "subject": string, "body": string }, written in the reply language you are given;
+  it must answer every question you are given, and where you cannot know the answer, leave a placeholder
+  such as "[insert the answer]" for the user to fill in; when you are given a meeting, accept, decline, or
+  offer times exactly as it says
+- "explanation": {
+    "sentiment": { "score": number from -1 to 1, "confidence": number from 0 to 1, "quotes": string[],
+      "emotions": { "frustration": number, "gratitude": number, "confusion": number } each from 0 to 1 },
+    "priority": { "score": number from 0 to 100, "confidence": number from 0 to 1, "quotes": string[] },
+    "tags": array of { "tag": string, "reason": string, "quotes": string[] }, one per tag
+  }
+  where every quote is a short phrase copied exactly from the email that drove that call
+Write every other field in English, whatever language the email is in.
+Do not include any other text.`;
+
+const VOICE_INSTRUCTIONS = `Each "tone" is a voice from the sender's template library. Match its register;
+its subject, opening and closing are examples of that voice, and its signOff is the sign-off to use
+when no signature is given. {{audience}}, {{objective}} and {{sender}} in a template stand for those values;
+"sender" is the user's own name, the person the email is from.
+A "recipient" is the contacts directory entry for the person written to: greet them by first name, use
+"recipientTone" (when given) for the greeting and sign-off, write in their language when one is set, and let
+their role, company and notes shape what you say.`;
+
+const COMPOSE_INSTRUCTIONS = `You draft outbound email.
+${VOICE_INSTRUCTIONS}
+Respond with a single JSON object with exactly these keys:
+- "subject": string
+- "preview": string, at most 140 characters
+- "body": string, the full email including greeting and sign-off
+- "cadenceTip": string, one sentence of follow-up timing advice
+Do not include any other text.`;
+
+const SEQUENCE_INSTRUCTIONS = `You draft multi-touch outbound email sequences.
+${VOICE_INSTRUCTIONS}
+You receive the brief plus the tone and send day of every step.
+Respond with a single JSON object: { "steps": array of { "subject": string, "preview": string, "body": string } }
+with exactly one entry per step, in order. Each follow-up must use its own tone, have a distinct
+subject, and refer back to the earlier emails without repeating them.
+Do not include any other text.`;
+
+const REVISE_INSTRUCTIONS = `You revise email drafts. You receive the draft's subject and body and one operation:
+- "shorten": cut it to the essentials, keeping every ask, date and name
+- "expand": add helpful context and a clear offer of next steps, without inventing facts
+- "formal": raise the register; no contractions, slang, or exclamation marks
+- "tone": rewrite in the given "tone" from the sender's template library, including its greeting and sign-off,
+  with {{sender}} standing for "sender" when given
+- "remove-bullets": turn bullet and numbered lists into flowing prose
+- "add-ps": add "text" as a P.S. after the sign-off, replacing any existing P.S.
+- "rewrite": rewrite only body[range.start:range.end], following "text" as guidance when given, and keep
+  everything outside that range exactly as it is
+Keep the draft's language. Respond with a single JSON object: { "subject": string, "body": string }.
+Do not include any other text.`;
+
+const SUMMARIZE_INSTRUCTIONS = `Summarize the email in the summary length you are given. Lead with what the
+recipient has to do, by when, and who is involved; skip greetings, pleasantries and sign-offs.
+When earlier thread messages are given, say how this email moves the thread on.
+Respond with a single JSON object: { "summary": string }.`;
+
+const SUMMARY_LENGTHS: Record<SummaryLength, string> = {
+  "one-line": "one sentence",
+  short: "two or three sentences",
+  detailed: "up to six bullet points, one per line, each starting with \"- \"",
+};
+
+export function createLlmEngine(config: LlmEngineConfig): AnalysisEngine {
+  return {
+    name: `llm:${config.model}`,
+    async analyze({
+      content,
+      threadHistory,
+      persona,
+      sender,
+      sentAt,
+      timeZone,
+      replyLanguage,
+      summaryLength = "short",
+      contact,
+      invite,
+      availability,
+      onProgress,
+    }) {
+      const language = detectLanguage(content);
+      const lexicon = LEXICONS[language];
+      const sentDate = sentAt ? new Date(sentAt) : new Date();
+      const replyIn = replyLanguage ?? contact?.language ?? language;
+      // Entities, questions, and free times come from local code so offsets match the email and slots the calendar.
+      const entities = extractEntities(content, {
+        language,
+        lexicon,
+        persona,
+        sentDate,
+        timeZone: timeZone ?? "UTC",
+      });
+      const questions = extractQuestions(content, lexicon);
+      const replyNeeded = requiresReply(content, lexicon, questions);
+      const meeting = detectMeeting(content, { lexicon, invite, availability, sentDate, timeZone: timeZone ?? "UTC" });
+      const result = await complete(config, [
+        { role: "system", content: ANALYZE_INSTRUCTIONS },
+        {
+          role: "user",
+          content: [
+            persona ? `Sender: ${persona}` : "",
+            sender ? `Sign the reply as: ${sender}` : "",
+            contact ? `From the contacts directory:\n${describeContact(contact)}` : "",
+            `Sent: ${sentAt ?? new Date().toISOString()} (time zone ${timeZone ?? "UTC"})`,
+            `Reply language: ${LANGUAGE_NAMES[replyIn]}`,
+            `Summary length: ${SUMMARY_LENGTHS[summaryLength]}`,
+            threadHistory ? `Earlier in the thread:\n${threadHistory}` : "",
+            questions.length
+              ? `Questions to answer:\n${questions.map((question) => `- ${question.text} (${question.kind})`).join("\n")}`
+              : "",
+            meeting ? `Meeting:\n${describeMeeting(meeting, replyIn, timeZone ?? "UTC")}` : "",
+            `Email:\n${content}`,
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+        },
+      ]);
+      if (!isAnalyzeResult(result)) {
+        throw new Error("Model response does not match the analysis schema.");
+      }
+      // The model answers in one piece, so every stage completes at once.
+      onProgress?.({ stage: "summary", summary: result.summary });
+      onProgress?.({ stage: "sentiment", sentiment: result.sentiment });
+      onProgress?.({
+        stage: "tasks",
+        tasks: result.tasks.map(({ description, due, dueDate, owner }) => ({ description, due, dueDate, owner })),
+        priority: result.priority,
+      });
+      onProgress?.({ stage: "questions", questions, requiresReply: replyNeeded });
+      onProgress?.({ stage: "reply", recommendedReply: result.recommendedReply });
+      return {
+        ...withEvidence(result, content),
+        language,
+        entities,
+        requiresReply: replyNeeded,
+        questions,
+        meeting,
+        engine: `llm:${config.model}`,
+      };
+    },
+    async compose(input) {
+      const result = await complete(config, [
+        { role: "system", content: COMPOSE_INSTRUCTIONS },
+        { role: "user", content: JSON.stringify(input) },
+      ]);
+      if (!isComposeResult(result)) {
+        throw new Error("Model response does not match the compose schema.");
+      }
+      return { ...result, engine: `llm:${config.model}` };
+    },
+    async sequence(input) {
+      const { followUpTones, dayOffsets, ...brief } = input;
+      const plan = [
+        { day: 0, tone: input.tone },
+        ...followUpTones.map((tone, index) => ({ day: dayOffsets[index], tone })),
+      ];
+      const result = await complete(config, [
+        { role: "system", content: SEQUENCE_INSTRUCTIONS },
+        { role: "user", content: JSON.stringify({ brief, steps: plan }) },
+      ]);
+      if (!isSequenceResult(result, plan.length)) {
+        throw new Error("Model response does not match the sequence schema.");
+      }
+      return {
+        steps: result.steps.map((step, index) => ({
+          ...step,
+          dayOffset: plan[index].day,
+          tone: plan[index].tone.id,
+        })),
+        engine: `llm:${config.model}`,
+      };
+    },
+    async revise({ subject, body, operation, tone, text, range, sender }) {
+      const result = await complete(config, [
+        { role: "system", content: REVISE_INSTRUCTIONS },
+        {
+          role: "user",
+          content: JSON.stringify({
+            subject,
+            body,
+            operation,
+            tone,
+            text,
+            range,
+            sender,
+            // The selection itself spares the model from counting characters.
+            selection: range ? body.slice(range.start, range.end) : undefined,
+          }),
+        },
+      ]);
+      if (!isRecord(result) || typeof result.subject !== "string" || typeof result.body !== "string") {
+        throw new Error("Model response does not match the revise schema.");
+      }
+      return { subject: result.subject, body: result.body, engine: `llm:${config.model}` };
+    },
+    async summarize(content, threadHistory, length = "short") {
+      const result = await complete(config, [
+        { role: "system", content: SUMMARIZE_INSTRUCTIONS },
+        {
+          role: "user",
+          content: [
+            `Summary length: ${SUMMARY_LENGTHS[length]}`,
+            threadHistory ? `Earlier in the thread:\n${threadHistory}` : "",
+            `Email:\n${content}`,
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+        },
+      ]);
+      if (!isRecord(result) || typeof result.summary !== "string") {
+        throw new Error("Model response does not contain a summary.");
+      }
+      return result.summary;
+    },
+  };
+}
+
+// Only what the model should weigh; the id means nothing to it.
+function describeContact({ name, email, role, company, tone, language, notes }: Contact): string {
+  return [
+    `Name: ${name}${email ? ` <${email}>` : ""}`,
+    role || company ? `Works as: ${[role, company].filter(Boolean).join(" at ")}` : "",
+    tone ? `Preferred tone for replies: ${tone}` : "",
+    language ? `Preferred language: ${LANGUAGE_NAMES[language]}` : "",
+    notes ? `Notes: ${notes}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function describeMeeting(meeting: MeetingRequest, language: Language, timeZone: string): string {
+  const { invite } = meeting;
+  const times = meeting.proposedSlots.map((slot) => `- ${formatSlot(slot, language, timeZone)}`).join("\n");
+  const answer = {
+    accept: "The invited time is free: accept the invite.",
+    decline: "The invited day is taken: decline the invite.",
+    counter: `The invited time is taken: say so and offer these times instead:\n${times}`,
+  };
+  return [
+    invite
+      ? `Invite: ${invite.summary ?? "(no title)"}, ${formatSlot(invite, language, timeZone)}` +
+        `${invite.location ? `, at ${invite.location}` : ""}`
+      : "",
+    meeting.suggestedResponse
+      ? answer[meeting.suggestedResponse]
+      : times
+      ? `Offer these free times:\n${times}`
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+async function complete(config: LlmEngineConfig, messages: ChatMessage[]): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        temperature: 0.2,
+        response_format: { type: "json_object" },
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chat completion failed with status ${response.status}.`);
+    }
+
+    const payload = (await response.json()) as {
+      choices?: { message?: { content?: string } }[];
+    };
+    const content = payload.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error("Chat completion returned no content.");
+    }
+
+    // Some models wrap JSON in a fenced code block despite instructions.
+    return JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === "string";
+}
+
+function withEvidence(
+  { tasks, explanation, ...result }: ModelAnalysis,
+  content: string,
+): Omit<AnalyzePayload, "language" | "entities" | "requiresReply" | "questions" | "meeting" | "engine"> {
+  const { sentiment, priority, tags } = explanation;
+  const sign = Math.sign(sentiment.score);
+  return {
+    ...result,
+    tasks: tasks.map(({ quote, ...task }) => ({
+      ...task,
+      evidence: quote ? locateQuotes(content, [quote], "task", 1) : undefined,
+    })),
+    explanation: {
+      sentiment: {
+        score: sentiment.score,
+        confidence: sentiment.confidence,
+        evidence: locateQuotes(content, sentiment.quotes, result.sentiment, sign),
+        emotions: sentiment.emotions,
+      },
+      priority: {
+        score: priority.score,
+        confidence: priority.confidence,
+        evidence: locateQuotes(content, priority.quotes, "priority", priority.score),
+      },
+      tags: tags.map(({ tag, reason, quotes }) => ({
+        tag,
+        reason,
+        evidence: locateQuotes(content, quotes, "tag", 1),
+      })),
+    },
+  };
+}
+
+function isQuotedExplanation(value: unknown): value is QuotedExplanation {
+  return (
+    isRecord(value) &&
+    typeof value.score === "number" &&
+    typeof value.confidence === "number" &&
+    isStringArray(value.quotes)
+  );
+}
+
+function isQuotedSentiment(value: unknown): value is QuotedSentiment {
+  const emotions = isRecord(value) ? value.emotions : undefined;
+  return isQuotedExplanation(value) && isRecord(emotions) && EMOTIONS.every((emotion) => typeof emotions[emotion] === "number");
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+function isAnalyzeResult(value: unknown): value is ModelAnalysis {
+  if (!isRecord(value)) return false;
+  const reply = value.recommendedReply;
+  const explanation = value.explanation;
+  return (
+    typeof value.summary === "string" &&
+    ["positive", "neutral", "negative"].includes(value.sentiment as string) &&
+    ["low", "medium", "high"].includes(value.priority as string) &&
+    Array.isArray(value.tags) &&
+    value.tags.every((tag) => typeof tag === "string") &&
+    typeof value.subjectSuggestion === "string" &&
+    Array.isArray(value.tasks) &&
+    value.tasks.every(
+      (task) =>
+        isRecord(task) &&
+        typeof task.description === "string" &&
+        isOptionalString(task.due) &&
+        isOptionalString(task.dueDate) &&
+        isOptionalString(task.owner) &&
+        isOptionalString(task.quote),
+    ) &&
+    typeof value.followUpRecommendation === "string" &&
+    isRecord(reply) &&
+    typeof reply.subject === "string" &&
+    typeof reply.body === "string" &&
+    isRecord(explanation) &&
+    isQuotedSentiment(explanation.sentiment) &&
+    isQuotedExplanation(explanation.priority) &&
+    Array.isArray(explanation.tags) &&
+    explanation.tags.every(
+      (tag) =>
+        isRecord(tag) &&
+        typeof tag.tag === "string" &&
+        typeof tag.reason === "string" &&
+        isStringArray(tag.quotes),
+    )
+  );
+}
+
+function isComposeResult(value: unknown): value is Omit<ComposePayload, "engine"> {
+  return (
+    isRecord(value) &&
+    typeof value.subject === "string" &&
+    typeof value.preview === "string" &&
+    typeof value.body === "string" &&
+    typeof value.cadenceTip === "string"
+  );
+}
+
+function isSequenceResult(
+  value: unknown,
+  length: number,
+): value is { steps: Pick<SequenceStep, "subject" | "preview" | "body">[] } {
+  return (
+    isRecord(value) &&
+    Array.isArray(value.steps) &&
+    value.steps.length === length &&
+    value.steps.every(
+      (step) =>
+        isRecord(step) &&
+        typeof step.subject === "string" &&
+        typeof step.preview === "string" &&
+        typeof step.body === "string",
+    )
+  );
+}
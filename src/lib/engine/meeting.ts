@@ -0,0 +1,127 @@
+import { CalendarAvailability, CalendarInvite, checkSlot, findFreeSlots, TimeSlot } from "@/lib/calendar";
+import { addDays, atTime, calendarDayIn, dayOfWeek, findDates } from "@/lib/dates";
+import { findPattern } from "@/lib/evidence";
+import type { Language } from "@/lib/language";
+import type { Lexicon } from "./lexicons";
+import type { MeetingRequest } from "./types";
+
+const DEFAULT_MINUTES = 30;
+
+const SEARCH_DAYS = 14;
+
+const PROPOSALS = 3;
+
+const LOCALES: Record<Language, string> = { en: "en-US", de: "de-DE", es: "es-ES", fr: "fr-FR" };
+
+// "30 minutes", "a 45-min call", "1 Stunde", "une heure" stay in the number-and-unit form across languages.
+const DURATION =
+  /\b(\d{1,3}|an?|one|half an?)[\s-]*(min(?:ute)?s?|minuten|minutos|hours?|hrs?|stunden?|horas?|heures?)\b/i;
+
+/**
+ * Spots a request to meet, from its wording or an attached invite, and with an
+ * availability calendar works out the answer: accept an invite that fits,
+ * otherwise offer free times of the same length. Times asked about in the
+ * email ("next week", "Thursday") narrow the search when they resolve.
+ */
+export function detectMeeting(
+  content: string,
+  {
+    lexicon,
+    invite,
+    availability,
+    sentDate,
+    timeZone,
+  }: {
+    lexicon: Lexicon;
+    invite?: CalendarInvite;
+    availability?: CalendarAvailability;
+    sentDate: Date;
+    timeZone: string;
+  },
+): MeetingRequest | undefined {
+  const evidence = findPattern(content, lexicon.meetingRequest, "meeting", 1);
+  if (!evidence.length && !invite) return undefined;
+
+  const durationMinutes =
+    invite && !invite.allDay
+      ? Math.round((Date.parse(invite.end) - Date.parse(invite.start)) / 60_000)
+      : requestedMinutes(content) ?? DEFAULT_MINUTES;
+  const meeting: MeetingRequest = { evidence, invite, durationMinutes, proposedSlots: [] };
+  const now = new Date(Math.max(Date.now(), sentDate.getTime()));
+  // A cancellation or an invite that already ended needs no answer in time.
+  if (!availability || (invite && (invite.method === "CANCEL" || Date.parse(invite.end) <= now.getTime()))) {
+    return meeting;
+  }
+
+  const search = (window: { from: Date; until: Date }) =>
+    findFreeSlots(availability, { ...window, minutes: durationMinutes, count: PROPOSALS });
+  const defaultWindow = { from: now, until: new Date(now.getTime() + SEARCH_DAYS * 86_400_000) };
+
+  if (invite) {
+    const fit = checkSlot(availability, invite);
+    // All-day events fall outside working hours by nature; only clashes count.
+    const inviteFit = invite.allDay && fit === "outside-hours" ? "free" : fit;
+    if (inviteFit === "free") return { ...meeting, inviteFit, suggestedResponse: "accept" };
+    if (invite.allDay) return { ...meeting, inviteFit, suggestedResponse: "decline" };
+    return { ...meeting, inviteFit, suggestedResponse: "counter", proposedSlots: search(defaultWindow) };
+  }
+
+  const window = requestedWindow(content, sentDate, timeZone, now);
+  const proposed = window ? search(window) : [];
+  return { ...meeting, proposedSlots: proposed.length ? proposed : search(defaultWindow) };
+}
+
+/** "Tuesday, October 20, 10:00 – 10:30 AM GMT+2", in the language of the reply. */
+export function formatSlot(slot: TimeSlot & { allDay?: boolean }, language: Language, timeZone: string): string {
+  const locale = LOCALES[language];
+  const start = new Date(slot.start);
+  const day = new Intl.DateTimeFormat(locale, { timeZone, weekday: "long", month: "long", day: "numeric" }).format(
+    start,
+  );
+  if (slot.allDay) return day;
+  const range = new Intl.DateTimeFormat(locale, { timeZone, hour: "numeric", minute: "2-digit" }).formatRange(
+    start,
+    new Date(slot.end),
+  );
+  const zone = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: "short" })
+    .formatToParts(start)
+    .find((part) => part.type === "timeZoneName")?.value;
+  return `${day}, ${range}${zone ? ` ${zone}` : ""}`;
+}
+
+function requestedMinutes(content: string): number | undefined {
+  const match = content.match(DURATION);
+  if (!match) return undefined;
+  const amount = /^half/i.test(match[1]) ? 0.5 : /^(?:an?|one)$/i.test(match[1]) ? 1 : Number(match[1]);
+  const minutes = /^(?:min|minuten|minutos)/i.test(match[2]) ? amount : amount * 60;
+  // Anything outside a working day is more likely a deadline ("in 48 hours") than a meeting length.
+  return minutes >= 10 && minutes <= 8 * 60 ? Math.round(minutes) : undefined;
+}
+
+/** The stretch of time the email asks about, such as the whole of "next week" or the day of "Thursday". */
+function requestedWindow(
+  content: string,
+  sentDate: Date,
+  timeZone: string,
+  now: Date,
+): { from: Date; until: Date } | undefined {
+  const [date] = findDates(content, sentDate, timeZone);
+  if (!date) return undefined;
+  const day = calendarDayIn(new Date(date.iso), timeZone);
+  let from: string;
+  let until: string;
+  if (/\bweek\b/i.test(date.text)) {
+    // "Next week" resolves to that week's Friday; offer the working week around it.
+    const monday = addDays(day, -((dayOfWeek(day) + 6) % 7));
+    from = atTime(monday, 0, 0, timeZone);
+    until = atTime(addDays(monday, 7), 0, 0, timeZone);
+  } else if (/^(?:end of|in|within)\b/i.test(date.text)) {
+    from = now.toISOString();
+    until = date.iso;
+  } else {
+    from = atTime(day, 0, 0, timeZone);
+    until = atTime(addDays(day, 1), 0, 0, timeZone);
+  }
+  const window = { from: new Date(Math.max(Date.parse(from), now.getTime())), until: new Date(until) };
+  return window.from < window.until ? window : undefined;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { LEXICONS } from "@/lib/engine/lexicons";
+import { extractQuestions, requiresReply } from "@/lib/engine/questions";
+
+const texts = (content: string, language: keyof typeof LEXICONS = "en") =>
+  extractQuestions(content, LEXICONS[language]).map((question) => question.text);
+
+describe("extractQuestions", () => {
+  it("locates each question in the original text", () => {
+    const content = "I spoke to Dr. Lee about it. Can we book the room for Thursday at 3pm?";
+    const [question] = extractQuestions(content, LEXICONS.en);
+    expect(question).toEqual({ text: "Can we book the room for Thursday at 3pm?", kind: "scheduling", start: 29, end: 70 });
+    expect(content.slice(question.start, question.end)).toBe(question.text);
+  });
+
+  it.each([
+    ["a title", "I spoke to Dr. Lee about it. Can we book the room?", ["Can we book the room?"]],
+    ["e.g. in lowercase", "Bring snacks, e.g. fruit or nuts? Also, what about drinks?", [
+      "Bring snacks, e.g. fruit or nuts?",
+      "Also, what about drinks?",
+    ]],
+    ["a query string", "See https://example.com/page?id=4 for details. Does that work for you?", [
+      "Does that work for you?",
+    ]],
+  ])("keeps the period of %s inside its sentence", (_, content, expected) => {
+    expect(texts(content)).toEqual(expected);
+  });
+
+  it("lets an abbreviation end the sentence when the next one starts in uppercase", () => {
+    expect(texts("We need approx. 20 chairs. E.g. Could you order them?")).toEqual(["Could you order them?"]);
+  });
+
+  it("reads a spaced German abbreviation as part of the sentence", () => {
+    expect(texts("Können Sie mir die Zahlen z. B. bis Freitag schicken? Wann passt es Ihnen?", "de")).toEqual([
+      "Können Sie mir die Zahlen z. B. bis Freitag schicken?",
+      "Wann passt es Ihnen?",
+    ]);
+  });
+
+  it("skips quoted lines from earlier messages", () => {
+    const content = "Thanks for the update.\n\n> Can you send the old numbers?\n> What time works?\nWhat is the total?";
+    expect(extractQuestions(content, LEXICONS.en)).toEqual([
+      { text: "What is the total?", kind: "information", start: 75, end: 93 },
+    ]);
+  });
+
+  it("drops greetings and bullets, and lists a question asked twice once", () => {
+    const content = "Hi Sam, can you send the deck?\n- Could you also share the budget?\n- can you send the deck??";
+    expect(texts(content)).toEqual(["can you send the deck?", "Could you also share the budget?"]);
+  });
+
+  it("skips small talk", () => {
+    expect(texts("How are you? What's the status of the invoice?")).toEqual(["What's the status of the invoice?"]);
+  });
+
+  it("sorts questions by what would answer them", () => {
+    const content = "Is the contract signed? Thoughts? Could we move the call to Friday? Could you send the deck?";
+    expect(extractQuestions(content, LEXICONS.en).map(({ text, kind }) => [text, kind])).toEqual([
+      ["Is the contract signed?", "yes-no"],
+      ["Thoughts?", "information"],
+      ["Could we move the call to Friday?", "scheduling"],
+      ["Could you send the deck?", "request"],
+    ]);
+    expect(extractQuestions("¿Puedes enviar el informe? ¿Cuándo es la reunión?", LEXICONS.es).map((q) => q.kind)).toEqual([
+      "request",
+      "scheduling",
+    ]);
+  });
+});
+
+describe("requiresReply", () => {
+  it.each([
+    ["FYI, the report is done.", false],
+    ["I'm still waiting on the numbers.", true],
+    ["Please send the deck.", true],
+  ])("%s → %s", (content, expected) => {
+    expect(requiresReply(content, LEXICONS.en, [])).toBe(expected);
+  });
+
+  it("is due whenever a question was asked", () => {
+    const content = "Is the contract signed?";
+    expect(requiresReply(content, LEXICONS.en, extractQuestions(content, LEXICONS.en))).toBe(true);
+  });
+});
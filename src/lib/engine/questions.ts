@@ -0,0 +1,56 @@
+import type { Lexicon } from "./lexicons";
+import type { Question, QuestionKind } from "./types";
+
+const BULLET = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// A sentence runs to ".", "!" or "?" followed by a space. A "?" followed by more text ("page?id=4") doesn't end it,
+// nor does the period of a title ("Dr. Lee") or of "e.g." and the like when the sentence carries on in lowercase.
+// The first period of a spaced "z. B." or "p. ej." never ends one.
+const SENTENCE =
+  /(?:[^.!?\n]|[.!?](?=[^\s.!?])|(?<=(?<![\p{L}])[zp])\.(?= (?:B|ej|ex)\.)|(?<=(?<![\p{L}])(?:Mr|Mrs|Ms|Dr|Prof|St|Sr|Sra|Hr|Fr|Mme|Nr))\.|(?<=(?<![\p{L}])(?:[Ee]\.[Gg]|[Ii]\.[Ee]|etc|vs|approx|incl|esp|z\. ?B|bzw|ca|usw|p\. ?ej|p\. ?ex|env|cf))\.(?=\s+[\p{Ll}\p{N}]))+[.!?]*/gu;
+
+/**
+ * Finds every question the sender asked, one per sentence ending in "?", and
+ * sorts each into a kind so the reply can answer it in kind. Quoted lines from
+ * earlier messages and small talk are skipped, and a question asked twice is
+ * listed once.
+ */
+export function extractQuestions(content: string, lexicon: Lexicon): Question[] {
+  const questions: Question[] = [];
+  let offset = 0;
+  for (const line of content.split("\n")) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    if (/^\s*>/.test(line)) continue;
+
+    for (const match of line.matchAll(SENTENCE)) {
+      if (!match[0].trimEnd().endsWith("?")) continue;
+      // "Hi Sam, can we…?" and "- Can we…?" are asked without the greeting or the bullet.
+      const lead = match[0].match(lexicon.greeting) ?? match[0].match(BULLET);
+      const raw = lead ? match[0].slice(lead[0].length) : match[0];
+      const text = raw.trim().replace(/\?+$/, "?");
+      if (!/[\p{L}\p{N}]/u.test(text) || lexicon.smallTalk.test(text)) continue;
+      if (questions.some((question) => question.text.toLowerCase() === text.toLowerCase())) continue;
+
+      const start = lineStart + match.index + match[0].length - raw.trimStart().length;
+      questions.push({ text, kind: classifyQuestion(text, lexicon), start, end: start + raw.trim().length });
+    }
+  }
+  return questions;
+}
+
+/** A reply is due when the sender asked something, asked for something, or says they are waiting. */
+export function requiresReply(content: string, lexicon: Lexicon, questions: Question[]): boolean {
+  return questions.length > 0 || lexicon.taskTrigger.test(content) || lexicon.waiting.test(content);
+}
+
+// Scheduling wins over form: "Can we move the call?" wants a time more than a yes, and "Could you send…?"
+// wants the thing done more than a yes.
+function classifyQuestion(text: string, lexicon: Lexicon): QuestionKind {
+  if (lexicon.scheduling.test(text)) return "scheduling";
+  if (lexicon.requestQuestion.test(text)) return "request";
+  if (lexicon.openQuestion.test(text)) return "information";
+  if (lexicon.yesNoQuestion.test(text)) return "yes-no";
+  // Fragments such as "Thoughts?" or "The budget?" ask for an answer, not a yes.
+  return "information";
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { reviseDraft } from "@/lib/engine/revise";
+import type { ReviseInput } from "@/lib/engine/types";
+import { DEFAULT_TONES } from "@/lib/tones/templates";
+
+const BODY = `Hi Priya,
+
+I hope you're well. I just wanted to follow up on the budget. In order to close the quarter we really need the numbers prior to Friday.
+
+Thanks,
+Sam`;
+
+const revise = (operation: ReviseInput["operation"], extra: Partial<ReviseInput> = {}) =>
+  reviseDraft({ subject: "Budget", body: BODY, operation, ...extra });
+
+describe("reviseDraft", () => {
+  it("shortens by dropping filler, hedges and wordy phrases but keeps the greeting and sign-off", () => {
+    expect(revise("shorten").body).toBe(
+      "Hi Priya,\n\nI wanted to follow up on the budget. To close the quarter we need the numbers before Friday.\n\nThanks,\nSam",
+    );
+  });
+
+  it("formalizes contractions, the greeting and the sign-off", () => {
+    expect(revise("formal").body).toBe(
+      "Dear Priya,\n\nI hope you are well. I just wanted to follow up on the budget. " +
+        "In order to close the quarter we really need the numbers prior to Friday.\n\nKind regards,\nSam",
+    );
+  });
+
+  it("expands with context after the greeting and an offer before the sign-off, once", () => {
+    const expanded = revise("expand").body;
+    expect(expanded.split("\n\n")).toEqual([
+      "Hi Priya,",
+      "I wanted to lay out the details so we're all working from the same picture.",
+      expect.stringMatching(/^I hope you're well\./),
+      expect.stringMatching(/^If it would help, I'm happy to walk through any of this on a quick call\./),
+      "Thanks,\nSam",
+    ]);
+    expect(reviseDraft({ subject: "Budget", body: expanded, operation: "expand" }).body).toBe(expanded);
+  });
+
+  it("replaces an earlier postscript instead of stacking another", () => {
+    expect(revise("add-ps", { text: "The deck is attached." }).body).toMatch(/\nSam\n\nP\.S\. The deck is attached\.$/);
+    expect(reviseDraft({ subject: "S", body: "Intro\n\nP.S. old\n", operation: "add-ps", text: "new" }).body).toBe(
+      "Intro\n\nP.S. new",
+    );
+  });
+
+  it("runs bullets into the line that introduces them", () => {
+    const body = "Here's what I'm tracking:\n- send the deck\n- book the room\nThanks";
+    expect(reviseDraft({ subject: "S", body, operation: "remove-bullets" }).body).toBe(
+      "Here's what I'm tracking: Send the deck. Book the room.\nThanks",
+    );
+  });
+
+  it("swaps every template part of the old tone for the new tone's", () => {
+    const [professional, friendly] = DEFAULT_TONES;
+    const body = `Hello Priya,\n\n${professional.opening}\n\nThe budget is ready.\n\n${professional.closing}\n\nBest regards,\nSam`;
+    expect(
+      reviseDraft({ subject: professional.subject, body, operation: "tone", tone: friendly, tones: DEFAULT_TONES, sender: "Sam" }),
+    ).toEqual({
+      subject: friendly.subject,
+      body: `Hi Priya,\n\n${friendly.opening}\n\nThe budget is ready.\n\n${friendly.closing}\n\nAll the best,\nSam`,
+    });
+  });
+
+  describe("rewrite", () => {
+    const start = BODY.indexOf("I just");
+    const end = BODY.indexOf("\n\nThanks");
+
+    it("tightens only the selected range", () => {
+      expect(revise("rewrite", { range: { start, end } })).toEqual({
+        subject: "Budget",
+        body: "Hi Priya,\n\nI hope you're well. I wanted to follow up on the budget. To close the quarter we need the numbers before Friday.\n\nThanks,\nSam",
+      });
+    });
+
+    it("splits a long sentence at the clause boundary nearest its middle", () => {
+      const body =
+        "We reviewed the proposal in detail with the whole team over the past two weeks, and we agreed that the second option fits the budget and the timeline better than the first.";
+      expect(reviseDraft({ subject: "S", body, operation: "rewrite" }).body).toBe(
+        "We reviewed the proposal in detail with the whole team over the past two weeks. We agreed that the second option fits the budget and the timeline better than the first.",
+      );
+    });
+
+    it("says when it could not follow the guidance or found nothing to change", () => {
+      expect(revise("rewrite", { range: { start, end }, text: "make it funnier" }).notice).toBe(
+        'The built-in engine can\'t follow "make it funnier", so it only tightened the wording.',
+      );
+      expect(revise("rewrite", { range: { start: 0, end: 9 }, text: "make it funnier" }).notice).toBe(
+        'The built-in engine can\'t follow "make it funnier", so the selection is unchanged.',
+      );
+      expect(revise("rewrite", { range: { start: 0, end: 9 } }).notice).toBe("Nothing in the selection needed rewriting.");
+    });
+  });
+});
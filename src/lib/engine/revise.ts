@@ -0,0 +1,359 @@
+import { renderTemplate } from "@/lib/tones/templates";
+import type { ReviseInput, ToneTemplate } from "./types";
+
+type Draft = { subject: string; body: string };
+
+// Guidance the rule-based rewrite can follow; tightening and splitting long sentences always happen.
+const FORMAL_GUIDANCE = /\b(?:formal|polite|professional)/i;
+
+const SHORTER_GUIDANCE = /\b(?:short|concise|brief|tight)/i;
+
+const PLAIN_GUIDANCE = /\b(?:clear|clarify|simpl|plain|readab|split|wordy|less wordy)/i;
+
+// Phrases that say in three words what one word says.
+const WORDY: [RegExp, string][] = [
+  [/\bin order to\b/gi, "to"],
+  [/\bdue to the fact that\b/gi, "because"],
+  [/\bat this point in time\b/gi, "now"],
+  [/\bin the event that\b/gi, "if"],
+  [/\bfor the purpose of\b/gi, "for"],
+  [/\bwith regard to\b/gi, "about"],
+  [/\bin regard to\b/gi, "about"],
+  [/\ba number of\b/gi, "several"],
+  [/\bprior to\b/gi, "before"],
+  [/\bin the near future\b/gi, "soon"],
+  [/\bat your earliest convenience\b/gi, "soon"],
+  [/\bmake a decision\b/gi, "decide"],
+  [/\bhappily assist\b/gi, "help"],
+];
+
+const HEDGES = /\b(?:just|really|actually|basically|simply|quite|very|definitely)\s+(?=\w)/gi;
+
+// Sentences that carry courtesy rather than content; shortening drops them first.
+const FILLER =
+  /^(?:I hope\b|I wanted to (?:reach out|follow up|check in|keep the momentum)|Just wanted to\b|Let me know if you (?:have|need) any(?:thing)?\b|Please (?:don't|do not) hesitate\b|Feel free to reach out\b|Looking forward to hearing\b)/i;
+
+const CONTRACTIONS: Record<string, string> = {
+  "i'm": "I am",
+  "i've": "I have",
+  "i'll": "I will",
+  "i'd": "I would",
+  "we're": "we are",
+  "we'll": "we will",
+  "we've": "we have",
+  "we'd": "we would",
+  "you're": "you are",
+  "you'll": "you will",
+  "you've": "you have",
+  "you'd": "you would",
+  "they're": "they are",
+  "they'll": "they will",
+  "it's": "it is",
+  "that's": "that is",
+  "there's": "there is",
+  "here's": "here is",
+  "what's": "what is",
+  "let's": "let us",
+  "don't": "do not",
+  "doesn't": "does not",
+  "didn't": "did not",
+  "can't": "cannot",
+  "won't": "will not",
+  "isn't": "is not",
+  "aren't": "are not",
+  "wasn't": "was not",
+  "weren't": "were not",
+  "haven't": "have not",
+  "hasn't": "has not",
+  "wouldn't": "would not",
+  "shouldn't": "should not",
+  "couldn't": "could not",
+};
+
+const INFORMAL: [RegExp, string][] = [
+  [/\bthanks a (?:bunch|lot|ton)\b/gi, "thank you very much"],
+  [/\bthanks\b/gi, "thank you"],
+  [/\bASAP\b/g, "as soon as possible"],
+  [/\bFYI\b/g, "for your information"],
+  [/\bgonna\b/gi, "going to"],
+  [/\bwanna\b/gi, "want to"],
+  [/\byeah\b/gi, "yes"],
+  [/\ba bunch of\b/gi, "many"],
+  [/\bawesome\b/gi, "excellent"],
+  [/\bsuper\s+(?=\w)/gi, "very "],
+];
+
+const GREETING = /^(?:Hi|Hey|Hello|Dear|Good (?:morning|afternoon|evening))\b/;
+
+const SIGN_OFF_LINE =
+  /^(?:best|best regards|kind regards|warm regards|warmly|regards|thanks|thank you|many thanks|cheers|sincerely|all the best|talk soon)[,.!]?$/i;
+
+const BULLET = /^\s*(?:[-*•]|\d+[.)])\s+(.*)$/;
+
+const POSTSCRIPT = /\n+P\.?\s?S\.?[:\s][\s\S]*$/i;
+
+const EXPAND_CONTEXT = "I wanted to lay out the details so we're all working from the same picture.";
+
+const EXPAND_OFFER =
+  "If it would help, I'm happy to walk through any of this on a quick call. Just let me know what time works for you.";
+
+// Sentences longer than this are split at a clause boundary when rewriting.
+const LONG_SENTENCE_WORDS = 25;
+
+/**
+ * Rule-based revisions of a draft. Shortening trims wordy phrases, hedges,
+ * and courtesy-only sentences; formal expands contractions and swaps casual
+ * words, greeting, and sign-off; a tone switch replaces whatever parts of the
+ * draft came from a tone template with the new tone's. The greeting and
+ * sign-off block are left alone by everything but formal and tone.
+ */
+export function reviseDraft(input: ReviseInput): Draft & { notice?: string } {
+  const { subject, body } = input;
+  switch (input.operation) {
+    case "shorten":
+      return { subject, body: mapContent(body, shortenParagraph) };
+    case "expand":
+      return { subject, body: expand(body) };
+    case "formal":
+      return { subject, body: formalize(body) };
+    case "tone":
+      return input.tone ? switchTone({ subject, body }, input.tone, input.tones ?? [], input.sender) : { subject, body };
+    case "remove-bullets":
+      return { subject, body: removeBullets(body) };
+    case "add-ps":
+      return { subject, body: `${body.replace(POSTSCRIPT, "").trimEnd()}\n\nP.S. ${input.text?.trim() ?? ""}` };
+    case "rewrite": {
+      const { start, end } = input.range ?? { start: 0, end: body.length };
+      const revised = body.slice(0, start) + rewrite(body.slice(start, end), input.text) + body.slice(end);
+      return { subject, body: revised, notice: rewriteNotice(input.text?.trim(), revised !== body) };
+    }
+  }
+}
+
+/**
+ * Applies `revise` to every paragraph before the sign-off block. A paragraph
+ * that revises to nothing is removed.
+ */
+function mapContent(body: string, revise: (paragraph: string, others: number) => string): string {
+  const paragraphs = body.split(/\n{2,}/);
+  const signOffAt = paragraphs.findIndex((paragraph) => SIGN_OFF_LINE.test(paragraph.split("\n")[0].trim()));
+  const end = signOffAt === -1 ? paragraphs.length : signOffAt;
+  return paragraphs
+    .map((paragraph, index) => (index < end ? revise(paragraph, end - 1) : paragraph))
+    .filter((paragraph) => paragraph.trim())
+    .join("\n\n");
+}
+
+function shortenParagraph(paragraph: string, others: number): string {
+  if (paragraph.split("\n").some((line) => BULLET.test(line))) {
+    return paragraph.split("\n").map(tighten).join("\n");
+  }
+  const sentences = splitSentences(paragraph);
+  const kept = sentences.filter((sentence, index) => {
+    // "Hello Priya, I hope you're well." keeps its greeting; only the filler after it goes.
+    if (index === 0 && GREETING.test(sentence)) return true;
+    return !FILLER.test(sentence);
+  });
+  // Never empty the whole email; a lone courtesy paragraph may be all there is.
+  if (!kept.length && others === 0) return paragraph;
+  return kept
+    .map((sentence, index) => (index === 0 && GREETING.test(sentence) ? trimGreetingFiller(sentence) : sentence))
+    .map(tighten)
+    .join(" ");
+}
+
+// "Hello Priya, I wanted to follow up on your note." → "Hello Priya,"
+function trimGreetingFiller(sentence: string): string {
+  const comma = sentence.indexOf(",");
+  if (comma === -1) return sentence;
+  const rest = sentence.slice(comma + 1).trim();
+  return FILLER.test(rest) ? sentence.slice(0, comma + 1) : sentence;
+}
+
+function tighten(text: string): string {
+  let result = text.replace(HEDGES, "");
+  for (const [pattern, replacement] of WORDY) {
+    result = result.replace(pattern, (match) => matchCase(match, replacement));
+  }
+  return result.replace(/ {2,}/g, " ");
+}
+
+function expand(body: string): string {
+  const paragraphs = body.split(/\n{2,}/);
+  const signOffAt = paragraphs.findIndex((paragraph) => SIGN_OFF_LINE.test(paragraph.split("\n")[0].trim()));
+  const end = signOffAt === -1 ? paragraphs.length : signOffAt;
+  if (!body.includes(EXPAND_OFFER)) {
+    paragraphs.splice(Math.max(1, end), 0, EXPAND_OFFER);
+  }
+  if (!body.includes(EXPAND_CONTEXT)) {
+    // A greeting on its own line ("Hi Priya,") keeps its line; the context opens the body instead.
+    const lead = paragraphs[0]?.trim() ?? "";
+    if (GREETING.test(lead) && !lead.includes("\n") && lead.endsWith(",")) {
+      paragraphs.splice(1, 0, EXPAND_CONTEXT);
+    } else if (lead && !BULLET.test(lead) && !lead.endsWith(":")) {
+      paragraphs[0] = `${paragraphs[0].trimEnd()} ${EXPAND_CONTEXT}`;
+    } else {
+      paragraphs.unshift(EXPAND_CONTEXT);
+    }
+  }
+  return paragraphs.join("\n\n");
+}
+
+function formalize(body: string): string {
+  let result = body.replace(/\b[A-Za-z]+['’](?:m|ve|ll|d|re|s|t)\b/g, (word) => {
+    const expanded = CONTRACTIONS[word.toLowerCase().replace("’", "'")];
+    return expanded ? matchCase(word, expanded) : word;
+  });
+  for (const [pattern, replacement] of INFORMAL) {
+    result = result.replace(pattern, (match) => matchCase(match, replacement));
+  }
+  return result
+    .replace(GREETING, "Dear")
+    .replace(/!+(?=\s|$)/g, ".")
+    .split("\n")
+    .map((line) => (SIGN_OFF_LINE.test(line.trim()) ? "Kind regards," : line))
+    .join("\n");
+}
+
+/**
+ * Finds the template text in the draft (subject, opening, closing, greeting,
+ * and the first line of the sign-off) and swaps in the new tone's version.
+ * Template text with placeholders can't be matched reliably, so it is skipped.
+ */
+function switchTone(draft: Draft, target: ToneTemplate, library: ToneTemplate[], sender?: string): Draft {
+  const others = library.filter((template) => template.id !== target.id);
+  const fixed = (text: string) => (text.includes("{{") ? undefined : text);
+
+  let subject = draft.subject;
+  const targetSubject = fixed(target.subject);
+  if (targetSubject && others.some((template) => fixed(template.subject) === draft.subject.trim())) {
+    subject = targetSubject;
+  }
+
+  let body = draft.body.replace(GREETING, target.greeting);
+  for (const part of ["opening", "closing"] as const) {
+    const replacement = fixed(target[part]);
+    if (!replacement) continue;
+    for (const template of others) {
+      const original = fixed(template[part]);
+      const at = original ? body.toLowerCase().indexOf(original.toLowerCase()) : -1;
+      if (original && at !== -1) {
+        // Openings follow "Hello Priya," in lowercase; keep whichever case the draft used.
+        const lowered = body[at] !== body[at].toUpperCase();
+        const text = lowered ? replacement.charAt(0).toLowerCase() + replacement.slice(1) : replacement;
+        body = body.slice(0, at) + text + body.slice(at + original.length);
+        break;
+      }
+    }
+  }
+
+  const signOff = renderTemplate(target.signOff, { sender }).split("\n")[0].trim();
+  body = body
+    .split("\n")
+    .map((line) => (signOff && SIGN_OFF_LINE.test(line.trim()) ? signOff : line))
+    .join("\n");
+  return { subject, body };
+}
+
+function removeBullets(body: string): string {
+  const lines = body.split("\n");
+  const output: string[] = [];
+  let items: string[] = [];
+
+  const flush = () => {
+    if (!items.length) return;
+    const prose = items.map((item) => ensurePeriod(capitalize(item.trim()))).join(" ");
+    const previous = output[output.length - 1];
+    // "Here's what I'm tracking:" runs straight into the items.
+    if (previous?.trim().endsWith(":")) {
+      output[output.length - 1] = `${previous.trimEnd()} ${prose}`;
+    } else {
+      output.push(prose);
+    }
+    items = [];
+  };
+
+  for (const line of lines) {
+    const bullet = BULLET.exec(line);
+    if (bullet) {
+      items.push(bullet[1]);
+    } else {
+      flush();
+      output.push(line);
+    }
+  }
+  flush();
+  return output.join("\n");
+}
+
+/**
+ * Plain-language rewrite of a selection: wordy phrases and hedges go, and
+ * long sentences split at a clause boundary. Guidance that asks for a formal
+ * or shorter wording applies those revisions to the selection too.
+ */
+function rewrite(selection: string, guidance = ""): string {
+  const lead = selection.match(/^\s*/)?.[0] ?? "";
+  const trail = selection.match(/\s*$/)?.[0] ?? "";
+  let text = selection.trim();
+  if (!text) return selection;
+
+  if (FORMAL_GUIDANCE.test(guidance)) text = formalize(text);
+  if (SHORTER_GUIDANCE.test(guidance)) {
+    text = splitSentences(text)
+      .filter((sentence) => !FILLER.test(sentence))
+      .join(" ") || text;
+  }
+  text = text
+    .split("\n")
+    .map((line) => splitSentences(tighten(line)).map(splitLongSentence).join(" "))
+    .join("\n");
+  return lead + text + trail;
+}
+
+// Says so when the rewrite fell short of the guidance, rather than reporting a change that didn't happen.
+function rewriteNotice(guidance: string | undefined, changed: boolean): string | undefined {
+  const followed = !guidance || [FORMAL_GUIDANCE, SHORTER_GUIDANCE, PLAIN_GUIDANCE].some((kind) => kind.test(guidance));
+  if (!followed) {
+    return changed
+      ? `The built-in engine can't follow "${guidance}", so it only tightened the wording.`
+      : `The built-in engine can't follow "${guidance}", so the selection is unchanged.`;
+  }
+  return changed ? undefined : "Nothing in the selection needed rewriting.";
+}
+
+function splitLongSentence(sentence: string): string {
+  if (sentence.split(/\s+/).length <= LONG_SENTENCE_WORDS) return sentence;
+  const breaks = Array.from(sentence.matchAll(/(?:;|,\s+(and|but|so))\s+/g));
+  if (!breaks.length) return sentence;
+  // The clause boundary closest to the middle gives two even halves.
+  const middle = sentence.length / 2;
+  const split = breaks.reduce((best, match) =>
+    Math.abs((match.index ?? 0) - middle) < Math.abs((best.index ?? 0) - middle) ? match : best,
+  );
+  const at = split.index ?? 0;
+  const rest = sentence.slice(at + split[0].length);
+  // "and" only joined the clauses; "but" and "so" carry meaning and open the new sentence.
+  const second = split[1] === "but" || split[1] === "so" ? `${capitalize(split[1])} ${rest}` : capitalize(rest);
+  return `${ensurePeriod(sentence.slice(0, at).trimEnd())} ${second}`;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.?!])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+// Abbreviations ("ASAP", "FYI") expand in lowercase; other words keep their leading capital.
+function matchCase(original: string, replacement: string): string {
+  if (/^[A-Z]{2,}$/.test(original)) return replacement;
+  return /^[A-Z]/.test(original) ? capitalize(replacement) : replacement;
+}
+
+function ensurePeriod(text: string): string {
+  return /[.?!:]$/.test(text) ? text : `${text}.`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { LEXICONS } from "@/lib/engine/lexicons";
+import { scoreSentiment } from "@/lib/engine/sentiment";
+
+const score = (content: string, language: keyof typeof LEXICONS = "en") =>
+  scoreSentiment(content, LEXICONS[language]).explanation.score;
+
+describe("scoreSentiment", () => {
+  it("scores on a continuous scale from -1 to 1", () => {
+    const result = scoreSentiment("This is great.", LEXICONS.en);
+    expect(result.sentiment).toBe("positive");
+    expect(result.explanation.score).toBe(0.46);
+    expect(result.explanation.evidence).toEqual([
+      { text: "great", start: 8, end: 13, signal: "positive", weight: 2 },
+    ]);
+  });
+
+  it("flips and softens a negated word, quoting the negator with it", () => {
+    const result = scoreSentiment("This is not great.", LEXICONS.en);
+    expect(result.sentiment).toBe("negative");
+    expect(result.explanation.score).toBeGreaterThan(-score("This is great."));
+    expect(result.explanation.evidence.map((cue) => cue.text)).toEqual(["not great"]);
+  });
+
+  it("stops negation at a comma", () => {
+    const result = scoreSentiment("No problem, thanks!", LEXICONS.en);
+    expect(result.sentiment).toBe("positive");
+    expect(result.explanation.evidence.map((cue) => [cue.text, cue.signal])).toEqual([
+      ["No problem", "positive"],
+      ["thanks", "positive"],
+    ]);
+  });
+
+  it("amplifies intensified, shouted and exclaimed words", () => {
+    const plain = score("This is great.");
+    expect(score("This is very great.")).toBeGreaterThan(plain);
+    expect(score("This is GREAT!")).toBeGreaterThan(plain);
+  });
+
+  it("weighs the clause after 'but' over the one before it", () => {
+    const result = scoreSentiment("The demo was great but the invoice is wrong.", LEXICONS.en);
+    expect(result.sentiment).toBe("negative");
+    expect(result.explanation.evidence.map((cue) => cue.weight)).toEqual([1, -2.25]);
+  });
+
+  it("calls a message without cues neutral with low confidence", () => {
+    const result = scoreSentiment("Please find the report attached.", LEXICONS.en);
+    expect(result.sentiment).toBe("neutral");
+    expect(result.explanation).toMatchObject({ score: 0, confidence: 0.4, evidence: [] });
+  });
+
+  it("reports emotions alongside the score", () => {
+    expect(scoreSentiment("I'm so frustrated, this is still broken.", LEXICONS.en).explanation.emotions).toEqual({
+      frustration: 0.43,
+      gratitude: 0,
+      confusion: 0,
+    });
+    expect(scoreSentiment("I'm confused about the invoice?", LEXICONS.en).explanation.emotions.confusion).toBe(0.33);
+    expect(
+      scoreSentiment("Thank you so much, we really appreciate it!", LEXICONS.en).explanation.emotions.gratitude,
+    ).toBe(0.8);
+  });
+
+  it.each([
+    ["de", "Vielen Dank, das ist super!", "positive"],
+    ["de", "Das ist nicht gut.", "negative"],
+    ["fr", "Merci beaucoup, c'est parfait.", "positive"],
+  ] as const)("scores %s text with its own lexicon: %s", (language, content, sentiment) => {
+    expect(scoreSentiment(content, LEXICONS[language]).sentiment).toBe(sentiment);
+  });
+});
@@ -0,0 +1,176 @@
+import type { Lexicon, ValenceTable } from "./lexicons";
+import type { Emotion, Evidence, Sentiment, SentimentExplanation } from "./types";
+
+type Token = { text: string; word: string; start: number; end: number };
+
+// A negator reaches this many words ahead: "not at all happy" is still negated.
+const NEGATION_WINDOW = 3;
+
+// ...but never past a comma: in "no problem, thanks" the thanks stands.
+const CLAUSE_BREAK = /[,;:]/;
+
+// Negation flips a word but softens it; "not great" is milder than "bad" (the VADER constant).
+const NEGATION_FACTOR = -0.74;
+
+// Around "but", the clause that follows is what the writer means.
+const BEFORE_CONTRAST = 0.5;
+const AFTER_CONTRAST = 1.5;
+
+const SHOUTING_FACTOR = 1.3;
+
+const EXCLAMATION_BOOST = 0.3;
+
+// Maps an unbounded sum of valences onto -1..1; larger values flatten the curve.
+const NORMALIZATION = 15;
+
+// Scores inside this band around zero are neutral.
+const NEUTRAL_BAND = 0.05;
+
+/**
+ * Scores sentence by sentence: each lexicon word contributes its valence,
+ * scaled by a preceding intensifier, flipped by a negator up to three words
+ * back in the same clause, and reweighted around "but". Sentence sums add up
+ * to the message score.
+ */
+export function scoreSentiment(
+  content: string,
+  lexicon: Lexicon,
+): { sentiment: Sentiment; explanation: SentimentExplanation } {
+  const evidence: Evidence[] = [];
+  const emotionHits: Record<Emotion, number> = { frustration: 0, gratitude: 0, confusion: 0 };
+  let total = 0;
+
+  const sentences = splitSentences(content).map((sentence) => {
+    const tokens = tokenize(sentence.text, sentence.start);
+    const contrastAt = tokens.findIndex((token) => lexicon.contrast.includes(token.word));
+    let sum = 0;
+
+    tokens.forEach((token, index) => {
+      const previous = tokens[index - 1];
+      const next = tokens[index + 1];
+      // "very" and "super" only amplify the word after them when that word carries sentiment.
+      if (lexicon.intensifiers[token.word] && next && valenceOf(lexicon.sentiment, next.word) !== undefined) {
+        return;
+      }
+
+      const negator = tokens
+        .slice(Math.max(0, index - NEGATION_WINDOW), index)
+        .find(
+          (candidate) =>
+            matchesAny(lexicon.negators, candidate.word) &&
+            !CLAUSE_BREAK.test(content.slice(candidate.end, token.start)),
+        );
+      const intensifier = previous && lexicon.intensifiers[previous.word] ? previous : undefined;
+      const intensity = intensifier ? lexicon.intensifiers[intensifier.word] : 1;
+
+      for (const [emotion, stems] of Object.entries(lexicon.emotions) as [Emotion, string[]][]) {
+        if (!negator && matchesAny(stems, token.word)) {
+          emotionHits[emotion] += intensity;
+        }
+      }
+
+      const valence = valenceOf(lexicon.sentiment, token.word);
+      if (valence === undefined) return;
+
+      let value = valence * intensity;
+      if (isShouting(token.text)) value *= SHOUTING_FACTOR;
+      if (negator) value *= NEGATION_FACTOR;
+      if (contrastAt !== -1) value *= index < contrastAt ? BEFORE_CONTRAST : AFTER_CONTRAST;
+
+      const start = Math.min(token.start, intensifier?.start ?? token.start, negator?.start ?? token.start);
+      sum += value;
+      evidence.push({
+        text: content.slice(start, token.end),
+        start,
+        end: token.end,
+        signal: value > 0 ? "positive" : "negative",
+        weight: round(value),
+      });
+    });
+
+    const exclamations = Math.min(3, (sentence.text.match(/!/g) ?? []).length);
+    if (sum !== 0) sum += Math.sign(sum) * EXCLAMATION_BOOST * exclamations;
+    total += sum;
+    return { start: sentence.start, end: sentence.end, score: normalize(sum) };
+  });
+
+  const score = normalize(total);
+  const sentiment: Sentiment =
+    score >= NEUTRAL_BAND ? "positive" : score <= -NEUTRAL_BAND ? "negative" : "neutral";
+
+  return {
+    sentiment,
+    explanation: {
+      score,
+      // A neutral call backed by cancelling cues is firmer than one made for lack of any.
+      confidence:
+        sentiment === "neutral"
+          ? evidence.length
+            ? 0.6
+            : 0.4
+          : round(Math.min(1, 0.4 + 0.6 * Math.abs(score))),
+      evidence,
+      sentences,
+      emotions: {
+        frustration: emotionStrength(emotionHits.frustration),
+        gratitude: emotionStrength(emotionHits.gratitude),
+        confusion: emotionStrength(emotionHits.confusion),
+      },
+    },
+  };
+}
+
+function splitSentences(content: string): { text: string; start: number; end: number }[] {
+  return Array.from(content.matchAll(/[^.!?\n]+[.!?]*/g), (match) => {
+    const lead = match[0].length - match[0].trimStart().length;
+    const start = (match.index ?? 0) + lead;
+    return { text: match[0].trim(), start, end: start + match[0].trim().length };
+  }).filter((sentence) => sentence.text);
+}
+
+function tokenize(text: string, offset: number): Token[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu), (match) => ({
+    text: match[0],
+    word: match[0].toLowerCase().replace(/’/g, "'"),
+    start: offset + (match.index ?? 0),
+    end: offset + (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function valenceOf(table: ValenceTable, word: string): number | undefined {
+  if (Object.hasOwn(table, word)) return table[word];
+  let best: { length: number; value: number } | undefined;
+  for (const [entry, value] of Object.entries(table)) {
+    const stem = entry.slice(0, -1);
+    if (entry.endsWith("*") && word.startsWith(stem) && (!best || stem.length > best.length)) {
+      best = { length: stem.length, value };
+    }
+  }
+  return best?.value;
+}
+
+function matchesAny(patterns: string[], word: string): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith("*")
+      ? word.startsWith(pattern.slice(0, -1))
+      : pattern.startsWith("*")
+      ? word.endsWith(pattern.slice(1))
+      : word === pattern,
+  );
+}
+
+function isShouting(text: string): boolean {
+  return text.length > 1 && text === text.toUpperCase() && text !== text.toLowerCase();
+}
+
+function normalize(sum: number): number {
+  return round(sum / Math.sqrt(sum * sum + NORMALIZATION));
+}
+
+function emotionStrength(hits: number): number {
+  return round(Math.min(1, hits / 3));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
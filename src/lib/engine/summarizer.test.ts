@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { LEXICONS } from "@/lib/engine/lexicons";
+import { summarize } from "@/lib/engine/summarizer";
+
+const EMAIL = `Hi Sam,
+
+Thanks so much for your help last week.
+The quarterly budget review moved to the new finance system this month.
+Could you send the updated budget numbers to Priya by Friday?
+The finance system exports the budget report as a spreadsheet.
+I hope you have a lovely weekend.
+
+Best,
+Alex`;
+
+const ENGLISH = { language: "en", lexicon: LEXICONS.en } as const;
+
+describe("summarize", () => {
+  it("picks the ask with a date and a name for a one-line summary", () => {
+    expect(summarize(EMAIL, { ...ENGLISH, length: "one-line" })).toBe(
+      "Could you send the updated budget numbers to Priya by Friday?",
+    );
+  });
+
+  it("keeps the picked sentences in their original order and leaves out courtesy lines", () => {
+    expect(summarize(EMAIL, ENGLISH)).toBe(
+      "The quarterly budget review moved to the new finance system this month. " +
+        "Could you send the updated budget numbers to Priya by Friday? " +
+        "The finance system exports the budget report as a spreadsheet.",
+    );
+  });
+
+  it("quotes the most central earlier sentence as thread context", () => {
+    const threadHistory = [
+      "Thanks for the note.",
+      "The budget review needs the finance numbers before the board meeting.",
+      "Lunch was nice today with everyone.",
+    ].join("\n");
+    expect(summarize(EMAIL, { ...ENGLISH, threadHistory })).toMatch(
+      / Earlier in the thread: The budget review needs the finance numbers before the board meeting\.$/,
+    );
+    expect(summarize(EMAIL, { ...ENGLISH, threadHistory, length: "detailed" }).split("\n")).toEqual([
+      "- The quarterly budget review moved to the new finance system this month.",
+      "- Could you send the updated budget numbers to Priya by Friday?",
+      "- The finance system exports the budget report as a spreadsheet.",
+      "- Earlier in the thread: The budget review needs the finance numbers before the board meeting.",
+    ]);
+  });
+
+  it("falls back to courtesy lines when the email has nothing else to say", () => {
+    const content = "Thank you so much for the lovely dinner.\nWe really appreciate your kind hospitality.";
+    expect(summarize(content, { ...ENGLISH, length: "one-line" })).toBe("We really appreciate your kind hospitality.");
+  });
+
+  it("returns a short email as its own summary", () => {
+    expect(summarize("Thanks!", ENGLISH)).toBe("Thanks!");
+    expect(summarize("   ", ENGLISH)).toBe("No summary available.");
+  });
+});
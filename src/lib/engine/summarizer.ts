@@ -0,0 +1,174 @@
+import { Language, STOPWORDS } from "@/lib/language";
+import type { Lexicon } from "./lexicons";
+import type { SummaryLength } from "./types";
+
+type Sentence = { text: string; index: number; terms: string[]; history: boolean };
+
+const SENTENCE_COUNTS: Record<SummaryLength, number> = {
+  "one-line": 1,
+  short: 3,
+  detailed: 6,
+};
+
+// TextRank's usual damping factor; 30 rounds settle well before a long email's worth of sentences.
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+
+// Added to a sentence's centrality (which averages 1) when it carries the content people act on.
+const ASK_BONUS = 0.6;
+const DATE_BONUS = 0.4;
+const NAME_BONUS = 0.3;
+const LEAD_BONUS = 0.2;
+
+const NUMERIC_DATE = /\b(?:\d{4}-\d{2}-\d{2}|\d{1,2}[./]\d{1,2}(?:[./]\d{2,4})?)\b/;
+
+/**
+ * Extractive summary: sentences are ranked by TextRank over TF-IDF vectors,
+ * boosted when they hold an ask, a date, or a named person, and the top ones
+ * are returned in their original order. Earlier thread messages join the
+ * graph, so sentences that pick up the thread's topic rank higher, and the
+ * most central earlier sentence is quoted as context.
+ */
+export function summarize(
+  content: string,
+  {
+    threadHistory,
+    length = "short",
+    language,
+    lexicon,
+  }: { threadHistory?: string; length?: SummaryLength; language: Language; lexicon: Lexicon },
+): string {
+  const stopwords = new Set(STOPWORDS[language]);
+  const current = splitSentences(content, lexicon, stopwords, false);
+  const earlier = splitSentences(threadHistory ?? "", lexicon, stopwords, true);
+  if (!current.length) {
+    // Nothing long enough to rank ("Thanks!"): the email is its own summary.
+    return content.replace(/\s+/g, " ").trim().slice(0, 200) || "No summary available.";
+  }
+
+  const sentences = [...current, ...earlier];
+  const centrality = textRank(sentences);
+  const scored = sentences.map((sentence, position) => ({
+    sentence,
+    score:
+      centrality[position] +
+      (isAsk(sentence.text, lexicon) ? ASK_BONUS : 0) +
+      (hasDate(sentence.text, lexicon) ? DATE_BONUS : 0) +
+      // German capitalizes every noun, so capitals say nothing about people there.
+      (language !== "de" && hasName(sentence.text) ? NAME_BONUS : 0) +
+      (sentence.history ? 0 : LEAD_BONUS * (1 - sentence.index / current.length)),
+  }));
+
+  const ranked = scored.filter((entry) => !entry.sentence.history).sort((a, b) => b.score - a.score);
+  // Courtesy lines only make it in when the email has nothing else to say.
+  const substantive = ranked.filter((entry) => !isCourtesy(entry.sentence.text, lexicon));
+  const picked = (substantive.length ? substantive : ranked)
+    .slice(0, SENTENCE_COUNTS[length])
+    .map((entry) => entry.sentence)
+    .sort((a, b) => a.index - b.index)
+    .map((sentence) => sentence.text);
+
+  const context = scored
+    .filter((entry) => entry.sentence.history && !isCourtesy(entry.sentence.text, lexicon))
+    .sort((a, b) => b.score - a.score)[0]?.sentence.text;
+
+  if (length === "detailed") {
+    return [...picked, ...(context ? [`Earlier in the thread: ${context}`] : [])]
+      .map((text) => `- ${text}`)
+      .join("\n");
+  }
+  if (length === "short" && context) {
+    return `${picked.join(" ")} Earlier in the thread: ${context}`;
+  }
+  return picked.join(" ");
+}
+
+function splitSentences(text: string, lexicon: Lexicon, stopwords: Set<string>, history: boolean): Sentence[] {
+  return text
+    .split(/\n+/)
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").replace(lexicon.greeting, "").trim())
+    .flatMap((line) => line.split(/(?<=[.?!])\s+/))
+    .map((sentence) => sentence.trim())
+    // Fragments under three words are sign-offs, names, or "Sounds good."; they summarize nothing.
+    .filter((sentence) => sentence.split(/\s+/).length >= 3 && termsOf(sentence, stopwords).length > 0)
+    .map((sentence, index) => ({ text: sentence, index, terms: termsOf(sentence, stopwords), history }));
+}
+
+function termsOf(sentence: string, stopwords: Set<string>): string[] {
+  return (sentence.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (word) => word.length > 2 && !stopwords.has(word),
+  );
+}
+
+/** PageRank over a graph whose edges are the cosine similarity of the sentences' TF-IDF vectors. */
+function textRank(sentences: Sentence[]): number[] {
+  const count = sentences.length;
+  const documentFrequency = new Map<string, number>();
+  for (const sentence of sentences) {
+    for (const term of new Set(sentence.terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const vectors = sentences.map((sentence) => {
+    const vector = new Map<string, number>();
+    for (const term of sentence.terms) {
+      vector.set(term, (vector.get(term) ?? 0) + 1);
+    }
+    for (const [term, frequency] of vector) {
+      vector.set(term, frequency * (1 + Math.log(count / (documentFrequency.get(term) ?? 1))));
+    }
+    return vector;
+  });
+
+  const similarity = vectors.map((left, row) =>
+    vectors.map((right, column) => (row === column ? 0 : cosine(left, right))),
+  );
+  const outgoing = similarity.map((row) => row.reduce((sum, value) => sum + value, 0));
+
+  let scores = sentences.map(() => 1);
+  for (let round = 0; round < ITERATIONS; round += 1) {
+    scores = sentences.map(
+      (_, target) =>
+        1 -
+        DAMPING +
+        DAMPING *
+          sentences.reduce(
+            (sum, __, source) =>
+              outgoing[source] ? sum + (similarity[source][target] / outgoing[source]) * scores[source] : sum,
+            0,
+          ),
+    );
+  }
+  return scores;
+}
+
+function cosine(left: Map<string, number>, right: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of left) {
+    dot += weight * (right.get(term) ?? 0);
+  }
+  if (!dot) return 0;
+  return dot / (magnitude(left) * magnitude(right));
+}
+
+function magnitude(vector: Map<string, number>): number {
+  return Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+}
+
+function isAsk(sentence: string, lexicon: Lexicon): boolean {
+  return sentence.endsWith("?") || lexicon.taskTrigger.test(sentence);
+}
+
+function hasDate(sentence: string, lexicon: Lexicon): boolean {
+  return NUMERIC_DATE.test(sentence) || lexicon.calendar.test(sentence);
+}
+
+// A capitalized word that doesn't open the sentence, or an @mention.
+function hasName(sentence: string): boolean {
+  return /(?:^|\s)@\w+/.test(sentence) || /(?<=[\p{L},;]\s+)\p{Lu}\p{Ll}+/u.test(sentence);
+}
+
+function isCourtesy(sentence: string, lexicon: Lexicon): boolean {
+  return lexicon.courtesy.test(sentence) && !isAsk(sentence, lexicon) && !hasDate(sentence, lexicon);
+}
@@ -0,0 +1,275 @@
+import type { CalendarAvailability, CalendarInvite, InviteResponseAction, SlotFit, TimeSlot } from "@/lib/calendar";
+import type { Language } from "@/lib/language";
+
+/** Id of a tone in the tone library, such as "professional" or "legal-careful". */
+export type Tone = string;
+
+export type ToneTemplate = {
+  id: Tone;
+  label: string;
+  description: string;
+  /** Salutation placed before the recipient's name, such as "Hi" or "Dear". */
+  greeting: string;
+  subject: string;
+  opening: string;
+  closing: string;
+  signOff: string;
+  builtIn: boolean;
+};
+
+/** Someone from the contacts directory, with what we know about the relationship. */
+export type Contact = {
+  id: string;
+  name: string;
+  email?: string;
+  role?: string;
+  company?: string;
+  /** Tone library id to write to this person in. */
+  tone?: Tone;
+  language?: Language;
+  notes?: string;
+};
+
+export type Sentiment = "positive" | "neutral" | "negative";
+
+export type Priority = "low" | "medium" | "high";
+
+/** "one-line" is a single sentence, "short" a few sentences, "detailed" a bulleted list. */
+export type SummaryLength = "one-line" | "short" | "detailed";
+
+export type AnalyzeInput = {
+  content: string;
+  threadHistory?: string;
+  persona?: string;
+  /** The user's own name, for `{{sender}}` in the reply's tone template. */
+  sender?: string;
+  /** When the email was sent; relative dates ("by Friday") resolve from here. */
+  sentAt?: string;
+  /** IANA time zone used to resolve dates; defaults to UTC. */
+  timeZone?: string;
+  /** Tone library for the reply draft; missing tones fall back to the built-in defaults. */
+  tones?: ToneTemplate[];
+  /** Language of the reply draft; defaults to the language the email is written in. */
+  replyLanguage?: Language;
+  /** Defaults to "short". */
+  summaryLength?: SummaryLength;
+  /** The sender, when they are in the contacts directory. */
+  contact?: Contact;
+  /** The calendar invite that came with the email. */
+  invite?: CalendarInvite;
+  /** The user's working hours and busy time; meeting requests get free slots proposed from it. */
+  availability?: CalendarAvailability;
+  /** Called as each stage finishes, in stage order, so callers can stream progress. */
+  onProgress?: (progress: AnalysisProgress) => void;
+};
+
+export type AnalysisStage = "summary" | "sentiment" | "tasks" | "questions" | "reply";
+
+/** What a finished stage found; evidence and the remaining fields arrive with the full payload. */
+export type AnalysisProgress =
+  | { stage: "summary"; summary: string }
+  | { stage: "sentiment"; sentiment: Sentiment }
+  | { stage: "tasks"; tasks: Omit<AnalyzePayload["tasks"][number], "evidence">[]; priority: Priority }
+  | { stage: "questions"; questions: Question[]; requiresReply: boolean }
+  | { stage: "reply"; recommendedReply: AnalyzePayload["recommendedReply"] };
+
+export type ComposeInput = {
+  audience: string;
+  objective: string;
+  tone: ToneTemplate;
+  keyPoints: string[];
+  callToAction?: string;
+  signature?: string;
+  /** The user's own name, for `{{sender}}` in tone templates. */
+  sender?: string;
+  /** The recipient, when picked from the contacts directory. */
+  recipient?: Contact;
+  /** The recipient's preferred tone; the greeting and sign-off follow it, whatever tone the body takes. */
+  recipientTone?: ToneTemplate;
+};
+
+export type RevisionOperation = "shorten" | "expand" | "formal" | "tone" | "remove-bullets" | "add-ps" | "rewrite";
+
+/** An existing draft and one change to make to it. */
+export type ReviseInput = {
+  subject: string;
+  body: string;
+  operation: RevisionOperation;
+  /** The tone to switch to, for "tone". */
+  tone?: ToneTemplate;
+  /** The tone library, so text that came from any tone template can be recognized and replaced. */
+  tones?: ToneTemplate[];
+  /** The postscript for "add-ps"; optional guidance for "rewrite". */
+  text?: string;
+  /** The part of `body` to rewrite, for "rewrite"; `end` is exclusive. */
+  range?: { start: number; end: number };
+  /** The user's own name, for `{{sender}}` in the new tone's sign-off. */
+  sender?: string;
+};
+
+export type SequenceInput = ComposeInput & {
+  /** Tone of each follow-up, in send order; the first email uses `tone`. */
+  followUpTones: ToneTemplate[];
+  /** Days after the first email that each follow-up goes out. */
+  dayOffsets: number[];
+};
+
+/** A span of the analyzed email that counted toward a classification. */
+export type Evidence = {
+  text: string;
+  /** Character offsets into the analyzed text; `end` is exclusive. */
+  start: number;
+  end: number;
+  /** What the span counted toward, such as "urgency", "negative", "task", or "deadline". */
+  signal: string;
+  /** Contribution to the score: signed valence for sentiment cues, 0–100 for priority signals, 1 for task parts. */
+  weight: number;
+};
+
+export type Explanation = {
+  /** Sentiment runs from -1 (negative) to 1 (positive); priority from 0 to 100. */
+  score: number;
+  /** How clearly the evidence supports the chosen bucket, from 0 to 1. */
+  confidence: number;
+  evidence: Evidence[];
+};
+
+export type Emotion = "frustration" | "gratitude" | "confusion";
+
+export type SentimentExplanation = Explanation & {
+  /** Score of each sentence from -1 to 1, when the engine scores sentences individually. */
+  sentences?: { start: number; end: number; score: number }[];
+  /** Strength of each emotion from 0 (absent) to 1. */
+  emotions: Record<Emotion, number>;
+};
+
+export type TagExplanation = {
+  tag: string;
+  reason: string;
+  evidence: Evidence[];
+};
+
+/** A mention in the analyzed email; offsets work like evidence offsets. */
+export type Entity = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+/** Each distinct entity appears once, at its first mention. */
+export type Entities = {
+  people: Entity[];
+  organizations: Entity[];
+  emails: Entity[];
+  phones: Entity[];
+  amounts: (Entity & { value: number; currency?: string })[];
+  /** `iso` is set when the date resolves; weekday and month names outside English stay unresolved. */
+  dates: (Entity & { iso?: string })[];
+  urls: Entity[];
+  /** File names and things the email says it attaches ("the attached deck"). */
+  attachments: Entity[];
+};
+
+/**
+ * "yes-no" wants a yes or no, "scheduling" a time, "request" something done
+ * ("Could you send the deck?"), "information" facts or an explanation.
+ */
+export type QuestionKind = "yes-no" | "scheduling" | "request" | "information";
+
+/** A question the sender asked; offsets work like evidence offsets. */
+export type Question = {
+  text: string;
+  kind: QuestionKind;
+  start: number;
+  end: number;
+};
+
+/** The email asks to meet, in words or with an attached invite. */
+export type MeetingRequest = {
+  /** The words that ask for a meeting; empty when only the invite does. */
+  evidence: Evidence[];
+  invite?: CalendarInvite;
+  /** Length of the meeting: the invite's, the one the email names, or half an hour. */
+  durationMinutes: number;
+  /** How the invited time fits the availability calendar, when there is both an invite and a calendar. */
+  inviteFit?: SlotFit;
+  /** How to answer the invite: accept a free time, counter-propose a taken one, decline a taken day. */
+  suggestedResponse?: InviteResponseAction;
+  /** Free times to offer, soonest first; empty without an availability calendar or when the invite fits. */
+  proposedSlots: TimeSlot[];
+};
+
+export type AnalyzePayload = {
+  /** Detected language of the analyzed email. */
+  language: Language;
+  summary: string;
+  sentiment: Sentiment;
+  priority: Priority;
+  tags: string[];
+  subjectSuggestion: string;
+  tasks: {
+    description: string;
+    due?: string;
+    dueDate?: string;
+    owner?: string;
+    /** The ask itself plus its deadline and owner, where found. */
+    evidence?: Evidence[];
+  }[];
+  entities: Entities;
+  /** The sender asked something, made a request, or is waiting to hear back. */
+  requiresReply: boolean;
+  /** Every question the sender asked, in order; small talk such as "How are you?" is left out. */
+  questions: Question[];
+  /** Present when the email asks to meet. */
+  meeting?: MeetingRequest;
+  followUpRecommendation: string;
+  recommendedReply: {
+    subject: string;
+    body: string;
+  };
+  explanation: {
+    sentiment: SentimentExplanation;
+    priority: Explanation;
+    /** One entry per tag in `tags`, in the same order. */
+    tags: TagExplanation[];
+  };
+  engine: string;
+};
+
+export type ComposePayload = {
+  subject: string;
+  preview: string;
+  body: string;
+  cadenceTip: string;
+  engine: string;
+};
+
+export type SequenceStep = {
+  dayOffset: number;
+  tone: Tone;
+  subject: string;
+  preview: string;
+  body: string;
+};
+
+export type SequencePayload = {
+  steps: SequenceStep[];
+  engine: string;
+};
+
+export type RevisePayload = {
+  subject: string;
+  body: string;
+  /** Set when the engine could not do what was asked, such as guidance it cannot follow. */
+  notice?: string;
+  engine: string;
+};
+
+export type AnalysisEngine = {
+  name: string;
+  analyze(input: AnalyzeInput): Promise<AnalyzePayload>;
+  compose(input: ComposeInput): Promise<ComposePayload>;
+  sequence(input: SequenceInput): Promise<SequencePayload>;
+  revise(input: ReviseInput): Promise<RevisePayload>;
+  summarize(content: string, threadHistory?: string, length?: SummaryLength): Promise<string>;
+};
@@ -0,0 +1,85 @@
+import type { AnalyzePayload, Evidence } from "@/lib/engine/types";
+
+/**
+ * Every case-insensitive occurrence of each term in `content`. A term found
+ * inside a longer match ("delay" in "delayed") is reported once, as the longer span.
+ */
+export function findTerms(content: string, terms: string[], signal: string, weight: number): Evidence[] {
+  const spans = terms.flatMap((term) =>
+    findPattern(content, new RegExp(escapeRegExp(term), "i"), signal, weight),
+  );
+  return dropNested(spans);
+}
+
+export function findPattern(content: string, pattern: RegExp, signal: string, weight: number): Evidence[] {
+  const global = new RegExp(pattern.source, `${pattern.flags.replace(/[gi]/g, "")}gi`);
+  return Array.from(content.matchAll(global), (match) => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    signal,
+    weight,
+  })).filter((span) => span.end > span.start);
+}
+
+export function spanAt(content: string, start: number, text: string, signal: string, weight: number): Evidence {
+  return { text: content.slice(start, start + text.length), start, end: start + text.length, signal, weight };
+}
+
+/** Turns verbatim excerpts (as a model quotes them) into spans; excerpts not found in `content` are dropped. */
+export function locateQuotes(content: string, quotes: string[], signal: string, weight: number): Evidence[] {
+  const lower = content.toLowerCase();
+  return quotes.flatMap((quote) => {
+    const start = quote.trim() ? lower.indexOf(quote.trim().toLowerCase()) : -1;
+    return start === -1 ? [] : [spanAt(content, start, quote.trim(), signal, weight)];
+  });
+}
+
+/** Rewrites every evidence, entity, and question offset in an analysis, e.g. from the triaged reply back to the full message. */
+export function remapEvidence<T extends AnalyzePayload>(analysis: T, toSource: (offset: number) => number): T {
+  const remap = <S extends { start: number; end: number }>(spans: S[]) =>
+    spans.map((span) => ({ ...span, start: toSource(span.start), end: toSource(span.end) }));
+  const { entities } = analysis;
+  return {
+    ...analysis,
+    tasks: analysis.tasks.map((task) =>
+      task.evidence ? { ...task, evidence: remap(task.evidence) } : task,
+    ),
+    entities: {
+      people: remap(entities.people),
+      organizations: remap(entities.organizations),
+      emails: remap(entities.emails),
+      phones: remap(entities.phones),
+      amounts: remap(entities.amounts),
+      dates: remap(entities.dates),
+      urls: remap(entities.urls),
+      attachments: remap(entities.attachments),
+    },
+    questions: remap(analysis.questions),
+    meeting: analysis.meeting && { ...analysis.meeting, evidence: remap(analysis.meeting.evidence) },
+    explanation: {
+      sentiment: {
+        ...analysis.explanation.sentiment,
+        evidence: remap(analysis.explanation.sentiment.evidence),
+        sentences: analysis.explanation.sentiment.sentences?.map((sentence) => ({
+          ...sentence,
+          start: toSource(sentence.start),
+          end: toSource(sentence.end),
+        })),
+      },
+      priority: { ...analysis.explanation.priority, evidence: remap(analysis.explanation.priority.evidence) },
+      tags: analysis.explanation.tags.map((tag) => ({ ...tag, evidence: remap(tag.evidence) })),
+    },
+  };
+}
+
+function dropNested(spans: Evidence[]): Evidence[] {
+  const ordered = [...spans].sort((a, b) => a.start - b.start || b.end - a.end);
+  return ordered.filter(
+    (span, index) => !ordered.slice(0, index).some((outer) => outer.start <= span.start && outer.end >= span.end),
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,192 @@
+import { buildInviteResponse, escapeText, foldLine, formatUtc, quoteParam } from "@/lib/calendar";
+import { formatDueLabel, resolveDate } from "@/lib/dates";
+import type { EmailAddress } from "@/lib/mime";
+import type { ExportFormat, ExportTask, InviteResponseRequest } from "@/lib/schema";
+
+export type ExportInput = {
+  format: ExportFormat;
+  tasks: ExportTask[];
+  followUpRecommendation?: string;
+  subject?: string;
+};
+
+export type ExportFile = {
+  filename: string;
+  contentType: string;
+  body: string;
+};
+
+const PRODUCT_ID = "-//Email Agent//Task Export//EN";
+
+const REMINDER_PATTERN =
+  /\b(?:in|within)\s+(\d+|an?|one|two|three|four|five|six|seven|a couple of|a few)\s+(business hours?|business days?|hours?|days?|weeks?)\b(?!\s+before)/i;
+
+const REMINDER_MINUTES = 30;
+
+export function exportTasks(
+  input: ExportInput,
+  now: Date,
+  timeZone: string,
+): ExportFile {
+  const basename = slugify(input.subject ?? "") || "action-items";
+
+  switch (input.format) {
+    case "ics":
+      return {
+        filename: `${basename}.ics`,
+        contentType: "text/calendar; charset=utf-8",
+        body: buildCalendar(input, now, timeZone),
+      };
+    case "csv":
+      return {
+        filename: `${basename}.csv`,
+        contentType: "text/csv; charset=utf-8",
+        body: buildCsv(input.tasks),
+      };
+    case "markdown":
+      return {
+        filename: `${basename}.md`,
+        contentType: "text/markdown; charset=utf-8",
+        body: buildChecklist(input, timeZone),
+      };
+  }
+}
+
+/** The .ics answer to a meeting invite, named after the meeting. */
+export function exportInviteResponse(
+  { invite, ...response }: Omit<InviteResponseRequest, "mode" | "attendee"> & { attendee: EmailAddress },
+  now: Date,
+): ExportFile {
+  const basename = slugify(invite.summary ?? "") || "invite";
+  return {
+    filename: `${basename}-${response.action}.ics`,
+    contentType: `text/calendar; charset=utf-8; method=${response.action === "counter" ? "COUNTER" : "REPLY"}`,
+    body: buildInviteResponse(invite, response, now),
+  };
+}
+
+/**
+ * Picks a reminder time from follow-up advice such as "Schedule a reminder in
+ * 2 days" or "Follow up within 4 business hours". Advice without a usable
+ * interval gets a reminder at the end of the next day.
+ */
+export function resolveReminder(recommendation: string, now: Date, timeZone: string): string {
+  const match = recommendation.match(REMINDER_PATTERN);
+  const expression = match
+    ? `in ${match[1]} ${match[2].replace(/^business (hours?)$/i, "$1")}`
+    : /\btoday\b/i.test(recommendation)
+    ? "today"
+    : /\bweekend\b/i.test(recommendation)
+    ? "saturday"
+    : "tomorrow";
+
+  const resolved = resolveDate(expression, now, timeZone);
+  if (!resolved || Date.parse(resolved) <= now.getTime()) {
+    return new Date(now.getTime() + 3_600_000).toISOString();
+  }
+  return resolved;
+}
+
+function buildCalendar(input: ExportInput, now: Date, timeZone: string): string {
+  const stamp = formatUtc(now.toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  for (const task of input.tasks) {
+    const description = [task.due ? `Due ${task.due}` : "", input.subject ? `From: ${input.subject}` : ""]
+      .filter(Boolean)
+      .join("\n");
+    lines.push(
+      "BEGIN:VTODO",
+      `UID:${crypto.randomUUID()}`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${escapeText(task.description)}`,
+      ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+      ...(task.dueDate ? [`DUE:${formatUtc(task.dueDate)}`] : []),
+      ...(task.owner ? [formatAttendee(task.owner)] : []),
+      "STATUS:NEEDS-ACTION",
+      "END:VTODO",
+    );
+  }
+
+  if (input.followUpRecommendation) {
+    const start = resolveReminder(input.followUpRecommendation, now, timeZone);
+    const end = new Date(Date.parse(start) + REMINDER_MINUTES * 60_000).toISOString();
+    const summary = input.subject ? `Follow up: ${input.subject}` : "Follow up on email";
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${crypto.randomUUID()}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(start)}`,
+      `DTEND:${formatUtc(end)}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(input.followUpRecommendation)}`,
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      "TRIGGER:-PT10M",
+      `DESCRIPTION:${escapeText(summary)}`,
+      "END:VALARM",
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function buildCsv(tasks: ExportTask[]): string {
+  const rows = [
+    ["Task", "Owner", "Due", "Due date"],
+    ...tasks.map((task) => [task.description, task.owner ?? "", task.due ?? "", task.dueDate ?? ""]),
+  ];
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+}
+
+function buildChecklist(input: ExportInput, timeZone: string): string {
+  const items = input.tasks.map((task) => {
+    const details = [
+      task.owner ? `owner: ${task.owner}` : "",
+      task.dueDate
+        ? `due ${formatDueLabel(task.dueDate, timeZone)}`
+        : task.due
+        ? `due ${task.due}`
+        : "",
+    ].filter(Boolean);
+    const text = task.description.replace(/\s+/g, " ").trim();
+    return `- [ ] ${text}${details.length ? ` (${details.join(", ")})` : ""}`;
+  });
+
+  return [
+    `## Action items${input.subject ? `: ${input.subject}` : ""}`,
+    "",
+    ...(items.length ? items : ["_No action items._"]),
+    ...(input.followUpRecommendation ? ["", `**Follow-up:** ${input.followUpRecommendation}`] : []),
+    "",
+  ].join("\n");
+}
+
+function formatAttendee(owner: string): string {
+  const address = owner.match(/[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+/)?.[0];
+  const name = owner.replace(/<[^>]*>/, "").replace(address ?? "", "").trim() || address || owner;
+  // ATTENDEE needs a URI; owners given only by name get the conventional placeholder.
+  return `ATTENDEE;CN=${quoteParam(name)};ROLE=REQ-PARTICIPANT:${
+    address ? `mailto:${address}` : "invalid:nomail"
+  }`;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 60)
+    .replace(/^-+|-+$/g, "");
+}
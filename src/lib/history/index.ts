@@ -0,0 +1,44 @@
+import { getDatabase } from "@/lib/db";
+import { createSqliteHistoryRepository } from "./sqlite";
+import type { HistoryRecord, HistoryRepository, NewHistoryEntry } from "./types";
+
+export type * from "./types";
+export { createSqliteHistoryRepository } from "./sqlite";
+
+let repository: HistoryRepository | undefined;
+
+export function getHistoryRepository(): HistoryRepository {
+  repository ??= createSqliteHistoryRepository(getDatabase());
+  return repository;
+}
+
+export function describeHistoryEntry(record: HistoryRecord): NewHistoryEntry {
+  switch (record.kind) {
+    case "analysis":
+      return {
+        ...record,
+        title: record.response.headers?.subject || record.response.subjectSuggestion,
+        summary: record.response.summary,
+        engine: record.response.engine,
+        tasks: record.response.tasks.map((task) => task.description),
+      };
+    case "compose":
+      return {
+        ...record,
+        title: record.response.subject,
+        summary: record.response.preview,
+        engine: record.response.engine,
+        tasks: record.request.keyPoints,
+      };
+    case "sequence": {
+      const [first, ...followUps] = record.response.steps;
+      return {
+        ...record,
+        title: first?.subject ?? record.request.objective,
+        summary: first?.preview ?? "",
+        engine: record.response.engine,
+        tasks: followUps.map((step) => step.subject),
+      };
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import type Database from "better-sqlite3";
+import type {
+  HistoryEntry,
+  HistoryKind,
+  HistoryRepository,
+  HistorySummary,
+} from "./types";
+
+type HistoryRow = {
+  id: string;
+  kind: HistoryKind;
+  created_at: string;
+  title: string;
+  summary: string;
+  engine: string;
+};
+
+type HistoryEntryRow = HistoryRow & { request: string; response: string };
+
+const MIGRATION = `
+CREATE TABLE IF NOT EXISTS history (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  title TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  engine TEXT NOT NULL,
+  request TEXT NOT NULL,
+  response TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS history_created_at ON history (created_at DESC);
+CREATE VIRTUAL TABLE IF NOT EXISTS history_search USING fts5(
+  id UNINDEXED,
+  title,
+  summary,
+  tasks,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+`;
+
+const SUMMARY_COLUMNS = "h.id, h.kind, h.created_at, h.title, h.summary, h.engine";
+
+export function createSqliteHistoryRepository(db: Database.Database): HistoryRepository {
+  db.exec(MIGRATION);
+
+  const insertEntry = db.prepare(
+    `INSERT INTO history (id, kind, created_at, title, summary, engine, request, response)
+     VALUES (@id, @kind, @createdAt, @title, @summary, @engine, @request, @response)`,
+  );
+  const insertSearch = db.prepare(
+    "INSERT INTO history_search (id, title, summary, tasks) VALUES (?, ?, ?, ?)",
+  );
+  const selectRecent = db.prepare<[string | null, string | null, number], HistoryRow>(
+    `SELECT ${SUMMARY_COLUMNS} FROM history h
+     WHERE (? IS NULL OR h.kind = ?)
+     ORDER BY h.created_at DESC LIMIT ?`,
+  );
+  const selectMatches = db.prepare<[string, string | null, string | null, number], HistoryRow>(
+    `SELECT ${SUMMARY_COLUMNS} FROM history_search s JOIN history h ON h.id = s.id
+     WHERE history_search MATCH ? AND (? IS NULL OR h.kind = ?)
+     ORDER BY s.rank, h.created_at DESC LIMIT ?`,
+  );
+  const selectEntry = db.prepare<[string], HistoryEntryRow>("SELECT * FROM history WHERE id = ?");
+  const deleteEntry = db.prepare("DELETE FROM history WHERE id = ?");
+  const deleteSearch = db.prepare("DELETE FROM history_search WHERE id = ?");
+
+  const save = db.transaction((summary: HistorySummary, request: string, response: string, tasks: string) => {
+    insertEntry.run({ ...summary, request, response });
+    insertSearch.run(summary.id, summary.title, summary.summary, tasks);
+  });
+  const remove = db.transaction((id: string) => {
+    deleteSearch.run(id);
+    return deleteEntry.run(id).changes > 0;
+  });
+
+  return {
+    async save(entry) {
+      const summary: HistorySummary = {
+        id: crypto.randomUUID(),
+        kind: entry.kind,
+        createdAt: new Date().toISOString(),
+        title: entry.title,
+        summary: entry.summary,
+        engine: entry.engine,
+      };
+      save(summary, JSON.stringify(entry.request), JSON.stringify(entry.response), entry.tasks.join("\n"));
+      return summary;
+    },
+    async list({ search, kind, limit }) {
+      const match = search ? toMatchExpression(search) : undefined;
+      const rows = match
+        ? selectMatches.all(match, kind ?? null, kind ?? null, limit)
+        : selectRecent.all(kind ?? null, kind ?? null, limit);
+      return rows.map(toSummary);
+    },
+    async get(id) {
+      const row = selectEntry.get(id);
+      if (!row) return undefined;
+      return {
+        ...toSummary(row),
+        request: JSON.parse(row.request),
+        response: JSON.parse(row.response),
+      } as HistoryEntry;
+    },
+    async remove(id) {
+      return remove(id);
+    },
+  };
+}
+
+// Quote each word so user input can never be read as FTS5 query syntax; every word must match as a prefix.
+function toMatchExpression(search: string): string | undefined {
+  const words = search.match(/[\p{L}\p{N}]+/gu);
+  return words?.map((word) => `"${word}"*`).join(" ");
+}
+
+function toSummary(row: HistoryRow): HistorySummary {
+  return {
+    id: row.id,
+    kind: row.kind,
+    createdAt: row.created_at,
+    title: row.title,
+    summary: row.summary,
+    engine: row.engine,
+  };
+}
@@ -0,0 +1,53 @@
+import type {
+  AnalyzeEmlRequest,
+  AnalyzeRequest,
+  AnalyzeResponse,
+  ComposeRequest,
+  ComposeResponse,
+  SequenceRequest,
+  SequenceResponse,
+} from "@/lib/schema";
+
+export type HistoryKind = "analysis" | "compose" | "sequence";
+
+/** A saved result together with the request that produced it. */
+export type HistoryRecord =
+  | {
+      kind: "analysis";
+      request: AnalyzeRequest | AnalyzeEmlRequest;
+      response: AnalyzeResponse;
+    }
+  | { kind: "compose"; request: ComposeRequest; response: ComposeResponse }
+  | { kind: "sequence"; request: SequenceRequest; response: SequenceResponse };
+
+export type HistorySummary = {
+  id: string;
+  kind: HistoryKind;
+  createdAt: string;
+  title: string;
+  summary: string;
+  engine: string;
+};
+
+export type HistoryEntry = HistorySummary & HistoryRecord;
+
+export type NewHistoryEntry = HistoryRecord & {
+  title: string;
+  summary: string;
+  engine: string;
+  /** Task descriptions or follow-up subjects, indexed for search alongside the title and summary. */
+  tasks: string[];
+};
+
+export type HistoryQuery = {
+  search?: string;
+  kind?: HistoryKind;
+  limit: number;
+};
+
+export type HistoryRepository = {
+  save(entry: NewHistoryEntry): Promise<HistorySummary>;
+  list(query: HistoryQuery): Promise<HistorySummary[]>;
+  get(id: string): Promise<HistoryEntry | undefined>;
+  remove(id: string): Promise<boolean>;
+};
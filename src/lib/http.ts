@@ -0,0 +1,83 @@
+import { ApiError, errorStatus, ErrorResponse, ParseResult, STREAM_CONTENT_TYPE } from "@/lib/schema";
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+/**
+ * Streams newline-delimited JSON: `run` sends each event as it happens and the
+ * stream closes once it settles. `run` reports its own failures as events.
+ */
+export function ndjsonResponse<T>(run: (send: (event: T) => void) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      await run((event) => {
+        // A client that hung up still lets the work finish; its events go nowhere.
+        if (!cancelled) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      });
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return new Response(stream, {
+    headers: { "Content-Type": `${STREAM_CONTENT_TYPE}; charset=utf-8`, "Cache-Control": "no-cache" },
+  });
+}
+
+export function errorResponse(error: ApiError): Response {
+  const body: ErrorResponse = { error };
+  return jsonResponse(body, errorStatus(error.code));
+}
+
+/** Reads a JSON request body, rejecting other content types and bodies over `maxBytes`. */
+export async function readJsonBody(request: Request, maxBytes: number): Promise<ParseResult<unknown>> {
+  if (!request.headers.get("content-type")?.includes("application/json")) {
+    return {
+      ok: false,
+      error: { code: "unsupported_media_type", message: "Send the request body as application/json." },
+    };
+  }
+  const tooLarge: ParseResult<unknown> = {
+    ok: false,
+    error: { code: "payload_too_large", message: "Request body is too large." },
+  };
+  if (Number(request.headers.get("content-length")) > maxBytes) return tooLarge;
+
+  try {
+    const text = await readLimited(request, maxBytes);
+    if (text === null) return tooLarge;
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return {
+      ok: false,
+      error: { code: "invalid_json", message: "Request body is not valid JSON." },
+    };
+  }
+}
+
+// Content-Length is optional and can lie (chunked uploads send none), so the
+// bytes are counted as they arrive and the upload is cut off past the limit.
+async function readLimited(request: Request, maxBytes: number): Promise<string | null> {
+  if (!request.body) return "";
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text + decoder.decode();
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
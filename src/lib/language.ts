@@ -0,0 +1,47 @@
+export const LANGUAGES = ["en", "de", "es", "fr"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  de: "German",
+  es: "Spanish",
+  fr: "French",
+};
+
+// High-frequency function words; a handful is enough to tell these four apart in a short email.
+export const STOPWORDS: Record<Language, string[]> = {
+  en: ["the", "and", "to", "of", "is", "you", "that", "for", "it", "we", "this", "with", "have", "are", "be", "will", "can", "on", "your", "please", "thanks"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "ich", "sie", "wir", "mit", "für", "bitte", "auf", "zu", "ein", "eine", "den", "dem", "es", "haben", "können", "danke", "uns", "ihnen", "noch"],
+  es: ["el", "la", "los", "las", "de", "que", "y", "en", "por", "para", "con", "una", "es", "no", "se", "su", "gracias", "favor", "nos", "usted", "del", "al", "muy", "pero"],
+  fr: ["le", "la", "les", "des", "de", "et", "est", "pour", "que", "vous", "nous", "une", "un", "dans", "pas", "avec", "sur", "merci", "ce", "du", "au", "je", "il", "votre"],
+};
+
+// Letters and punctuation that only one of the four languages uses.
+const MARKERS: Partial<Record<Language, RegExp>> = {
+  de: /[äöüß]/gi,
+  es: /[ñ¿¡]/gi,
+  fr: /[çèêëàâîôû]|\b(?:[cdjlmnst]|qu)['’]/gi,
+};
+
+/**
+ * Guesses the language of an email from its function words and diacritics.
+ * Text with no clear signal, including very short messages, counts as English.
+ */
+export function detectLanguage(text: string): Language {
+  const words = text.toLowerCase().match(/[\p{L}'’]+/gu) ?? [];
+  const scores = LANGUAGES.map((language) => {
+    const stopwords = new Set(STOPWORDS[language]);
+    const hits = words.filter((word) => stopwords.has(word)).length;
+    const marker = MARKERS[language];
+    const markers = marker ? (text.match(marker)?.length ?? 0) : 0;
+    return { language, score: hits + markers * 0.5 };
+  });
+
+  const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top));
+  return best.score >= 2 ? best.language : "en";
+}
+
+export function isLanguage(value: unknown): value is Language {
+  return (LANGUAGES as readonly unknown[]).includes(value);
+}
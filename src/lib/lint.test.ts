@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { createHeuristicEngine } from "@/lib/engine";
+import { lintDraft, LintInput } from "@/lib/lint";
+import { DEFAULT_TONES } from "@/lib/tones/templates";
+
+// Each issue as its rule, severity and the text it marks.
+function issues(input: LintInput) {
+  return lintDraft(input).issues.map((issue) => [issue.rule, issue.severity, input.body.slice(issue.start, issue.end)]);
+}
+
+const rules = (input: LintInput) => lintDraft(input).issues.map((issue) => issue.rule);
+
+describe("lintDraft", () => {
+  it("marks placeholders and brief labels as errors", () => {
+    const body = "Hi {{audience}},\n\nObjective: Share the plan\n\nThe plan is ready TBD.\n\nBest,\nSam";
+    expect(issues({ body }).filter(([, severity]) => severity === "error")).toEqual([
+      ["placeholder", "error", "{{audience}}"],
+      ["scaffolding", "error", "Objective:"],
+      ["placeholder", "error", "TBD"],
+    ]);
+  });
+
+  it("flags a bullet that repeats an earlier one, ignoring case and punctuation", () => {
+    const body = "Hi Priya,\n\n- send the deck\n- Send the deck.\n\nCould you review it?\n\nBest,\nSam";
+    expect(issues({ body })).toContainEqual(["duplicate-bullet", "warning", "Send the deck."]);
+  });
+
+  it("flags passive voice, doubled words and a missing ask", () => {
+    const body = "Hi Priya,\n\nThe report was written by the team and the the numbers look fine today.\n\nBest,\nSam";
+    expect(issues({ body })).toEqual([
+      ["length", "info", body],
+      ["passive-voice", "info", "was written"],
+      ["repeated-word", "warning", "the"],
+      ["call-to-action", "warning", ""],
+    ]);
+  });
+
+  it("flags aggressive wording and shouting once each", () => {
+    const body = "Hi Priya,\n\nPer my last email, this is UNACCEPTABLE!! Send it immediately.\n\nBest,\nSam";
+    expect(issues({ body }).filter(([rule]) => rule === "aggressive")).toEqual([
+      ["aggressive", "warning", "Per my last email"],
+      ["aggressive", "warning", "UNACCEPTABLE"],
+      ["aggressive", "warning", "!!"],
+      ["aggressive", "warning", "immediately"],
+    ]);
+  });
+
+  describe("attachments", () => {
+    const body = "Hi Priya,\n\nThe deck is attached, could you review it?\n\nBest,\nSam";
+
+    it("reminds to attach when the attachments are unknown", () => {
+      expect(issues({ body })).toContainEqual(["attachment", "info", "attached"]);
+    });
+
+    it("warns when the draft mentions an attachment but has none", () => {
+      expect(issues({ body, attachments: [] })).toContainEqual(["attachment", "warning", "attached"]);
+    });
+
+    it("warns about a named file that is not attached", () => {
+      const named = "Hi Priya,\n\nThe deck is attached. See budget.xlsx too; could you review both?\n\nBest,\nSam";
+      expect(issues({ body: named, attachments: ["deck.pdf"] }).filter(([rule]) => rule === "attachment")).toEqual([
+        ["attachment", "warning", "budget.xlsx"],
+      ]);
+    });
+  });
+
+  describe("unanswered questions", () => {
+    const original =
+      "Hi Sam,\n\nCan you make the Thursday call at 3pm? Could you send the budget numbers for Q3?\n\nThanks,\nPriya";
+
+    it("lists each question from the original that the draft leaves open", () => {
+      const body = "Hi Priya,\n\nYes, Thursday at 3pm works for me. Let me know if anything changes.\n\nBest,\nSam";
+      expect(lintDraft({ body, original }).issues.map((issue) => issue.message)).toEqual([
+        'Not answered: "Could you send the budget numbers for Q3?"',
+      ]);
+    });
+
+    it("counts a commitment to do what was asked as an answer", () => {
+      const body = "Hi Priya,\n\nYes, Thursday at 3pm works. I'll send the Q3 budget numbers tomorrow.\n\nBest,\nSam";
+      expect(rules({ body, original })).not.toContain("unanswered-question");
+    });
+  });
+
+  it("skips English-only checks on drafts in other languages", () => {
+    const body =
+      "Hallo Priya,\n\nkönnen Sie mir bitte die Zahlen für das dritte Quartal schicken? Das wäre sehr hilfreich für unsere Planung.\n\nViele Grüße,\nSam";
+    expect(lintDraft({ body })).toMatchObject({ language: "de", stats: { grade: undefined }, issues: [] });
+  });
+
+  it.each(DEFAULT_TONES.map((tone) => [tone.id, tone] as const))(
+    "passes the drafts the agent composes in the %s tone",
+    async (_, tone) => {
+      const draft = await createHeuristicEngine().compose({
+        audience: "Priya",
+        objective: "Share next steps after receiving an update",
+        tone,
+        keyPoints: ["launch moves to May 4", "- budget stays the same"],
+        callToAction: "Confirm the new date by Friday",
+        sender: "Sam",
+      });
+      expect(issues({ body: draft.body })).toEqual([]);
+    },
+  );
+});
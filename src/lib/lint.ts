@@ -0,0 +1,361 @@
+import { Lexicon, LEXICONS } from "@/lib/engine/lexicons";
+import { extractQuestions } from "@/lib/engine/questions";
+import type { Question, QuestionKind } from "@/lib/engine/types";
+import { detectLanguage, Language, STOPWORDS } from "@/lib/language";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintRule =
+  | "placeholder"
+  | "scaffolding"
+  | "duplicate-bullet"
+  | "readability"
+  | "length"
+  | "passive-voice"
+  | "greeting"
+  | "call-to-action"
+  | "unanswered-question"
+  | "attachment"
+  | "repeated-word"
+  | "aggressive";
+
+/**
+ * One problem in a draft. Offsets index into the draft body, `end` exclusive;
+ * things that are missing altogether (a greeting, an answer) have an empty
+ * range at the spot they belong.
+ */
+export type LintIssue = {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  start: number;
+  end: number;
+};
+
+export type DraftLint = {
+  /** Detected language of the draft; readability, passive voice, and tone checks run on English drafts only. */
+  language: Language;
+  stats: {
+    words: number;
+    sentences: number;
+    /** Flesch–Kincaid grade level of the whole draft; undefined for drafts not in English. */
+    grade?: number;
+    /** At 230 words a minute, rounded up. */
+    readingMinutes: number;
+  };
+  /** Sorted by position, then severity. */
+  issues: LintIssue[];
+};
+
+export type LintInput = {
+  body: string;
+  /** The email being replied to; its questions should be answered in the draft. */
+  original?: string;
+  /** File names attached to the draft. Leave out when unknown. */
+  attachments?: string[];
+};
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const MAX_WORDS = 250;
+const MIN_WORDS = 20;
+const MAX_SENTENCE_WORDS = 30;
+const MAX_SENTENCE_GRADE = 14;
+const READING_WORDS_PER_MINUTE = 230;
+
+const PLACEHOLDERS = [
+  /\{\{\s*[\w.-]*\s*\}\}/g,
+  /\[(?:insert[^\]\n]*|your name|name|first name|company|date|time|link|recipient|x+)\]/gi,
+  /<(?:insert[^>\n]*|your name|name|date)>/gi,
+  /\b(?:TBD|TODO|FIXME|XXX+|lorem ipsum)\b/g,
+];
+
+// Field labels of a brief that leaked into the email ("Objective: Share next steps").
+const SCAFFOLDING = /^[ \t]*(?:objective|goal|key points?|talking points?|call to action|cta|next up|audience|tone)\s*:/gim;
+
+const BULLET = /^[ \t]*(?:[-*•]|\d+[.)])[ \t]+(.+)$/gm;
+
+const CALL_TO_ACTION =
+  /\b(?:let me know|please|could you|can you|would you|reply|confirm|get back to|send (?:me|us|over)|share|schedule|book|sign|approve|review)\b/i;
+
+const PASSIVE =
+  /\b(?:am|is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?(\w+ed|known|done|given|made|taken|seen|sent|written|held|kept|left|paid|told|found|shown|built|chosen|forgotten|brought|bought|caught|taught|sold|begun|broken|driven|hidden|shaken|stolen|thrown|worn)\b/gi;
+
+// Participles that mostly describe a state or feeling rather than something done to the subject.
+const NOT_PASSIVE = new Set([
+  "pleased", "interested", "excited", "tired", "concerned", "worried", "supposed", "used", "bored",
+  "surprised", "married", "qualified", "experienced", "detailed", "committed", "dedicated", "limited",
+  "based", "aligned", "located", "involved", "related", "exhausted", "thrilled", "delighted", "prepared",
+]);
+
+const AGGRESSIVE =
+  /\b(?:per my (?:last|previous) (?:email|message|note)|as (?:i|we) (?:already |previously |clearly )?(?:said|mentioned|stated|explained)|as you (?:should )?know|obviously|clearly you|you (?:failed|never|always|must|need to|should have)|unacceptable|ridiculous|incompetent|immediately|asap|for the last time|i demand|no excuses|do it now)\b/gi;
+
+const SHOUTING = /\b[A-Z]{5,}\b|[!?]{2,}/g;
+
+const ATTACHMENT_MENTION = /\b(?:attach(?:ed|ing|ment|ments)?|enclosed)\b/gi;
+
+// Fewer distinctive words than this and word overlap says nothing about whether a question was answered.
+const MIN_QUESTION_TERMS = 2;
+
+const CLOCK_TIME = /\b\d{1,2}(?::\d{2})?\s*(?:am|pm)\b|\b\d{1,2}[:.h]\d{2}\b/i;
+
+// What an answer to each kind of question looks like, for questions too short to match on their words.
+const ANSWER_SHAPES: Record<QuestionKind, (content: string, lexicon: Lexicon) => boolean> = {
+  "yes-no": (content, lexicon) => lexicon.yesNoAnswer.test(content),
+  scheduling: (content, lexicon) => lexicon.calendar.test(content) || CLOCK_TIME.test(content),
+  request: (content, lexicon) =>
+    splitSentences(content).some((sentence) => lexicon.selfCommitment.test(sentence.text)) ||
+    /\b(?:attach(?:ed)?|enclosed|here(?:['’]s| is| are))\b/i.test(content),
+  information: (content, lexicon) => /\d/.test(content) || lexicon.calendar.test(content),
+};
+
+const FILE_NAME = /\b[\w-]+(?:[._-][\w-]+)*\.(?:pdf|docx?|xlsx?|pptx?|csv|zip|png|jpe?g|txt|key|numbers|pages|ics)\b/gi;
+
+// Short lines that close an email; the call to action and missing answers belong just above them.
+const SIGN_OFF =
+  /^(?:best|best regards|kind regards|warm regards|warmly|regards|thanks|thank you|many thanks|cheers|sincerely|all the best|talk soon|mit freundlichen grüßen|viele grüße|beste grüße|saludos|un saludo|atentamente|cordialement|bien à vous|bonne journée)[,.!]?$/i;
+
+/**
+ * Checks a draft before it goes out: leftover placeholders and brief labels,
+ * duplicate bullets, readability, length, passive voice, a missing greeting
+ * or call to action, questions from the original email that go unanswered,
+ * attachments, repeated words, and aggressive wording. English-only checks
+ * are skipped for drafts in other languages.
+ */
+export function lintDraft({ body, original, attachments }: LintInput): DraftLint {
+  const language = detectLanguage(body);
+  const lexicon = LEXICONS[language];
+  const english = language === "en";
+  const sentences = splitSentences(body);
+  const words = wordsOf(body, 0);
+  const contentEnd = signOffStart(body);
+  const issues: LintIssue[] = [];
+  const add = (rule: LintRule, severity: LintSeverity, message: string, start: number, end = start) => {
+    // "UNACCEPTABLE" is both aggressive wording and shouting; one issue is enough.
+    if (issues.some((issue) => issue.rule === rule && issue.start === start && issue.end === end)) return;
+    issues.push({ rule, severity, message, start, end });
+  };
+
+  for (const pattern of PLACEHOLDERS) {
+    for (const match of body.matchAll(pattern)) {
+      const end = match.index + match[0].length;
+      add("placeholder", "error", `Fill in the placeholder "${match[0]}".`, match.index, end);
+    }
+  }
+  for (const match of body.matchAll(SCAFFOLDING)) {
+    const label = match[0].trim();
+    const start = match.index + match[0].indexOf(label);
+    const message = `"${label}" reads like a note to yourself; write it as a sentence.`;
+    add("scaffolding", "error", message, start, start + label.length);
+  }
+
+  const bullets = new Map<string, number>();
+  for (const match of body.matchAll(BULLET)) {
+    const key = normalize(match[1]);
+    const start = match.index + match[0].lastIndexOf(match[1]);
+    if (bullets.has(key)) {
+      add("duplicate-bullet", "warning", "This bullet repeats an earlier one.", start, start + match[1].length);
+    } else {
+      bullets.set(key, start);
+    }
+  }
+
+  if (words.length > MAX_WORDS) {
+    add(
+      "length",
+      "warning",
+      `${words.length} words; drafts over ${MAX_WORDS} often go unread. Consider cutting from here.`,
+      words[MAX_WORDS].start,
+      Math.max(words[MAX_WORDS].start, trimmedEnd(body, contentEnd)),
+    );
+  } else if (words.length && words.length < MIN_WORDS && !original) {
+    const message = `Only ${words.length} words; make sure the reader has enough context.`;
+    add("length", "info", message, 0, trimmedEnd(body, body.length));
+  }
+
+  const firstLine = body.match(/^\s*(.*)/)?.[1] ?? "";
+  const firstLineStart = body.length - body.trimStart().length;
+  if (firstLine && !lexicon.greeting.test(firstLine) && !/^(?:dear|hi|hello|hey)\b/i.test(firstLine)) {
+    add("greeting", "info", "No greeting; open with the recipient's name.", firstLineStart);
+  }
+
+  const content = body.slice(0, contentEnd);
+  const asks = content.includes("?") || CALL_TO_ACTION.test(content) || lexicon.taskTrigger.test(content);
+  if (content.trim() && !asks) {
+    const message = "No clear ask; say what you need from the reader and by when.";
+    add("call-to-action", "warning", message, trimmedEnd(body, contentEnd));
+  }
+
+  if (original) {
+    // Questions are read as the sender wrote them, skipping quoted history and small talk.
+    const asked = extractQuestions(original, LEXICONS[detectLanguage(original)]);
+    for (const question of asked.filter((entry) => !isAnswered(entry, content, language, lexicon))) {
+      add("unanswered-question", "warning", `Not answered: "${question.text}"`, trimmedEnd(body, contentEnd));
+    }
+  }
+
+  const [mention] = Array.from(body.matchAll(ATTACHMENT_MENTION));
+  const mentionEnd = mention ? mention.index + mention[0].length : 0;
+  if (attachments === undefined) {
+    if (mention) add("attachment", "info", "Mentions an attachment; remember to attach it.", mention.index, mentionEnd);
+  } else {
+    const attached = new Set(attachments.map((name) => name.toLowerCase()));
+    const files = Array.from(body.matchAll(FILE_NAME));
+    for (const file of files.filter((match) => !attached.has(match[0].toLowerCase()))) {
+      const end = file.index + file[0].length;
+      add("attachment", "warning", `${file[0]} is mentioned but not attached.`, file.index, end);
+    }
+    if (!attachments.length && mention && !files.length) {
+      add("attachment", "warning", "Mentions an attachment, but nothing is attached.", mention.index, mentionEnd);
+    }
+    const unmentioned = attachments.filter((name) => !body.toLowerCase().includes(name.toLowerCase()));
+    if (unmentioned.length && !mention) {
+      const [verb, pronoun] = unmentioned.length === 1 ? ["is", "it"] : ["are", "them"];
+      const message = `${unmentioned.join(", ")} ${verb} attached, but the draft never mentions ${pronoun}.`;
+      add("attachment", "info", message, trimmedEnd(body, contentEnd));
+    }
+  }
+
+  const stopwords = new Set(Object.values(STOPWORDS).flat());
+  for (const sentence of sentences) {
+    const tokens = wordsOf(sentence.text, sentence.start);
+    const seen = new Set<string>();
+    tokens.forEach((token, index) => {
+      const previous = tokens[index - 1];
+      if (previous && previous.word === token.word && body.slice(previous.end, token.start).trim() === "") {
+        add("repeated-word", "warning", `"${token.text}" appears twice in a row.`, token.start, token.end);
+      } else if (token.word.length >= 4 && !stopwords.has(token.word) && seen.has(token.word)) {
+        const message = `"${token.text}" is used more than once in this sentence.`;
+        add("repeated-word", "info", message, token.start, token.end);
+      }
+      seen.add(token.word);
+    });
+  }
+
+  if (english) {
+    for (const sentence of sentences) {
+      const sentenceWords = wordsOf(sentence.text, sentence.start);
+      const grade = gradeOf(sentenceWords.map((token) => token.word), 1);
+      if (sentenceWords.length > MAX_SENTENCE_WORDS || (sentenceWords.length >= 8 && grade > MAX_SENTENCE_GRADE)) {
+        add(
+          "readability",
+          "warning",
+          `Hard to read (${sentenceWords.length} words, grade ${Math.round(grade)}); split it or use shorter words.`,
+          sentence.start,
+          sentence.end,
+        );
+      }
+    }
+    for (const match of body.matchAll(PASSIVE)) {
+      if (NOT_PASSIVE.has(match[1].toLowerCase())) continue;
+      add("passive-voice", "info", "Passive voice; say who does it.", match.index, match.index + match[0].length);
+    }
+    for (const pattern of [AGGRESSIVE, SHOUTING]) {
+      for (const match of body.matchAll(pattern)) {
+        const end = match.index + match[0].length;
+        add("aggressive", "warning", `"${match[0]}" can read as aggressive.`, match.index, end);
+      }
+    }
+  }
+
+  issues.sort((a, b) => a.start - b.start || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  return {
+    language,
+    stats: {
+      words: words.length,
+      sentences: sentences.length,
+      grade:
+        english && words.length ? round(gradeOf(words.map((token) => token.word), sentences.length)) : undefined,
+      readingMinutes: Math.max(1, Math.ceil(words.length / READING_WORDS_PER_MINUTE)),
+    },
+    issues,
+  };
+}
+
+type Token = { text: string; word: string; start: number; end: number };
+
+function wordsOf(text: string, offset: number): Token[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu), (match) => ({
+    text: match[0],
+    word: match[0].toLowerCase().replace(/’/g, "'"),
+    start: offset + match.index,
+    end: offset + match.index + match[0].length,
+  }));
+}
+
+function splitSentences(content: string): { text: string; start: number; end: number }[] {
+  // A period inside "deck.pdf" or "v1.2" doesn't end the sentence.
+  return Array.from(content.matchAll(/(?:[^.!?\n]|[.!?](?=[^\s.!?]))+[.!?]*/g), (match) => {
+    const lead = match[0].length - match[0].trimStart().length;
+    const start = match.index + lead;
+    return { text: match[0].trim(), start, end: start + match[0].trim().length };
+  }).filter((sentence) => /[\p{L}\p{N}]/u.test(sentence.text));
+}
+
+/** Where the sign-off block starts, or the end of the body when there is none. */
+function signOffStart(body: string): number {
+  const lines = body.split("\n");
+  let offset = body.length;
+  // The sign-off sits within the last few lines: "Best,\nSam\nHead of Ops".
+  for (let index = lines.length - 1, seen = 0; index >= 0 && seen < 5; index -= 1) {
+    offset -= lines[index].length + (index < lines.length - 1 ? 1 : 0);
+    if (!lines[index].trim()) continue;
+    seen += 1;
+    if (SIGN_OFF.test(lines[index].trim())) return offset;
+  }
+  return body.length;
+}
+
+function trimmedEnd(body: string, end: number): number {
+  return body.slice(0, end).trimEnd().length;
+}
+
+/**
+ * A question counts as answered when the reply takes up most of its
+ * distinctive words, or some of them along with the kind of answer it asks
+ * for. Short ones ("What's the ETA?", "Thoughts?") have too few to go on, so
+ * the reply has to repeat all of their words or give that kind of answer:
+ * a yes or no, a time, a commitment, or a figure or date.
+ */
+function isAnswered(question: Question, content: string, language: Language, lexicon: Lexicon): boolean {
+  const answered = termSet(content, language, 2);
+  const terms = Array.from(termSet(question.text, language));
+  if (terms.length >= MIN_QUESTION_TERMS) {
+    const covered = terms.filter((term) => answered.has(term)).length;
+    return covered >= Math.ceil(terms.length / 2) || (covered > 0 && ANSWER_SHAPES[question.kind](content, lexicon));
+  }
+  const short = Array.from(termSet(question.text, language, 2));
+  if (short.length && short.every((term) => answered.has(term))) return true;
+  return ANSWER_SHAPES[question.kind](content, lexicon);
+}
+
+// Content words, stemmed to their first five letters so "confirm" answers "confirmation".
+function termSet(text: string, language: Language, minLength = 4): Set<string> {
+  const stopwords = new Set(STOPWORDS[language]);
+  return new Set(
+    wordsOf(text, 0)
+      .filter((token) => token.word.length >= minLength && !stopwords.has(token.word))
+      .map((token) => token.word.slice(0, 5)),
+  );
+}
+
+function gradeOf(words: string[], sentences: number): number {
+  if (!words.length) return 0;
+  const syllables = words.reduce((total, word) => total + syllablesOf(word), 0);
+  return Math.max(0, 0.39 * (words.length / Math.max(sentences, 1)) + 11.8 * (syllables / words.length) - 15.59);
+}
+
+// Vowel groups, less a silent final "e"; good enough for a grade estimate.
+function syllablesOf(word: string): number {
+  const groups = word.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(groups?.length ?? 0, 1);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,188 @@
+import { createServer, Server, Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { createImapConnector } from "./imap";
+import { MailSourceError } from "./types";
+
+type Received = { command: string; literal?: Buffer; literalWaited?: boolean };
+
+/** What the server says before the tagged completion; `status` defaults to "OK done". */
+type Answer = { untagged?: string; status?: string };
+
+let server: Server | undefined;
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve));
+  server = undefined;
+});
+
+/**
+ * An in-process IMAP server that answers each command through `answer` and
+ * dribbles its output a few bytes at a time, so responses and literals arrive
+ * split across reads.
+ */
+async function fakeImap(answer: (command: string, literal?: Buffer) => Answer) {
+  const received: Received[] = [];
+  server = createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    let waiting: { tag: string; command: string; size: number; waited: boolean } | undefined;
+    let outgoing = dribble(socket, "* OK fake IMAP ready\r\n");
+
+    const reply = (tag: string, command: string, literal?: Buffer, literalWaited?: boolean) => {
+      received.push({ command, literal, literalWaited });
+      const { untagged = "", status = "OK done" } = command === "LOGOUT" ? { untagged: "* BYE\r\n" } : answer(command, literal);
+      outgoing = outgoing.then(() => dribble(socket, `${untagged}${tag} ${status}\r\n`));
+    };
+
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        if (waiting) {
+          if (buffer.length < waiting.size + 2) return;
+          const { tag, command, size, waited } = waiting;
+          waiting = undefined;
+          reply(tag, command, Buffer.from(buffer.subarray(0, size)), waited);
+          buffer = buffer.subarray(size + 2);
+          continue;
+        }
+        const lineEnd = buffer.indexOf("\r\n");
+        if (lineEnd === -1) return;
+        const line = buffer.subarray(0, lineEnd).toString("utf8");
+        buffer = buffer.subarray(lineEnd + 2);
+        const tag = line.slice(0, line.indexOf(" "));
+        const command = line.slice(tag.length + 1);
+        const literal = command.match(/ \{(\d+)\}$/);
+        if (!literal) {
+          reply(tag, command);
+          continue;
+        }
+        // Hold the continuation back briefly: a client that sends the literal early is caught here.
+        const pending = { tag, command: command.slice(0, literal.index), size: Number(literal[1]), waited: false };
+        waiting = pending;
+        setTimeout(() => {
+          pending.waited = buffer.length === 0;
+          outgoing = outgoing.then(() => dribble(socket, "+ Ready for literal data\r\n"));
+        }, 20);
+      }
+    });
+    socket.on("error", () => undefined);
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server!.address() as AddressInfo;
+  const connector = createImapConnector({
+    host: "127.0.0.1",
+    port,
+    tls: false,
+    user: "sam",
+    password: 'pa"ss',
+    timeoutMs: 2000,
+  });
+  return { connector, received };
+}
+
+async function dribble(socket: Socket, data: string | Buffer) {
+  const bytes = Buffer.from(data);
+  for (let offset = 0; offset < bytes.length; offset += 7) {
+    if (socket.destroyed) return;
+    socket.write(bytes.subarray(offset, offset + 7));
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+function literal(text: string): string {
+  return `{${Buffer.byteLength(text)}}\r\n${text}`;
+}
+
+const FIRST = "Subject: Grüße\r\n\r\nA line that looks like a literal {3}\r\nabc\r\n";
+const SECOND = "Subject: Next\r\n\r\n* 3 FETCH (UID 99)\r\nA1 OK not really\r\n";
+
+describe("createImapConnector", () => {
+  it("lists folders with their roles and unread counts, reading literal names", async () => {
+    const { connector, received } = await fakeImap((command) => {
+      if (command === 'LIST "" "*"') {
+        return {
+          untagged: [
+            '* LIST (\\HasNoChildren) "/" "INBOX"\r\n',
+            `* LIST (\\HasNoChildren \\Drafts) "/" ${literal("Work/Drafts")}\r\n`,
+            '* LIST (\\Noselect \\HasChildren) "/" "Archive"\r\n',
+            '* LIST (\\HasNoChildren \\Sent) "/" "Sent Items"\r\n',
+          ].join(""),
+        };
+      }
+      const status = command.match(/^STATUS "(.*)" \(UNSEEN\)$/);
+      if (status) {
+        const unseen = { INBOX: 3, "Work/Drafts": 0, "Sent Items": 1 }[status[1]];
+        return { untagged: `* STATUS "${status[1]}" (UNSEEN ${unseen})\r\n` };
+      }
+      return {};
+    });
+
+    await expect(connector.listFolders()).resolves.toEqual([
+      { id: "INBOX", name: "INBOX", role: "inbox", unread: 3 },
+      { id: "Work/Drafts", name: "Drafts", role: "drafts", unread: 0 },
+      { id: "Archive", name: "Archive" },
+      { id: "Sent Items", name: "Sent Items", role: "sent", unread: 1 },
+    ]);
+    expect(received[0].command).toBe('LOGIN "sam" "pa\\"ss"');
+    expect(received.map((entry) => entry.command)).not.toContain('STATUS "Archive" (UNSEEN)');
+  });
+
+  it("fetches unread messages from byte-counted literals, oldest first", async () => {
+    const { connector, received } = await fakeImap((command) => {
+      if (command === 'EXAMINE "INBOX"') return { untagged: "* 12 EXISTS\r\n* OK [UIDVALIDITY 77] UIDs valid\r\n" };
+      if (command.startsWith("UID SEARCH")) return { untagged: "* SEARCH 9 7 4 12\r\n" };
+      if (command === "UID FETCH 7,9 (UID BODY.PEEK[])") {
+        return {
+          untagged: `* 2 FETCH (UID 9 BODY[] ${literal(SECOND)})\r\n* 1 FETCH (UID 7 BODY[] ${literal(FIRST)})\r\n`,
+        };
+      }
+      return {};
+    });
+
+    await expect(connector.fetchUnread("INBOX", "77:4", 2)).resolves.toEqual({
+      messages: [
+        { id: "7", raw: FIRST },
+        { id: "9", raw: SECOND },
+      ],
+      cursor: "77:9",
+      more: true,
+    });
+    expect(received.map((entry) => entry.command)).toContain("UID SEARCH UNSEEN UID 5:*");
+  });
+
+  it("starts over when the server's UIDVALIDITY no longer matches the cursor", async () => {
+    const { connector, received } = await fakeImap((command) =>
+      command === 'EXAMINE "INBOX"' ? { untagged: "* OK [UIDVALIDITY 78] UIDs valid\r\n" } : {},
+    );
+
+    await expect(connector.fetchUnread("INBOX", "77:4", 10)).resolves.toEqual({
+      messages: [],
+      cursor: "78:0",
+      more: false,
+    });
+    expect(received.map((entry) => entry.command)).toContain("UID SEARCH UNSEEN UID 1:*");
+  });
+
+  it("appends drafts as a literal only after the server asks for it", async () => {
+    const raw = "Subject: Entwurf\r\n\r\nHallo Jürgen,\r\n.\r\nbis bald\r\n";
+    const { connector, received } = await fakeImap((command) =>
+      command === 'LIST "" "*"' ? { untagged: '* LIST (\\HasNoChildren \\Drafts) "/" "Entwürfe"\r\n' } : {},
+    );
+
+    await expect(connector.saveDraft(raw)).resolves.toEqual({ folder: "Entwürfe" });
+    const append = received.find((entry) => entry.command.startsWith("APPEND"));
+    expect(append?.command).toBe('APPEND "Entwürfe" (\\Draft \\Seen)');
+    expect(append?.literal?.toString("utf8")).toBe(raw);
+    expect(append?.literalWaited).toBe(true);
+  });
+
+  it("rejects with the server's reason when a command fails", async () => {
+    const { connector } = await fakeImap((command) =>
+      command.startsWith("LOGIN") ? { status: "NO [AUTHENTICATIONFAILED] Invalid credentials" } : {},
+    );
+
+    const listed = connector.listFolders();
+    await expect(listed).rejects.toThrow(MailSourceError);
+    await expect(listed).rejects.toThrow("IMAP command failed: NO [AUTHENTICATIONFAILED] Invalid credentials");
+  });
+});
@@ -0,0 +1,260 @@
+import { connect as connectPlain, Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+import { MailConnector, MailFolder, MailSourceError } from "./types";
+
+export type ImapConfig = {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 993). Turn off only for local test servers such as GreenMail on 3143. */
+  tls: boolean;
+  user: string;
+  password: string;
+  timeoutMs: number;
+};
+
+/** One untagged server response, with any literals it carried in order. */
+type ImapResponse = {
+  text: string;
+  literals: Buffer[];
+};
+
+type ImapSession = {
+  /** Sends `line`; a `literal` goes after it as "{n}" data once the server asks to continue. */
+  command(line: string, literal?: Buffer): Promise<ImapResponse[]>;
+};
+
+type PendingCommand = {
+  tag: string;
+  literal?: Buffer;
+  resolve: (responses: ImapResponse[]) => void;
+  reject: (error: Error) => void;
+};
+
+// Listing unread counts costs a STATUS round trip per folder.
+const MAX_STATUS_FOLDERS = 50;
+
+/**
+ * A minimal IMAP4rev1 client (RFC 3501): LOGIN, LIST, STATUS, EXAMINE, UID
+ * SEARCH, UID FETCH with BODY.PEEK and APPEND, one connection per call.
+ * Mailboxes are opened read-only, so pulling never marks mail as seen. The
+ * cursor is "uidvalidity:lastuid"; when the server resets UIDVALIDITY the
+ * cursor no longer applies and the pull starts over from the oldest unread
+ * message. Drafts go to the folder flagged \Drafts, or "Drafts".
+ */
+export function createImapConnector(config: ImapConfig): MailConnector {
+  return {
+    listFolders() {
+      return withSession(config, async (session) => {
+        const listed = await listFolders(session);
+        const folders: MailFolder[] = [];
+        for (const [index, folder] of listed.entries()) {
+          if (index >= MAX_STATUS_FOLDERS || !folder.selectable) {
+            folders.push({ id: folder.id, name: folder.name, role: folder.role });
+            continue;
+          }
+          const status = await session.command(`STATUS ${quote(folder.id)} (UNSEEN)`);
+          const unread = status.map((response) => response.text.match(/\bUNSEEN (\d+)/i)?.[1]).find(Boolean);
+          folders.push({ id: folder.id, name: folder.name, role: folder.role, unread: Number(unread ?? 0) });
+        }
+        return folders;
+      });
+    },
+
+    fetchUnread(folder, cursor, limit) {
+      return withSession(config, async (session) => {
+        const examined = await session.command(`EXAMINE ${quote(folder)}`);
+        const validity = examined.map((response) => response.text.match(/\[UIDVALIDITY (\d+)\]/i)?.[1]).find(Boolean);
+        const [cursorValidity, cursorUid] = cursor?.split(":") ?? [];
+        const lastUid = cursorValidity === validity ? Number(cursorUid) || 0 : 0;
+
+        // "n:*" always matches the newest message, even below n, so filter again.
+        const searched = await session.command(`UID SEARCH UNSEEN UID ${lastUid + 1}:*`);
+        const uids = searched
+          .filter((response) => /^SEARCH\b/i.test(response.text))
+          .flatMap((response) => response.text.split(/\s+/).slice(1).map(Number))
+          .filter((uid) => Number.isInteger(uid) && uid > lastUid)
+          .sort((a, b) => a - b);
+        const batch = uids.slice(0, limit);
+        if (!batch.length) {
+          return { messages: [], cursor: `${validity ?? ""}:${lastUid}`, more: false };
+        }
+
+        const fetched = await session.command(`UID FETCH ${batch.join(",")} (UID BODY.PEEK[])`);
+        const messages = fetched.flatMap((response) => {
+          const uid = response.text.match(/\bUID (\d+)/i)?.[1];
+          return /^\d+ FETCH\b/i.test(response.text) && uid && response.literals[0]
+            ? [{ id: uid, raw: response.literals[0].toString("utf8") }]
+            : [];
+        });
+        messages.sort((a, b) => Number(a.id) - Number(b.id));
+        return {
+          messages,
+          cursor: `${validity ?? ""}:${batch[batch.length - 1]}`,
+          more: uids.length > batch.length,
+        };
+      });
+    },
+
+    saveDraft(raw) {
+      return withSession(config, async (session) => {
+        const drafts = (await listFolders(session)).find((folder) => folder.role === "drafts");
+        const folder = drafts?.id ?? "Drafts";
+        await session.command(`APPEND ${quote(folder)} (\\Draft \\Seen)`, Buffer.from(raw, "utf8"));
+        return { folder };
+      });
+    },
+  };
+}
+
+async function listFolders(session: ImapSession): Promise<ListedFolder[]> {
+  return (await session.command('LIST "" "*"')).flatMap((response) => {
+    const folder = parseList(response);
+    return folder ? [folder] : [];
+  });
+}
+
+async function withSession<T>(config: ImapConfig, run: (session: ImapSession) => Promise<T>): Promise<T> {
+  const socket = config.tls
+    ? connectTls({ host: config.host, port: config.port, servername: config.host })
+    : connectPlain({ host: config.host, port: config.port });
+  const session = openSession(socket, config.timeoutMs);
+  try {
+    await session.ready;
+    await session.command(`LOGIN ${quote(config.user)} ${quote(config.password)}`);
+    const result = await run(session);
+    await session.command("LOGOUT").catch(() => undefined);
+    return result;
+  } finally {
+    socket.destroy();
+  }
+}
+
+/**
+ * Frames server output into responses and matches tagged completions to
+ * commands. A line ending in "{n}" is followed by n bytes of literal data that
+ * belong to the same response.
+ */
+function openSession(socket: Socket, timeoutMs: number): ImapSession & { ready: Promise<void> } {
+  let buffer = Buffer.alloc(0);
+  let pending: ImapResponse = { text: "", literals: [] };
+  let untagged: ImapResponse[] = [];
+  let current: PendingCommand | undefined;
+  let greeted: { resolve: () => void; reject: (error: Error) => void } | undefined;
+  let failure: Error | undefined;
+  let sequence = 0;
+
+  const ready = new Promise<void>((resolve, reject) => {
+    greeted = { resolve, reject };
+  });
+
+  const fail = (error: Error) => {
+    failure ??= error;
+    greeted?.reject(failure);
+    current?.reject(failure);
+    greeted = undefined;
+    current = undefined;
+  };
+
+  const complete = (response: ImapResponse) => {
+    if (response.text.startsWith("+")) {
+      if (current?.literal) {
+        socket.write(Buffer.concat([current.literal, Buffer.from("\r\n")]));
+        current.literal = undefined;
+      }
+      return;
+    }
+    if (greeted) {
+      if (/^\* (?:OK|PREAUTH)\b/i.test(response.text)) greeted.resolve();
+      else greeted.reject(new MailSourceError(`Unexpected IMAP greeting: ${response.text}`));
+      greeted = undefined;
+      return;
+    }
+    if (response.text.startsWith("* ")) {
+      untagged.push({ text: response.text.slice(2), literals: response.literals });
+      return;
+    }
+    if (current && response.text.startsWith(`${current.tag} `)) {
+      const { resolve, reject } = current;
+      const responses = untagged;
+      current = undefined;
+      untagged = [];
+      const status = response.text.slice(response.text.indexOf(" ") + 1);
+      if (/^OK\b/i.test(status)) resolve(responses);
+      else reject(new MailSourceError(`IMAP command failed: ${status}`));
+    }
+  };
+
+  socket.setTimeout(timeoutMs, () => fail(new MailSourceError("The IMAP server did not answer in time.")));
+  socket.on("error", (error) => fail(new MailSourceError(`Could not reach the IMAP server: ${error.message}`)));
+  socket.on("close", () => fail(new MailSourceError("The IMAP server closed the connection.")));
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const lineEnd = buffer.indexOf("\r\n");
+      if (lineEnd === -1) return;
+      const line = buffer.subarray(0, lineEnd).toString("utf8");
+      const literal = line.match(/\{(\d+)\}$/);
+      if (literal) {
+        const size = Number(literal[1]);
+        if (buffer.length < lineEnd + 2 + size) return;
+        pending.text += line;
+        pending.literals.push(Buffer.from(buffer.subarray(lineEnd + 2, lineEnd + 2 + size)));
+        buffer = buffer.subarray(lineEnd + 2 + size);
+        continue;
+      }
+      pending.text += line;
+      buffer = buffer.subarray(lineEnd + 2);
+      const response = pending;
+      pending = { text: "", literals: [] };
+      complete(response);
+    }
+  });
+
+  return {
+    ready,
+    command(line, literal) {
+      if (failure) return Promise.reject(failure);
+      sequence += 1;
+      const tag = `A${sequence}`;
+      return new Promise<ImapResponse[]>((resolve, reject) => {
+        current = { tag, literal, resolve, reject };
+        socket.write(`${tag} ${line}${literal ? ` {${literal.length}}` : ""}\r\n`);
+      });
+    },
+  };
+}
+
+type ListedFolder = MailFolder & { selectable: boolean };
+
+// * LIST (\HasNoChildren \Sent) "/" "Sent Items"
+function parseList(response: ImapResponse): ListedFolder | undefined {
+  const match = response.text.match(/^LIST \(([^)]*)\) (?:"((?:[^"\\]|\\.)*)"|NIL) (.*)$/i);
+  if (!match) return undefined;
+  const [, flags, delimiter, rawName] = match;
+  const id = rawName.startsWith("{") && response.literals[0]
+    ? response.literals[0].toString("utf8")
+    : unquote(rawName);
+  const lowerFlags = flags.toLowerCase().split(/\s+/);
+  const role = id.toUpperCase() === "INBOX"
+    ? "inbox"
+    : ["sent", "drafts", "trash", "junk", "archive", "all", "flagged"].find((candidate) =>
+        lowerFlags.includes(`\\${candidate}`),
+      );
+  return {
+    id,
+    name: delimiter ? id.split(unquote(`"${delimiter}"`)).pop() || id : id,
+    role,
+    selectable: !lowerFlags.includes("\\noselect") && !lowerFlags.includes("\\nonexistent"),
+  };
+}
+
+function quote(value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new MailSourceError("IMAP names and credentials cannot contain line breaks.");
+  }
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, "$1") : value;
+}
@@ -0,0 +1,112 @@
+import { getDatabase } from "@/lib/db";
+import { EmailAddress, parseAddressList } from "@/lib/mime";
+import { createImapConnector } from "./imap";
+import { createJmapConnector } from "./jmap";
+import { createSmtpTransport, SmtpSecurity } from "./smtp";
+import { createSqliteMailCursorStore, createSqliteSentLog } from "./sqlite";
+import type { MailConnector, MailCursorStore, MailSource, MailSourceKind, MailTransport, SentLog } from "./types";
+
+export type * from "./types";
+export { MailSourceError } from "./types";
+export { createImapConnector } from "./imap";
+export type { ImapConfig } from "./imap";
+export { createJmapConnector } from "./jmap";
+export type { JmapConfig } from "./jmap";
+export { createSmtpTransport } from "./smtp";
+export type { SmtpConfig, SmtpSecurity } from "./smtp";
+export { createSqliteMailCursorStore, createSqliteSentLog } from "./sqlite";
+
+const SMTP_SECURITY: SmtpSecurity[] = ["tls", "starttls", "none"];
+const SMTP_PORTS: Record<SmtpSecurity, number> = { tls: 465, starttls: 587, none: 25 };
+
+let cursors: MailCursorStore | undefined;
+let sentLog: SentLog | undefined;
+
+export function getMailCursorStore(): MailCursorStore {
+  cursors ??= createSqliteMailCursorStore(getDatabase());
+  return cursors;
+}
+
+export function getSentLog(): SentLog {
+  sentLog ??= createSqliteSentLog(getDatabase());
+  return sentLog;
+}
+
+/** The SMTP relay from `AGENT_SMTP_HOST` and friends, if one is configured. */
+export function getMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport | undefined {
+  if (!env.AGENT_SMTP_HOST) return undefined;
+  const security = SMTP_SECURITY.find((candidate) => candidate === env.AGENT_SMTP_SECURITY) ?? "starttls";
+  return createSmtpTransport({
+    host: env.AGENT_SMTP_HOST,
+    port: Number(env.AGENT_SMTP_PORT) || SMTP_PORTS[security],
+    security,
+    user: env.AGENT_SMTP_USER || undefined,
+    password: env.AGENT_SMTP_PASSWORD,
+    timeoutMs: Number(env.AGENT_MAIL_TIMEOUT_MS) || 20000,
+  });
+}
+
+/**
+ * Who outgoing mail is from: `AGENT_MAIL_FROM` ("Jordan <jordan@example.com>"),
+ * or else an SMTP or IMAP user name that is an email address.
+ */
+export function getSenderAddress(env: NodeJS.ProcessEnv = process.env): EmailAddress | undefined {
+  return [env.AGENT_MAIL_FROM, env.AGENT_SMTP_USER, env.AGENT_IMAP_USER, env.AGENT_JMAP_USER]
+    .map((value) => parseAddressList(value ?? "")[0])
+    .find(Boolean);
+}
+
+/**
+ * The mailboxes configured through environment variables: `AGENT_IMAP_HOST`
+ * and friends for IMAP, `AGENT_JMAP_SESSION_URL` for JMAP. Credentials stay in
+ * the environment; callers only ever see the account.
+ */
+export function listMailSources(env: NodeJS.ProcessEnv = process.env): MailSource[] {
+  return configuredSources(env).map(({ source }) => source);
+}
+
+export function getMailConnector(
+  id: MailSourceKind,
+  env: NodeJS.ProcessEnv = process.env,
+): { source: MailSource; connector: MailConnector } | undefined {
+  return configuredSources(env).find(({ source }) => source.id === id);
+}
+
+function configuredSources(env: NodeJS.ProcessEnv): { source: MailSource; connector: MailConnector }[] {
+  const timeoutMs = Number(env.AGENT_MAIL_TIMEOUT_MS) || 20000;
+  const sources: { source: MailSource; connector: MailConnector }[] = [];
+
+  if (env.AGENT_IMAP_HOST && env.AGENT_IMAP_USER) {
+    const tls = env.AGENT_IMAP_TLS !== "false";
+    sources.push({
+      source: { id: "imap", account: `${env.AGENT_IMAP_USER}@${env.AGENT_IMAP_HOST}` },
+      connector: createImapConnector({
+        host: env.AGENT_IMAP_HOST,
+        port: Number(env.AGENT_IMAP_PORT) || (tls ? 993 : 143),
+        tls,
+        user: env.AGENT_IMAP_USER,
+        password: env.AGENT_IMAP_PASSWORD ?? "",
+        timeoutMs,
+      }),
+    });
+  }
+
+  const sessionUrl = env.AGENT_JMAP_SESSION_URL;
+  if (sessionUrl && (env.AGENT_JMAP_TOKEN || env.AGENT_JMAP_USER)) {
+    const host = URL.canParse(sessionUrl) ? new URL(sessionUrl).host : undefined;
+    const authorization = env.AGENT_JMAP_TOKEN
+      ? `Bearer ${env.AGENT_JMAP_TOKEN}`
+      : `Basic ${Buffer.from(`${env.AGENT_JMAP_USER}:${env.AGENT_JMAP_PASSWORD ?? ""}`).toString("base64")}`;
+    if (!host) {
+      // Left out like an unconfigured source, so requests get a configuration error rather than a crash.
+      console.warn(`Ignoring the jmap source: AGENT_JMAP_SESSION_URL is not a valid URL (${sessionUrl})`);
+    } else {
+      sources.push({
+        source: { id: "jmap", account: env.AGENT_JMAP_USER ? `${env.AGENT_JMAP_USER}@${host}` : host },
+        connector: createJmapConnector({ sessionUrl, authorization, timeoutMs }),
+      });
+    }
+  }
+
+  return sources;
+}
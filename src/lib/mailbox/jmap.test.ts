@@ -0,0 +1,200 @@
+import { createServer, IncomingMessage, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createJmapConnector } from "./jmap";
+import { MailSourceError } from "./types";
+
+type Email = { id: string; blobId: string; receivedAt: string; mailboxId: string; seen?: boolean; raw: string };
+
+type Filter = { conditions: ({ inMailbox: string } | { operator: "NOT"; conditions: [{ before: string }] })[] };
+
+const AUTHORIZATION = "Bearer test-token";
+
+const MAILBOXES = [
+  { id: "mb-in", name: "Posteingang", role: "inbox", unreadEmails: 3 },
+  { id: "mb-drafts", name: "Drafts", role: "drafts", unreadEmails: 0 },
+  { id: "mb-news", name: "Newsletters", role: null, unreadEmails: 1 },
+];
+
+let server: Server;
+let emails: Email[];
+let session: Record<string, unknown>;
+let uploads: string[];
+let imports: unknown[];
+let importError: string | undefined;
+// Ids of the last Email/query, for the Email/get that references it.
+let queried: string[] = [];
+
+beforeEach(async () => {
+  emails = [];
+  uploads = [];
+  imports = [];
+  importError = undefined;
+  // Relative URLs, as servers may send them; the connector resolves them against the session URL.
+  session = {
+    apiUrl: "/jmap/api",
+    downloadUrl: "/jmap/download/{accountId}/{blobId}/{name}?type={type}",
+    uploadUrl: "/jmap/upload/{accountId}/",
+    primaryAccounts: { "urn:ietf:params:jmap:mail": "acc-1" },
+  };
+  server = createServer(async (request, response) => {
+    const reply = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(typeof body === "string" ? body : JSON.stringify(body));
+    };
+    if (request.headers.authorization !== AUTHORIZATION) return reply(401, {});
+
+    const url = new URL(request.url ?? "/", "http://fake");
+    if (url.pathname === "/jmap/session") return reply(200, session);
+    if (url.pathname === "/jmap/upload/acc-1/") {
+      uploads.push(await readBody(request));
+      return reply(201, { blobId: `blob-up-${uploads.length}` });
+    }
+    const download = url.pathname.match(/^\/jmap\/download\/acc-1\/([^/]+)\//);
+    if (download) {
+      const email = emails.find((candidate) => candidate.blobId === decodeURIComponent(download[1]));
+      return email ? reply(200, email.raw) : reply(404, {});
+    }
+    if (url.pathname === "/jmap/api") {
+      const { methodCalls } = JSON.parse(await readBody(request)) as { methodCalls: [string, Record<string, unknown>, string][] };
+      return reply(200, { methodResponses: methodCalls.map(([name, args, id]) => [name, respond(name, args), id]) });
+    }
+    reply(404, {});
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// The slice of JMAP Mail the connector uses: Mailbox/get, Email/query with a back-referenced Email/get, and Email/import.
+function respond(name: string, args: Record<string, unknown>): Record<string, unknown> {
+  if (name === "Mailbox/get") return { list: MAILBOXES };
+  if (name === "Email/query") {
+    const { conditions } = args.filter as Filter;
+    queried = emails
+      .filter((email) => !email.seen)
+      .filter((email) =>
+        conditions.every((condition) =>
+          "inMailbox" in condition
+            ? email.mailboxId === condition.inMailbox
+            : email.receivedAt >= condition.conditions[0].before,
+        ),
+      )
+      .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt))
+      .slice(0, args.limit as number)
+      .map((email) => email.id);
+    return { ids: queried };
+  }
+  if (name === "Email/get") {
+    return {
+      list: emails
+        .filter((email) => queried.includes(email.id))
+        .map(({ id, blobId, receivedAt }) => ({ id, blobId, receivedAt })),
+    };
+  }
+  if (name === "Email/import") {
+    imports.push(args);
+    return importError ? { notCreated: { draft: { type: importError } } } : { created: { draft: { id: "e-new" } } };
+  }
+  return {};
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+  });
+}
+
+function connector(authorization = AUTHORIZATION) {
+  const { port } = server.address() as AddressInfo;
+  return createJmapConnector({ sessionUrl: `http://127.0.0.1:${port}/jmap/session`, authorization, timeoutMs: 2000 });
+}
+
+function email(id: string, receivedAt: string, mailboxId = "mb-in"): Email {
+  return { id, blobId: `blob-${id}`, receivedAt, mailboxId, raw: `Subject: ${id}\r\n\r\nBody of ${id}\r\n` };
+}
+
+describe("createJmapConnector", () => {
+  it("lists mailboxes with their roles and unread counts", async () => {
+    await expect(connector().listFolders()).resolves.toEqual([
+      { id: "mb-in", name: "Posteingang", role: "inbox", unread: 3 },
+      { id: "mb-drafts", name: "Drafts", role: "drafts", unread: 0 },
+      { id: "mb-news", name: "Newsletters", role: undefined, unread: 1 },
+    ]);
+  });
+
+  it("pages through unread mail without skipping or repeating messages that share a timestamp", async () => {
+    emails = [
+      email("e1", "2026-03-02T09:00:00Z"),
+      email("e2", "2026-03-02T10:00:00Z"),
+      email("e3", "2026-03-02T10:00:00Z"),
+      email("e4", "2026-03-02T11:00:00Z"),
+      email("other", "2026-03-02T09:30:00Z", "mb-news"),
+      { ...email("read", "2026-03-02T09:45:00Z"), seen: true },
+    ];
+    const mailbox = connector();
+
+    const first = await mailbox.fetchUnread("INBOX", undefined, 2);
+    expect(first).toEqual({
+      messages: [
+        { id: "e1", raw: emails[0].raw },
+        { id: "e2", raw: emails[1].raw },
+      ],
+      cursor: "2026-03-02T10:00:00Z e2",
+      more: true,
+    });
+
+    const second = await mailbox.fetchUnread("INBOX", first.cursor, 2);
+    expect(second.messages.map((message) => message.id)).toEqual(["e3", "e4"]);
+    expect(second).toMatchObject({ cursor: "2026-03-02T11:00:00Z e4", more: false });
+
+    await expect(mailbox.fetchUnread("INBOX", second.cursor, 2)).resolves.toEqual({
+      messages: [],
+      cursor: second.cursor,
+      more: false,
+    });
+  });
+
+  it("refuses folders the account does not have", async () => {
+    await expect(connector().fetchUnread("Archive", undefined, 5)).rejects.toThrow(
+      "No mailbox named Archive on the JMAP server.",
+    );
+  });
+
+  it("uploads drafts and imports them into the drafts mailbox", async () => {
+    const raw = "Subject: Entwurf\r\n\r\nHallo\r\n";
+
+    await expect(connector().saveDraft(raw)).resolves.toEqual({ folder: "Drafts" });
+    expect(uploads).toEqual([raw]);
+    expect(imports).toEqual([
+      {
+        accountId: "acc-1",
+        emails: {
+          draft: { blobId: "blob-up-1", mailboxIds: { "mb-drafts": true }, keywords: { $draft: true, $seen: true } },
+        },
+      },
+    ]);
+  });
+
+  it("reports a draft the server would not save", async () => {
+    importError = "overQuota";
+
+    await expect(connector().saveDraft("Subject: x\r\n\r\ny\r\n")).rejects.toThrow(
+      "The JMAP server did not save the draft: overQuota",
+    );
+  });
+
+  it("reports rejected credentials and sessions without mail", async () => {
+    const rejected = connector("Bearer wrong").listFolders();
+    await expect(rejected).rejects.toThrow(MailSourceError);
+    await expect(rejected).rejects.toThrow("The JMAP server rejected the credentials.");
+
+    session.primaryAccounts = {};
+    await expect(connector().listFolders()).rejects.toThrow("The JMAP session does not offer a mail account.");
+  });
+});
@@ -0,0 +1,233 @@
+import { MailConnector, MailSourceError } from "./types";
+
+export type JmapConfig = {
+  /** The session resource, such as https://api.fastmail.com/jmap/session. */
+  sessionUrl: string;
+  /** Sent as `Authorization`: "Bearer …" for API tokens, "Basic …" for a user and password. */
+  authorization: string;
+  timeoutMs: number;
+};
+
+type JmapSession = {
+  apiUrl: string;
+  downloadUrl: string;
+  uploadUrl: string;
+  accountId: string;
+};
+
+const MAIL_CAPABILITY = "urn:ietf:params:jmap:mail";
+
+/**
+ * A JMAP (RFC 8620/8621) mail connector. Folders are JMAP mailboxes, addressed
+ * by id; "INBOX" also finds the mailbox with the inbox role. The cursor is the
+ * newest `receivedAt` pulled so far plus the ids pulled at that instant, so
+ * messages that share a timestamp are neither skipped nor pulled twice.
+ * Drafts are uploaded and imported into the mailbox with the drafts role.
+ */
+export function createJmapConnector(config: JmapConfig): MailConnector {
+  const call = async (session: JmapSession, methodCalls: unknown[]) => {
+    const { methodResponses } = await request(
+      config,
+      session.apiUrl,
+      (response) => response.json() as Promise<{ methodResponses: [string, Record<string, unknown>][] }>,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ using: ["urn:ietf:params:jmap:core", MAIL_CAPABILITY], methodCalls }),
+      },
+    );
+    const failed = methodResponses.find(([name]) => name === "error");
+    if (failed) {
+      throw new MailSourceError(`JMAP request failed: ${String(failed[1].type)}`);
+    }
+    return methodResponses.map(([, result]) => result);
+  };
+
+  const mailboxes = async (session: JmapSession) => {
+    const [result] = await call(session, [
+      ["Mailbox/get", { accountId: session.accountId, properties: ["id", "name", "role", "unreadEmails"] }, "0"],
+    ]);
+    return result.list as { id: string; name: string; role?: string | null; unreadEmails?: number }[];
+  };
+
+  return {
+    async listFolders() {
+      const session = await openSession(config);
+      return (await mailboxes(session)).map((mailbox) => ({
+        id: mailbox.id,
+        name: mailbox.name,
+        role: mailbox.role ?? undefined,
+        unread: mailbox.unreadEmails,
+      }));
+    },
+
+    async fetchUnread(folder, cursor, limit) {
+      const session = await openSession(config);
+      const mailbox = (await mailboxes(session)).find(
+        (candidate) =>
+          candidate.id === folder ||
+          candidate.name === folder ||
+          (folder.toUpperCase() === "INBOX" && candidate.role === "inbox"),
+      );
+      if (!mailbox) {
+        throw new MailSourceError(`No mailbox named ${folder} on the JMAP server.`);
+      }
+
+      const [since, seenIds = ""] = cursor?.split(" ") ?? [];
+      const seen = new Set(seenIds.split(",").filter(Boolean));
+      const conditions: unknown[] = [{ inMailbox: mailbox.id, notKeyword: "$seen" }];
+      // "Not before" is the inclusive "after" JMAP lacks; ids already pulled at that instant are skipped below.
+      if (since) conditions.push({ operator: "NOT", conditions: [{ before: since }] });
+
+      const [, got] = await call(session, [
+        [
+          "Email/query",
+          {
+            accountId: session.accountId,
+            filter: { operator: "AND", conditions },
+            sort: [{ property: "receivedAt", isAscending: true }],
+            limit: limit + seen.size + 1,
+          },
+          "0",
+        ],
+        [
+          "Email/get",
+          {
+            accountId: session.accountId,
+            "#ids": { resultOf: "0", name: "Email/query", path: "/ids" },
+            properties: ["id", "blobId", "receivedAt"],
+          },
+          "1",
+        ],
+      ]);
+      const emails = (got.list as { id: string; blobId: string; receivedAt: string }[])
+        .filter((email) => !seen.has(email.id))
+        .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+      const batch = emails.slice(0, limit);
+      if (!batch.length) {
+        return { messages: [], cursor: cursor ?? "", more: false };
+      }
+
+      const messages = [];
+      for (const email of batch) {
+        const url = session.downloadUrl
+          .replace("{accountId}", encodeURIComponent(session.accountId))
+          .replace("{blobId}", encodeURIComponent(email.blobId))
+          .replace("{type}", encodeURIComponent("message/rfc822"))
+          .replace("{name}", encodeURIComponent(`${email.id}.eml`));
+        messages.push({ id: email.id, raw: await request(config, url, (response) => response.text()) });
+      }
+
+      const newest = batch[batch.length - 1].receivedAt;
+      const atNewest = new Set(newest === since ? seen : []);
+      for (const email of batch.filter((candidate) => candidate.receivedAt === newest)) atNewest.add(email.id);
+      return {
+        messages,
+        cursor: `${newest} ${Array.from(atNewest).join(",")}`,
+        more: emails.length > batch.length,
+      };
+    },
+
+    async saveDraft(raw) {
+      const session = await openSession(config);
+      const drafts = (await mailboxes(session)).find(
+        (candidate) => candidate.role === "drafts" || candidate.name === "Drafts",
+      );
+      if (!drafts) {
+        throw new MailSourceError("The JMAP account has no Drafts mailbox.");
+      }
+
+      const { blobId } = await request(
+        config,
+        session.uploadUrl.replace("{accountId}", encodeURIComponent(session.accountId)),
+        (response) => response.json() as Promise<{ blobId: string }>,
+        { method: "POST", headers: { "Content-Type": "message/rfc822" }, body: raw },
+      );
+      const [imported] = await call(session, [
+        [
+          "Email/import",
+          {
+            accountId: session.accountId,
+            emails: {
+              draft: { blobId, mailboxIds: { [drafts.id]: true }, keywords: { $draft: true, $seen: true } },
+            },
+          },
+          "0",
+        ],
+      ]);
+      const notCreated = (imported.notCreated as Record<string, { type?: string }> | undefined)?.draft;
+      if (notCreated) {
+        throw new MailSourceError(`The JMAP server did not save the draft: ${String(notCreated.type)}`);
+      }
+      return { folder: drafts.name };
+    },
+  };
+}
+
+async function openSession(config: JmapConfig): Promise<JmapSession> {
+  const session = await request(
+    config,
+    config.sessionUrl,
+    (response) =>
+      response.json() as Promise<{
+        apiUrl?: string;
+        downloadUrl?: string;
+        uploadUrl?: string;
+        primaryAccounts?: Record<string, string>;
+      }>,
+  );
+  const accountId = session.primaryAccounts?.[MAIL_CAPABILITY];
+  if (!session.apiUrl || !session.downloadUrl || !session.uploadUrl || !accountId) {
+    throw new MailSourceError("The JMAP session does not offer a mail account.");
+  }
+  // Session URLs may be relative to the session resource.
+  return {
+    apiUrl: new URL(session.apiUrl, config.sessionUrl).toString(),
+    downloadUrl: absoluteTemplate(session.downloadUrl, config.sessionUrl),
+    uploadUrl: absoluteTemplate(session.uploadUrl, config.sessionUrl),
+    accountId,
+  };
+}
+
+/** Fetches `url` and reads the body with `read`; the timeout covers both. */
+async function request<T>(
+  config: JmapConfig,
+  url: string,
+  read: (response: Response) => Promise<T>,
+  init: RequestInit = {},
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: config.authorization },
+      signal: controller.signal,
+    }).catch(() => {
+      throw new MailSourceError(
+        controller.signal.aborted ? "The JMAP server did not answer in time." : "Could not reach the JMAP server.",
+      );
+    });
+    if (response.status === 401 || response.status === 403) {
+      throw new MailSourceError("The JMAP server rejected the credentials.");
+    }
+    if (!response.ok) {
+      throw new MailSourceError(`The JMAP server answered with status ${response.status}.`);
+    }
+    return await read(response);
+  } catch (error) {
+    if (error instanceof MailSourceError) throw error;
+    throw new MailSourceError("The JMAP server sent a response we could not read.");
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// new URL() would escape the {placeholders}, so only resolve the part before them.
+function absoluteTemplate(template: string, base: string): string {
+  if (/^https?:\/\//i.test(template)) return template;
+  const placeholder = template.indexOf("{");
+  const prefix = placeholder === -1 ? template : template.slice(0, placeholder);
+  return new URL(prefix, base).toString() + template.slice(prefix.length);
+}
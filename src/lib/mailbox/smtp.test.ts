@@ -0,0 +1,173 @@
+import { createServer, Server, Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { createSmtpTransport, SmtpConfig } from "./smtp";
+import { MailSourceError } from "./types";
+
+type FakeSmtp = {
+  /** EHLO keywords after the greeting line, such as "AUTH PLAIN LOGIN". */
+  extensions?: string[];
+  /** A reply that overrides the usual one, such as "550 No such user" for a RCPT. */
+  refuse?: (command: string) => string | undefined;
+};
+
+type Transcript = { commands: string[]; data: string[] };
+
+let server: Server | undefined;
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve));
+  server = undefined;
+});
+
+/**
+ * An in-process SMTP server that accepts everything unless `refuse` says
+ * otherwise and keeps the message lines exactly as they came over the wire.
+ * Replies are sent a few bytes at a time so multi-line replies arrive split.
+ */
+async function fakeSmtp({ extensions = [], refuse = () => undefined }: FakeSmtp = {}) {
+  const transcript: Transcript = { commands: [], data: [] };
+  server = createServer((socket) => {
+    let buffer = "";
+    let reading: "commands" | "data" | "login-user" | "login-password" = "commands";
+    let outgoing = dribble(socket, "220 fake.example ESMTP\r\n");
+    const send = (reply: string) => {
+      outgoing = outgoing.then(() => dribble(socket, `${reply}\r\n`));
+    };
+
+    const answer = (line: string) => {
+      if (reading === "data") {
+        if (line !== ".") return transcript.data.push(line);
+        reading = "commands";
+        return send(refuse("<message>") ?? "250 2.0.0 Queued as ABC123");
+      }
+      transcript.commands.push(line);
+      if (reading === "login-user") {
+        reading = "login-password";
+        return send("334 UGFzc3dvcmQ6");
+      }
+      if (reading === "login-password") {
+        reading = "commands";
+        return send(refuse(line) ?? "235 2.7.0 Authenticated");
+      }
+      const refused = refuse(line);
+      if (refused) return send(refused);
+      const verb = line.split(" ")[0].toUpperCase();
+      if (verb === "EHLO") {
+        const lines = ["fake.example greets you", ...extensions];
+        return send(lines.map((entry, index) => `250${index === lines.length - 1 ? " " : "-"}${entry}`).join("\r\n"));
+      }
+      if (verb === "AUTH" && line === "AUTH LOGIN") {
+        reading = "login-user";
+        return send("334 VXNlcm5hbWU6");
+      }
+      if (verb === "AUTH") return send("235 2.7.0 Authenticated");
+      if (verb === "DATA") {
+        reading = "data";
+        return send("354 End data with <CR><LF>.<CR><LF>");
+      }
+      if (verb === "QUIT") {
+        send("221 2.0.0 Bye");
+        outgoing = outgoing.then(() => void socket.end());
+        return;
+      }
+      send("250 2.1.0 OK");
+    };
+
+    socket.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString("utf8");
+      for (let lineEnd = buffer.indexOf("\r\n"); lineEnd !== -1; lineEnd = buffer.indexOf("\r\n")) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        answer(line);
+      }
+    });
+    socket.on("error", () => undefined);
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server!.address() as AddressInfo;
+  const transport = (config: Partial<SmtpConfig> = {}) =>
+    createSmtpTransport({ host: "127.0.0.1", port, security: "none", timeoutMs: 2000, ...config });
+  return { transport, transcript };
+}
+
+async function dribble(socket: Socket, data: string) {
+  for (let offset = 0; offset < data.length; offset += 5) {
+    if (socket.destroyed) return;
+    socket.write(data.slice(offset, offset + 5));
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+const ENVELOPE = { from: "sam@example.com", recipients: ["priya@example.com", "ops@example.com"] };
+
+const MESSAGE = "Subject: Dots\n\n.hidden\n..two\n.\nend\n";
+
+describe("createSmtpTransport", () => {
+  it("dot-stuffs the message and returns the server's final reply", async () => {
+    const { transport, transcript } = await fakeSmtp();
+
+    await expect(transport().send(ENVELOPE, MESSAGE)).resolves.toBe("250 2.0.0 Queued as ABC123");
+    expect(transcript.commands).toEqual([
+      expect.stringMatching(/^EHLO \S+$/),
+      "MAIL FROM:<sam@example.com>",
+      "RCPT TO:<priya@example.com>",
+      "RCPT TO:<ops@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(transcript.data).toEqual(["Subject: Dots", "", "..hidden", "...two", "..", "end"]);
+    // Removing one leading dot, as the receiving server does, gives the message back.
+    expect(transcript.data.map((line) => line.replace(/^\./, "")).join("\n")).toBe(MESSAGE.trimEnd());
+  });
+
+  it("logs in with AUTH PLAIN when the server offers it", async () => {
+    const { transport, transcript } = await fakeSmtp({ extensions: ["8BITMIME", "AUTH LOGIN PLAIN"] });
+
+    await transport({ user: "sam", password: "secret" }).send(ENVELOPE, MESSAGE);
+    const auth = transcript.commands.find((command) => command.startsWith("AUTH"));
+    expect(auth).toBe(`AUTH PLAIN ${Buffer.from("\0sam\0secret").toString("base64")}`);
+  });
+
+  it("falls back to AUTH LOGIN and keeps the password out of errors", async () => {
+    const password = Buffer.from("wrong").toString("base64");
+    const { transport, transcript } = await fakeSmtp({
+      extensions: ["AUTH LOGIN"],
+      refuse: (command) => (command === password ? "535 5.7.8 Authentication failed" : undefined),
+    });
+
+    const sent = transport({ user: "sam", password: "wrong" }).send(ENVELOPE, MESSAGE);
+    await expect(sent).rejects.toThrow(MailSourceError);
+    await expect(sent).rejects.toThrow("The SMTP server refused the login: 535 5.7.8 Authentication failed");
+    await expect(sent).rejects.not.toThrow(password);
+    expect(transcript.commands.slice(1)).toEqual(["AUTH LOGIN", Buffer.from("sam").toString("base64"), password]);
+  });
+
+  it("names the refused command", async () => {
+    const { transport } = await fakeSmtp({
+      refuse: (command) => (command === "RCPT TO:<ops@example.com>" ? "550 5.1.1 No such user" : undefined),
+    });
+
+    await expect(transport().send(ENVELOPE, MESSAGE)).rejects.toThrow(
+      "The SMTP server refused RCPT: 550 5.1.1 No such user",
+    );
+  });
+
+  it("does not echo a refused message back in the error", async () => {
+    const { transport } = await fakeSmtp({
+      refuse: (command) => (command === "<message>" ? "554 5.7.1 Spam" : undefined),
+    });
+
+    const sent = transport().send(ENVELOPE, MESSAGE);
+    await expect(sent).rejects.toThrow("The SMTP server refused the message: 554 5.7.1 Spam");
+    await expect(sent).rejects.not.toThrow("hidden");
+  });
+
+  it("refuses to send in the clear when STARTTLS is required but not offered", async () => {
+    const { transport, transcript } = await fakeSmtp({ extensions: ["AUTH PLAIN"] });
+
+    const sent = transport({ security: "starttls", user: "sam", password: "secret" }).send(ENVELOPE, MESSAGE);
+    await expect(sent).rejects.toThrow("The SMTP server does not offer STARTTLS.");
+    expect(transcript.commands.some((command) => command.startsWith("AUTH") || command.startsWith("MAIL"))).toBe(false);
+  });
+});
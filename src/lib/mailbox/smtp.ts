@@ -0,0 +1,178 @@
+import { connect as connectPlain, Socket } from "node:net";
+import { hostname } from "node:os";
+import { connect as connectTls } from "node:tls";
+import { MailSourceError, MailTransport } from "./types";
+
+/**
+ * "tls" connects encrypted (port 465); "starttls" upgrades after EHLO and
+ * refuses servers that cannot; "none" is for local sinks such as MailHog.
+ */
+export type SmtpSecurity = "tls" | "starttls" | "none";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  /** Without a user the transport never authenticates. */
+  user?: string;
+  password?: string;
+  timeoutMs: number;
+};
+
+type SmtpReply = {
+  code: number;
+  lines: string[];
+};
+
+type SmtpConnection = {
+  /** Writes `line`, or nothing for the greeting, and fails unless the reply code is in the `expected` hundred. */
+  command(line: string | undefined, expected: 2 | 3): Promise<SmtpReply>;
+};
+
+/**
+ * A minimal SMTP client (RFC 5321) for one message per connection: EHLO,
+ * STARTTLS, AUTH PLAIN or LOGIN, MAIL, RCPT, and DATA with dot-stuffing.
+ */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    account: config.user ? `${config.user}@${config.host}` : config.host,
+
+    async send(envelope, raw) {
+      let socket: Socket =
+        config.security === "tls"
+          ? connectTls({ host: config.host, port: config.port, servername: config.host })
+          : connectPlain({ host: config.host, port: config.port });
+      try {
+        let connection = openConnection(socket, config.timeoutMs);
+        await connection.command(undefined, 2);
+        let hello = await connection.command(`EHLO ${hostname() || "localhost"}`, 2);
+
+        if (config.security === "starttls") {
+          if (!offers(hello, "STARTTLS")) {
+            throw new MailSourceError("The SMTP server does not offer STARTTLS.");
+          }
+          await connection.command("STARTTLS", 2);
+          socket = await upgrade(socket, config);
+          connection = openConnection(socket, config.timeoutMs);
+          hello = await connection.command(`EHLO ${hostname() || "localhost"}`, 2);
+        }
+
+        if (config.user) {
+          const password = config.password ?? "";
+          if (offers(hello, "AUTH", "PLAIN")) {
+            await connection.command(`AUTH PLAIN ${base64(`\0${config.user}\0${password}`)}`, 2);
+          } else if (offers(hello, "AUTH", "LOGIN")) {
+            await connection.command("AUTH LOGIN", 3);
+            await connection.command(base64(config.user), 3);
+            await connection.command(base64(password), 2);
+          } else {
+            throw new MailSourceError("The SMTP server offers no login method we support.");
+          }
+        }
+
+        await connection.command(`MAIL FROM:<${envelope.from}>`, 2);
+        for (const recipient of envelope.recipients) {
+          await connection.command(`RCPT TO:<${recipient}>`, 2);
+        }
+        await connection.command("DATA", 3);
+        // A lone "." ends the data, so body lines that start with one get a second.
+        const data = raw.replace(/\r?\n/g, "\r\n").replace(/\r\n$/, "").replace(/^\./gm, "..");
+        const accepted = await connection.command(`${data}\r\n.`, 2);
+        await connection.command("QUIT", 2).catch(() => undefined);
+        return `${accepted.code} ${accepted.lines.join(" ")}`.trim();
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+/** Frames replies, including "250-…" continuation lines, and hands them out in order. */
+function openConnection(socket: Socket, timeoutMs: number): SmtpConnection {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | undefined;
+  let failure: Error | undefined;
+
+  const fail = (error: Error) => {
+    failure ??= error;
+    waiting?.reject(failure);
+    waiting = undefined;
+  };
+
+  socket.setTimeout(timeoutMs, () => fail(new MailSourceError("The SMTP server did not answer in time.")));
+  socket.on("error", (error) => fail(new MailSourceError(`Could not reach the SMTP server: ${error.message}`)));
+  socket.on("close", () => fail(new MailSourceError("The SMTP server closed the connection.")));
+  socket.on("data", (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    for (;;) {
+      const lineEnd = buffer.indexOf("\r\n");
+      if (lineEnd === -1) return;
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      lines.push(line.slice(4));
+      if (line[3] === "-") continue;
+      const reply = { code: Number(line.slice(0, 3)), lines };
+      lines = [];
+      if (waiting) {
+        const { resolve } = waiting;
+        waiting = undefined;
+        resolve(reply);
+      } else {
+        replies.push(reply);
+      }
+    }
+  });
+
+  const next = () => {
+    const queued = replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (failure) return Promise.reject(failure);
+    return new Promise<SmtpReply>((resolve, reject) => {
+      waiting = { resolve, reject };
+    });
+  };
+
+  return {
+    async command(line, expected) {
+      if (line !== undefined) {
+        if (failure) throw failure;
+        socket.write(`${line}\r\n`);
+      }
+      const reply = await next();
+      if (Math.floor(reply.code / 100) !== expected) {
+        // Never echo credentials or the message itself back in the error.
+        const verb =
+          line === undefined
+            ? "the connection"
+            : line.includes("\r\n")
+              ? "the message"
+              : (/^(?:EHLO|STARTTLS|AUTH|MAIL|RCPT|DATA|QUIT)\b/.exec(line)?.[0] ?? "the login");
+        throw new MailSourceError(`The SMTP server refused ${verb}: ${reply.code} ${reply.lines.join(" ")}`.trim());
+      }
+      return reply;
+    },
+  };
+}
+
+function upgrade(socket: Socket, config: SmtpConfig): Promise<Socket> {
+  socket.removeAllListeners("data");
+  socket.setTimeout(0);
+  return new Promise((resolve, reject) => {
+    const secure = connectTls({ socket, servername: config.host }, () => resolve(secure));
+    secure.once("error", (error) => reject(new MailSourceError(`The SMTP TLS handshake failed: ${error.message}`)));
+  });
+}
+
+// EHLO lists one extension per line, such as "AUTH PLAIN LOGIN".
+function offers(hello: SmtpReply, extension: string, parameter?: string): boolean {
+  return hello.lines.some((line) => {
+    const [keyword, ...params] = line.toUpperCase().split(/\s+/);
+    return keyword === extension && (!parameter || params.includes(parameter));
+  });
+}
+
+function base64(value: string): string {
+  return Buffer.from(value, "utf8").toString("base64");
+}
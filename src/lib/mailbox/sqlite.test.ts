@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { openDatabase } from "@/lib/db";
+import { createSqliteSentLog } from "@/lib/mailbox";
+
+function entry(confirmation = "token-1") {
+  return {
+    method: "smtp" as const,
+    account: "smtp.example.com",
+    from: "Sam <sam@example.com>",
+    to: ["priya@example.com"],
+    cc: [],
+    subject: "Budget",
+    messageId: "1@example.com",
+    confirmation,
+  };
+}
+
+describe("createSqliteSentLog", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reserves each confirmation once until its delivery fails", async () => {
+    const log = createSqliteSentLog(openDatabase(":memory:"));
+    const first = await log.reserve(entry());
+    expect(first).toMatchObject({ ok: true, value: { status: "pending" } });
+    expect(await log.reserve(entry())).toMatchObject({
+      ok: false,
+      earlier: { status: "pending" },
+    });
+
+    await log.complete(first.ok ? first.value.id : "", { status: "failed", detail: "421 try later" });
+    const retry = await log.reserve(entry());
+    expect(retry.ok).toBe(true);
+    await log.complete(retry.ok ? retry.value.id : "", { status: "sent", detail: "250 OK" });
+    expect(await log.reserve(entry())).toMatchObject({
+      ok: false,
+      earlier: { status: "sent", detail: "250 OK" },
+    });
+    expect(await log.list(10)).toHaveLength(1);
+  });
+
+  it("keeps the same message apart under different confirmations", async () => {
+    const log = createSqliteSentLog(openDatabase(":memory:"));
+    await log.reserve(entry());
+    expect((await log.reserve(entry("token-2"))).ok).toBe(true);
+  });
+
+  it("marks a delivery still pending after ten minutes as failed", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-02T10:00:00Z") });
+    const log = createSqliteSentLog(openDatabase(":memory:"));
+    await log.reserve(entry());
+
+    vi.setSystemTime(new Date("2026-03-02T10:05:00Z"));
+    expect((await log.list(10))[0].status).toBe("pending");
+
+    vi.setSystemTime(new Date("2026-03-02T10:11:00Z"));
+    expect((await log.list(10))[0]).toMatchObject({
+      status: "failed",
+      detail: expect.stringMatching(/^No delivery result within 10 minutes/),
+    });
+    expect((await log.reserve(entry())).ok).toBe(true);
+  });
+});
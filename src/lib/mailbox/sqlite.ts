@@ -0,0 +1,163 @@
+import type Database from "better-sqlite3";
+import type { MailCursorStore, SentLog, SentMessage } from "./types";
+
+// Keyed by account as well, so pointing the connector at another mailbox starts fresh.
+const MIGRATION = `
+CREATE TABLE IF NOT EXISTS mail_cursors (
+  source TEXT NOT NULL,
+  account TEXT NOT NULL,
+  folder TEXT NOT NULL,
+  cursor TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (source, account, folder)
+);
+`;
+
+export function createSqliteMailCursorStore(db: Database.Database): MailCursorStore {
+  db.exec(MIGRATION);
+
+  const selectOne = db.prepare<[string, string, string], { cursor: string }>(
+    "SELECT cursor FROM mail_cursors WHERE source = ? AND account = ? AND folder = ?",
+  );
+  const upsert = db.prepare(
+    `INSERT INTO mail_cursors (source, account, folder, cursor, updated_at)
+     VALUES (@source, @account, @folder, @cursor, @updatedAt)
+     ON CONFLICT (source, account, folder) DO UPDATE SET cursor = @cursor, updated_at = @updatedAt`,
+  );
+
+  return {
+    async get(source, folder) {
+      return selectOne.get(source.id, source.account, folder)?.cursor;
+    },
+    async set(source, folder, cursor) {
+      upsert.run({ source: source.id, account: source.account, folder, cursor, updatedAt: new Date().toISOString() });
+    },
+  };
+}
+
+type SentRow = {
+  id: string;
+  method: SentMessage["method"];
+  status: SentMessage["status"];
+  account: string;
+  sender: string;
+  recipients: string;
+  cc: string;
+  subject: string;
+  message_id: string;
+  in_reply_to: string | null;
+  detail: string;
+  confirmation: string;
+  created_at: string;
+};
+
+// A row is reserved before delivery and settled after it; the confirmation is what keeps a message from going twice.
+const SENT_MIGRATION = `
+CREATE TABLE IF NOT EXISTS sent_messages (
+  id TEXT PRIMARY KEY,
+  method TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'sent',
+  account TEXT NOT NULL,
+  sender TEXT NOT NULL,
+  recipients TEXT NOT NULL,
+  cc TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  message_id TEXT NOT NULL,
+  in_reply_to TEXT,
+  detail TEXT NOT NULL,
+  confirmation TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS sent_messages_created_at ON sent_messages (created_at DESC);
+`;
+
+// Far longer than any delivery takes; a row still pending by then belongs to a request that died midway.
+const PENDING_EXPIRY_MS = 10 * 60 * 1000;
+
+const EXPIRED_DETAIL = "No delivery result within 10 minutes; check the recipient's mailbox before sending again.";
+
+export function createSqliteSentLog(db: Database.Database): SentLog {
+  db.exec(SENT_MIGRATION);
+
+  const insert = db.prepare(
+    `INSERT INTO sent_messages
+       (id, method, status, account, sender, recipients, cc, subject, message_id, in_reply_to, detail, confirmation,
+        created_at)
+     VALUES
+       (@id, @method, @status, @account, @sender, @recipients, @cc, @subject, @messageId, @inReplyTo, @detail,
+        @confirmation, @createdAt)`,
+  );
+  const settle = db.prepare("UPDATE sent_messages SET status = @status, detail = @detail WHERE id = @id");
+  const expire = db.prepare(
+    "UPDATE sent_messages SET status = 'failed', detail = @detail WHERE status = 'pending' AND created_at < @cutoff",
+  );
+  const remove = db.prepare<[string]>("DELETE FROM sent_messages WHERE id = ?");
+  const selectOne = db.prepare<[string], SentRow>("SELECT * FROM sent_messages WHERE id = ?");
+  const selectRecent = db.prepare<[number], SentRow>(
+    "SELECT * FROM sent_messages ORDER BY created_at DESC LIMIT ?",
+  );
+  const selectByConfirmation = db.prepare<[string], SentRow>(
+    "SELECT * FROM sent_messages WHERE confirmation = ?",
+  );
+
+  const expireStale = () =>
+    expire.run({ detail: EXPIRED_DETAIL, cutoff: new Date(Date.now() - PENDING_EXPIRY_MS).toISOString() });
+
+  const reserve = db.transaction((sent: SentMessage) => {
+    expireStale();
+    const earlier = selectByConfirmation.get(sent.confirmation);
+    if (earlier && earlier.status !== "failed") return toSentMessage(earlier);
+    // A failed attempt gives way to the retry.
+    if (earlier) remove.run(earlier.id);
+    insert.run({
+      ...sent,
+      sender: sent.from,
+      recipients: JSON.stringify(sent.to),
+      cc: JSON.stringify(sent.cc),
+      inReplyTo: sent.inReplyTo ?? null,
+    });
+    return undefined;
+  });
+
+  return {
+    async reserve(entry) {
+      const sent: SentMessage = {
+        ...entry,
+        id: crypto.randomUUID(),
+        status: "pending",
+        detail: "",
+        createdAt: new Date().toISOString(),
+      };
+      const earlier = reserve.immediate(sent);
+      return earlier ? { ok: false, earlier } : { ok: true, value: sent };
+    },
+    async complete(id, { status, detail }) {
+      settle.run({ id, status, detail });
+      const row = selectOne.get(id);
+      if (!row) throw new Error(`Sent log entry ${id} is missing`);
+      return toSentMessage(row);
+    },
+    async list(limit) {
+      expireStale();
+      return selectRecent.all(limit).map(toSentMessage);
+    },
+  };
+}
+
+function toSentMessage(row: SentRow): SentMessage {
+  return {
+    id: row.id,
+    method: row.method,
+    status: row.status,
+    account: row.account,
+    from: row.sender,
+    to: JSON.parse(row.recipients) as string[],
+    cc: JSON.parse(row.cc) as string[],
+    subject: row.subject,
+    messageId: row.message_id,
+    inReplyTo: row.in_reply_to ?? undefined,
+    detail: row.detail,
+    confirmation: row.confirmation,
+    createdAt: row.created_at,
+  };
+}
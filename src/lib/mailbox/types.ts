@@ -0,0 +1,104 @@
+export type MailSourceKind = "imap" | "jmap";
+
+/** A configured mailbox, safe to show to clients: credentials never leave the server. */
+export type MailSource = {
+  id: MailSourceKind;
+  /** Who we log in as and where, such as "sam@imap.example.com". */
+  account: string;
+};
+
+export type MailFolder = {
+  /** What to pass back as `folder`: the IMAP mailbox name or the JMAP mailbox id. */
+  id: string;
+  name: string;
+  /** "inbox", "sent", "archive", … when the server says so. */
+  role?: string;
+  unread?: number;
+};
+
+export type MailMessage = {
+  /** The IMAP UID or JMAP email id. */
+  id: string;
+  /** The full RFC 5322 message. */
+  raw: string;
+};
+
+export type FetchResult = {
+  messages: MailMessage[];
+  /** Pass back on the next fetch to continue after these messages. */
+  cursor: string;
+  /** More unread messages are waiting past `limit`. */
+  more: boolean;
+};
+
+export type MailConnector = {
+  listFolders(): Promise<MailFolder[]>;
+  /**
+   * Unread messages in `folder` that arrived after `cursor`, oldest first.
+   * Fetching leaves them unread on the server.
+   */
+  fetchUnread(folder: string, cursor: string | undefined, limit: number): Promise<FetchResult>;
+  /** Stores `raw` in the account's Drafts folder, flagged as a draft, and says which folder that was. */
+  saveDraft(raw: string): Promise<{ folder: string }>;
+};
+
+/** Hands finished messages to an outgoing mail server. */
+export type MailTransport = {
+  /** The server we relay through, such as "jordan@smtp.example.com", safe to show to clients. */
+  account: string;
+  /** Resolves with the server's final reply, such as "250 Queued as 4F2A". */
+  send(envelope: { from: string; recipients: string[] }, raw: string): Promise<string>;
+};
+
+/** "smtp" delivers the message now; "drafts" leaves it in a mailbox's Drafts folder to send from a mail client. */
+export type DeliveryMethod = "smtp" | "drafts";
+
+/**
+ * "pending" while the message is on its way; "failed" entries can be confirmed
+ * again. An entry left pending for ten minutes is marked failed.
+ */
+export type DeliveryStatus = "pending" | "sent" | "failed";
+
+/** One entry of the sent log: what left, where it went, and how the server answered. */
+export type SentMessage = {
+  id: string;
+  method: DeliveryMethod;
+  status: DeliveryStatus;
+  /** The SMTP relay or the mailbox whose Drafts folder holds the message. */
+  account: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  messageId: string;
+  inReplyTo?: string;
+  /** The SMTP reply or the Drafts folder name, or why delivery failed. */
+  detail: string;
+  /** The preview confirmation this delivery used; each confirmation delivers once. */
+  confirmation: string;
+  createdAt: string;
+};
+
+export type SentLog = {
+  /**
+   * Claims the entry's confirmation as "pending" before anything is delivered.
+   * Fails with the entry holding it when the confirmation is already pending or
+   * sent, so only one of two concurrent confirms goes through.
+   */
+  reserve(
+    entry: Omit<SentMessage, "id" | "status" | "detail" | "createdAt">,
+  ): Promise<{ ok: true; value: SentMessage } | { ok: false; earlier: SentMessage }>;
+  /** Settles a reserved entry once delivery succeeded or failed. */
+  complete(id: string, outcome: { status: "sent" | "failed"; detail: string }): Promise<SentMessage>;
+  /** Newest first. */
+  list(limit: number): Promise<SentMessage[]>;
+};
+
+/** Where each folder's last pull stopped, so the next pull only brings new mail. */
+export type MailCursorStore = {
+  get(source: MailSource, folder: string): Promise<string | undefined>;
+  set(source: MailSource, folder: string, cursor: string): Promise<void>;
+};
+
+/** The mail server refused, timed out, or answered something we could not read. */
+export class MailSourceError extends Error {}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { buildRawEmail, OutgoingEmail, parseAddressList, parseRawEmail, splitMbox } from "@/lib/mime";
+
+const MULTIPART = [
+  "From: =?UTF-8?Q?J=C3=BCrgen_M=C3=BCller?= <juergen@example.de>",
+  'To: "Lee, Sam" <sam@example.com>, ops@example.com',
+  "Subject: =?UTF-8?B?w5xiZXJibGljaw==?= for",
+  " the quarter",
+  "Date: Mon, 02 Mar 2026 10:00:00 -0500",
+  "Message-ID: <m2@example.de>",
+  "References: <m0@example.de> <m1@example.de>",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/mixed; boundary="outer"',
+  "",
+  "--outer",
+  "Content-Type: multipart/alternative; boundary=inner",
+  "",
+  "--inner",
+  "Content-Type: text/plain; charset=utf-8",
+  "Content-Transfer-Encoding: quoted-printable",
+  "",
+  "Gr=C3=BC=C3=9Fe, bitte bis Freitag pr=C3=BCfen. Ein sehr langer Satz der umgebro=",
+  "chen wurde.",
+  "--inner",
+  "Content-Type: text/html; charset=utf-8",
+  "",
+  "<p>Grüße</p>",
+  "--inner",
+  "Content-Type: text/calendar; method=REQUEST; charset=utf-8",
+  "Content-Transfer-Encoding: base64",
+  "",
+  Buffer.from("BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n").toString("base64"),
+  "--inner--",
+  "--outer",
+  'Content-Type: application/pdf; name="=?UTF-8?Q?Bericht_=C3=BC.pdf?="',
+  'Content-Disposition: attachment; filename="=?UTF-8?Q?Bericht_=C3=BC.pdf?="',
+  "Content-Transfer-Encoding: base64",
+  "",
+  "JVBERi0xLjQK",
+  "--outer--",
+  "",
+].join("\r\n");
+
+const REPLY: OutgoingEmail = {
+  from: { name: "Jürgen Müller", address: "juergen@example.de" },
+  to: [{ name: "Lee, Sam", address: "sam@example.com" }],
+  cc: [{ address: "ops@example.com" }],
+  subject: "Re: Überblick",
+  body: `Grüße,\n.\nA long line that has to wrap ${"x".repeat(90)}\n=sign`,
+  messageId: "m3@example.de",
+  date: new Date("2026-03-02T15:00:00Z"),
+  inReplyTo: "m2@example.de",
+  references: ["m0@example.de", "m1@example.de"],
+};
+
+describe("parseRawEmail", () => {
+  it("decodes headers, nested parts, transfer encodings and attachments", () => {
+    expect(parseRawEmail(MULTIPART)).toEqual({
+      headers: {
+        from: { name: "Jürgen Müller", address: "juergen@example.de" },
+        to: [{ name: "Lee, Sam", address: "sam@example.com" }, { address: "ops@example.com" }],
+        cc: [],
+        date: "2026-03-02T15:00:00.000Z",
+        subject: "Überblick for the quarter",
+        messageId: "m2@example.de",
+        references: ["m0@example.de", "m1@example.de"],
+      },
+      text: "Grüße, bitte bis Freitag prüfen. Ein sehr langer Satz der umgebrochen wurde.",
+      html: "<p>Grüße</p>",
+      calendar: "BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n",
+      attachments: [{ filename: "Bericht ü.pdf", contentType: "application/pdf", size: 9 }],
+    });
+  });
+
+  it("keeps malformed base64 as it was sent instead of failing", () => {
+    const parsed = parseRawEmail(
+      [
+        "From: =?UTF-8?B?SsO8cmdlb?= <juergen@example.de>",
+        "Subject: =?UTF-8?B?w5x=iZXI?= and =?UTF-8?B?w5xiZXJibGljaw==?=",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        "SGVsbG8gdGhlcmUh=x",
+      ].join("\r\n"),
+    );
+    expect(parsed.headers.from).toEqual({ name: "=?UTF-8?B?SsO8cmdlb?=", address: "juergen@example.de" });
+    expect(parsed.headers.subject).toBe("=?UTF-8?B?w5x=iZXI?= and Überblick");
+    expect(parsed.text).toBe("SGVsbG8gdGhlcmUh=x");
+  });
+
+  it("falls back to the HTML part's text when there is no plain part", () => {
+    const parsed = parseRawEmail(
+      "From: a@example.com\nContent-Type: text/html\n\n<p>Hello&nbsp;<b>there</b></p><p>Second &amp; last</p>",
+    );
+    expect(parsed.text).toBe("Hello there\nSecond & last");
+  });
+});
+
+describe("splitMbox", () => {
+  it("splits on envelope lines and unescapes quoted From lines", () => {
+    const mbox = "From a@example.com Mon\nSubject: one\n\n>From here\nbody\nFrom c@example.com Tue\nSubject: two\n\nx\n";
+    expect(splitMbox(mbox)).toEqual(["Subject: one\n\nFrom here\nbody", "Subject: two\n\nx"]);
+  });
+});
+
+describe("parseAddressList", () => {
+  it("keeps commas inside quoted display names", () => {
+    expect(parseAddressList('"Doe, Jane" <jane@example.com>, bob@example.org, Eve <eve@example.io>')).toEqual([
+      { name: "Doe, Jane", address: "jane@example.com" },
+      { address: "bob@example.org" },
+      { name: "Eve", address: "eve@example.io" },
+    ]);
+  });
+});
+
+describe("buildRawEmail", () => {
+  it("writes encoded headers that thread the reply", () => {
+    const raw = buildRawEmail(REPLY);
+    const headers = raw.slice(0, raw.indexOf("\r\n\r\n")).split("\r\n");
+    expect(headers).toEqual([
+      "From: =?UTF-8?B?SsO8cmdlbiBNw7xsbGVy?= <juergen@example.de>",
+      'To: "Lee, Sam" <sam@example.com>',
+      "Cc: ops@example.com",
+      "Subject: =?UTF-8?B?UmU6IMOcYmVyYmxpY2s=?=",
+      "Date: Mon, 02 Mar 2026 15:00:00 GMT",
+      "Message-ID: <m3@example.de>",
+      "In-Reply-To: <m2@example.de>",
+      "References: <m0@example.de> <m1@example.de> <m2@example.de>",
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: quoted-printable",
+    ]);
+  });
+
+  it("encodes the body as short CRLF lines that parse back to the original", () => {
+    const raw = buildRawEmail(REPLY);
+    expect(raw.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+    for (const line of raw.split("\r\n")) {
+      expect(line.length).toBeLessThanOrEqual(76);
+    }
+
+    const parsed = parseRawEmail(raw);
+    expect(parsed.text).toBe(REPLY.body);
+    expect(parsed.headers).toMatchObject({
+      from: REPLY.from,
+      to: REPLY.to,
+      subject: REPLY.subject,
+      references: ["m0@example.de", "m1@example.de", "m2@example.de"],
+    });
+  });
+});
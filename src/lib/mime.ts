@@ -0,0 +1,385 @@
+export type EmailAddress = {
+  name?: string;
+  address: string;
+};
+
+export type EmailHeaders = {
+  from?: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  date?: string;
+  subject?: string;
+  messageId?: string;
+  /** The thread's earlier Message-IDs, oldest first, so a reply can extend the chain. */
+  references?: string[];
+};
+
+export type EmailAttachment = {
+  filename: string;
+  contentType: string;
+  size: number;
+};
+
+export type ParsedEmail = {
+  headers: EmailHeaders;
+  text: string;
+  html?: string;
+  /** The first iCalendar part, such as a meeting invite, whether inline or attached. */
+  calendar?: string;
+  attachments: EmailAttachment[];
+};
+
+/** A plain-text message to send or save as a draft. */
+export type OutgoingEmail = {
+  from: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  subject: string;
+  body: string;
+  /** Without angle brackets, like `EmailHeaders.messageId`. */
+  messageId: string;
+  date: Date;
+  /** The Message-ID being answered; also appended to `references`. */
+  inReplyTo?: string;
+  references?: string[];
+};
+
+type MimePart = {
+  headers: Map<string, string>;
+  body: string;
+};
+
+type Collected = { text?: string; html?: string; calendar?: string; attachments: EmailAttachment[] };
+
+export function parseRawEmail(raw: string): ParsedEmail {
+  const root = splitPart(raw.replace(/\r\n/g, "\n"));
+  const collected: Collected = { attachments: [] };
+  walkPart(root, collected);
+
+  const text =
+    collected.text?.trim() ||
+    (collected.html ? htmlToText(collected.html) : "");
+
+  return {
+    headers: readHeaders(root.headers),
+    text,
+    html: collected.html,
+    calendar: collected.calendar,
+    attachments: collected.attachments,
+  };
+}
+
+export function splitMbox(mbox: string): string[] {
+  const messages: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of mbox.replace(/\r\n/g, "\n").split("\n")) {
+    // mboxrd: each message starts with a "From " envelope line; body lines were escaped as ">From ".
+    if (line.startsWith("From ")) {
+      if (current) messages.push(current.join("\n"));
+      current = [];
+      continue;
+    }
+    current?.push(line.replace(/^>(>*From )/, "$1"));
+  }
+
+  if (current) messages.push(current.join("\n"));
+  return messages.map((message) => message.trim()).filter(Boolean);
+}
+
+export function formatAddress(address: EmailAddress): string {
+  return address.name ? `${address.name} <${address.address}>` : address.address;
+}
+
+/**
+ * Builds an RFC 5322 message with CRLF line endings: UTF-8 text in
+ * quoted-printable, non-ASCII names and subjects as encoded words, and
+ * In-Reply-To/References when it answers another message.
+ */
+export function buildRawEmail(email: OutgoingEmail): string {
+  const references = [...(email.references ?? [])];
+  if (email.inReplyTo && !references.includes(email.inReplyTo)) references.push(email.inReplyTo);
+
+  const headers = [
+    `From: ${encodeAddress(email.from)}`,
+    `To: ${email.to.map(encodeAddress).join(", ")}`,
+    ...(email.cc.length ? [`Cc: ${email.cc.map(encodeAddress).join(", ")}`] : []),
+    `Subject: ${encodeWord(email.subject)}`,
+    `Date: ${email.date.toUTCString()}`,
+    `Message-ID: <${email.messageId}>`,
+    ...(email.inReplyTo ? [`In-Reply-To: <${email.inReplyTo}>`] : []),
+    ...(references.length ? [`References: ${references.map((id) => `<${id}>`).join(" ")}`] : []),
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+  ];
+  return `${headers.join("\r\n")}\r\n\r\n${encodeQuotedPrintable(email.body)}\r\n`;
+}
+
+function splitPart(source: string): MimePart {
+  const separator = source.search(/\n\n/);
+  const headerBlock = separator === -1 ? source : source.slice(0, separator);
+  const body = separator === -1 ? "" : source.slice(separator + 2);
+  const headers = new Map<string, string>();
+
+  // Folded headers continue on lines that start with whitespace.
+  const unfolded = headerBlock.replace(/\n[ \t]+/g, " ");
+  for (const line of unfolded.split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+
+  return { headers, body };
+}
+
+function walkPart(part: MimePart, collected: Collected) {
+  const { value: contentType, params } = parseHeaderValue(
+    part.headers.get("content-type") ?? "text/plain",
+  );
+  const disposition = parseHeaderValue(part.headers.get("content-disposition") ?? "");
+  const filename = disposition.params.filename ?? params.name;
+
+  if (contentType.startsWith("multipart/") && params.boundary) {
+    for (const child of splitMultipart(part.body, params.boundary)) {
+      walkPart(splitPart(child), collected);
+    }
+    return;
+  }
+
+  if (contentType === "message/rfc822") {
+    collected.attachments.push({
+      filename: filename ? decodeEncodedWords(filename) : "forwarded.eml",
+      contentType,
+      size: part.body.length,
+    });
+    return;
+  }
+
+  const bytes = decodeTransfer(part.body, part.headers.get("content-transfer-encoding"));
+  // Invites arrive as an inline alternative, an attached invite.ics, or both.
+  if (contentType === "text/calendar" || contentType === "application/ics") {
+    collected.calendar ??= decodeCharset(bytes, params.charset);
+  }
+
+  if (disposition.value === "attachment" || filename || !contentType.startsWith("text/")) {
+    collected.attachments.push({
+      filename: filename ? decodeEncodedWords(filename) : "attachment",
+      contentType,
+      size: bytes.length,
+    });
+    return;
+  }
+
+  const decoded = decodeCharset(bytes, params.charset);
+  // multipart/alternative lists the plainest part first, so keep the first of each.
+  if (contentType === "text/html") {
+    collected.html ??= decoded;
+  } else if (contentType === "text/plain") {
+    collected.text ??= decoded;
+  }
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split("\n")) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) {
+      break;
+    }
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join("\n"));
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+
+  if (current) parts.push(current.join("\n"));
+  return parts;
+}
+
+function parseHeaderValue(header: string): {
+  value: string;
+  params: Record<string, string>;
+} {
+  const [value, ...rest] = header.split(";");
+  const params: Record<string, string> = {};
+  for (const segment of rest) {
+    const equals = segment.indexOf("=");
+    if (equals === -1) continue;
+    const key = segment.slice(0, equals).trim().toLowerCase().replace(/\*$/, "");
+    params[key] = segment
+      .slice(equals + 1)
+      .trim()
+      .replace(/^"(.*)"$/, "$1");
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function readHeaders(headers: Map<string, string>): EmailHeaders {
+  const decoded = (name: string) => {
+    const value = headers.get(name);
+    return value ? decodeEncodedWords(value) : undefined;
+  };
+  const rawDate = headers.get("date");
+  const parsedDate = rawDate ? new Date(rawDate) : undefined;
+
+  return {
+    from: parseAddressList(decoded("from") ?? "")[0],
+    to: parseAddressList(decoded("to") ?? ""),
+    cc: parseAddressList(decoded("cc") ?? ""),
+    date:
+      parsedDate && !Number.isNaN(parsedDate.getTime())
+        ? parsedDate.toISOString()
+        : rawDate,
+    subject: decoded("subject"),
+    messageId: headers.get("message-id")?.replace(/^<|>$/g, ""),
+    references: headers.get("references")?.match(/<[^>]+>/g)?.map((id) => id.slice(1, -1)),
+  };
+}
+
+export function parseAddressList(value: string): EmailAddress[] {
+  // Commas inside quoted display names ("Doe, Jane") must not split the list.
+  const entries = value.match(/(?:"[^"]*"|[^,])+/g) ?? [];
+  return entries
+    .map((entry) => {
+      const angle = entry.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+      if (angle) {
+        const name = angle[1].replace(/^"(.*)"$/, "$1").trim();
+        return { name: name || undefined, address: angle[2].trim() };
+      }
+      return { address: entry.trim() };
+    })
+    .filter((entry) => entry.address.includes("@"));
+}
+
+function decodeTransfer(body: string, encoding?: string): Uint8Array {
+  switch (encoding?.trim().toLowerCase()) {
+    case "base64":
+      // A broken part is still worth reading as it came rather than losing the whole message.
+      return decodeBase64(body) ?? new TextEncoder().encode(body);
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return new TextEncoder().encode(body);
+  }
+}
+
+function decodeBase64(text: string): Uint8Array | undefined {
+  try {
+    const binary = atob(text.replace(/[^A-Za-z0-9+/=]/g, ""));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return undefined;
+  }
+}
+
+// Soft line breaks keep encoded lines within the 76 characters RFC 2045 allows.
+function encodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => {
+      const bytes = new TextEncoder().encode(line);
+      let encoded = "";
+      let width = 0;
+      for (const [index, byte] of bytes.entries()) {
+        const last = index === bytes.length - 1;
+        const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !last);
+        const token = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+        if (width + token.length > 75) {
+          encoded += "=\r\n";
+          width = 0;
+        }
+        encoded += token;
+        width += token.length;
+      }
+      return encoded;
+    })
+    .join("\r\n");
+}
+
+// Each encoded word carries at most 45 bytes, so with its wrapper it fits a folded header line.
+function encodeWord(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const encoder = new TextEncoder();
+  const words: string[] = [];
+  let chunk: number[] = [];
+  for (const char of value) {
+    const bytes = encoder.encode(char);
+    if (chunk.length + bytes.length > 45) {
+      words.push(`=?UTF-8?B?${btoa(String.fromCharCode(...chunk))}?=`);
+      chunk = [];
+    }
+    chunk.push(...bytes);
+  }
+  words.push(`=?UTF-8?B?${btoa(String.fromCharCode(...chunk))}?=`);
+  return words.join("\r\n ");
+}
+
+function encodeAddress(address: EmailAddress): string {
+  if (!address.name) return address.address;
+  const name = /^[\x20-\x7e]*$/.test(address.name)
+    ? `"${address.name.replace(/[\\"]/g, "\\$&")}"`
+    : encodeWord(address.name);
+  return `${name} <${address.address}>`;
+}
+
+function decodeQuotedPrintable(body: string): Uint8Array {
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+
+  for (const chunk of body.replace(/=\n/g, "").split(/(=[0-9A-Fa-f]{2})/)) {
+    if (/^=[0-9A-Fa-f]{2}$/.test(chunk)) {
+      bytes.push(parseInt(chunk.slice(1), 16));
+    } else {
+      bytes.push(...encoder.encode(chunk));
+    }
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+function decodeCharset(bytes: Uint8Array, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (word: string, charset: string, kind: string, text: string) => {
+      const bytes = kind.toUpperCase() === "B" ? decodeBase64(text) : decodeQuotedPrintable(text.replace(/_/g, " "));
+      // An undecodable word stays as it was sent.
+      return bytes ? decodeCharset(bytes, charset) : word;
+    });
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|h[1-6]|tr|blockquote|ul|ol)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
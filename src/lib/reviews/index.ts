@@ -0,0 +1,20 @@
+import { getDatabase } from "@/lib/db";
+import { createSqliteReviewRepository } from "./sqlite";
+import type { ReviewRepository } from "./types";
+
+export type * from "./types";
+export { createSqliteReviewRepository } from "./sqlite";
+export { applyReviewAction, checkDeliverable, recordDelivery, startReview } from "./workflow";
+export type { ReviewTransition } from "./workflow";
+
+let repository: ReviewRepository | undefined;
+
+export function getReviewRepository(): ReviewRepository {
+  repository ??= createSqliteReviewRepository(getDatabase());
+  return repository;
+}
+
+/** With `AGENT_REQUIRE_REVIEW=true`, mail only leaves as an approved review draft. */
+export function isReviewRequired(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.AGENT_REQUIRE_REVIEW === "true";
+}
@@ -0,0 +1,221 @@
+import type Database from "better-sqlite3";
+import type {
+  NewReviewDraft,
+  NewReviewEvent,
+  ReviewChange,
+  ReviewDraft,
+  ReviewDraftDetail,
+  ReviewEvent,
+  ReviewRepository,
+} from "./types";
+
+type DraftRow = {
+  id: string;
+  kind: ReviewDraft["kind"];
+  status: ReviewDraft["status"];
+  subject: string;
+  body: string;
+  recipient: string | null;
+  in_reply_to: string | null;
+  refs: string | null;
+  author: string;
+  reviewer: string | null;
+  engine: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type DraftDetailRow = DraftRow & { input: string };
+
+type EventRow = {
+  id: number;
+  draft_id: string;
+  at: string;
+  actor: string;
+  action: ReviewEvent["action"];
+  from_status: ReviewEvent["from"] | null;
+  to_status: ReviewEvent["to"];
+  changes: string | null;
+  comment: string | null;
+};
+
+// The triggers keep the audit log append-only even for code that tries otherwise.
+const MIGRATION = `
+CREATE TABLE IF NOT EXISTS review_drafts (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  status TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  recipient TEXT,
+  in_reply_to TEXT,
+  refs TEXT,
+  author TEXT NOT NULL,
+  reviewer TEXT,
+  engine TEXT NOT NULL,
+  input TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS review_drafts_updated_at ON review_drafts (updated_at DESC);
+CREATE TABLE IF NOT EXISTS review_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  draft_id TEXT NOT NULL REFERENCES review_drafts (id),
+  at TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  action TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changes TEXT,
+  comment TEXT
+);
+CREATE INDEX IF NOT EXISTS review_events_draft ON review_events (draft_id, id);
+CREATE TRIGGER IF NOT EXISTS review_events_no_update BEFORE UPDATE ON review_events
+BEGIN SELECT RAISE(ABORT, 'review_events is append-only'); END;
+CREATE TRIGGER IF NOT EXISTS review_events_no_delete BEFORE DELETE ON review_events
+BEGIN SELECT RAISE(ABORT, 'review_events is append-only'); END;
+`;
+
+const SUMMARY_COLUMNS =
+  "id, kind, status, subject, body, recipient, in_reply_to, refs, author, reviewer, engine, created_at, updated_at";
+
+export function createSqliteReviewRepository(db: Database.Database): ReviewRepository {
+  db.exec(MIGRATION);
+
+  const insertDraft = db.prepare(
+    `INSERT INTO review_drafts
+       (id, kind, status, subject, body, recipient, in_reply_to, refs, author, reviewer, engine, input, created_at,
+        updated_at)
+     VALUES
+       (@id, @kind, @status, @subject, @body, @recipient, @inReplyTo, @refs, @author, @reviewer, @engine, @input, @at,
+        @at)`,
+  );
+  const insertEvent = db.prepare(
+    `INSERT INTO review_events (draft_id, at, actor, action, from_status, to_status, changes, comment)
+     VALUES (@draftId, @at, @actor, @action, @from, @to, @changes, @comment)`,
+  );
+  const updateDraft = db.prepare(
+    `UPDATE review_drafts SET
+       status = coalesce(@status, status),
+       subject = coalesce(@subject, subject),
+       body = coalesce(@body, body),
+       recipient = coalesce(@recipient, recipient),
+       reviewer = coalesce(@reviewer, reviewer),
+       updated_at = @at
+     WHERE id = @id AND status = @from`,
+  );
+  const selectRecent = db.prepare<[string | null, string | null, string | null, string | null, number], DraftRow>(
+    `SELECT ${SUMMARY_COLUMNS} FROM review_drafts
+     WHERE (? IS NULL OR status = ?) AND (? IS NULL OR lower(reviewer) = lower(?))
+     ORDER BY updated_at DESC LIMIT ?`,
+  );
+  const selectDraft = db.prepare<[string], DraftDetailRow>("SELECT * FROM review_drafts WHERE id = ?");
+  const selectEvents = db.prepare<[string], EventRow>("SELECT * FROM review_events WHERE draft_id = ? ORDER BY id");
+
+  const appendEvent = (draftId: string, at: string, event: NewReviewEvent) =>
+    insertEvent.run({
+      draftId,
+      at,
+      actor: event.actor,
+      action: event.action,
+      from: event.from ?? null,
+      to: event.to,
+      changes: event.changes ? JSON.stringify(event.changes) : null,
+      comment: event.comment ?? null,
+    });
+
+  const create = db.transaction((id: string, draft: NewReviewDraft, events: NewReviewEvent[]) => {
+    const at = new Date().toISOString();
+    insertDraft.run({
+      id,
+      kind: draft.kind,
+      status: draft.status,
+      subject: draft.subject,
+      body: draft.body,
+      recipient: draft.to ?? null,
+      inReplyTo: draft.inReplyTo ?? null,
+      refs: draft.references ? JSON.stringify(draft.references) : null,
+      author: draft.author,
+      reviewer: draft.reviewer ?? null,
+      engine: draft.engine,
+      input: JSON.stringify(draft.input),
+      at,
+    });
+    for (const event of events) appendEvent(id, at, event);
+  });
+  const update = db.transaction((id: string, change: ReviewChange, event: NewReviewEvent) => {
+    const at = new Date().toISOString();
+    const updated = updateDraft.run({
+      id,
+      from: event.from ?? null,
+      at,
+      status: change.status ?? null,
+      subject: change.subject ?? null,
+      body: change.body ?? null,
+      recipient: change.to ?? null,
+      reviewer: change.reviewer ?? null,
+    });
+    if (updated.changes === 0) return false;
+    appendEvent(id, at, event);
+    return true;
+  });
+
+  const get = (id: string): ReviewDraftDetail | undefined => {
+    const row = selectDraft.get(id);
+    if (!row) return undefined;
+    return {
+      ...toDraft(row),
+      input: JSON.parse(row.input),
+      events: selectEvents.all(id).map(toEvent),
+    };
+  };
+
+  return {
+    async create(draft, events) {
+      const id = crypto.randomUUID();
+      create(id, draft, events);
+      return get(id)!;
+    },
+    async list({ status, reviewer, limit }) {
+      return selectRecent.all(status ?? null, status ?? null, reviewer ?? null, reviewer ?? null, limit).map(toDraft);
+    },
+    async get(id) {
+      return get(id);
+    },
+    async update(id, change, event) {
+      return update(id, change, event) ? get(id) : undefined;
+    },
+  };
+}
+
+function toDraft(row: DraftRow): ReviewDraft {
+  return {
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    subject: row.subject,
+    body: row.body,
+    to: row.recipient ?? undefined,
+    inReplyTo: row.in_reply_to ?? undefined,
+    references: row.refs ? (JSON.parse(row.refs) as string[]) : undefined,
+    author: row.author,
+    reviewer: row.reviewer ?? undefined,
+    engine: row.engine,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toEvent(row: EventRow): ReviewEvent {
+  return {
+    id: row.id,
+    draftId: row.draft_id,
+    at: row.at,
+    actor: row.actor,
+    action: row.action,
+    from: row.from_status ?? undefined,
+    to: row.to_status,
+    changes: row.changes ? JSON.parse(row.changes) : undefined,
+    comment: row.comment ?? undefined,
+  };
+}
@@ -0,0 +1,89 @@
+import type {
+  AnalyzeEmlRequest,
+  AnalyzeRequest,
+  ComposeRequest,
+} from "@/lib/schema";
+
+/** draft → in_review → approved → sent, with discarded reachable until it is sent. */
+export type ReviewStatus = "draft" | "in_review" | "approved" | "sent" | "discarded";
+
+export type ReviewAction =
+  | "create"
+  | "edit"
+  | "assign"
+  | "submit"
+  | "comment"
+  | "approve"
+  | "request_changes"
+  | "reopen"
+  | "discard"
+  | "save"
+  | "send";
+
+/** A reply or composed email on its way to approval. */
+export type ReviewDraft = {
+  id: string;
+  kind: "reply" | "compose";
+  status: ReviewStatus;
+  subject: string;
+  body: string;
+  /** Carried over for delivery: the recipient and, for replies, the message being answered. */
+  to?: string;
+  inReplyTo?: string;
+  references?: string[];
+  author: string;
+  reviewer?: string;
+  /** The engine that wrote the original text. */
+  engine: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ReviewField = "subject" | "body" | "to" | "reviewer" | "messageId";
+
+/** One audit log entry. Entries are never changed or removed once written. */
+export type ReviewEvent = {
+  id: number;
+  draftId: string;
+  at: string;
+  /** The name the client acted under; the app has no sign-in of its own. */
+  actor: string;
+  action: ReviewAction;
+  from?: ReviewStatus;
+  to: ReviewStatus;
+  changes?: Partial<Record<ReviewField, { before?: string; after?: string }>>;
+  comment?: string;
+};
+
+export type NewReviewEvent = Omit<ReviewEvent, "id" | "draftId" | "at">;
+
+export type ReviewDraftDetail = ReviewDraft & {
+  /** The request that produced the original text, exactly as it was sent. */
+  input: AnalyzeRequest | AnalyzeEmlRequest | ComposeRequest;
+  /** Oldest first. */
+  events: ReviewEvent[];
+};
+
+export type NewReviewDraft = Omit<ReviewDraftDetail, "id" | "createdAt" | "updatedAt" | "events">;
+
+/** What an action changes on the draft; the status guard is the event's `from`. */
+export type ReviewChange = Partial<Pick<ReviewDraft, "status" | "subject" | "body" | "to" | "reviewer">>;
+
+export type ReviewQuery = {
+  status?: ReviewStatus;
+  reviewer?: string;
+  limit: number;
+};
+
+export type ReviewRepository = {
+  /** Stores the draft with its first events, such as its creation and any edits made before it. */
+  create(draft: NewReviewDraft, events: NewReviewEvent[]): Promise<ReviewDraftDetail>;
+  /** Most recently updated first. */
+  list(query: ReviewQuery): Promise<ReviewDraft[]>;
+  get(id: string): Promise<ReviewDraftDetail | undefined>;
+  /**
+   * Applies `change` and appends `event` together, but only while the draft is
+   * still in `event.from`; otherwise nothing is written and the result is undefined.
+   */
+  update(id: string, change: ReviewChange, event: NewReviewEvent): Promise<ReviewDraftDetail | undefined>;
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { applyReviewAction, checkDeliverable, recordDelivery, startReview } from "@/lib/reviews";
+import type { ReviewDraft, ReviewStatus } from "@/lib/reviews";
+import type { ReviewActionRequest, ReviewCreateRequest } from "@/lib/schema";
+
+function draftIn(status: ReviewStatus, fields: Partial<ReviewDraft> = {}): ReviewDraft {
+  return {
+    id: "d1",
+    kind: "compose",
+    status,
+    subject: "Budget",
+    body: "Hi Priya,\n\nThe numbers are in.\n\nBest,\nSam",
+    to: "priya@example.com",
+    author: "Sam",
+    reviewer: "Alex",
+    engine: "heuristic",
+    createdAt: "2026-03-02T10:00:00Z",
+    updatedAt: "2026-03-02T10:00:00Z",
+    ...fields,
+  };
+}
+
+const act = (draft: ReviewDraft, request: Partial<ReviewActionRequest> & Pick<ReviewActionRequest, "action">) =>
+  applyReviewAction(draft, { actor: "Sam", ...request });
+
+const errorOf = (result: ReturnType<typeof act>) => (result.ok ? undefined : result.error.code);
+
+describe("startReview", () => {
+  const request = {
+    actor: "Sam",
+    request: { mode: "compose" },
+    response: { engine: "heuristic", subject: "Budget", body: "The numbers are in." },
+  } as unknown as ReviewCreateRequest;
+
+  it("logs the generated text, the author's edits and the submission", () => {
+    const started = startReview({ ...request, body: "The final numbers are in.", reviewer: "Alex", submit: true });
+    expect(started.ok && started.value.draft.status).toBe("in_review");
+    expect(started.ok && started.value.events.map((event) => event.action)).toEqual(["create", "edit", "submit"]);
+  });
+
+  it("refuses the author as their own reviewer", () => {
+    expect(startReview({ ...request, reviewer: " sam ", submit: true })).toMatchObject({
+      ok: false,
+      error: { code: "invalid_request", path: "reviewer" },
+    });
+  });
+});
+
+describe("applyReviewAction", () => {
+  it("walks a draft through review, changes and approval", () => {
+    const draft = draftIn("draft", { reviewer: undefined });
+    expect(act(draft, { action: "submit", reviewer: "Alex" })).toMatchObject({
+      ok: true,
+      value: { change: { status: "in_review", reviewer: "Alex" } },
+    });
+    const inReview = draftIn("in_review");
+    expect(act(inReview, { actor: "Alex", action: "request_changes", comment: "Add the totals." })).toMatchObject({
+      ok: true,
+      value: { change: { status: "draft" }, event: { from: "in_review", to: "draft" } },
+    });
+    expect(act(draftIn("draft"), { action: "edit", body: "New text" })).toMatchObject({
+      ok: true,
+      value: { change: { body: "New text" } },
+    });
+    expect(act(inReview, { actor: "alex", action: "approve" })).toMatchObject({
+      ok: true,
+      value: { change: { status: "approved" } },
+    });
+    expect(act(draftIn("approved"), { action: "reopen" })).toMatchObject({ ok: true, value: { change: { status: "draft" } } });
+  });
+
+  it.each<ReviewStatus>(["in_review", "approved", "sent", "discarded"])("locks the text of a draft that is %s", (status) => {
+    expect(errorOf(act(draftIn(status), { action: "edit", body: "Sneaky change" }))).toBe("conflict");
+  });
+
+  it("refuses decisions by anyone but the reviewer, and by the author even when assigned", () => {
+    expect(errorOf(act(draftIn("in_review"), { actor: "Jordan", action: "approve" }))).toBe("forbidden");
+    expect(errorOf(act(draftIn("in_review"), { action: "approve" }))).toBe("forbidden");
+    expect(errorOf(act(draftIn("in_review", { reviewer: "Sam" }), { action: "approve" }))).toBe("forbidden");
+    expect(errorOf(act(draftIn("in_review", { reviewer: "Sam" }), { action: "request_changes", comment: "x" }))).toBe(
+      "forbidden",
+    );
+  });
+
+  it("refuses an approval of text the draft no longer has", () => {
+    const draft = draftIn("in_review");
+    expect(act(draft, { actor: "Alex", action: "approve", subject: draft.subject, body: draft.body, to: draft.to }).ok).toBe(
+      true,
+    );
+    expect(errorOf(act(draft, { actor: "Alex", action: "approve", subject: draft.subject, body: "Older text" }))).toBe(
+      "conflict",
+    );
+  });
+
+  it("lets only the author or the reviewer hand a review on, and never to the author", () => {
+    const draft = draftIn("in_review");
+    expect(act(draft, { action: "assign", reviewer: "Jordan" })).toMatchObject({
+      ok: true,
+      value: { change: { reviewer: "Jordan" }, event: { changes: { reviewer: { before: "Alex", after: "Jordan" } } } },
+    });
+    expect(act(draft, { actor: "Alex", action: "assign", reviewer: "Jordan" }).ok).toBe(true);
+    expect(errorOf(act(draft, { actor: "Jordan", action: "assign", reviewer: "Jordan" }))).toBe("forbidden");
+    expect(errorOf(act(draft, { actor: "Alex", action: "assign", reviewer: "Sam" }))).toBe("invalid_request");
+    expect(errorOf(act(draftIn("draft"), { action: "submit", reviewer: "Sam" }))).toBe("invalid_request");
+    expect(errorOf(act(draftIn("approved"), { action: "assign", reviewer: "Jordan" }))).toBe("conflict");
+  });
+
+  it("keeps closed drafts closed", () => {
+    for (const status of ["sent", "discarded"] as const) {
+      expect(errorOf(act(draftIn(status), { action: "discard" }))).toBe("conflict");
+      expect(errorOf(act(draftIn(status), { action: "assign", reviewer: "Jordan" }))).toBe("conflict");
+    }
+    expect(act(draftIn("sent"), { action: "comment", comment: "Sent on Monday." }).ok).toBe(true);
+  });
+});
+
+describe("delivery", () => {
+  const approved = draftIn("approved");
+  const message = { subject: approved.subject, body: approved.body, to: ["Priya <PRIYA@example.com>"] };
+
+  it("delivers only the approved text to the approved recipients", () => {
+    expect(checkDeliverable(approved, message)).toBeUndefined();
+    expect(checkDeliverable(draftIn("in_review"), message)?.path).toBe("draftId");
+    expect(checkDeliverable(approved, { ...message, body: "Changed" })?.path).toBe("draftId");
+    expect(checkDeliverable(approved, { ...message, to: ["jordan@example.com"] })?.path).toBe("to");
+    expect(checkDeliverable(approved, { ...message, cc: ["jordan@example.com"] })?.path).toBe("cc");
+  });
+
+  it("closes the draft when it is sent, but not when a copy is saved", () => {
+    const delivery = { actor: "Sam", messageId: "1@example.com", detail: "250 OK" };
+    expect(recordDelivery(approved, { ...delivery, method: "smtp" })).toMatchObject({
+      change: { status: "sent" },
+      event: { action: "send", from: "approved", to: "sent" },
+    });
+    expect(recordDelivery(approved, { ...delivery, method: "drafts" })).toMatchObject({
+      change: {},
+      event: { action: "save", to: "approved" },
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { parseAddressList } from "@/lib/mime";
+import type { ApiError, ParseResult, ReviewActionRequest, ReviewCreateRequest } from "@/lib/schema";
+import type {
+  NewReviewDraft,
+  NewReviewEvent,
+  ReviewChange,
+  ReviewDraft,
+  ReviewEvent,
+  ReviewField,
+  ReviewStatus,
+} from "./types";
+
+export type ReviewTransition = { change: ReviewChange; event: NewReviewEvent };
+
+// The reviewer decides on the exact text, so edits wait until changes are requested or the draft is reopened.
+const EDITABLE: ReviewStatus[] = ["draft"];
+const CLOSED: ReviewStatus[] = ["sent", "discarded"];
+
+const OWN_REVIEW = "Pick a reviewer other than the draft's author.";
+
+const STATUS_NAMES: Record<ReviewStatus, string> = {
+  draft: "a draft",
+  in_review: "in review",
+  approved: "approved",
+  sent: "sent",
+  discarded: "discarded",
+};
+
+/**
+ * Turns a generated reply or draft into a review draft. The log starts with
+ * the text as the engine wrote it, so edits made before review show up as an
+ * edit of their own.
+ */
+export function startReview(
+  request: ReviewCreateRequest,
+): ParseResult<{ draft: NewReviewDraft; events: NewReviewEvent[] }> {
+  const { actor, response } = request;
+  const generated = "recommendedReply" in response ? response.recommendedReply : response;
+  if (request.submit && !request.reviewer) {
+    return refuse("invalid_request", "Assign a reviewer before submitting.", "reviewer");
+  }
+  if (sameName(actor, request.reviewer)) {
+    return refuse("invalid_request", OWN_REVIEW, "reviewer");
+  }
+
+  const draft: NewReviewDraft = {
+    kind: request.request.mode === "compose" ? "compose" : "reply",
+    status: request.submit ? "in_review" : "draft",
+    subject: request.subject ?? generated.subject,
+    body: request.body ?? generated.body,
+    to: request.to,
+    inReplyTo: request.inReplyTo,
+    references: request.references,
+    author: actor,
+    reviewer: request.reviewer,
+    engine: response.engine,
+    input: request.request,
+  };
+  const events: NewReviewEvent[] = [
+    {
+      actor,
+      action: "create",
+      to: "draft",
+      changes: { subject: { after: generated.subject }, body: { after: generated.body } },
+    },
+  ];
+  const edits = changedFields(
+    { subject: generated.subject, body: generated.body },
+    { subject: draft.subject, body: draft.body },
+  );
+  if (edits) events.push({ actor, action: "edit", from: "draft", to: "draft", changes: edits });
+  if (request.reviewer) {
+    events.push({
+      actor,
+      action: request.submit ? "submit" : "assign",
+      from: "draft",
+      to: draft.status,
+      changes: { reviewer: { after: request.reviewer } },
+    });
+  }
+  return { ok: true, value: { draft, events } };
+}
+
+/**
+ * Checks an action against the draft's state and who is acting, and works out
+ * what it changes. Only the assigned reviewer, never the author, can approve
+ * or send a draft back for changes, and during review only the two of them
+ * can hand it to another reviewer. Sending happens through delivery, never as
+ * a plain action.
+ */
+export function applyReviewAction(
+  draft: ReviewDraft,
+  request: ReviewActionRequest,
+): ParseResult<ReviewTransition> {
+  const { actor, action, comment } = request;
+  const allow = (to: ReviewStatus, change: ReviewChange = {}, changes?: ReviewEvent["changes"]) =>
+    ({
+      ok: true,
+      value: {
+        change: to === draft.status ? change : { ...change, status: to },
+        event: { actor, action, from: draft.status, to, changes, comment },
+      },
+    }) as const;
+  const isReviewer = sameName(actor, draft.reviewer);
+
+  switch (action) {
+    case "edit": {
+      if (draft.status === "in_review") {
+        return refuse("conflict", "This draft is in review. The reviewer can request changes to open it for edits.");
+      }
+      if (draft.status === "approved") return refuse("conflict", "This draft is approved. Reopen it to edit.");
+      if (!EDITABLE.includes(draft.status)) return refuse("conflict", `This draft is ${STATUS_NAMES[draft.status]}.`);
+      const next = { subject: request.subject, body: request.body, to: request.to };
+      const changes = changedFields(draft, next);
+      if (!changes) return refuse("invalid_request", "Change the subject, body, or recipient to save an edit.");
+      return allow(draft.status, definedFields(next), changes);
+    }
+    case "assign": {
+      if (CLOSED.includes(draft.status)) return refuse("conflict", `This draft is ${STATUS_NAMES[draft.status]}.`);
+      if (draft.status === "approved") {
+        return refuse("conflict", "This draft is approved. Reopen it to change the reviewer.");
+      }
+      if (draft.status === "in_review" && !isReviewer && !sameName(actor, draft.author)) {
+        return refuse("forbidden", `Only the author or the reviewer, ${draft.reviewer}, can hand this review on.`);
+      }
+      if (!request.reviewer) return refuse("invalid_request", "Name the reviewer to assign.", "reviewer");
+      if (sameName(draft.author, request.reviewer)) return refuse("invalid_request", OWN_REVIEW, "reviewer");
+      const changes = changedFields(draft, { reviewer: request.reviewer });
+      if (!changes) return refuse("invalid_request", `${request.reviewer} is already the reviewer.`, "reviewer");
+      return allow(draft.status, { reviewer: request.reviewer }, changes);
+    }
+    case "submit": {
+      if (draft.status !== "draft") return refuse("conflict", `This draft is ${STATUS_NAMES[draft.status]}.`);
+      const reviewer = request.reviewer ?? draft.reviewer;
+      if (!reviewer) return refuse("invalid_request", "Assign a reviewer before submitting.", "reviewer");
+      if (sameName(draft.author, reviewer)) return refuse("invalid_request", OWN_REVIEW, "reviewer");
+      return allow("in_review", { reviewer }, changedFields(draft, { reviewer }));
+    }
+    case "comment":
+      if (!comment) return refuse("invalid_request", "Write a comment.", "comment");
+      return allow(draft.status);
+    case "approve":
+    case "request_changes":
+      if (draft.status !== "in_review") return refuse("conflict", `This draft is ${STATUS_NAMES[draft.status]}.`);
+      if (sameName(actor, draft.author)) return refuse("forbidden", "Authors can't decide on their own drafts.");
+      if (!isReviewer) return refuse("forbidden", `Only the reviewer, ${draft.reviewer}, can decide on this draft.`);
+      if (action === "request_changes" && !comment) {
+        return refuse("invalid_request", "Say what should change.", "comment");
+      }
+      // An approval names the text it was shown; a draft that changed since then needs another look.
+      const shown = { subject: request.subject, body: request.body, to: request.to };
+      if (action === "approve" && changedFields(draft, shown)) {
+        return refuse("conflict", "This draft changed since you opened it. Reload it before approving.");
+      }
+      return allow(action === "approve" ? "approved" : "draft");
+    case "reopen":
+      if (draft.status !== "approved") return refuse("conflict", `This draft is ${STATUS_NAMES[draft.status]}.`);
+      if (!isReviewer && !sameName(actor, draft.author)) {
+        return refuse("forbidden", "Only the author or the reviewer can reopen an approved draft.");
+      }
+      return allow("draft");
+    case "discard":
+      if (CLOSED.includes(draft.status)) return refuse("conflict", `This draft is ${STATUS_NAMES[draft.status]}.`);
+      return allow("discarded");
+  }
+}
+
+/**
+ * Delivery needs an approval of exactly this text, going to exactly the
+ * approved recipients in the approved thread. The approval carries no Cc, so
+ * nobody can be copied in afterwards.
+ */
+export function checkDeliverable(
+  draft: ReviewDraft,
+  message: { subject: string; body: string; to: string[]; cc?: string[]; inReplyTo?: string },
+): ApiError | undefined {
+  if (draft.status !== "approved") {
+    return {
+      code: "conflict",
+      message: `Only approved drafts can be delivered, and this one is ${STATUS_NAMES[draft.status]}.`,
+      path: "draftId",
+    };
+  }
+  if (draft.subject !== message.subject || draft.body !== message.body) {
+    return {
+      code: "conflict",
+      message: "This is not the text that was approved. Reopen the draft to change it.",
+      path: "draftId",
+    };
+  }
+  if (!sameRecipients(message.to, draft.to ? draft.to.split(/[;\n]/) : [])) {
+    return {
+      code: "conflict",
+      message: draft.to
+        ? `The approved recipients are ${draft.to}. Reopen the draft to change them.`
+        : "No recipient was approved with this draft. Reopen it and add one.",
+      path: "to",
+    };
+  }
+  if (message.cc?.length) {
+    return {
+      code: "conflict",
+      message: "Nobody was approved for Cc. Reopen the draft and add them as recipients.",
+      path: "cc",
+    };
+  }
+  if ((message.inReplyTo ?? "") !== (draft.inReplyTo ?? "")) {
+    return {
+      code: "conflict",
+      message: "This draft was approved as a reply in another thread.",
+      path: "inReplyTo",
+    };
+  }
+  return undefined;
+}
+
+// Display names and order don't change who receives the message.
+function sameRecipients(sending: string[], approved: string[]): boolean {
+  const addresses = (entries: string[]) =>
+    new Set(entries.flatMap((entry) => parseAddressList(entry)).map((address) => address.address.toLowerCase()));
+  const [a, b] = [addresses(sending), addresses(approved)];
+  return a.size === b.size && [...a].every((address) => b.has(address));
+}
+
+/** Sending closes the draft; saving a copy to a Drafts folder leaves it approved. */
+export function recordDelivery(
+  draft: ReviewDraft,
+  delivery: { actor: string; method: "smtp" | "drafts"; messageId: string; detail: string },
+): ReviewTransition {
+  const to: ReviewStatus = delivery.method === "smtp" ? "sent" : draft.status;
+  return {
+    change: to === draft.status ? {} : { status: to },
+    event: {
+      actor: delivery.actor,
+      action: delivery.method === "smtp" ? "send" : "save",
+      from: draft.status,
+      to,
+      changes: { messageId: { after: delivery.messageId } },
+      comment: delivery.detail,
+    },
+  };
+}
+
+function refuse(code: ApiError["code"], message: string, path?: string): ParseResult<never> {
+  return { ok: false, error: { code, message, path } };
+}
+
+function changedFields(
+  draft: Partial<Pick<ReviewDraft, Exclude<ReviewField, "messageId">>>,
+  next: Partial<Record<Exclude<ReviewField, "messageId">, string>>,
+): ReviewEvent["changes"] | undefined {
+  const changes: NonNullable<ReviewEvent["changes"]> = {};
+  for (const [field, after] of Object.entries(next) as [Exclude<ReviewField, "messageId">, string | undefined][]) {
+    if (after !== undefined && after !== (draft[field] ?? "")) changes[field] = { before: draft[field], after };
+  }
+  return Object.keys(changes).length ? changes : undefined;
+}
+
+function definedFields<T extends object>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function sameName(a: string, b: string | undefined): boolean {
+  return b !== undefined && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { errorStatus, LIMITS, parseAgentRequest, parseReviewActionRequest, parseSentQuery } from "@/lib/schema";
+
+function errorOf(result: ReturnType<typeof parseAgentRequest>) {
+  expect(result.ok).toBe(false);
+  return result.ok ? undefined : result.error;
+}
+
+describe("parseAgentRequest", () => {
+  it("rejects bodies that are not objects at the root path", () => {
+    expect(errorOf(parseAgentRequest([]))).toEqual({
+      code: "invalid_request",
+      message: "Expected a JSON object.",
+      path: "",
+    });
+  });
+
+  it("rejects unknown modes", () => {
+    expect(errorOf(parseAgentRequest({ mode: "summon" }))).toMatchObject({ code: "unsupported_mode", path: "mode" });
+  });
+
+  it.each([
+    [{ mode: "analyze" }, "content", "This field is required."],
+    [{ mode: "analyze", content: 42 }, "content", "Expected a string."],
+    [{ mode: "analyze", content: "   " }, "content", "This field cannot be empty."],
+    [{ mode: "analyze", content: "hi", fromSelf: "yes" }, "fromSelf", "Expected a boolean."],
+    [{ mode: "analyze", content: "hi", timeZone: "Mars/Base" }, "timeZone", "Expected an IANA time zone such as America/New_York."],
+    [{ mode: "lint", body: "x", attachments: ["a.pdf", 3] }, "attachments[1]", "Expected a string."],
+    [{ mode: "compose", tone: "friendly" }, "objective", "This field is required."],
+  ])("tags type mismatches with the field's path: %j", (body, path, message) => {
+    expect(errorOf(parseAgentRequest(body))).toEqual({ code: "invalid_request", message, path });
+  });
+
+  it("points into nested entries", () => {
+    const thread = [
+      { sender: "Priya", body: "Can you send it?" },
+      { sender: "Sam", body: "Sure.", fromSelf: "yes" },
+    ];
+    expect(errorOf(parseAgentRequest({ mode: "analyze", content: "hi", thread }))?.path).toBe("thread[1].fromSelf");
+
+    const undated = [{ sender: "Priya", body: "Hi", timestamp: "soon" }];
+    expect(errorOf(parseAgentRequest({ mode: "analyze", content: "hi", thread: undated }))).toMatchObject({
+      path: "thread[0].timestamp",
+      message: "Expected an ISO 8601 timestamp.",
+    });
+
+    const range = { start: 3, end: 99 };
+    expect(errorOf(parseAgentRequest({ mode: "revise", body: "hello", operation: "rewrite", range }))?.path).toBe(
+      "range.end",
+    );
+  });
+
+  it("reports oversized fields as too large", () => {
+    const error = errorOf(parseAgentRequest({ mode: "analyze", content: "x".repeat(LIMITS.content + 1) }));
+    expect(error).toMatchObject({ code: "payload_too_large", path: "content" });
+    expect(errorStatus(error!.code)).toBe(413);
+  });
+
+  it("drops unknown fields and trims what it keeps", () => {
+    const result = parseAgentRequest({
+      mode: "analyze",
+      content: " hi ",
+      sentAt: "2026-03-02T10:00:00Z",
+      engine: "llm",
+      admin: true,
+    });
+    expect(result).toEqual({ ok: true, value: { mode: "analyze", content: "hi", sentAt: "2026-03-02T10:00:00Z" } });
+  });
+});
+
+describe("other parsers", () => {
+  it("tag query and action errors the same way", () => {
+    expect(parseSentQuery(new URLSearchParams("limit=0"))).toEqual({
+      ok: false,
+      error: { code: "invalid_request", message: `Expected a whole number from 1 to ${LIMITS.sentPage}.`, path: "limit" },
+    });
+    expect(parseReviewActionRequest({ action: "approve" })).toMatchObject({ ok: false, error: { path: "actor" } });
+  });
+});
+
+describe("errorStatus", () => {
+  it.each([
+    ["invalid_request", 400],
+    ["unsupported_mode", 400],
+    ["not_found", 404],
+    ["conflict", 409],
+    ["unsupported_media_type", 415],
+    ["unprocessable_message", 422],
+    ["upstream_error", 502],
+  ] as const)("maps %s to %i", (code, status) => {
+    expect(errorStatus(code)).toBe(status);
+  });
+});
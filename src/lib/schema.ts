@@ -0,0 +1,1341 @@
+import type { CalendarAttendee, CalendarInvite, InviteResponseAction, TimeSlot } from "@/lib/calendar";
+import type { ContactFields } from "@/lib/contacts/types";
+import { CONTACT_IMPORT_FORMATS, ContactImportFormat } from "@/lib/contacts/import";
+import type {
+  AnalysisProgress,
+  AnalyzePayload,
+  ComposeInput,
+  Contact,
+  ComposePayload,
+  ReviseInput,
+  RevisePayload,
+  RevisionOperation,
+  SequencePayload,
+  SummaryLength,
+  Tone,
+  ToneTemplate,
+} from "@/lib/engine/types";
+import { isValidTimeZone } from "@/lib/dates";
+import type { DiffChunk } from "@/lib/diff";
+import type { HistoryKind, HistoryQuery, HistoryRecord, HistorySummary } from "@/lib/history/types";
+import { isLanguage, Language, LANGUAGES } from "@/lib/language";
+import type { DraftLint, LintInput } from "@/lib/lint";
+import type {
+  DeliveryMethod,
+  MailFolder,
+  MailSource,
+  MailSourceKind,
+  SentMessage,
+} from "@/lib/mailbox/types";
+import { EmailAddress, EmailHeaders, parseAddressList } from "@/lib/mime";
+import type {
+  ReviewAction,
+  ReviewDraft,
+  ReviewDraftDetail,
+  ReviewQuery,
+  ReviewStatus,
+} from "@/lib/reviews/types";
+import type { MessageSegment } from "@/lib/segment";
+import type { ThreadMessage, ThreadRollup } from "@/lib/thread";
+
+export type {
+  AnalysisProgress,
+  AnalysisStage,
+  AnalyzePayload,
+  ComposeInput,
+  ComposePayload,
+  Contact,
+  Emotion,
+  Entities,
+  Entity,
+  Evidence,
+  Explanation,
+  MeetingRequest,
+  Priority,
+  Question,
+  QuestionKind,
+  ReviseInput,
+  RevisePayload,
+  RevisionOperation,
+  Sentiment,
+  SentimentExplanation,
+  SequenceInput,
+  SequencePayload,
+  SequenceStep,
+  SummaryLength,
+  TagExplanation,
+  Tone,
+  ToneTemplate,
+} from "@/lib/engine/types";
+export type {
+  CalendarAttendee,
+  CalendarInvite,
+  InviteResponseAction,
+  SlotFit,
+  TimeSlot,
+} from "@/lib/calendar";
+export type { ContactFields } from "@/lib/contacts/types";
+export type { DiffChunk } from "@/lib/diff";
+export type { ContactImportFormat } from "@/lib/contacts/import";
+export { CONTACT_IMPORT_FORMATS };
+export type {
+  HistoryEntry,
+  HistoryKind,
+  HistoryQuery,
+  HistoryRecord,
+  HistorySummary,
+} from "@/lib/history/types";
+export type { Language } from "@/lib/language";
+export type { DraftLint, LintIssue, LintRule, LintSeverity } from "@/lib/lint";
+export type {
+  DeliveryMethod,
+  DeliveryStatus,
+  MailFolder,
+  MailSource,
+  MailSourceKind,
+  SentMessage,
+} from "@/lib/mailbox/types";
+export type { EmailHeaders } from "@/lib/mime";
+export type {
+  ReviewAction,
+  ReviewDraft,
+  ReviewDraftDetail,
+  ReviewEvent,
+  ReviewField,
+  ReviewStatus,
+} from "@/lib/reviews/types";
+export type { MessageSegment } from "@/lib/segment";
+export type { ThreadMessage, ThreadRollup } from "@/lib/thread";
+
+// Lowercase words joined by hyphens, e.g. "support-apology".
+const TONE_ID = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const EXPORT_FORMATS = ["ics", "csv", "markdown"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const SUMMARY_LENGTHS: readonly SummaryLength[] = ["one-line", "short", "detailed"];
+
+export const MAIL_SOURCE_KINDS: readonly MailSourceKind[] = ["imap", "jmap"];
+
+export const DELIVERY_METHODS: readonly DeliveryMethod[] = ["smtp", "drafts"];
+
+export const INVITE_RESPONSE_ACTIONS: readonly InviteResponseAction[] = ["accept", "decline", "counter"];
+
+export const REVISION_OPERATIONS: readonly RevisionOperation[] = [
+  "shorten",
+  "expand",
+  "formal",
+  "tone",
+  "remove-bullets",
+  "add-ps",
+  "rewrite",
+];
+
+/** Send this as the Accept header to receive progress as newline-delimited JSON events. */
+export const STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+export const LIMITS = {
+  content: 50_000,
+  threadHistory: 20_000,
+  raw: 5_000_000,
+  threadMessages: 50,
+  shortText: 500,
+  keyPoints: 50,
+  batchMessages: 100,
+  exportTasks: 100,
+  sequenceFollowUps: 5,
+  sequenceDays: 90,
+  historyPage: 100,
+  templateText: 2_000,
+  contactImport: 2_000_000,
+  contactImportRecords: 1_000,
+  attachments: 20,
+  recipients: 50,
+  sentPage: 100,
+  reviewPage: 100,
+};
+
+// Deliberately loose: enough to catch a name pasted into the email field.
+const EMAIL_ADDRESS = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const HISTORY_KINDS: readonly HistoryKind[] = ["analysis", "compose", "sequence"];
+
+export const REVIEW_STATUSES: readonly ReviewStatus[] = ["draft", "in_review", "approved", "sent", "discarded"];
+
+/** Actions a person takes on a review draft; creating, saving, and sending are recorded by the server. */
+export type ReviewStep = Exclude<ReviewAction, "create" | "save" | "send">;
+
+export const REVIEW_STEPS: readonly ReviewStep[] = [
+  "edit",
+  "assign",
+  "submit",
+  "comment",
+  "approve",
+  "request_changes",
+  "reopen",
+  "discard",
+];
+
+export type AnalyzeRequest = {
+  mode: "analyze";
+  content: string;
+  threadHistory?: string;
+  thread?: ThreadMessage[];
+  /** You wrote the analyzed email, so a thread rollup waits on the other side. */
+  fromSelf?: boolean;
+  persona?: string;
+  sentAt?: string;
+  timeZone?: string;
+  /** Omit to reply in the language the email is written in. */
+  replyLanguage?: Language;
+  /** Defaults to "short". */
+  summaryLength?: SummaryLength;
+};
+
+export type AnalyzeEmlRequest = {
+  mode: "analyze-eml";
+  raw: string;
+  threadHistory?: string;
+  thread?: ThreadMessage[];
+  /** Defaults to whether the message's From is the configured sender address. */
+  fromSelf?: boolean;
+  persona?: string;
+  timeZone?: string;
+  replyLanguage?: Language;
+  summaryLength?: SummaryLength;
+};
+
+/** The compose fields as sent by clients, with the tone and recipient given by their ids. */
+export type ComposeBrief = Omit<ComposeInput, "tone" | "recipient"> & {
+  tone: Tone;
+  /** A contacts directory id; the recipient's profile personalizes the draft. */
+  contactId?: string;
+};
+
+export type ComposeRequest = ComposeBrief & {
+  mode: "compose";
+};
+
+export type SequenceRequest = ComposeBrief & {
+  mode: "sequence";
+  followUps?: number;
+  dayOffsets?: number[];
+  followUpTones?: Tone[];
+};
+
+/** A revision as sent by clients, with the target tone given by its id. */
+export type ReviseRequest = Omit<ReviseInput, "tone" | "tones"> & {
+  mode: "revise";
+  tone?: Tone;
+};
+
+export type LintRequest = LintInput & {
+  mode: "lint";
+};
+
+export type BatchMessage = {
+  id?: string;
+  content?: string;
+  raw?: string;
+};
+
+export type BatchRequest = {
+  mode: "batch";
+  messages?: BatchMessage[];
+  mbox?: string;
+  persona?: string;
+  timeZone?: string;
+  replyLanguage?: Language;
+  summaryLength?: SummaryLength;
+};
+
+/** Pulls unread mail that arrived since the last pull from a configured mailbox and triages it as a batch. */
+export type PullRequest = {
+  mode: "pull";
+  source: MailSourceKind;
+  /** Defaults to "INBOX". */
+  folder?: string;
+  /** Defaults to 10. */
+  limit?: number;
+  /** Forget where the last pull stopped and start from the oldest unread message. */
+  reset?: boolean;
+  persona?: string;
+  timeZone?: string;
+  replyLanguage?: Language;
+  summaryLength?: SummaryLength;
+};
+
+export type ExportTask = AnalyzePayload["tasks"][number];
+
+export type ExportRequest = {
+  mode: "export";
+  format: ExportFormat;
+  tasks: ExportTask[];
+  followUpRecommendation?: string;
+  subject?: string;
+  timeZone?: string;
+};
+
+/** Answers a meeting invite with an .ics file; `slot` is the time a counter-proposal offers instead. */
+export type InviteResponseRequest = {
+  mode: "invite-response";
+  invite: CalendarInvite;
+  action: InviteResponseAction;
+  /** Who is answering; defaults to the mailbox's sender address. */
+  attendee?: EmailAddress;
+  slot?: TimeSlot;
+  comment?: string;
+};
+
+export type AgentRequest =
+  | AnalyzeRequest
+  | AnalyzeEmlRequest
+  | ComposeRequest
+  | SequenceRequest
+  | ReviseRequest
+  | LintRequest
+  | BatchRequest
+  | PullRequest
+  | ExportRequest
+  | InviteResponseRequest;
+
+export type AnalyzeResponse = AnalyzePayload & {
+  segments: MessageSegment[];
+  headers?: EmailHeaders;
+  thread?: ThreadRollup;
+  /** The sender's entry in the contacts directory, when one matched. */
+  contact?: Contact;
+};
+
+export type ComposeResponse = ComposePayload;
+
+export type SequenceResponse = SequencePayload;
+
+/** The revised draft plus a word diff from the draft that was sent. */
+export type ReviseResponse = RevisePayload & {
+  diff: DiffChunk[];
+};
+
+export type LintResponse = DraftLint;
+
+export type BatchItem = {
+  id: string;
+  rank: number;
+  score: number;
+  subject: string;
+  from?: string;
+  receivedAt?: string;
+  analysis: AnalyzeResponse;
+};
+
+export type BatchResponse = {
+  items: BatchItem[];
+  tagCounts: Record<string, number>;
+  skipped: { id: string; message: string }[];
+};
+
+export type PullResponse = BatchResponse & {
+  source: MailSource;
+  folder: string;
+  /** More unread mail is waiting; pull again to continue. */
+  more: boolean;
+};
+
+export type MailSourceListResponse = {
+  sources: MailSource[];
+  /** The SMTP relay, when one is configured. */
+  smtp?: string;
+  /** Who outgoing mail is from; sending and saving drafts need one. */
+  from?: string;
+  /** Only approved review drafts can be delivered. */
+  requireReview: boolean;
+};
+
+/**
+ * A reply or draft to deliver. Without `confirmation` nothing leaves: the
+ * response is a preview whose `confirmation` must come back, unchanged
+ * message and all, to deliver it.
+ */
+export type SendRequest = {
+  method: DeliveryMethod;
+  /** For "drafts": which mailbox gets the draft. Defaults to the first configured one. */
+  source?: MailSourceKind;
+  /** Addresses, optionally with a name: "Priya Patel <priya@example.com>". */
+  to: string[];
+  cc?: string[];
+  subject: string;
+  body: string;
+  /** The Message-ID being answered, which threads the reply. */
+  inReplyTo?: string;
+  /** The answered message's own References, oldest first. */
+  references?: string[];
+  confirmation?: string;
+  /** The approved review draft this is; delivering it is recorded in the draft's audit log. */
+  draftId?: string;
+  /** Who is delivering, for the audit log. Defaults to the draft's reviewer. */
+  actor?: string;
+};
+
+export type SendPreview = {
+  status: "preview";
+  confirmation: string;
+  method: DeliveryMethod;
+  /** The SMTP relay or the mailbox whose Drafts folder will hold the message. */
+  account: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  inReplyTo?: string;
+};
+
+export type SendResponse = SendPreview | ({ status: "sent" } & SentMessage);
+
+export type SentListResponse = {
+  messages: SentMessage[];
+};
+
+export type MailFolderListResponse = {
+  folders: MailFolder[];
+};
+
+/** Tones and contacts are loaded: `contact` is the matched sender of an analysis or the recipient of a draft. */
+export type ContextProgress = { stage: "context"; contact?: Contact };
+
+/** The thread rollup is built; `messages` counts every message in it, the analyzed one included. */
+export type ThreadProgress = { stage: "thread"; messages: number };
+
+export type AgentProgress = ContextProgress | AnalysisProgress | ThreadProgress;
+
+/**
+ * One line of a streamed response. Progress events arrive as stages finish;
+ * the stream ends with exactly one result or error.
+ */
+export type AgentStreamEvent<T> =
+  | { type: "progress"; progress: AgentProgress }
+  | { type: "result"; result: T }
+  | { type: "error"; error: ApiError };
+
+export type ToneTemplateFields = Omit<ToneTemplate, "id" | "builtIn">;
+
+export type ToneCreateRequest = ToneTemplateFields & {
+  /** Defaults to the label in lowercase, hyphenated ("Support apology" → "support-apology"). */
+  id?: Tone;
+};
+
+export type ToneUpdateRequest = ToneTemplateFields;
+
+export type ToneListResponse = {
+  tones: ToneTemplate[];
+};
+
+export type ContactRequest = ContactFields;
+
+export type ContactListResponse = {
+  contacts: Contact[];
+};
+
+export type ContactImportRequest = {
+  format: ContactImportFormat;
+  /** The file's text: a .vcf with one or more cards, or a .csv with a header row. */
+  data: string;
+};
+
+export type ContactImportResponse = {
+  /** Created or, when the email address was already on file, updated. */
+  contacts: Contact[];
+  skipped: { index: number; message: string }[];
+};
+
+export type HistorySaveRequest = {
+  request: HistoryRecord["request"];
+  response: HistoryRecord["response"];
+};
+
+export type HistoryListResponse = {
+  entries: HistorySummary[];
+};
+
+/**
+ * Puts a generated reply or composed email under review. The request and
+ * response are the ones that produced it, as for history; `subject` and
+ * `body` carry any edits made before submitting.
+ */
+export type ReviewCreateRequest = {
+  actor: string;
+  request: AnalyzeRequest | AnalyzeEmlRequest | ComposeRequest;
+  response: AnalyzeResponse | ComposeResponse;
+  subject?: string;
+  body?: string;
+  to?: string;
+  inReplyTo?: string;
+  references?: string[];
+  reviewer?: string;
+  /** Send it to the reviewer right away instead of keeping it as a draft. */
+  submit?: boolean;
+};
+
+export type ReviewActionRequest = {
+  actor: string;
+  action: ReviewStep;
+  comment?: string;
+  /** For "assign", and optionally "submit". */
+  reviewer?: string;
+  /** For "edit"; for "approve", the text the reviewer was shown, which must still be the draft's. */
+  subject?: string;
+  body?: string;
+  to?: string;
+};
+
+export type ReviewListResponse = {
+  drafts: ReviewDraft[];
+};
+
+export type ReviewResponse = ReviewDraftDetail;
+
+export type ErrorCode =
+  | "invalid_json"
+  | "invalid_request"
+  | "not_found"
+  | "forbidden"
+  | "conflict"
+  | "unsupported_mode"
+  | "unsupported_media_type"
+  | "payload_too_large"
+  | "unprocessable_message"
+  | "upstream_error"
+  | "internal_error";
+
+export type ApiError = {
+  code: ErrorCode;
+  message: string;
+  path?: string;
+};
+
+export type ErrorResponse = {
+  error: ApiError;
+};
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: ApiError };
+
+class SchemaError extends Error {
+  constructor(readonly issue: ApiError) {
+    super(issue.message);
+  }
+}
+
+export function parseAgentRequest(input: unknown): ParseResult<AgentRequest> {
+  return toParseResult(() => readAgentRequest(input));
+}
+
+export function parseHistorySaveRequest(input: unknown): ParseResult<HistoryRecord> {
+  return toParseResult(() => readHistorySaveRequest(input));
+}
+
+export function parseHistoryQuery(params: URLSearchParams): ParseResult<HistoryQuery> {
+  return toParseResult(() => readHistoryQuery(params));
+}
+
+export function parseToneCreateRequest(input: unknown): ParseResult<ToneTemplate> {
+  return toParseResult(() => {
+    const body = expectObject(input, "");
+    const fields = readToneFields(body);
+    const id =
+      body.id === undefined
+        ? fields.label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")
+        : expectTone(body.id, "id");
+    if (!id || !TONE_ID.test(id)) {
+      throw invalid("label", "Include at least one letter or digit in the label.");
+    }
+    return { id, ...fields, builtIn: false };
+  });
+}
+
+export function parseToneUpdateRequest(input: unknown): ParseResult<ToneUpdateRequest> {
+  return toParseResult(() => readToneFields(expectObject(input, "")));
+}
+
+export function parseContactRequest(input: unknown): ParseResult<ContactFields> {
+  return toParseResult(() => readContactFields(expectObject(input, "")));
+}
+
+export function parseContactQuery(params: URLSearchParams): ParseResult<string | undefined> {
+  return toParseResult(() => expectString(Object.fromEntries(params), "q", { max: LIMITS.shortText }) || undefined);
+}
+
+export function parseContactImportRequest(input: unknown): ParseResult<ContactImportRequest> {
+  return toParseResult(() => {
+    const body = expectObject(input, "");
+    if (!CONTACT_IMPORT_FORMATS.includes(body.format as ContactImportFormat)) {
+      throw invalid("format", `Expected one of: ${CONTACT_IMPORT_FORMATS.join(", ")}.`);
+    }
+    return {
+      format: body.format as ContactImportFormat,
+      data: expectString(body, "data", { required: true, max: LIMITS.contactImport, trim: false }),
+    };
+  });
+}
+
+export function parseSendRequest(input: unknown): ParseResult<SendRequest> {
+  return toParseResult(() => {
+    const body = expectObject(input, "");
+    if (!DELIVERY_METHODS.includes(body.method as DeliveryMethod)) {
+      throw invalid("method", `Expected one of: ${DELIVERY_METHODS.join(", ")}.`);
+    }
+    if (body.source !== undefined && !MAIL_SOURCE_KINDS.includes(body.source as MailSourceKind)) {
+      throw invalid("source", `Expected one of: ${MAIL_SOURCE_KINDS.join(", ")}.`);
+    }
+    const to = expectRecipients(body, "to");
+    if (to.length === 0) {
+      throw invalid("to", "Add at least one recipient.");
+    }
+    const references = expectStringArray(body, "references", LIMITS.threadMessages).flatMap(
+      (id, index) => readMessageId(id, `references[${index}]`) ?? [],
+    );
+    return {
+      method: body.method as DeliveryMethod,
+      source: body.source as MailSourceKind | undefined,
+      to,
+      cc: expectRecipients(body, "cc"),
+      subject: expectString(body, "subject", { required: true, max: LIMITS.shortText }),
+      body: expectString(body, "body", { required: true, max: LIMITS.content, trim: false }),
+      inReplyTo: readMessageId(expectString(body, "inReplyTo", { max: LIMITS.shortText }), "inReplyTo"),
+      references: references.length ? references : undefined,
+      confirmation: expectString(body, "confirmation", { max: LIMITS.shortText }) || undefined,
+      draftId: expectString(body, "draftId", { max: 100 }) || undefined,
+      actor: expectString(body, "actor", { max: LIMITS.shortText }) || undefined,
+    };
+  });
+}
+
+export function parseReviewCreateRequest(input: unknown): ParseResult<ReviewCreateRequest> {
+  return toParseResult(() => {
+    const body = expectObject(input, "");
+    const record = readHistorySaveRequest(body);
+    if (record.kind === "sequence") {
+      throw invalid("request.mode", "Only analyze, analyze-eml, and compose results can be reviewed.");
+    }
+    if (body.submit !== undefined && typeof body.submit !== "boolean") {
+      throw invalid("submit", "Expected a boolean.");
+    }
+    const references = expectStringArray(body, "references", LIMITS.threadMessages).flatMap(
+      (id, index) => readMessageId(id, `references[${index}]`) ?? [],
+    );
+    return {
+      actor: expectString(body, "actor", { required: true, max: LIMITS.shortText }),
+      request: record.request,
+      response: record.response,
+      subject: expectString(body, "subject", { max: LIMITS.shortText }),
+      body: expectString(body, "body", { max: LIMITS.content, trim: false }),
+      to: expectString(body, "to", { max: LIMITS.shortText }) || undefined,
+      inReplyTo: readMessageId(expectString(body, "inReplyTo", { max: LIMITS.shortText }), "inReplyTo"),
+      references: references.length ? references : undefined,
+      reviewer: expectString(body, "reviewer", { max: LIMITS.shortText }) || undefined,
+      submit: body.submit as boolean | undefined,
+    };
+  });
+}
+
+export function parseReviewActionRequest(input: unknown): ParseResult<ReviewActionRequest> {
+  return toParseResult(() => {
+    const body = expectObject(input, "");
+    if (!REVIEW_STEPS.includes(body.action as ReviewStep)) {
+      throw invalid("action", `Expected one of: ${REVIEW_STEPS.join(", ")}.`);
+    }
+    return {
+      actor: expectString(body, "actor", { required: true, max: LIMITS.shortText }),
+      action: body.action as ReviewStep,
+      comment: expectString(body, "comment", { max: LIMITS.templateText }) || undefined,
+      reviewer: expectString(body, "reviewer", { max: LIMITS.shortText }) || undefined,
+      subject: expectString(body, "subject", { max: LIMITS.shortText }),
+      body: expectString(body, "body", { max: LIMITS.content, trim: false }),
+      to: expectString(body, "to", { max: LIMITS.shortText }),
+    };
+  });
+}
+
+export function parseReviewQuery(params: URLSearchParams): ParseResult<ReviewQuery> {
+  return toParseResult(() => {
+    const query = Object.fromEntries(params);
+    const status = query.status || undefined;
+    if (status !== undefined && !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+      throw invalid("status", `Expected one of: ${REVIEW_STATUSES.join(", ")}.`);
+    }
+    const limit = query.limit === undefined ? 50 : Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > LIMITS.reviewPage) {
+      throw invalid("limit", `Expected a whole number from 1 to ${LIMITS.reviewPage}.`);
+    }
+    return {
+      status: status as ReviewStatus | undefined,
+      reviewer: expectString(query, "reviewer", { max: LIMITS.shortText }) || undefined,
+      limit,
+    };
+  });
+}
+
+export function parseSentQuery(params: URLSearchParams): ParseResult<number> {
+  return toParseResult(() => {
+    const query = Object.fromEntries(params);
+    const limit = query.limit === undefined ? 20 : Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > LIMITS.sentPage) {
+      throw invalid("limit", `Expected a whole number from 1 to ${LIMITS.sentPage}.`);
+    }
+    return limit;
+  });
+}
+
+export function errorStatus(code: ErrorCode): number {
+  switch (code) {
+    case "not_found":
+      return 404;
+    case "forbidden":
+      return 403;
+    case "conflict":
+      return 409;
+    case "payload_too_large":
+      return 413;
+    case "unsupported_media_type":
+      return 415;
+    case "unprocessable_message":
+      return 422;
+    case "internal_error":
+      return 500;
+    case "upstream_error":
+      return 502;
+    default:
+      return 400;
+  }
+}
+
+function toParseResult<T>(read: () => T): ParseResult<T> {
+  try {
+    return { ok: true, value: read() };
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      return { ok: false, error: error.issue };
+    }
+    throw error;
+  }
+}
+
+function readAgentRequest(input: unknown): AgentRequest {
+  const body = expectObject(input, "");
+  const mode = body.mode;
+
+  switch (mode) {
+    case "analyze":
+      return {
+        mode,
+        content: expectString(body, "content", { required: true, max: LIMITS.content }),
+        sentAt: expectTimestamp(body, "sentAt"),
+        ...readThreadFields(body),
+      };
+    case "analyze-eml":
+      return {
+        mode,
+        raw: expectString(body, "raw", { required: true, max: LIMITS.raw, trim: false }),
+        ...readThreadFields(body),
+      };
+    case "compose":
+      return { mode, ...readComposeFields(body) };
+    case "sequence":
+      return readSequenceRequest(body);
+    case "revise":
+      return readReviseRequest(body);
+    case "lint":
+      return {
+        mode,
+        body: expectString(body, "body", { required: true, max: LIMITS.content, trim: false }),
+        original: expectString(body, "original", { max: LIMITS.content }) || undefined,
+        // Leaving the list out means "unknown", which is not the same as attaching nothing.
+        attachments:
+          body.attachments === undefined || body.attachments === null
+            ? undefined
+            : expectStringArray(body, "attachments", LIMITS.attachments),
+      };
+    case "batch":
+      return readBatchRequest(body);
+    case "pull":
+      return readPullRequest(body);
+    case "export":
+      return readExportRequest(body);
+    case "invite-response":
+      return readInviteResponseRequest(body);
+    default:
+      throw new SchemaError({
+        code: "unsupported_mode",
+        message:
+          "Unsupported mode. Use one of: analyze, analyze-eml, compose, sequence, revise, lint, batch, pull, export, " +
+          "invite-response.",
+        path: "mode",
+      });
+  }
+}
+
+function readToneFields(body: Record<string, unknown>): ToneTemplateFields {
+  return {
+    label: expectString(body, "label", { required: true, max: 60 }),
+    description: expectString(body, "description", { max: LIMITS.shortText }) ?? "",
+    greeting: expectString(body, "greeting", { required: true, max: 40 }),
+    subject: expectString(body, "subject", { required: true, max: LIMITS.shortText }),
+    opening: expectString(body, "opening", { required: true, max: LIMITS.templateText }),
+    closing: expectString(body, "closing", { required: true, max: LIMITS.templateText }),
+    signOff: expectString(body, "signOff", { required: true, max: LIMITS.shortText }),
+  };
+}
+
+function readContactFields(body: Record<string, unknown>): ContactFields {
+  const email = expectString(body, "email", { max: LIMITS.shortText }) || undefined;
+  if (email && !EMAIL_ADDRESS.test(email)) {
+    throw invalid("email", "Expected an email address such as name@example.com.");
+  }
+  return {
+    name: expectString(body, "name", { required: true, max: LIMITS.shortText }),
+    email,
+    role: expectString(body, "role", { max: LIMITS.shortText }) || undefined,
+    company: expectString(body, "company", { max: LIMITS.shortText }) || undefined,
+    tone: body.tone === undefined || body.tone === null || body.tone === ""
+      ? undefined
+      : expectTone(body.tone, "tone"),
+    language: expectLanguage(body, "language"),
+    notes: expectString(body, "notes", { max: LIMITS.templateText }) || undefined,
+  };
+}
+
+function readHistorySaveRequest(input: unknown): HistoryRecord {
+  const body = expectObject(input, "");
+  let request: AgentRequest;
+  try {
+    request = readAgentRequest(body.request);
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      const { path } = error.issue;
+      throw new SchemaError({ ...error.issue, path: path ? `request.${path}` : "request" });
+    }
+    throw error;
+  }
+
+  const response = expectObject(body.response, "response");
+  if (typeof response.engine !== "string") {
+    throw invalid("response.engine", "Expected a string.");
+  }
+
+  switch (request.mode) {
+    case "analyze":
+    case "analyze-eml":
+      expectResponseShape(response, { summary: "string", subjectSuggestion: "string", tasks: "array" });
+      return { kind: "analysis", request, response: response as AnalyzeResponse };
+    case "compose":
+      expectResponseShape(response, { subject: "string", preview: "string", body: "string" });
+      return { kind: "compose", request, response: response as ComposeResponse };
+    case "sequence":
+      expectResponseShape(response, { steps: "array" });
+      return { kind: "sequence", request, response: response as SequenceResponse };
+    default:
+      throw invalid("request.mode", "Only analyze, analyze-eml, compose, and sequence results can be saved.");
+  }
+}
+
+function expectResponseShape(
+  response: Record<string, unknown>,
+  shape: Record<string, "string" | "array">,
+): void {
+  for (const [key, type] of Object.entries(shape)) {
+    const value = response[key];
+    if (type === "array" ? !Array.isArray(value) : typeof value !== type) {
+      throw invalid(`response.${key}`, type === "array" ? "Expected an array." : "Expected a string.");
+    }
+  }
+}
+
+function readHistoryQuery(params: URLSearchParams): HistoryQuery {
+  const query = Object.fromEntries(params);
+  const search = expectString(query, "q", { max: LIMITS.shortText }) || undefined;
+  const kind = query.kind || undefined;
+  if (kind !== undefined && !HISTORY_KINDS.includes(kind as HistoryKind)) {
+    throw invalid("kind", `Expected one of: ${HISTORY_KINDS.join(", ")}.`);
+  }
+
+  const limit = query.limit === undefined ? 50 : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > LIMITS.historyPage) {
+    throw invalid("limit", `Expected a whole number from 1 to ${LIMITS.historyPage}.`);
+  }
+  return { search, kind: kind as HistoryKind | undefined, limit };
+}
+
+function readComposeFields(body: Record<string, unknown>): ComposeBrief {
+  return {
+    audience: expectString(body, "audience", { max: LIMITS.shortText }) ?? "",
+    objective: expectString(body, "objective", { required: true, max: LIMITS.shortText }),
+    tone: expectTone(body.tone, "tone"),
+    keyPoints: expectStringArray(body, "keyPoints", LIMITS.keyPoints),
+    callToAction: expectString(body, "callToAction", { max: LIMITS.shortText }) || undefined,
+    signature: expectString(body, "signature", { max: LIMITS.shortText }) || undefined,
+    contactId: expectString(body, "contactId", { max: 100 }) || undefined,
+  };
+}
+
+function readSequenceRequest(body: Record<string, unknown>): SequenceRequest {
+  const followUps = body.followUps;
+  if (
+    followUps !== undefined &&
+    (!Number.isInteger(followUps) ||
+      (followUps as number) < 1 ||
+      (followUps as number) > LIMITS.sequenceFollowUps)
+  ) {
+    throw invalid("followUps", `Expected a whole number from 1 to ${LIMITS.sequenceFollowUps}.`);
+  }
+
+  const dayOffsets = readDayOffsets(body.dayOffsets);
+  const followUpTones = readTones(body.followUpTones, "followUpTones");
+  for (const [key, list] of [
+    ["dayOffsets", dayOffsets],
+    ["followUpTones", followUpTones],
+  ] as const) {
+    if (list && followUps !== undefined && list.length !== followUps) {
+      throw invalid(key, `Expected ${followUps} entries, one per follow-up.`);
+    }
+  }
+  if (dayOffsets && followUpTones && dayOffsets.length !== followUpTones.length) {
+    throw invalid("followUpTones", "Expected one tone per day offset.");
+  }
+
+  return {
+    mode: "sequence",
+    ...readComposeFields(body),
+    followUps: followUps as number | undefined,
+    dayOffsets,
+    followUpTones,
+  };
+}
+
+function readReviseRequest(body: Record<string, unknown>): ReviseRequest {
+  const operation = body.operation as RevisionOperation;
+  if (!REVISION_OPERATIONS.includes(operation)) {
+    throw invalid("operation", `Expected one of: ${REVISION_OPERATIONS.join(", ")}.`);
+  }
+  // The draft keeps its whitespace so that selection offsets and the diff line up with what the client holds.
+  const draftBody = expectString(body, "body", { required: true, max: LIMITS.content, trim: false });
+  const text = expectString(body, "text", { max: LIMITS.templateText });
+  if (operation === "add-ps" && !text) {
+    throw invalid("text", "Give the postscript to add.");
+  }
+
+  return {
+    mode: "revise",
+    subject: expectString(body, "subject", { max: LIMITS.shortText }) ?? "",
+    body: draftBody,
+    operation,
+    tone: operation === "tone" || (body.tone !== undefined && body.tone !== null)
+      ? expectTone(body.tone, "tone")
+      : undefined,
+    text: text || undefined,
+    range: operation === "rewrite" ? readRange(body.range, draftBody.length) : undefined,
+  };
+}
+
+function readRange(value: unknown, length: number): { start: number; end: number } {
+  const range = expectObject(value, "range");
+  const { start, end } = range;
+  if (!Number.isInteger(start) || (start as number) < 0 || (start as number) >= length) {
+    throw invalid("range.start", `Expected a character offset from 0 to ${Math.max(length - 1, 0)}.`);
+  }
+  if (!Number.isInteger(end) || (end as number) <= (start as number) || (end as number) > length) {
+    throw invalid("range.end", `Expected a character offset after range.start and at most ${length}.`);
+  }
+  return { start: start as number, end: end as number };
+}
+
+function readDayOffsets(value: unknown): number[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length === 0) {
+    throw invalid("dayOffsets", "Expected a non-empty array of day offsets.");
+  }
+  if (value.length > LIMITS.sequenceFollowUps) {
+    throw tooLarge("dayOffsets", `At most ${LIMITS.sequenceFollowUps} follow-ups are allowed.`);
+  }
+  return value.map((entry, index) => {
+    const previous = index > 0 ? (value[index - 1] as number) : 0;
+    if (!Number.isInteger(entry) || entry <= previous || entry > LIMITS.sequenceDays) {
+      throw invalid(
+        `dayOffsets[${index}]`,
+        `Expected whole days after the first email, increasing and at most ${LIMITS.sequenceDays}.`,
+      );
+    }
+    return entry as number;
+  });
+}
+
+function readTones(value: unknown, key: string): Tone[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length === 0) {
+    throw invalid(key, "Expected a non-empty array of tones.");
+  }
+  if (value.length > LIMITS.sequenceFollowUps) {
+    throw tooLarge(key, `At most ${LIMITS.sequenceFollowUps} follow-ups are allowed.`);
+  }
+  return value.map((entry, index) => expectTone(entry, `${key}[${index}]`));
+}
+
+function readBatchRequest(body: Record<string, unknown>): BatchRequest {
+  const mbox = expectString(body, "mbox", { max: LIMITS.raw, trim: false }) || undefined;
+  const persona = expectString(body, "persona", { max: LIMITS.shortText }) || undefined;
+
+  if (body.messages !== undefined && !Array.isArray(body.messages)) {
+    throw invalid("messages", "Expected an array of messages.");
+  }
+  const entries = (body.messages as unknown[] | undefined) ?? [];
+  if (!mbox && entries.length === 0) {
+    throw invalid("messages", "Provide at least one message or an mbox file.");
+  }
+  if (entries.length > LIMITS.batchMessages) {
+    throw tooLarge("messages", `A batch can include at most ${LIMITS.batchMessages} messages.`);
+  }
+
+  const messages = entries.map((entry, index) => {
+    const path = `messages[${index}]`;
+    const message = expectObject(entry, path);
+    const content = expectString(message, "content", { max: LIMITS.content, path }) || undefined;
+    const raw = expectString(message, "raw", { max: LIMITS.raw, trim: false, path }) || undefined;
+    if (!content && !raw) {
+      throw invalid(path, "Each message needs either content or raw.");
+    }
+    return {
+      id: expectString(message, "id", { max: LIMITS.shortText, path }) || undefined,
+      content,
+      raw,
+    };
+  });
+
+  return {
+    mode: "batch",
+    messages,
+    mbox,
+    persona,
+    timeZone: expectTimeZone(body, "timeZone"),
+    replyLanguage: expectLanguage(body, "replyLanguage"),
+    summaryLength: expectSummaryLength(body, "summaryLength"),
+  };
+}
+
+function readPullRequest(body: Record<string, unknown>): PullRequest {
+  if (!MAIL_SOURCE_KINDS.includes(body.source as MailSourceKind)) {
+    throw invalid("source", `Expected one of: ${MAIL_SOURCE_KINDS.join(", ")}.`);
+  }
+  const limit = body.limit;
+  if (
+    limit !== undefined &&
+    (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > LIMITS.batchMessages)
+  ) {
+    throw invalid("limit", `Expected a whole number from 1 to ${LIMITS.batchMessages}.`);
+  }
+  if (body.reset !== undefined && typeof body.reset !== "boolean") {
+    throw invalid("reset", "Expected a boolean.");
+  }
+  return {
+    mode: "pull",
+    source: body.source as MailSourceKind,
+    folder: expectString(body, "folder", { max: LIMITS.shortText }) || undefined,
+    limit: limit as number | undefined,
+    reset: body.reset as boolean | undefined,
+    persona: expectString(body, "persona", { max: LIMITS.shortText }) || undefined,
+    timeZone: expectTimeZone(body, "timeZone"),
+    replyLanguage: expectLanguage(body, "replyLanguage"),
+    summaryLength: expectSummaryLength(body, "summaryLength"),
+  };
+}
+
+function readExportRequest(body: Record<string, unknown>): ExportRequest {
+  if (!EXPORT_FORMATS.includes(body.format as ExportFormat)) {
+    throw invalid("format", `Expected one of: ${EXPORT_FORMATS.join(", ")}.`);
+  }
+  if (!Array.isArray(body.tasks)) {
+    throw invalid("tasks", "Expected an array of tasks.");
+  }
+  if (body.tasks.length > LIMITS.exportTasks) {
+    throw tooLarge("tasks", `At most ${LIMITS.exportTasks} tasks can be exported at once.`);
+  }
+
+  const tasks = body.tasks.map((entry: unknown, index) => {
+    const path = `tasks[${index}]`;
+    const task = expectObject(entry, path);
+    return {
+      description: expectString(task, "description", { required: true, max: LIMITS.content, path }),
+      due: expectString(task, "due", { max: LIMITS.shortText, path }) || undefined,
+      dueDate: expectTimestamp(task, "dueDate", path),
+      owner: expectString(task, "owner", { max: LIMITS.shortText, path }) || undefined,
+    };
+  });
+
+  return {
+    mode: "export",
+    format: body.format as ExportFormat,
+    tasks,
+    followUpRecommendation:
+      expectString(body, "followUpRecommendation", { max: LIMITS.shortText * 2 }) || undefined,
+    subject: expectString(body, "subject", { max: LIMITS.shortText }) || undefined,
+    timeZone: expectTimeZone(body, "timeZone"),
+  };
+}
+
+function readInviteResponseRequest(body: Record<string, unknown>): InviteResponseRequest {
+  if (!INVITE_RESPONSE_ACTIONS.includes(body.action as InviteResponseAction)) {
+    throw invalid("action", `Expected one of: ${INVITE_RESPONSE_ACTIONS.join(", ")}.`);
+  }
+  const action = body.action as InviteResponseAction;
+  const slot = body.slot === undefined || body.slot === null ? undefined : readSlot(body.slot, "slot");
+  if (action === "counter" && !slot) {
+    throw invalid("slot", "Pick the time to propose instead.");
+  }
+
+  const invite = expectObject(body.invite, "invite");
+  // The UID goes into the reply verbatim, so it must stay on one line.
+  const uid = expectString(invite, "uid", { required: true, max: LIMITS.shortText * 2, path: "invite" });
+  if (/[\x00-\x1f]/.test(uid)) {
+    throw invalid("invite.uid", "Expected the UID of the invite.");
+  }
+  if (invite.sequence !== undefined && !(Number.isInteger(invite.sequence) && (invite.sequence as number) >= 0)) {
+    throw invalid("invite.sequence", "Expected a whole number of 0 or more.");
+  }
+  if (typeof invite.allDay !== "boolean") {
+    throw invalid("invite.allDay", "Expected a boolean.");
+  }
+  if (invite.attendees !== undefined && !Array.isArray(invite.attendees)) {
+    throw invalid("invite.attendees", "Expected an array of attendees.");
+  }
+  const attendees = (invite.attendees as unknown[] | undefined) ?? [];
+  if (attendees.length > LIMITS.recipients) {
+    throw tooLarge("invite.attendees", `At most ${LIMITS.recipients} attendees are allowed.`);
+  }
+
+  return {
+    mode: "invite-response",
+    invite: {
+      uid,
+      sequence: (invite.sequence as number | undefined) ?? 0,
+      method: expectString(invite, "method", { max: 40, path: "invite" }) || "REQUEST",
+      summary: expectString(invite, "summary", { max: LIMITS.shortText * 2, path: "invite" }) || undefined,
+      location: expectString(invite, "location", { max: LIMITS.shortText * 2, path: "invite" }) || undefined,
+      organizer:
+        invite.organizer === undefined || invite.organizer === null
+          ? undefined
+          : readCalendarAttendee(invite.organizer, "invite.organizer"),
+      attendees: attendees.map((entry, index) => readCalendarAttendee(entry, `invite.attendees[${index}]`)),
+      ...readSlot(invite, "invite"),
+      allDay: invite.allDay,
+    },
+    action,
+    attendee:
+      body.attendee === undefined || body.attendee === null
+        ? undefined
+        : readCalendarAttendee(body.attendee, "attendee"),
+    slot,
+    comment: expectString(body, "comment", { max: LIMITS.shortText * 2 }) || undefined,
+  };
+}
+
+function readSlot(value: unknown, path: string): TimeSlot {
+  const slot = expectObject(value, path);
+  const start = expectTimestamp(slot, "start", path);
+  const end = expectTimestamp(slot, "end", path);
+  if (!start || !end) {
+    throw invalid(`${path}.${start ? "end" : "start"}`, "This field is required.");
+  }
+  if (Date.parse(end) <= Date.parse(start)) {
+    throw invalid(`${path}.end`, "Must be after the start.");
+  }
+  return { start, end };
+}
+
+function readCalendarAttendee(value: unknown, path: string): CalendarAttendee {
+  const attendee = expectObject(value, path);
+  const address = expectString(attendee, "address", { required: true, max: LIMITS.shortText, path });
+  if (!EMAIL_ADDRESS.test(address)) {
+    throw invalid(`${path}.address`, "Expected an email address such as name@example.com.");
+  }
+  return {
+    // Names end up in a parameter of a single content line.
+    name: expectString(attendee, "name", { max: LIMITS.shortText, path })?.replace(/\s+/g, " ") || undefined,
+    address,
+    status: expectString(attendee, "status", { max: 40, path }) || undefined,
+  };
+}
+
+function readThreadFields(body: Record<string, unknown>) {
+  if (body.fromSelf !== undefined && typeof body.fromSelf !== "boolean") {
+    throw invalid("fromSelf", "Expected a boolean.");
+  }
+  return {
+    threadHistory: expectString(body, "threadHistory", { max: LIMITS.threadHistory }) || undefined,
+    persona: expectString(body, "persona", { max: LIMITS.shortText }) || undefined,
+    timeZone: expectTimeZone(body, "timeZone"),
+    replyLanguage: expectLanguage(body, "replyLanguage"),
+    summaryLength: expectSummaryLength(body, "summaryLength"),
+    thread: readThread(body.thread),
+    fromSelf: body.fromSelf as boolean | undefined,
+  };
+}
+
+function readThread(value: unknown): ThreadMessage[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    throw invalid("thread", "Expected an array of messages.");
+  }
+  if (value.length > LIMITS.threadMessages) {
+    throw tooLarge("thread", `A thread can include at most ${LIMITS.threadMessages} messages.`);
+  }
+
+  return value.map((entry, index) => {
+    const path = `thread[${index}]`;
+    const message = expectObject(entry, path);
+    const timestamp = expectTimestamp(message, "timestamp", path);
+    if (message.fromSelf !== undefined && typeof message.fromSelf !== "boolean") {
+      throw invalid(`${path}.fromSelf`, "Expected a boolean.");
+    }
+    return {
+      sender: expectString(message, "sender", { required: true, max: LIMITS.shortText, path }),
+      body: expectString(message, "body", { required: true, max: LIMITS.content, path }),
+      timestamp,
+      fromSelf: message.fromSelf as boolean | undefined,
+    };
+  });
+}
+
+// Each entry is one address, so a stray comma cannot add a recipient nobody previewed.
+function expectRecipients(body: Record<string, unknown>, key: string): string[] {
+  return expectStringArray(body, key, LIMITS.recipients).map((entry, index) => {
+    const parsed = parseAddressList(entry);
+    if (parsed.length !== 1 || !EMAIL_ADDRESS.test(parsed[0].address)) {
+      throw invalid(`${key}[${index}]`, "Expected one email address such as name@example.com.");
+    }
+    return entry.trim();
+  });
+}
+
+// Message-IDs travel without angle brackets, like EmailHeaders.messageId.
+function readMessageId(value: string | undefined, path: string): string | undefined {
+  const id = value?.trim().replace(/^<|>$/g, "");
+  if (id && /[\s<>]/.test(id)) {
+    throw invalid(path, "Expected a Message-ID such as abc123@mail.example.com.");
+  }
+  return id || undefined;
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw invalid(path, "Expected a JSON object.");
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectString(
+  body: Record<string, unknown>,
+  key: string,
+  options: { required: true; max: number; trim?: boolean; path?: string },
+): string;
+function expectString(
+  body: Record<string, unknown>,
+  key: string,
+  options: { required?: false; max: number; trim?: boolean; path?: string },
+): string | undefined;
+function expectString(
+  body: Record<string, unknown>,
+  key: string,
+  options: { required?: boolean; max: number; trim?: boolean; path?: string },
+): string | undefined {
+  const path = options.path ? `${options.path}.${key}` : key;
+  const value = body[key];
+
+  if (value === undefined || value === null) {
+    if (options.required) throw invalid(path, "This field is required.");
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw invalid(path, "Expected a string.");
+  }
+  if (value.length > options.max) {
+    throw tooLarge(path, `Must be at most ${options.max.toLocaleString("en-US")} characters.`);
+  }
+
+  const normalized = options.trim === false ? value : value.trim();
+  if (options.required && !normalized.trim()) {
+    throw invalid(path, "This field cannot be empty.");
+  }
+  return normalized;
+}
+
+function expectStringArray(body: Record<string, unknown>, key: string, maxItems: number): string[] {
+  const value = body[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw invalid(key, "Expected an array of strings.");
+  }
+  if (value.length > maxItems) {
+    throw tooLarge(key, `At most ${maxItems} entries are allowed.`);
+  }
+  return value.map((entry, index) => {
+    const path = `${key}[${index}]`;
+    if (typeof entry !== "string") {
+      throw invalid(path, "Expected a string.");
+    }
+    if (entry.length > LIMITS.shortText * 2) {
+      throw tooLarge(path, `Must be at most ${LIMITS.shortText * 2} characters.`);
+    }
+    return entry;
+  });
+}
+
+function expectTimestamp(
+  body: Record<string, unknown>,
+  key: string,
+  parent?: string,
+): string | undefined {
+  const value = expectString(body, key, { max: 100, path: parent });
+  if (value && Number.isNaN(Date.parse(value))) {
+    throw invalid(parent ? `${parent}.${key}` : key, "Expected an ISO 8601 timestamp.");
+  }
+  return value || undefined;
+}
+
+function expectTimeZone(body: Record<string, unknown>, key: string): string | undefined {
+  const value = expectString(body, key, { max: 100 });
+  if (value && !isValidTimeZone(value)) {
+    throw invalid(key, "Expected an IANA time zone such as America/New_York.");
+  }
+  return value || undefined;
+}
+
+function expectLanguage(body: Record<string, unknown>, key: string): Language | undefined {
+  const value = body[key];
+  if (value === undefined || value === null || value === "") return undefined;
+  if (!isLanguage(value)) {
+    throw invalid(key, `Expected one of: ${LANGUAGES.join(", ")}.`);
+  }
+  return value;
+}
+
+function expectSummaryLength(body: Record<string, unknown>, key: string): SummaryLength | undefined {
+  const value = body[key];
+  if (value === undefined || value === null || value === "") return undefined;
+  if (!SUMMARY_LENGTHS.includes(value as SummaryLength)) {
+    throw invalid(key, `Expected one of: ${SUMMARY_LENGTHS.join(", ")}.`);
+  }
+  return value as SummaryLength;
+}
+
+function expectTone(value: unknown, path: string): Tone {
+  if (typeof value !== "string" || value.length > 40 || !TONE_ID.test(value)) {
+    throw invalid(path, "Expected a tone id such as professional or legal-careful.");
+  }
+  return value;
+}
+
+function invalid(path: string, message: string): SchemaError {
+  return new SchemaError({ code: "invalid_request", message, path });
+}
+
+function tooLarge(path: string, message: string): SchemaError {
+  return new SchemaError({ code: "payload_too_large", message, path });
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { segmentMessage, toSourceOffset } from "@/lib/segment";
+
+describe("segmentMessage", () => {
+  it("separates the new text from a Gmail reply header and quoted lines", () => {
+    const message = [
+      "Sounds good, see you then.",
+      "",
+      "On Mon, Mar 2, 2026 at 10:00 AM Priya Shah <priya@example.com>",
+      "wrote:",
+      "> Can we meet on Friday?",
+      "> Priya",
+    ].join("\n");
+
+    const segmented = segmentMessage(message);
+    expect(segmented.latest).toBe("Sounds good, see you then.");
+    expect(segmented.quoted).toBe(
+      "On Mon, Mar 2, 2026 at 10:00 AM Priya Shah <priya@example.com>\nwrote:\nCan we meet on Friday?\nPriya",
+    );
+  });
+
+  it("starts the quoted history at an Outlook header block", () => {
+    const message = "Done.\n\nFrom: Priya Shah\nSent: Monday, March 2, 2026\nSubject: Deck\n\nPlease send the deck.";
+    expect(segmentMessage(message).latest).toBe("Done.");
+    expect(segmentMessage(message).quoted).toContain("Please send the deck.");
+  });
+
+  it("splits off a signature after the standard delimiter or a device line", () => {
+    expect(segmentMessage("Works for me.\n-- \nSam Lee\n+1 555 0100")).toMatchObject({
+      latest: "Works for me.",
+      signature: "-- \nSam Lee\n+1 555 0100",
+    });
+    expect(segmentMessage("Works for me.\n\nSent from my iPhone").signature).toBe("Sent from my iPhone");
+  });
+
+  it("treats a sign-off followed by name and title lines as the signature", () => {
+    const segmented = segmentMessage(
+      "Hi Sam,\n\nCan you send the deck by Friday?\n\nBest regards,\nPriya Shah\nHead of Sales, Acme Inc.",
+    );
+    expect(segmented.latest).toBe("Hi Sam,\n\nCan you send the deck by Friday?");
+    expect(segmented.signature).toBe("Best regards,\nPriya Shah\nHead of Sales, Acme Inc.");
+  });
+
+  it("keeps a sign-off word that is followed by a question or request in the message", () => {
+    const message = "Hi Sam,\nThanks!\nCan you send the deck by Friday?\nPriya";
+    expect(segmentMessage(message)).toMatchObject({ latest: message, signature: undefined });
+
+    const request = "Hi Sam,\nThanks\nPlease send the deck by Friday.\nPriya";
+    expect(segmentMessage(request).latest).toBe(request);
+  });
+
+  it("splits off trailing legal paragraphs as the disclaimer", () => {
+    const segmented = segmentMessage(
+      [
+        "Please review the attached contract.",
+        "",
+        "Thanks,",
+        "Priya",
+        "",
+        "CONFIDENTIALITY NOTICE: This email and any attachments are confidential and",
+        "intended solely for the use of the named recipient.",
+        "",
+        "If you have received this message in error, please delete it.",
+      ].join("\n"),
+    );
+    expect(segmented.latest).toBe("Please review the attached contract.");
+    expect(segmented.signature).toBe("Thanks,\nPriya");
+    expect(segmented.disclaimer).toBe(
+      "CONFIDENTIALITY NOTICE: This email and any attachments are confidential and\n" +
+        "intended solely for the use of the named recipient.\n\n" +
+        "If you have received this message in error, please delete it.",
+    );
+  });
+
+  it("keeps a passing mention of confidentiality in the body", () => {
+    const message = "Hi Sam,\n\nThis is confidential, so please send the signed contract by Friday.\n\nThanks";
+    expect(segmentMessage(message)).toMatchObject({
+      latest: "Hi Sam,\n\nThis is confidential, so please send the signed contract by Friday.",
+      disclaimer: undefined,
+    });
+  });
+
+  it("only takes legal language that closes the message", () => {
+    const message = [
+      "Hi Sam,",
+      "",
+      "This email is confidential, but I need the numbers by Friday.",
+      "",
+      "Can you also book the room?",
+    ].join("\n");
+    expect(segmentMessage(message)).toMatchObject({ latest: message, disclaimer: undefined });
+  });
+});
+
+describe("toSourceOffset", () => {
+  it("maps offsets in the latest text back to the original message", () => {
+    const message = "> quoted first\n\nPlease send the deck.\n\nBest,\nPriya";
+    const segmented = segmentMessage(message);
+    const offset = segmented.latest.indexOf("deck");
+    expect(toSourceOffset(segmented.segments, offset)).toBe(message.indexOf("deck"));
+  });
+});
@@ -0,0 +1,197 @@
+export type SegmentKind = "reply" | "quoted" | "signature" | "disclaimer";
+
+export type MessageSegment = {
+  kind: SegmentKind;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type SegmentedMessage = {
+  segments: MessageSegment[];
+  latest: string;
+  quoted: string;
+  signature?: string;
+  disclaimer?: string;
+};
+
+const REPLY_HEADER = /^On\b.{0,200}\bwrote:\s*$/i;
+
+const QUOTE_SEPARATORS = [
+  REPLY_HEADER,
+  /^-{2,}\s*(Original|Forwarded) Message\s*-{2,}$/i,
+  /^_{10,}$/,
+];
+
+const SIGN_OFFS =
+  /^(best|best regards|kind regards|warm regards|regards|thanks|thank you|many thanks|cheers|sincerely|all the best|talk soon|br)[,.!]?\s*$/i;
+
+const DEVICE_SIGNATURES = /^(sent from my|get outlook for)\b/i;
+
+// Legal boilerplate, not a passing "this is confidential" in the body of the email.
+const DISCLAIMER_HINTS =
+  /\b((this|the) (e-?mail|message|communication|transmission)\b.{0,80}\b(is|are|may be|contains?|may contain)\b.{0,40}\b(confidential|privileged)|confidentiality (notice|note|warning)|privileged (and|&) confidential|intended (solely )?for the (use of the )?(named )?(recipient|addressee|individual)|received this (e-?mail|message|communication) in error|not the intended recipient)\b/i;
+
+// Lines after a sign-off that still ask something belong to the message, not the signature.
+const REQUEST_HINTS = /\?|\b(please|can you|could you|would you|will you|let me know|kindly|i need|we need)\b/i;
+
+type Line = { text: string; start: number; end: number };
+
+export function segmentMessage(content: string): SegmentedMessage {
+  const lines = splitLines(content);
+  const kinds: SegmentKind[] = lines.map(() => "reply");
+
+  const quoteStart = findQuoteStart(lines);
+  for (let index = 0; index < lines.length; index += 1) {
+    if (index >= quoteStart || lines[index].text.trimStart().startsWith(">")) {
+      kinds[index] = "quoted";
+    }
+  }
+
+  // Signatures and disclaimers only live in the new text above the quoted history.
+  const firstQuoted = kinds.indexOf("quoted");
+  const newTextEnd = firstQuoted === -1 ? lines.length : firstQuoted;
+  const disclaimerStart = findDisclaimerStart(lines, newTextEnd);
+  const signatureStart = findSignatureStart(lines, disclaimerStart ?? newTextEnd);
+
+  if (disclaimerStart !== undefined) {
+    kinds.fill("disclaimer", disclaimerStart, newTextEnd);
+  }
+  if (signatureStart !== undefined) {
+    kinds.fill("signature", signatureStart, disclaimerStart ?? newTextEnd);
+  }
+
+  const segments = mergeLines(content, lines, kinds);
+  const textOf = (kind: SegmentKind) =>
+    segments
+      .filter((segment) => segment.kind === kind)
+      .map((segment) => segment.text.trim())
+      .filter(Boolean)
+      .join("\n\n");
+
+  return {
+    segments,
+    latest: textOf("reply"),
+    quoted: textOf("quoted")
+      .split("\n")
+      .map((line) => line.replace(/^\s*(>\s?)+/, ""))
+      .join("\n")
+      .trim(),
+    signature: textOf("signature") || undefined,
+    disclaimer: textOf("disclaimer") || undefined,
+  };
+}
+
+/**
+ * Maps an offset in `latest` back to the original message. `latest` joins the
+ * trimmed reply segments with blank lines; offsets inside those separators
+ * snap to the start of the next segment.
+ */
+export function toSourceOffset(segments: MessageSegment[], offset: number): number {
+  let position = 0;
+  let sourceEnd = 0;
+  for (const segment of segments) {
+    const trimmed = segment.kind === "reply" ? segment.text.trim() : "";
+    if (!trimmed) continue;
+
+    const sourceStart = segment.start + segment.text.indexOf(trimmed);
+    if (position > 0) position += 2;
+    if (offset <= position + trimmed.length) {
+      return sourceStart + Math.max(0, offset - position);
+    }
+    position += trimmed.length;
+    sourceEnd = sourceStart + trimmed.length;
+  }
+  return sourceEnd;
+}
+
+function splitLines(content: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const text of content.split("\n")) {
+    lines.push({ text: text.replace(/\r$/, ""), start, end: start + text.length + 1 });
+    start += text.length + 1;
+  }
+  lines[lines.length - 1].end = content.length;
+  return lines;
+}
+
+function findQuoteStart(lines: Line[]): number {
+  for (let index = 0; index < lines.length; index += 1) {
+    const text = lines[index].text.trim();
+    // Gmail wraps long "On <date>, <name> wrote:" headers onto a second line.
+    const joined = `${text} ${lines[index + 1]?.text.trim() ?? ""}`;
+
+    if (QUOTE_SEPARATORS.some((pattern) => pattern.test(text))) {
+      return index;
+    }
+    if (/^On\b/i.test(text) && REPLY_HEADER.test(joined)) {
+      return index;
+    }
+    // Outlook-style blocks: a "From:" line followed closely by "Sent:" or "Date:".
+    if (
+      index > 0 &&
+      /^From:\s/i.test(text) &&
+      lines
+        .slice(index + 1, index + 4)
+        .some((line) => /^(Sent|Date):\s/i.test(line.text.trim()))
+    ) {
+      return index;
+    }
+  }
+  return lines.length;
+}
+
+// Disclaimers close a message: only the trailing paragraphs that carry legal language count.
+function findDisclaimerStart(lines: Line[], end: number): number | undefined {
+  let start: number | undefined;
+  let paragraphEnd = end;
+  while (paragraphEnd > 0) {
+    while (paragraphEnd > 0 && !lines[paragraphEnd - 1].text.trim()) paragraphEnd -= 1;
+    let paragraphStart = paragraphEnd;
+    while (paragraphStart > 0 && lines[paragraphStart - 1].text.trim()) paragraphStart -= 1;
+    const paragraph = lines.slice(paragraphStart, paragraphEnd).map((line) => line.text.trim()).join(" ");
+    if (paragraphStart === paragraphEnd || !DISCLAIMER_HINTS.test(paragraph)) break;
+    start = paragraphStart;
+    paragraphEnd = paragraphStart;
+  }
+  // A message that is nothing but legal language is still the message.
+  return start && start > 0 ? start : undefined;
+}
+
+function findSignatureStart(lines: Line[], end: number): number | undefined {
+  for (let index = 0; index < end; index += 1) {
+    const text = lines[index].text;
+    if (text === "-- " || text.trim() === "--" || DEVICE_SIGNATURES.test(text.trim())) {
+      return index;
+    }
+  }
+
+  // A sign-off followed by a handful of short lines (name, title, phone) is a signature.
+  for (let index = Math.max(0, end - 8); index < end; index += 1) {
+    if (!SIGN_OFFS.test(lines[index].text.trim())) continue;
+    const tail = lines.slice(index + 1, end).map((line) => line.text.trim()).filter(Boolean);
+    if (tail.length <= 6 && tail.every((line) => line.length <= 60 && !REQUEST_HINTS.test(line))) {
+      return index;
+    }
+  }
+  return undefined;
+}
+
+function mergeLines(content: string, lines: Line[], kinds: SegmentKind[]): MessageSegment[] {
+  const segments: MessageSegment[] = [];
+  lines.forEach((line, index) => {
+    const previous = segments[segments.length - 1];
+    // Blank lines stick to the segment above them so boundaries land on real text.
+    if (previous && (previous.kind === kinds[index] || !line.text.trim())) {
+      previous.end = line.end;
+      return;
+    }
+    segments.push({ kind: kinds[index], start: line.start, end: line.end, text: "" });
+  });
+
+  return segments.map((segment) => ({
+    ...segment,
+    text: content.slice(segment.start, segment.end),
+  }));
+}
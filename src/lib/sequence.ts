@@ -0,0 +1,55 @@
+import type { SequenceRequest, SequenceStep, Tone } from "@/lib/schema";
+
+export type SequencePlan = {
+  dayOffsets: number[];
+  followUpTones: Tone[];
+};
+
+// Ordered from softest to firmest; follow-ups climb toward the end of the ladder.
+// Custom tones are not on the ladder, so their follow-ups escalate from the bottom.
+const ESCALATION: Tone[] = ["warm", "friendly", "professional", "concise", "assertive"];
+
+const DEFAULT_DAY_OFFSETS = [3, 7, 14, 21, 30];
+
+const DEFAULT_FOLLOW_UPS = 2;
+
+/**
+ * Fills in the follow-up count, send days, and tones the request left out.
+ * Unspecified tones escalate evenly from the opening tone so the last touch is
+ * always the firmest (friendly → concise → assertive for two follow-ups).
+ */
+export function planSequence(request: SequenceRequest): SequencePlan {
+  const count =
+    request.followUps ??
+    request.dayOffsets?.length ??
+    request.followUpTones?.length ??
+    DEFAULT_FOLLOW_UPS;
+  return {
+    dayOffsets: request.dayOffsets ?? DEFAULT_DAY_OFFSETS.slice(0, count),
+    followUpTones: request.followUpTones ?? escalateTones(request.tone, count),
+  };
+}
+
+export function escalateTones(start: Tone, count: number): Tone[] {
+  const from = ESCALATION.indexOf(start);
+  const remaining = ESCALATION.length - 1 - from;
+  return Array.from({ length: count }, (_, index) => {
+    const step = Math.ceil((remaining * (index + 1)) / count);
+    return ESCALATION[Math.min(from + step, ESCALATION.length - 1)];
+  });
+}
+
+export function formatSequenceMarkdown(steps: SequenceStep[]): string {
+  return steps
+    .map((step, index) =>
+      [
+        `## ${index === 0 ? "Initial email" : `Follow-up ${index}`} (day ${step.dayOffset}, ${step.tone})`,
+        "",
+        `**Subject:** ${step.subject}`,
+        "",
+        step.body.trim(),
+        "",
+      ].join("\n"),
+    )
+    .join("\n");
+}
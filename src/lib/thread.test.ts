@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { AnalyzedThreadMessage, buildThreadRollup, sortThread, ThreadMessage } from "@/lib/thread";
+
+function analyzed(
+  message: ThreadMessage,
+  tasks: AnalyzedThreadMessage["tasks"] = [],
+): AnalyzedThreadMessage {
+  return { message, summary: message.body, sentiment: "neutral", sentimentScore: 0, priority: "medium", tasks };
+}
+
+const ASK = analyzed({ sender: "Priya", body: "Can you send the signed contract by Friday?" }, [
+  { description: "Send the signed contract by Friday" },
+]);
+
+describe("buildThreadRollup", () => {
+  it("resolves an ask when someone else later reports it done", () => {
+    const rollup = buildThreadRollup([
+      ASK,
+      analyzed({ sender: "Sam", body: "Done, the signed contract is attached.", fromSelf: true }),
+    ]);
+    expect(rollup.asks).toEqual([
+      expect.objectContaining({ askedBy: "Priya", resolved: true, resolvedBy: { messageIndex: 1, sender: "Sam" } }),
+    ]);
+    expect(rollup.status).toBe("resolved");
+    expect(rollup.participants).toEqual(["Priya", "Sam"]);
+  });
+
+  it("waits on us while their ask is open", () => {
+    expect(buildThreadRollup([ASK]).status).toBe("waiting-on-us");
+  });
+
+  it("waits on them after we ask something last", () => {
+    const rollup = buildThreadRollup([
+      ASK,
+      analyzed({ sender: "Sam", body: "Sent it over. Can you confirm the delivery date?", fromSelf: true }, [
+        { description: "Confirm the delivery date" },
+      ]),
+    ]);
+    expect(rollup.status).toBe("waiting-on-them");
+  });
+
+  it("plots the continuous score, so a cooling thread declines before any message turns negative", () => {
+    const rollup = buildThreadRollup(
+      [0.04, -0.02, -0.3, -0.45].map((sentimentScore, index) => ({
+        ...analyzed({ sender: index % 2 ? "Sam" : "Priya", body: "Noted." }),
+        sentimentScore,
+      })),
+    );
+    expect(rollup.sentimentTrajectory.points.map((point) => point.score)).toEqual([0.04, -0.02, -0.3, -0.45]);
+    expect(rollup.sentimentTrajectory.trend).toBe("declining");
+  });
+});
+
+describe("sortThread", () => {
+  it("orders by timestamp only when every message has one", () => {
+    const late = { sender: "A", body: "late", timestamp: "2026-03-02T12:00:00Z" };
+    const early = { sender: "B", body: "early", timestamp: "2026-03-02T09:00:00Z" };
+    expect(sortThread([late, early])).toEqual([early, late]);
+    expect(sortThread([late, { sender: "C", body: "undated" }])).toEqual([late, { sender: "C", body: "undated" }]);
+  });
+});
@@ -0,0 +1,192 @@
+import type { Sentiment } from "@/lib/engine/types";
+
+export type ThreadMessage = {
+  sender: string;
+  timestamp?: string;
+  body: string;
+  fromSelf?: boolean;
+};
+
+export type AnalyzedThreadMessage = {
+  message: ThreadMessage;
+  summary: string;
+  sentiment: Sentiment;
+  /** From -1 (negative) to 1 (positive), as in the sentiment explanation. */
+  sentimentScore: number;
+  priority: "low" | "medium" | "high";
+  tasks: { description: string; due?: string; dueDate?: string; owner?: string }[];
+};
+
+export type ThreadAsk = {
+  messageIndex: number;
+  askedBy: string;
+  description: string;
+  due?: string;
+  dueDate?: string;
+  resolved: boolean;
+  resolvedBy?: { messageIndex: number; sender: string };
+};
+
+export type ThreadStatus = "waiting-on-us" | "waiting-on-them" | "resolved";
+
+export type ThreadRollup = {
+  messages: {
+    sender: string;
+    timestamp?: string;
+    fromSelf: boolean;
+    summary: string;
+    sentiment: Sentiment;
+    priority: "low" | "medium" | "high";
+  }[];
+  asks: ThreadAsk[];
+  sentimentTrajectory: {
+    points: { messageIndex: number; sentiment: Sentiment; score: number }[];
+    trend: "improving" | "declining" | "steady";
+  };
+  status: ThreadStatus;
+  participants: string[];
+};
+
+const COMPLETION_WORDS =
+  /\b(done|sent|attached|completed|finished|shipped|fixed|resolved|confirmed|updated|merged|published|signed|approved|handled|taken care of|here (is|are)|here's)\b/i;
+
+const STOP_WORDS = new Set([
+  "about",
+  "also",
+  "before",
+  "could",
+  "from",
+  "have",
+  "into",
+  "just",
+  "know",
+  "let",
+  "make",
+  "please",
+  "should",
+  "that",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "those",
+  "when",
+  "will",
+  "with",
+  "would",
+  "your",
+]);
+
+export function buildThreadRollup(analyzed: AnalyzedThreadMessage[]): ThreadRollup {
+  const asks: ThreadAsk[] = analyzed.flatMap((entry, messageIndex) =>
+    entry.tasks.map((task) => ({
+      messageIndex,
+      askedBy: entry.message.sender,
+      description: task.description,
+      due: task.due,
+      dueDate: task.dueDate,
+      resolved: false,
+    })),
+  );
+
+  for (const ask of asks) {
+    const keywords = significantWords(ask.description);
+    const resolver = analyzed.findIndex(
+      (entry, index) =>
+        keywords.size > 0 &&
+        index > ask.messageIndex &&
+        entry.message.sender !== ask.askedBy &&
+        COMPLETION_WORDS.test(entry.message.body) &&
+        overlap(keywords, significantWords(entry.message.body)) >=
+          Math.min(2, keywords.size),
+    );
+    if (resolver !== -1) {
+      ask.resolved = true;
+      ask.resolvedBy = { messageIndex: resolver, sender: analyzed[resolver].message.sender };
+    }
+  }
+
+  const points = analyzed.map((entry, messageIndex) => ({
+    messageIndex,
+    sentiment: entry.sentiment,
+    score: entry.sentimentScore,
+  }));
+
+  return {
+    messages: analyzed.map((entry) => ({
+      sender: entry.message.sender,
+      timestamp: entry.message.timestamp,
+      fromSelf: Boolean(entry.message.fromSelf),
+      summary: entry.summary,
+      sentiment: entry.sentiment,
+      priority: entry.priority,
+    })),
+    asks,
+    sentimentTrajectory: { points, trend: trendOf(points.map((point) => point.score)) },
+    status: statusOf(analyzed, asks),
+    participants: Array.from(new Set(analyzed.map((entry) => entry.message.sender))),
+  };
+}
+
+export function sortThread(messages: ThreadMessage[]): ThreadMessage[] {
+  // Only reorder when every message carries a parseable timestamp; otherwise trust the submitted order.
+  const times = messages.map((message) => Date.parse(message.timestamp ?? ""));
+  if (times.some((time) => Number.isNaN(time))) {
+    return messages;
+  }
+  return messages
+    .map((message, index) => ({ message, time: times[index] }))
+    .sort((a, b) => a.time - b.time)
+    .map((entry) => entry.message);
+}
+
+function statusOf(analyzed: AnalyzedThreadMessage[], asks: ThreadAsk[]): ThreadStatus {
+  const last = analyzed[analyzed.length - 1];
+  if (!last) return "resolved";
+
+  const openAsks = asks.filter((ask) => !ask.resolved);
+  if (openAsks.length === 0 && !/\?\s*$/m.test(last.message.body)) {
+    return "resolved";
+  }
+
+  const lastIndex = analyzed.length - 1;
+  const openFromThem = openAsks.some(
+    (ask) => !analyzed[ask.messageIndex].message.fromSelf,
+  );
+  if (last.message.fromSelf) {
+    return openAsks.some((ask) => ask.messageIndex === lastIndex) || !openFromThem
+      ? "waiting-on-them"
+      : "waiting-on-us";
+  }
+  return "waiting-on-us";
+}
+
+function trendOf(scores: number[]): ThreadRollup["sentimentTrajectory"]["trend"] {
+  if (scores.length < 2) return "steady";
+  const half = Math.ceil(scores.length / 2);
+  const average = (values: number[]) =>
+    values.reduce((total, value) => total + value, 0) / Math.max(values.length, 1);
+  const delta = average(scores.slice(-half)) - average(scores.slice(0, half));
+  if (delta > 0.25) return "improving";
+  if (delta < -0.25) return "declining";
+  return "steady";
+}
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z][a-z'-]{3,}/g) ?? [])
+      .filter((word) => !STOP_WORDS.has(word))
+      .map((word) => word.replace(/(ing|ed|es|s)$/, "")),
+  );
+}
+
+function overlap(left: Set<string>, right: Set<string>): number {
+  let shared = 0;
+  for (const word of left) {
+    if (right.has(word)) shared += 1;
+  }
+  return shared;
+}
@@ -0,0 +1,29 @@
+import { getDatabase } from "@/lib/db";
+import type { ToneTemplate } from "@/lib/engine/types";
+import { createSqliteToneRepository } from "./sqlite";
+import { DEFAULT_TONES } from "./templates";
+import type { ToneRepository } from "./types";
+
+export type * from "./types";
+export { createSqliteToneRepository } from "./sqlite";
+export { DEFAULT_TONES, renderTemplate, TEMPLATE_PLACEHOLDERS } from "./templates";
+
+let repository: ToneRepository | undefined;
+
+export function getToneRepository(): ToneRepository {
+  repository ??= createSqliteToneRepository(getDatabase());
+  return repository;
+}
+
+/**
+ * Loads the tone library for drafting. Analysis should keep working when the
+ * store is unavailable, so failures fall back to the built-in tones.
+ */
+export async function loadToneLibrary(): Promise<ToneTemplate[]> {
+  try {
+    return await getToneRepository().list();
+  } catch (error) {
+    console.warn("Tone library unavailable, using built-in tones", error);
+    return DEFAULT_TONES;
+  }
+}
@@ -0,0 +1,94 @@
+import type Database from "better-sqlite3";
+import type { ToneTemplate } from "@/lib/engine/types";
+import { DEFAULT_TONES } from "./templates";
+import type { ToneRepository } from "./types";
+
+type ToneRow = {
+  id: string;
+  label: string;
+  description: string;
+  greeting: string;
+  subject: string;
+  opening: string;
+  closing: string;
+  sign_off: string;
+  built_in: number;
+};
+
+const MIGRATION = `
+CREATE TABLE IF NOT EXISTS tones (
+  id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT NOT NULL,
+  greeting TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  opening TEXT NOT NULL,
+  closing TEXT NOT NULL,
+  sign_off TEXT NOT NULL,
+  built_in INTEGER NOT NULL DEFAULT 0
+);
+`;
+
+const INSERT = `INSERT INTO tones (id, label, description, greeting, subject, opening, closing, sign_off, built_in)
+  VALUES (@id, @label, @description, @greeting, @subject, @opening, @closing, @signOff, @builtIn)`;
+
+export function createSqliteToneRepository(db: Database.Database): ToneRepository {
+  db.exec(MIGRATION);
+
+  // Seeding is idempotent, so edits to the built-in tones survive restarts.
+  const seed = db.prepare(INSERT.replace("INSERT INTO", "INSERT OR IGNORE INTO"));
+  db.transaction(() => {
+    for (const tone of DEFAULT_TONES) {
+      seed.run(toParams(tone));
+    }
+  })();
+
+  const selectAll = db.prepare<[], ToneRow>("SELECT * FROM tones ORDER BY built_in DESC, rowid");
+  const selectOne = db.prepare<[string], ToneRow>("SELECT * FROM tones WHERE id = ?");
+  const insert = db.prepare(INSERT);
+  const updateOne = db.prepare(
+    `UPDATE tones SET label = @label, description = @description, greeting = @greeting,
+       subject = @subject, opening = @opening, closing = @closing, sign_off = @signOff
+     WHERE id = @id`,
+  );
+  const deleteOne = db.prepare("DELETE FROM tones WHERE id = ? AND built_in = 0");
+
+  return {
+    async list() {
+      return selectAll.all().map(toTemplate);
+    },
+    async get(id) {
+      const row = selectOne.get(id);
+      return row ? toTemplate(row) : undefined;
+    },
+    async create(tone) {
+      insert.run(toParams(tone));
+      return tone;
+    },
+    async update(id, fields) {
+      if (updateOne.run({ ...fields, id }).changes === 0) return undefined;
+      return toTemplate(selectOne.get(id)!);
+    },
+    async remove(id) {
+      return deleteOne.run(id).changes > 0;
+    },
+  };
+}
+
+function toParams(tone: ToneTemplate) {
+  return { ...tone, builtIn: tone.builtIn ? 1 : 0 };
+}
+
+function toTemplate(row: ToneRow): ToneTemplate {
+  return {
+    id: row.id,
+    label: row.label,
+    description: row.description,
+    greeting: row.greeting,
+    subject: row.subject,
+    opening: row.opening,
+    closing: row.closing,
+    signOff: row.sign_off,
+    builtIn: row.built_in === 1,
+  };
+}
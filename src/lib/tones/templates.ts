@@ -0,0 +1,80 @@
+import type { ToneTemplate } from "@/lib/engine/types";
+
+export const TEMPLATE_PLACEHOLDERS = ["audience", "objective", "sender"] as const;
+
+export type TemplateValues = Partial<Record<(typeof TEMPLATE_PLACEHOLDERS)[number], string>>;
+
+/** The tones every library starts with; they can be edited but not deleted. */
+export const DEFAULT_TONES: ToneTemplate[] = [
+  {
+    id: "professional",
+    label: "Professional",
+    description: "Balanced, polite, structured",
+    greeting: "Hello",
+    subject: "Quick follow-up on your message",
+    opening: "Thank you for reaching out. I wanted to follow up on your note.",
+    closing: "Let me know if you need anything else in the meantime and I'll happily assist.",
+    signOff: "Best regards,\n{{sender}}",
+    builtIn: true,
+  },
+  {
+    id: "friendly",
+    label: "Friendly",
+    description: "Warm, personable, relationship-first",
+    greeting: "Hi",
+    subject: "Thanks for the update!",
+    opening: "Thanks a bunch for the message. I wanted to keep the momentum going.",
+    closing: "Looking forward to hearing back when you have a moment.",
+    signOff: "All the best,\n{{sender}}",
+    builtIn: true,
+  },
+  {
+    id: "concise",
+    label: "Concise",
+    description: "Quick bullet summary, direct asks",
+    greeting: "Hello",
+    subject: "Following up",
+    opening: "Appreciate the note. Here's what we'll do next:",
+    closing: "Ping me if priorities change.",
+    signOff: "Best regards,\n{{sender}}",
+    builtIn: true,
+  },
+  {
+    id: "assertive",
+    label: "Assertive",
+    description: "Clear deadlines, crisp accountability",
+    greeting: "Hello",
+    subject: "Action needed",
+    opening: "Thanks for the details. To keep us on schedule we need to tackle the following:",
+    closing: "Please confirm the action items so we can close the loop without delay.",
+    signOff: "Best regards,\n{{sender}}",
+    builtIn: true,
+  },
+  {
+    id: "warm",
+    label: "Warm",
+    description: "Empathetic, supportive, high-touch",
+    greeting: "Hi",
+    subject: "Appreciate the note",
+    opening: "Thank you so much for your thoughtful message. Here's how I'll move things forward:",
+    closing: "Let me know how it all lands—always glad to support where I can.",
+    signOff: "All the best,\n{{sender}}",
+    builtIn: true,
+  },
+];
+
+/**
+ * Fills `{{audience}}`, `{{objective}}` and `{{sender}}` in a template field.
+ * Missing values render as nothing, and the spacing left behind is tidied up.
+ */
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+      (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)
+        ? values[name as keyof TemplateValues]?.trim() ?? ""
+        : match,
+    )
+    .replace(/[ \t]+([,.!?;:])/g, "$1")
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
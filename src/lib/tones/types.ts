@@ -0,0 +1,9 @@
+import type { Tone, ToneTemplate } from "@/lib/engine/types";
+
+export type ToneRepository = {
+  list(): Promise<ToneTemplate[]>;
+  get(id: Tone): Promise<ToneTemplate | undefined>;
+  create(tone: ToneTemplate): Promise<ToneTemplate>;
+  update(id: Tone, fields: Omit<ToneTemplate, "id" | "builtIn">): Promise<ToneTemplate | undefined>;
+  remove(id: Tone): Promise<boolean>;
+};